@@ -1,46 +1,294 @@
-import React, { useState } from 'react';
-import { extractOrdersFromPdf } from './services/geminiService.ts';
-import { ExtractedFileResult, ProcessingStatus } from './types.ts';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { getExtractor } from './services/extractorRegistry.ts';
+import { detectSourceKind } from './utils/fileTypes.ts';
+import { loadNormalizationRules, normalizeResults, saveNormalizationRules } from './services/normalizationService.ts';
+import { createRun, FileJob, hydrateRun, updateRun } from './services/historyService.ts';
+import { buildAudit, extractFiles } from './services/auditPipeline.ts';
+import { toExtractionError } from './services/extractionErrors.ts';
+import { loadExtractionSettings, saveExtractionSettings } from './services/extractionSettings.ts';
+import { loadReportTemplate, saveReportTemplate } from './services/reportTemplate.ts';
+import { loadCustomPlatforms, mergePlatforms, saveCustomPlatforms } from './services/platforms.ts';
+import { loadThresholdRules, saveThresholdRules } from './services/thresholdRules.ts';
+import { clearExtractionCache, countCachedExtractions, createCachedExtractor } from './services/extractionCache.ts';
+import { applyRetention, createNameMasker, isEmptyReport, loadPrivacySettings, purgeCorrections, purgeResults, purgeStoredData, savePrivacySettings } from './services/privacyService.ts';
+import { AuditRun, ExtractedFileResult, ExtractionSettings, Locale, NormalizationRule, OrderCorrection, PlatformDefinition, PrivacySettings, ProcessingStatus, PurgeReport, ReportTemplate, ThresholdRule } from './types.ts';
 import UploadZone from './components/UploadZone.tsx';
 import ResultsTable from './components/ResultsTable.tsx';
-import { Activity, FileCheck, ShieldAlert } from 'lucide-react';
+import RulesSettings from './components/RulesSettings.tsx';
+import ThresholdSettings from './components/ThresholdSettings.tsx';
+import ReportTemplateSettings from './components/ReportTemplateSettings.tsx';
+import PlatformSettings from './components/PlatformSettings.tsx';
+import HistoryPanel from './components/HistoryPanel.tsx';
+import CustomerAnalysis from './components/CustomerAnalysis.tsx';
+import PrivacyPanel from './components/PrivacyPanel.tsx';
+import ExtractionOptions from './components/ExtractionOptions.tsx';
+import FileStatusList from './components/FileStatusList.tsx';
+import { useI18n } from './components/I18nProvider.tsx';
+import { LOCALES } from './services/i18n.ts';
+import { Activity, FileCheck, ShieldAlert, FileSearch, SlidersHorizontal, History, Layers, XCircle, Languages, Palette, Bike, Users, Lock, Bell } from 'lucide-react';
+
+type AppView = 'audit' | 'history' | 'customers' | 'rules' | 'platforms' | 'report' | 'privacy' | 'alerts';
+
+interface ActiveRun {
+  id: string;
+  name: string;
+}
+
+// How often an open session re-applies the retention period
+const RETENTION_CHECK_MS = 60 * 60 * 1000;
 
 const App: React.FC = () => {
   const [status, setStatus] = useState<ProcessingStatus>(ProcessingStatus.IDLE);
   const [results, setResults] = useState<ExtractedFileResult[]>([]);
   const [progress, setProgress] = useState<string>("");
+  const [view, setView] = useState<AppView>('audit');
+  const [rules, setRules] = useState<NormalizationRule[]>(loadNormalizationRules);
+  const [thresholdRules, setThresholdRules] = useState<ThresholdRule[]>(loadThresholdRules);
+  const [conflictResolutions, setConflictResolutions] = useState<Record<string, number>>({});
+  const [corrections, setCorrections] = useState<OrderCorrection[]>([]);
+  const [activeRuns, setActiveRuns] = useState<ActiveRun[]>([]);
+  const [extractionSettings, setExtractionSettings] = useState<ExtractionSettings>(loadExtractionSettings);
+  const [reportTemplate, setReportTemplate] = useState<ReportTemplate>(loadReportTemplate);
+  const [customPlatforms, setCustomPlatforms] = useState<PlatformDefinition[]>(loadCustomPlatforms);
+  const [cachedCount, setCachedCount] = useState<number | null>(null);
+  const [privacy, setPrivacy] = useState<PrivacySettings>(loadPrivacySettings);
+  // Not persisted: revealing names is a decision for this session only
+  const [revealNames, setRevealNames] = useState(false);
+  const [lastAutoPurge, setLastAutoPurge] = useState<PurgeReport | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const { t, locale, setLocale, formatDateTime } = useI18n();
+  // Original files by result id, kept so failed extractions can be retried
+  const filesRef = useRef<Map<string, File>>(new Map());
+  // Read by the hourly retention check, which outlives the render that scheduled it
+  const activeRunsRef = useRef<ActiveRun[]>([]);
+  activeRunsRef.current = activeRuns;
 
-  const handleFilesSelected = async (files: File[]) => {
+  useEffect(() => {
+    saveNormalizationRules(rules);
+  }, [rules]);
+
+  useEffect(() => {
+    saveThresholdRules(thresholdRules);
+  }, [thresholdRules]);
+
+  useEffect(() => {
+    saveExtractionSettings(extractionSettings);
+  }, [extractionSettings]);
+
+  useEffect(() => {
+    saveReportTemplate(reportTemplate);
+  }, [reportTemplate]);
+
+  useEffect(() => {
+    saveCustomPlatforms(customPlatforms);
+  }, [customPlatforms]);
+
+  useEffect(() => {
+    savePrivacySettings(privacy);
+  }, [privacy]);
+
+  // Built-ins plus the custom entries that are complete; drives extraction, validation and badges
+  const platforms = useMemo(() => mergePlatforms(customPlatforms), [customPlatforms]);
+
+  const refreshCachedCount = () => {
+    countCachedExtractions()
+      .then(setCachedCount)
+      .catch(error => console.error('Failed to read the extraction cache:', error));
+  };
+
+  useEffect(refreshCachedCount, []);
+
+  // Undefined when names are shown in full, by setting or by an authorized session
+  const maskName = useMemo(() => (revealNames ? undefined : createNameMasker(privacy)), [revealNames, privacy]);
+
+  // Drops names from what is on screen once they have been purged from storage
+  const purgeOpenAudit = (runIds: string[] | null) => {
+    if (runIds && !activeRunsRef.current.some(r => runIds.includes(r.id))) return;
+    setResults(prev => purgeResults(prev).results);
+    setCorrections(prev => purgeCorrections(prev));
+    filesRef.current = new Map();
+  };
+
+  // Stored runs only; the open audit is recent by definition
+  const runRetention = () => {
+    applyRetention(privacy)
+      ?.then(report => {
+        if (isEmptyReport(report)) return;
+        setLastAutoPurge(report);
+        purgeOpenAudit(report.runIds);
+        refreshCachedCount();
+      })
+      .catch(error => console.error('Failed to apply the retention period:', error));
+  };
+
+  // On start, whenever the period changes and every hour, so a session left open keeps purging
+  useEffect(() => {
+    runRetention();
+    const timer = setInterval(runRetention, RETENTION_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [privacy.retentionDays]);
+
+  const handlePurgeAll = async () => {
+    const report = await purgeStoredData(null);
+    purgeOpenAudit(null);
+    refreshCachedCount();
+    return report;
+  };
+
+  // Keep conflict decisions with the stored run; combined views are not written back
+  useEffect(() => {
+    if (activeRuns.length !== 1) return;
+    updateRun(activeRuns[0].id, { conflictResolutions }).catch(error =>
+      console.error('Failed to persist conflict resolutions:', error)
+    );
+  }, [conflictResolutions, activeRuns]);
+
+  useEffect(() => {
+    if (activeRuns.length !== 1) return;
+    updateRun(activeRuns[0].id, { corrections }).catch(error =>
+      console.error('Failed to persist corrections:', error)
+    );
+  }, [corrections, activeRuns]);
+
+  // Results keep the raw store names, so rule edits re-normalize without a new extraction
+  const normalizedResults = useMemo(() => normalizeResults(results, rules), [results, rules]);
+
+  // The open audit as the table shows it; only the customer analysis needs it here
+  const auditedOrders = useMemo(
+    () => (view === 'customers' ? buildAudit(results, rules, platforms, conflictResolutions, corrections).orders : []),
+    [view, results, rules, platforms, conflictResolutions, corrections]
+  );
+
+  /**
+   * Extracts the given files into their slots of `baseResults`, publishing every
+   * status change so the file list and the table fill in while the queue runs.
+   * Resolves with the final results list. Files already extracted come from the
+   * cache unless `forceRefresh` is set.
+   */
+  const processFiles = async (jobs: FileJob[], baseResults: ExtractedFileResult[], forceRefresh = false) => {
     setStatus(ProcessingStatus.PROCESSING);
-    setResults([]); // Reset previous results
-
-    const newResults: ExtractedFileResult[] = [];
-
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
-      setProgress(`Analisando arquivo ${i + 1} de ${files.length}: ${file.name}...`);
-      
-      try {
-        const orders = await extractOrdersFromPdf(file);
-        newResults.push({
-          fileName: file.name,
-          status: 'success',
-          orders: orders
-        });
-      } catch (error) {
-        newResults.push({
-          fileName: file.name,
-          status: 'error',
-          orders: [],
-          errorMessage: 'Falha ao processar PDF'
-        });
-        console.error(`Error processing ${file.name}:`, error);
-      }
-    }
+    const working = [...baseResults];
+    const update = (id: string, patch: Partial<ExtractedFileResult>) => {
+      const idx = working.findIndex(r => r.id === id);
+      if (idx === -1) return;
+      working[idx] = { ...working[idx], ...patch };
+      setResults([...working]);
+    };
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { concurrency, maxRetries, engine } = extractionSettings;
+    const extractor = createCachedExtractor(getExtractor(engine, platforms), platforms, { forceRefresh });
+    setProgress(t('app.progress.analysing', { count: jobs.length, concurrency }));
+
+    await extractFiles(jobs, extractor, {
+      concurrency,
+      maxRetries,
+      signal: controller.signal,
+      onUpdate: update,
+      onRetry: (job, attempt, delayMs, error) => {
+        setProgress(t('app.progress.retrying', {
+          error: t(`error.${toExtractionError(error).code}`),
+          file: job.file.name,
+          seconds: Math.ceil(delayMs / 1000),
+        }));
+      },
+    });
+    abortControllerRef.current = null;
+    refreshCachedCount();
 
-    setResults(newResults);
     setStatus(ProcessingStatus.COMPLETED);
     setProgress("");
+    return working;
+  };
+
+  const handleFilesSelected = async (files: File[]) => {
+    const jobs: FileJob[] = files.map(file => ({ id: crypto.randomUUID(), file }));
+    const initial: ExtractedFileResult[] = jobs.map(job => ({
+      id: job.id,
+      fileName: job.file.name,
+      sourceKind: detectSourceKind(job.file) ?? undefined,
+      status: 'queued',
+      orders: [],
+    }));
+
+    filesRef.current = new Map(jobs.map(job => [job.id, job.file]));
+    setResults(initial); // Reset previous results
+    setConflictResolutions({});
+    setCorrections([]);
+    setActiveRuns([]);
+
+    const finalResults = await processFiles(jobs, initial);
+
+    try {
+      const run = await createRun(jobs, finalResults, rules, {}, [], t('history.defaultName', { date: formatDateTime(new Date()) }));
+      setActiveRuns([{ id: run.id, name: run.name }]);
+      runRetention();
+    } catch (error) {
+      console.error('Failed to save audit run to history:', error);
+    }
+  };
+
+  // Failed files are retried through the cache too; re-extraction bypasses it
+  const handleRetry = async (ids: string[], forceRefresh = false) => {
+    const jobs = ids.flatMap(id => {
+      const file = filesRef.current.get(id);
+      return file ? [{ id, file }] : [];
+    });
+    if (jobs.length === 0) return;
+
+    const finalResults = await processFiles(jobs, results, forceRefresh);
+    if (activeRuns.length === 1) {
+      updateRun(activeRuns[0].id, { results: finalResults }).catch(error =>
+        console.error('Failed to persist retried results:', error)
+      );
+    }
+  };
+
+  const handleClearCache = async () => {
+    try {
+      await clearExtractionCache();
+    } catch (error) {
+      console.error('Failed to clear the extraction cache:', error);
+    }
+    refreshCachedCount();
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    setProgress(t('app.progress.cancelling'));
+  };
+
+  const handleOpenRuns = (runs: AuditRun[]) => {
+    const hydrated = runs.map(hydrateRun);
+    filesRef.current = new Map(hydrated.flatMap(h => h.files).map(job => [job.id, job.file]));
+    setResults(hydrated.flatMap(h => h.results));
+    // Variant indexes are only meaningful within a single run
+    setConflictResolutions(runs.length === 1 ? runs[0].conflictResolutions : {});
+    // Corrections are keyed on platform + order number, so they still apply when runs are combined
+    setCorrections(
+      runs.flatMap(r => r.corrections ?? []).sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    );
+    setActiveRuns(runs.map(r => ({ id: r.id, name: r.name })));
+    setStatus(ProcessingStatus.COMPLETED);
+    setView('audit');
+  };
+
+  const handleResolveConflict = (key: string, variantIndex: number | undefined) => {
+    setConflictResolutions(prev => {
+      const next = { ...prev };
+      if (variantIndex === undefined) delete next[key];
+      else next[key] = variantIndex;
+      return next;
+    });
+  };
+
+  const handleAddCorrection = (correction: OrderCorrection) => {
+    setCorrections(prev => [...prev, correction]);
+  };
+
+  const handleRemoveCorrection = (id: string) => {
+    setCorrections(prev => prev.filter(c => c.id !== id));
   };
 
   return (
@@ -57,40 +305,184 @@ const App: React.FC = () => {
                 Order<span className="text-brand-600">Audit</span> AI
               </h1>
             </div>
-            <div className="text-sm text-gray-500 hidden sm:block">
-              Extração Inteligente de Falhas em Pedidos
-            </div>
+            <nav className="flex items-center gap-1">
+              <button
+                onClick={() => setView('audit')}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${view === 'audit' ? 'bg-brand-50 text-brand-700' : 'text-gray-500 hover:bg-gray-50 hover:text-gray-700'}`}
+              >
+                <FileSearch size={16} />
+                <span className="hidden sm:inline">{t('app.nav.audit')}</span>
+              </button>
+              <button
+                onClick={() => setView('history')}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${view === 'history' ? 'bg-brand-50 text-brand-700' : 'text-gray-500 hover:bg-gray-50 hover:text-gray-700'}`}
+              >
+                <History size={16} />
+                <span className="hidden sm:inline">{t('app.nav.history')}</span>
+              </button>
+              <button
+                onClick={() => setView('customers')}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${view === 'customers' ? 'bg-brand-50 text-brand-700' : 'text-gray-500 hover:bg-gray-50 hover:text-gray-700'}`}
+              >
+                <Users size={16} />
+                <span className="hidden sm:inline">{t('app.nav.customers')}</span>
+              </button>
+              <button
+                onClick={() => setView('rules')}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${view === 'rules' ? 'bg-brand-50 text-brand-700' : 'text-gray-500 hover:bg-gray-50 hover:text-gray-700'}`}
+              >
+                <SlidersHorizontal size={16} />
+                <span className="hidden sm:inline">{t('app.nav.rules')}</span>
+              </button>
+              <button
+                onClick={() => setView('alerts')}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${view === 'alerts' ? 'bg-brand-50 text-brand-700' : 'text-gray-500 hover:bg-gray-50 hover:text-gray-700'}`}
+              >
+                <Bell size={16} />
+                <span className="hidden sm:inline">{t('app.nav.alerts')}</span>
+              </button>
+              <button
+                onClick={() => setView('platforms')}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${view === 'platforms' ? 'bg-brand-50 text-brand-700' : 'text-gray-500 hover:bg-gray-50 hover:text-gray-700'}`}
+              >
+                <Bike size={16} />
+                <span className="hidden sm:inline">{t('app.nav.platforms')}</span>
+              </button>
+              <button
+                onClick={() => setView('report')}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${view === 'report' ? 'bg-brand-50 text-brand-700' : 'text-gray-500 hover:bg-gray-50 hover:text-gray-700'}`}
+              >
+                <Palette size={16} />
+                <span className="hidden sm:inline">{t('app.nav.report')}</span>
+              </button>
+              <button
+                onClick={() => setView('privacy')}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${view === 'privacy' ? 'bg-brand-50 text-brand-700' : 'text-gray-500 hover:bg-gray-50 hover:text-gray-700'}`}
+              >
+                <Lock size={16} />
+                <span className="hidden sm:inline">{t('app.nav.privacy')}</span>
+              </button>
+              <label className="ml-2 flex items-center gap-1 text-gray-500" title={t('app.language')}>
+                <Languages size={16} />
+                <select
+                  value={locale}
+                  onChange={e => setLocale(e.target.value as Locale)}
+                  className="bg-transparent text-sm font-medium text-gray-600 focus:outline-none cursor-pointer"
+                >
+                  {LOCALES.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+            </nav>
           </div>
         </div>
       </header>
 
       {/* Main Content */}
       <main className="flex-grow max-w-7xl w-full mx-auto px-4 sm:px-6 lg:px-8 py-10">
-        
-        <div className="mb-8">
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">Importar Relatórios</h2>
-          <p className="text-gray-600">
-            Faça upload das páginas web impressas em PDF. O sistema irá identificar automaticamente pedidos com erros, extrair datas, nomes e números de pedido.
-          </p>
-        </div>
-
-        {/* Upload Section */}
-        <UploadZone 
-          onFilesSelected={handleFilesSelected} 
-          isProcessing={status === ProcessingStatus.PROCESSING} 
-        />
-
-        {/* Processing Indicator */}
-        {status === ProcessingStatus.PROCESSING && (
-          <div className="mt-8 p-4 bg-blue-50 border border-blue-100 rounded-lg flex items-center justify-center gap-3 animate-pulse">
-            <Activity className="text-brand-600 animate-spin" />
-            <span className="text-brand-700 font-medium">{progress}</span>
+        {view === 'rules' ? (
+          <RulesSettings rules={rules} onChange={setRules} />
+        ) : view === 'alerts' ? (
+          <ThresholdSettings
+            rules={thresholdRules}
+            onChange={setThresholdRules}
+            restaurants={Array.from(new Set(rules.map(r => r.canonicalName.trim()).filter(Boolean)))}
+            platforms={platforms.map(p => p.name)}
+          />
+        ) : view === 'platforms' ? (
+          <PlatformSettings custom={customPlatforms} platforms={platforms} onChange={setCustomPlatforms} />
+        ) : view === 'report' ? (
+          <ReportTemplateSettings template={reportTemplate} onChange={setReportTemplate} />
+        ) : view === 'privacy' ? (
+          <PrivacyPanel
+            settings={privacy}
+            onChange={setPrivacy}
+            revealNames={revealNames}
+            onRevealNamesChange={setRevealNames}
+            lastAutoPurge={lastAutoPurge}
+            onPurgeAll={handlePurgeAll}
+          />
+        ) : view === 'customers' ? (
+          <CustomerAnalysis orders={auditedOrders} platforms={platforms} maskName={maskName} />
+        ) : view === 'history' ? (
+          <HistoryPanel
+            activeRunIds={activeRuns.map(r => r.id)}
+            onOpenRuns={handleOpenRuns}
+          />
+        ) : (
+          <>
+          <div className="mb-8">
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">{t('app.import.title')}</h2>
+            <p className="text-gray-600">
+              {t('app.import.description')}
+            </p>
           </div>
-        )}
 
-        {/* Results Section */}
-        {status === ProcessingStatus.COMPLETED && (
-          <ResultsTable results={results} />
+          {/* Upload Section */}
+          <ExtractionOptions
+            settings={extractionSettings}
+            onChange={setExtractionSettings}
+            disabled={status === ProcessingStatus.PROCESSING}
+            cachedCount={cachedCount}
+            onClearCache={handleClearCache}
+          />
+          <UploadZone 
+            onFilesSelected={handleFilesSelected} 
+            isProcessing={status === ProcessingStatus.PROCESSING} 
+          />
+
+          {/* Processing Indicator */}
+          {status === ProcessingStatus.PROCESSING && (
+            <div className="mt-8 p-4 bg-blue-50 border border-blue-100 rounded-lg flex items-center justify-center gap-3">
+              <Activity className="text-brand-600 animate-spin" />
+              <span className="text-brand-700 font-medium animate-pulse">{progress}</span>
+              <button
+                onClick={handleCancel}
+                className="ml-4 flex items-center gap-1 px-3 py-1 rounded-md text-xs font-medium border border-blue-200 bg-white text-gray-600 hover:bg-gray-50 transition-colors"
+              >
+                <XCircle size={14} />
+                {t('common.cancel')}
+              </button>
+            </div>
+          )}
+
+          {/* Per-file progress */}
+          <FileStatusList
+            results={results}
+            isProcessing={status === ProcessingStatus.PROCESSING}
+            onRetry={ids => handleRetry(ids)}
+            onReextract={ids => handleRetry(ids, true)}
+            canRetry={id => filesRef.current.has(id)}
+          />
+
+          {/* Results Section */}
+          {status === ProcessingStatus.COMPLETED && activeRuns.length > 0 && (
+            <div className="mt-8 flex items-center gap-2 text-sm text-gray-500">
+              <Layers size={16} className="text-gray-400" />
+              <span>
+                {activeRuns.length > 1 ? t('app.run.combined') : t('app.run.single')}
+                <span className="font-medium text-gray-700">{activeRuns.map(r => r.name).join(' + ')}</span>
+              </span>
+            </div>
+          )}
+          {/* Filled in as each file finishes, not only when the whole batch is done */}
+          {results.some(r => r.status === 'success') && (
+            <ResultsTable
+              results={normalizedResults}
+              conflictResolutions={conflictResolutions}
+              onResolveConflict={handleResolveConflict}
+              corrections={corrections}
+              onAddCorrection={handleAddCorrection}
+              onRemoveCorrection={handleRemoveCorrection}
+              getSourceFile={id => filesRef.current.get(id)}
+              reportTemplate={reportTemplate}
+              platforms={platforms}
+              maskName={maskName}
+              thresholdRules={thresholdRules}
+            />
+          )}
+          </>
         )}
       </main>
 
@@ -98,7 +490,7 @@ const App: React.FC = () => {
       <footer className="bg-white border-t border-gray-200 mt-auto">
         <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
           <p className="text-center text-sm text-gray-400">
-            Powered by Gemini AI • Processamento Seguro
+            {t('app.footer')}
           </p>
         </div>
       </footer>
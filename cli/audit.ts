@@ -0,0 +1,243 @@
+import { existsSync } from "node:fs";
+import { mkdir, readdir, readFile, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { ExtractedFileResult, ExtractorEngine, Locale, MaskingMode, NormalizationRule, PlatformDefinition, ReportTemplate } from "../types.ts";
+import { buildAudit, extractFiles } from "../services/auditPipeline.ts";
+import { FileJob } from "../services/historyService.ts";
+import { OrderExtractor, createFallbackExtractor } from "../services/orderExtractor.ts";
+import { createLocalExtractor } from "../services/localExtractor.ts";
+import { createMockExtractor } from "../services/mockExtractor.ts";
+import { createGeminiClient, extractOrdersFromFile } from "../services/geminiService.ts";
+import { DEFAULT_NORMALIZATION_RULES } from "../services/normalizationService.ts";
+import { mergePlatforms } from "../services/platforms.ts";
+import { DEFAULT_EXTRACTION_SETTINGS, MAX_CONCURRENCY, MAX_RETRIES } from "../services/extractionSettings.ts";
+import { DEFAULT_REPORT_TEMPLATE, sanitizeReportTemplate } from "../services/reportTemplate.ts";
+import { buildReportPdf, buildRestaurantBundle } from "../services/reportService.ts";
+import { buildOrdersCsv, buildSummaryCsv } from "../services/exportService.ts";
+import { DEFAULT_LOCALE, LOCALES, createTranslator } from "../services/i18n.ts";
+import { createNameMasker, maskOrders, maskRejectedRows, sanitizePrivacySettings } from "../services/privacyService.ts";
+import { DEFAULT_THRESHOLD_RULES, sanitizeThresholdRules } from "../services/thresholdRules.ts";
+import { evaluateThresholds } from "../utils/thresholds.ts";
+import { detectSourceKind } from "../utils/fileTypes.ts";
+
+const USAGE = `Usage: npm run audit -- <input-dir> [options]
+
+Extracts every PDF in <input-dir> and writes the audit as JSON, CSV and PDF.
+
+Options:
+  --out <dir>          Output directory (default: <input-dir>/audit-<date>)
+  --extractor <name>   gemini | local | local-first | mock (default: gemini)
+  --locale <locale>    ${LOCALES.map(l => l.value).join(' | ')} (default: ${DEFAULT_LOCALE})
+  --rules <file>       Restaurant normalization rules as exported JSON
+  --template <file>    Report template JSON (company name, colors, columns, ...)
+  --platforms <file>   Custom platforms JSON, added to the built-in ones
+  --thresholds <file>  Alert threshold rules JSON; breaches open the PDF as exceptions
+  --concurrency <n>    Files extracted at once (default: ${DEFAULT_EXTRACTION_SETTINGS.concurrency})
+  --retries <n>        Retries per file on transient errors (default: ${DEFAULT_EXTRACTION_SETTINGS.maxRetries})
+  --bundle             Also write a ZIP with one PDF per restaurant
+  --mask <mode>        Mask customer names in every output: initials | pseudonym
+  --mask-salt <text>   Salt for pseudonyms; reuse it to keep them stable across runs
+  -h, --help           Show this help
+
+Exit codes: 0 all files extracted, 1 one or more files failed, 2 bad usage.
+The gemini and local-first engines read GEMINI_API_KEY (and GEMINI_BASE_URL) from
+the environment or .env.local; local and mock never touch the network.`;
+
+const ENGINES: ExtractorEngine[] = ['gemini', 'local', 'local-first', 'mock'];
+const MASK_MODES: MaskingMode[] = ['initials', 'pseudonym'];
+
+class UsageError extends Error {}
+
+// Same shape as the server's /api/extract, minus the HTTP hop
+const createDirectGeminiExtractor = (registry: PlatformDefinition[]): OrderExtractor => {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) throw new UsageError('GEMINI_API_KEY is not set; use --extractor local or mock to run offline.');
+  const ai = createGeminiClient(apiKey, process.env.GEMINI_BASE_URL);
+  return {
+    engine: 'gemini',
+    label: 'Gemini AI',
+    extract: async (file, signal) => {
+      const { orders, rejectedRows, pageCount, pagesProcessed } = await extractOrdersFromFile(ai, file, registry, signal);
+      return { orders, rejectedRows, pageCount, pagesProcessed, engine: 'gemini' };
+    },
+  };
+};
+
+const createExtractor = (engine: ExtractorEngine, registry: PlatformDefinition[]): OrderExtractor => {
+  switch (engine) {
+    case 'local':
+      return createLocalExtractor(registry);
+    case 'mock':
+      return createMockExtractor();
+    case 'local-first':
+      return createFallbackExtractor(createLocalExtractor(registry), createDirectGeminiExtractor(registry), 'Local, AI as fallback');
+    case 'gemini':
+    default:
+      return createDirectGeminiExtractor(registry);
+  }
+};
+
+const readJson = async <T>(file: string): Promise<T> => {
+  try {
+    return JSON.parse(await readFile(file, 'utf8')) as T;
+  } catch (error) {
+    throw new UsageError(`Could not read ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+const parseCount = (value: string | undefined, max: number, fallback: number, name: string): number => {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0 || n > max) throw new UsageError(`--${name} must be a whole number from 0 to ${max}.`);
+  return n;
+};
+
+// Only PDFs: screenshots and saved pages go through the web app
+const listPdfs = async (dir: string): Promise<FileJob[]> => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const names = entries
+    .filter(entry => entry.isFile() && detectSourceKind({ name: entry.name, type: '' }) === 'pdf')
+    .map(entry => entry.name)
+    .sort((a, b) => a.localeCompare(b));
+  return Promise.all(names.map(async (name, index) => ({
+    id: String(index + 1),
+    file: new File([await readFile(path.join(dir, name))], name, { type: 'application/pdf' }),
+  })));
+};
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string' },
+      extractor: { type: 'string', default: DEFAULT_EXTRACTION_SETTINGS.engine },
+      locale: { type: 'string', default: DEFAULT_LOCALE },
+      rules: { type: 'string' },
+      template: { type: 'string' },
+      platforms: { type: 'string' },
+      thresholds: { type: 'string' },
+      concurrency: { type: 'string' },
+      retries: { type: 'string' },
+      bundle: { type: 'boolean', default: false },
+      mask: { type: 'string' },
+      'mask-salt': { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.info(USAGE);
+    return 0;
+  }
+  const inputDir = positionals[0];
+  if (!inputDir || positionals.length > 1) throw new UsageError(USAGE);
+  if (!existsSync(inputDir) || !(await stat(inputDir)).isDirectory()) throw new UsageError(`${inputDir} is not a directory.`);
+
+  const engine = values.extractor as ExtractorEngine;
+  if (!ENGINES.includes(engine)) throw new UsageError(`--extractor must be one of ${ENGINES.join(', ')}.`);
+  const locale = values.locale as Locale;
+  if (!LOCALES.some(l => l.value === locale)) throw new UsageError(`--locale must be one of ${LOCALES.map(l => l.value).join(', ')}.`);
+  const concurrency = Math.max(1, parseCount(values.concurrency, MAX_CONCURRENCY, DEFAULT_EXTRACTION_SETTINGS.concurrency, 'concurrency'));
+  const maxRetries = parseCount(values.retries, MAX_RETRIES, DEFAULT_EXTRACTION_SETTINGS.maxRetries, 'retries');
+  const rules = values.rules ? await readJson<NormalizationRule[]>(values.rules) : DEFAULT_NORMALIZATION_RULES;
+  const template = values.template
+    ? sanitizeReportTemplate(await readJson<Partial<ReportTemplate>>(values.template))
+    : DEFAULT_REPORT_TEMPLATE;
+  const masking = values.mask as MaskingMode | undefined;
+  if (masking !== undefined && !MASK_MODES.includes(masking)) throw new UsageError(`--mask must be one of ${MASK_MODES.join(', ')}.`);
+  const thresholdRules = values.thresholds
+    ? sanitizeThresholdRules(await readJson<unknown>(values.thresholds))
+    : DEFAULT_THRESHOLD_RULES;
+  const registry = mergePlatforms(values.platforms ? await readJson<PlatformDefinition[]>(values.platforms) : []);
+
+  if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+  const extractor = createExtractor(engine, registry);
+  const i18n = createTranslator(locale);
+
+  const jobs = await listPdfs(inputDir);
+  if (jobs.length === 0) throw new UsageError(`No PDF files in ${inputDir}.`);
+  console.info(`Extracting ${jobs.length} PDF(s) from ${inputDir} with the ${engine} engine...`);
+
+  const patches = await extractFiles(jobs, extractor, {
+    concurrency,
+    maxRetries,
+    onRetry: (job, attempt, delayMs) =>
+      console.info(`  retrying ${job.file.name} in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1})`),
+  });
+  const results: ExtractedFileResult[] = jobs.map((job, index) => ({
+    id: job.id,
+    fileName: job.file.name,
+    sourceKind: 'pdf',
+    status: 'error',
+    orders: [],
+    ...patches[index],
+  }));
+
+  results.forEach(r => {
+    if (r.status === 'success') console.info(`  ok    ${r.fileName}: ${r.orders.length} order(s)`);
+    else console.info(`  FAIL  ${r.fileName}: ${r.errorCode ?? 'UNKNOWN'} ${r.errorMessage ?? ''}`.trimEnd());
+  });
+
+  const audit = buildAudit(results, rules, registry);
+  const mask = masking && createNameMasker(sanitizePrivacySettings({ maskingMode: masking, pseudonymSalt: values['mask-salt'] }));
+  const orders = maskOrders(audit.orders, mask);
+  const breaches = evaluateThresholds(orders, thresholdRules);
+  const stamp = new Date().toISOString().slice(0, 10);
+  const outDir = values.out ?? path.join(inputDir, `audit-${stamp}`);
+  await mkdir(outDir, { recursive: true });
+
+  const written: string[] = [];
+  const write = async (name: string, data: string | Uint8Array) => {
+    const target = path.join(outDir, name);
+    await writeFile(target, data);
+    written.push(target);
+  };
+
+  await write(`audit_${stamp}.json`, JSON.stringify({
+    generatedAt: new Date().toISOString(),
+    engine,
+    files: results.map(({ id, sourceKind, orders, rejectedRows, ...file }) => ({
+      ...file,
+      orderCount: orders.length,
+      ...(rejectedRows ? { rejectedRows: maskRejectedRows(rejectedRows, mask) } : {}),
+    })),
+    orders,
+    summary: audit.summary,
+    duplicatesRemoved: audit.duplicatesRemoved,
+    conflictCount: audit.conflictCount,
+    exceptions: breaches.map(({ rule, orders: breachOrders, ...breach }) => ({
+      ...breach,
+      rule,
+      orders: breachOrders.map(o => ({ platform: o.platform, orderNumber: o.orderNumber })),
+    })),
+  }, null, 2));
+  await write(`${i18n.t('file.orders')}_${stamp}.csv`, buildOrdersCsv(orders, i18n));
+  await write(`${i18n.t('file.summary')}_${stamp}.csv`, buildSummaryCsv(audit.summary, i18n));
+  const pdf = buildReportPdf(orders, audit.summary, template, registry, i18n, { title: i18n.t('results.title'), includeTrends: true, breaches });
+  await write(`${i18n.t('file.report')}_${stamp}.pdf`, new Uint8Array(pdf.output('arraybuffer')));
+  if (values.bundle && orders.length > 0) {
+    await write(`${i18n.t('file.bundle')}_${stamp}.zip`, await buildRestaurantBundle(orders, template, registry, i18n));
+  }
+
+  const failed = results.filter(r => r.status !== 'success').length;
+  console.info(`${orders.length} order(s) from ${results.length - failed} file(s); ${failed} failed.`);
+  if (breaches.length > 0) console.info(`${breaches.length} alert threshold breach(es); see the exceptions in the PDF.`);
+  written.forEach(file => console.info(`  wrote ${file}`));
+  return failed > 0 ? 1 : 0;
+};
+
+main()
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(error => {
+    // parseArgs rejects unknown or malformed options with ERR_PARSE_ARGS_* errors
+    if (error instanceof UsageError || String(error?.code).startsWith('ERR_PARSE_ARGS')) {
+      console.error(error.message);
+      process.exitCode = 2;
+      return;
+    }
+    console.error(error);
+    process.exitCode = 1;
+  });
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { ErrorCategory, OrderError } from '../types.ts';
+import { CATEGORY_LABEL_KEYS, ERROR_CATEGORIES } from '../services/errorCategories.ts';
+import { useI18n } from './I18nProvider.tsx';
+import { Plus, X } from 'lucide-react';
+
+interface AddOrderFormProps {
+  restaurants: string[];
+  platforms: string[]; // Names offered in the platform select, in registry order
+  onSubmit: (order: OrderError) => string[] | null; // Returns validation reasons on failure
+  onClose: () => void;
+}
+
+// Amounts are typed as text and parsed by validation, like everything else in the form
+type OrderDraft = Omit<OrderError, 'orderValue' | 'refundAmount'> & { orderValue: string; refundAmount: string };
+
+const EMPTY_ORDER: OrderDraft = {
+  platform: '',
+  orderNumber: '',
+  restaurantName: '',
+  date: '',
+  time: '',
+  customerName: '',
+  orderValue: '',
+  refundAmount: '',
+};
+
+const AddOrderForm: React.FC<AddOrderFormProps> = ({ restaurants, platforms, onSubmit, onClose }) => {
+  const [order, setOrder] = useState<OrderDraft>({ ...EMPTY_ORDER, platform: platforms[0] ?? '' });
+  const [errors, setErrors] = useState<string[]>([]);
+  const { t } = useI18n();
+
+  const set = (patch: Partial<OrderDraft>) => setOrder(prev => ({ ...prev, ...patch }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const reasons = onSubmit(order as unknown as OrderError);
+    if (reasons) {
+      setErrors(reasons);
+      return;
+    }
+    setOrder({ ...EMPTY_ORDER, platform: order.platform, restaurantName: order.restaurantName, date: order.date });
+    setErrors([]);
+  };
+
+  const inputClass = 'border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-brand-500';
+
+  return (
+    <form onSubmit={handleSubmit} className="p-6 border-b border-gray-100 bg-gray-50 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-800">{t('addOrder.title')}</h3>
+        <button type="button" onClick={onClose} className="p-1 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-600" title={t('common.close')}>
+          <X size={16} />
+        </button>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+        <select value={order.platform} onChange={e => set({ platform: e.target.value })} className={`${inputClass} bg-white`}>
+          {platforms.map(p => <option key={p} value={p}>{p}</option>)}
+        </select>
+        <input placeholder={t('addOrder.orderNumber')} value={order.orderNumber} onChange={e => set({ orderNumber: e.target.value })} className={inputClass} />
+        <input
+          placeholder={t('field.restaurantName')}
+          list="add-order-restaurants"
+          value={order.restaurantName}
+          onChange={e => set({ restaurantName: e.target.value })}
+          className={inputClass}
+        />
+        <datalist id="add-order-restaurants">
+          {restaurants.map(r => <option key={r} value={r} />)}
+        </datalist>
+        <input type="date" value={order.date} onChange={e => set({ date: e.target.value })} className={inputClass} />
+        <input type="time" value={order.time} onChange={e => set({ time: e.target.value })} className={inputClass} />
+        <input placeholder={t('addOrder.customerOptional')} value={order.customerName} onChange={e => set({ customerName: e.target.value })} className={inputClass} />
+        <select
+          value={order.category ?? ''}
+          onChange={e => set({ category: (e.target.value || undefined) as ErrorCategory | undefined })}
+          className={`${inputClass} bg-white ${order.category ? '' : 'text-gray-400'}`}
+        >
+          <option value="">{t('addOrder.categoryOptional')}</option>
+          {ERROR_CATEGORIES.map(c => <option key={c} value={c}>{t(CATEGORY_LABEL_KEYS[c])}</option>)}
+        </select>
+        <input inputMode="decimal" placeholder={t('addOrder.orderValueOptional')} value={order.orderValue} onChange={e => set({ orderValue: e.target.value })} className={inputClass} />
+        <input inputMode="decimal" placeholder={t('addOrder.refundOptional')} value={order.refundAmount} onChange={e => set({ refundAmount: e.target.value })} className={inputClass} />
+      </div>
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-600 space-y-0.5">
+          {errors.map((reason, idx) => <li key={idx}>{reason}</li>)}
+        </ul>
+      )}
+      <button
+        type="submit"
+        className="flex items-center gap-2 bg-gray-900 hover:bg-gray-800 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm"
+      >
+        <Plus size={16} />
+        {t('addOrder.submit')}
+      </button>
+    </form>
+  );
+};
+
+export default AddOrderForm;
@@ -0,0 +1,111 @@
+import React from 'react';
+import { OrderConflict } from '../types.ts';
+import { COMPARABLE_FIELDS } from '../services/dedupService.ts';
+import { FIELD_LABEL_KEYS } from '../services/correctionService.ts';
+import { useI18n } from './I18nProvider.tsx';
+import { AlertTriangle, CheckCircle2, FileText, RotateCcw } from 'lucide-react';
+
+interface ConflictPanelProps {
+  conflicts: OrderConflict[];
+  onResolve: (key: string, variantIndex: number | undefined) => void;
+}
+
+const ConflictPanel: React.FC<ConflictPanelProps> = ({ conflicts, onResolve }) => {
+  const { t, formatDate, formatTime } = useI18n();
+  if (conflicts.length === 0) return null;
+
+  const pending = conflicts.filter(c => c.resolvedIndex === undefined).length;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-amber-200 overflow-hidden">
+      <div className="p-6 border-b border-amber-100 bg-amber-50 flex items-center gap-2">
+        <AlertTriangle className="text-amber-600" size={20} />
+        <div className="flex flex-col gap-1">
+          <h2 className="text-xl font-bold text-gray-800">{t('conflicts.title')}</h2>
+          <span className="text-xs text-gray-600">
+            {pending > 0
+              ? t('conflicts.pending', { pending, total: conflicts.length })
+              : t('conflicts.resolved', { total: conflicts.length })}
+          </span>
+        </div>
+      </div>
+
+      <div className="divide-y divide-gray-100">
+        {conflicts.map(conflict => (
+          <div key={conflict.key} className="p-6">
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center gap-2">
+                {conflict.resolvedIndex === undefined
+                  ? <AlertTriangle size={16} className="text-amber-500" />
+                  : <CheckCircle2 size={16} className="text-green-600" />}
+                <span className="font-semibold text-gray-900">{conflict.platform} #{conflict.orderNumber}</span>
+                <span className="text-xs text-gray-500">
+                  {t('conflicts.differsIn', { fields: conflict.fields.map(f => t(FIELD_LABEL_KEYS[f])).join(', ') })}
+                </span>
+              </div>
+              {conflict.resolvedIndex !== undefined && (
+                <button
+                  onClick={() => onResolve(conflict.key, undefined)}
+                  className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+                >
+                  <RotateCcw size={12} />
+                  {t('common.undo')}
+                </button>
+              )}
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm text-gray-600">
+                <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+                  <tr>
+                    <th className="px-4 py-2">{t('conflicts.file')}</th>
+                    {COMPARABLE_FIELDS.map(f => (
+                      <th key={f} className="px-4 py-2">{t(FIELD_LABEL_KEYS[f])}</th>
+                    ))}
+                    <th className="px-4 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {conflict.variants.map((variant, idx) => {
+                    const isChosen = conflict.resolvedIndex === idx;
+                    return (
+                      <tr key={idx} className={isChosen ? 'bg-green-50' : ''}>
+                        <td className="px-4 py-2">
+                          <div className="flex items-center gap-2">
+                            <FileText size={14} className="text-gray-400" />
+                            {variant.sourceFiles.join(', ')}
+                          </div>
+                        </td>
+                        {COMPARABLE_FIELDS.map(f => (
+                          <td
+                            key={f}
+                            className={`px-4 py-2 ${conflict.fields.includes(f) ? 'font-medium text-amber-700' : ''}`}
+                          >
+                            {f === 'date' ? formatDate(variant.date) : f === 'time' ? formatTime(variant.time) : variant[f] || 'N/A'}
+                          </td>
+                        ))}
+                        <td className="px-4 py-2 text-right">
+                          <button
+                            onClick={() => onResolve(conflict.key, idx)}
+                            disabled={isChosen}
+                            className={`px-3 py-1 rounded-md text-xs font-medium transition-colors border ${isChosen
+                              ? 'bg-green-100 text-green-700 border-green-200'
+                              : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300 hover:bg-gray-50'}`}
+                          >
+                            {isChosen ? t('conflicts.selected') : t('conflicts.useVersion')}
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ConflictPanel;
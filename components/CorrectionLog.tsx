@@ -0,0 +1,70 @@
+import React from 'react';
+import { OrderCorrection } from '../types.ts';
+import { ACTION_LABEL_KEYS, FIELD_LABEL_KEYS, correctionValueText } from '../services/correctionService.ts';
+import { useI18n } from './I18nProvider.tsx';
+import { History, RotateCcw } from 'lucide-react';
+
+interface CorrectionLogProps {
+  corrections: OrderCorrection[];
+  onUndo: (id: string) => void;
+}
+
+const CorrectionLog: React.FC<CorrectionLogProps> = ({ corrections, onUndo }) => {
+  const i18n = useI18n();
+  const { t, tn, formatDateTime } = i18n;
+  if (corrections.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-6 border-b border-gray-100 flex items-center gap-2">
+        <History className="text-gray-500" size={20} />
+        <div className="flex flex-col gap-1">
+          <h2 className="text-xl font-bold text-gray-800">{t('corrections.title')}</h2>
+          <span className="text-xs text-gray-500">
+            {tn('corrections.count', corrections.length)}
+          </span>
+        </div>
+      </div>
+      <div className="overflow-x-auto max-h-80 overflow-y-auto">
+        <table className="w-full text-left text-sm text-gray-600">
+          <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+            <tr>
+              <th className="px-4 py-2">{t('corrections.col.when')}</th>
+              <th className="px-4 py-2">{t('corrections.col.who')}</th>
+              <th className="px-4 py-2">{t('corrections.col.action')}</th>
+              <th className="px-4 py-2">{t('field.orderNumber')}</th>
+              <th className="px-4 py-2">{t('corrections.col.field')}</th>
+              <th className="px-4 py-2">{t('corrections.col.oldValue')}</th>
+              <th className="px-4 py-2">{t('corrections.col.newValue')}</th>
+              <th className="px-4 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {[...corrections].reverse().map(c => (
+              <tr key={c.id}>
+                <td className="px-4 py-2 whitespace-nowrap">{formatDateTime(c.createdAt)}</td>
+                <td className="px-4 py-2">{c.author}</td>
+                <td className="px-4 py-2">{t(ACTION_LABEL_KEYS[c.action])}</td>
+                <td className="px-4 py-2 font-medium text-gray-900">{c.platform} #{c.orderNumber}</td>
+                <td className="px-4 py-2">{c.field ? t(FIELD_LABEL_KEYS[c.field]) : '—'}</td>
+                <td className="px-4 py-2 text-red-700">{correctionValueText(c.field, c.oldValue, i18n)}</td>
+                <td className="px-4 py-2 text-green-700">{correctionValueText(c.field, c.newValue, i18n)}</td>
+                <td className="px-4 py-2 text-right">
+                  <button
+                    onClick={() => onUndo(c.id)}
+                    className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 ml-auto"
+                  >
+                    <RotateCcw size={12} />
+                    {t('common.undo')}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default CorrectionLog;
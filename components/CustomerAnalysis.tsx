@@ -0,0 +1,253 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AuditedOrder, NameMasker, PatternOptions, PlatformDefinition } from '../types.ts';
+import { listRuns } from '../services/historyService.ts';
+import { buildAudit } from '../services/auditPipeline.ts';
+import { buildCustomersCsv, buildCustomersXlsx, CSV_MIME, XLSX_MIME } from '../services/exportService.ts';
+import { CATEGORY_LABEL_KEYS } from '../services/errorCategories.ts';
+import { maskOrders } from '../services/privacyService.ts';
+import { DEFAULT_PATTERN_OPTIONS, analyzeCustomers, describePatternFlag } from '../utils/customerPatterns.ts';
+import { downloadBlob } from '../utils/fileHelpers.ts';
+import PlatformBadge from './PlatformBadge.tsx';
+import { useI18n } from './I18nProvider.tsx';
+import { Users, AlertTriangle, ChevronDown, ChevronRight, Download, FileSpreadsheet, Loader2 } from 'lucide-react';
+
+interface CustomerAnalysisProps {
+  orders: AuditedOrder[]; // The audit currently open, corrections applied
+  platforms: PlatformDefinition[];
+  maskName?: NameMasker;
+}
+
+const CustomerAnalysis: React.FC<CustomerAnalysisProps> = ({ orders, platforms, maskName }) => {
+  const [includeHistory, setIncludeHistory] = useState(true);
+  const [storedOrders, setStoredOrders] = useState<AuditedOrder[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [options, setOptions] = useState<PatternOptions>(DEFAULT_PATTERN_OPTIONS);
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const i18n = useI18n();
+  const { t, formatDate, formatTime, formatAmount } = i18n;
+
+  // Platforms decide how stored rows are read, so a registry change reads the runs again
+  useEffect(() => {
+    setStoredOrders(null);
+  }, [platforms]);
+
+  // Every saved run, read the way it would be opened: its own rules, resolutions and corrections
+  useEffect(() => {
+    if (!includeHistory || storedOrders) return;
+    let cancelled = false;
+    listRuns()
+      .then(runs => {
+        if (cancelled) return;
+        setStoredOrders(runs.flatMap(run =>
+          buildAudit(run.results, run.rules, platforms, run.conflictResolutions, run.corrections ?? []).orders
+        ));
+        setLoadError(null);
+      })
+      .catch(error => {
+        console.error('Failed to load audit history:', error);
+        setLoadError(t('history.loadError'));
+      });
+    return () => { cancelled = true; };
+  }, [includeHistory, storedOrders, platforms]);
+
+  // The same order saved in several runs counts once; the open audit wins
+  const allOrders = useMemo(() => {
+    const byKey = new Map(orders.map(o => [o.key, o]));
+    if (includeHistory) storedOrders?.forEach(o => byKey.has(o.key) || byKey.set(o.key, o));
+    return Array.from(byKey.values());
+  }, [orders, storedOrders, includeHistory]);
+
+  // Grouped on the real names, so masking never merges or splits customers; shown and exported masked
+  const groups = useMemo(() => {
+    const analysed = analyzeCustomers(allOrders, options);
+    return maskName
+      ? analysed.map(g => ({ ...g, name: maskName(g.name), variants: Array.from(new Set(g.variants.map(maskName))), orders: maskOrders(g.orders, maskName) }))
+      : analysed;
+  }, [allOrders, options, maskName]);
+  const visibleGroups = flaggedOnly ? groups.filter(g => g.flags.length > 0) : groups;
+  const isLoading = includeHistory && !storedOrders && !loadError;
+
+  const setOption = (field: keyof PatternOptions, value: string) => {
+    const number = Math.floor(Number(value));
+    if (Number.isFinite(number) && number >= 1) setOptions(prev => ({ ...prev, [field]: number }));
+  };
+
+  const stamp = () => new Date().toISOString().slice(0, 10);
+
+  const handleExportCsv = () => {
+    downloadBlob(new Blob([buildCustomersCsv(visibleGroups, i18n)], { type: CSV_MIME }), `${t('file.customers')}_${stamp()}.csv`);
+  };
+
+  const handleExportXlsx = () => {
+    downloadBlob(new Blob([buildCustomersXlsx(visibleGroups, i18n)], { type: XLSX_MIME }), `${t('file.customers')}_${stamp()}.xlsx`);
+  };
+
+  const optionInputClass = 'w-16 border border-gray-200 rounded-md px-2 py-1 text-sm focus:outline-none focus:border-brand-500';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-6 border-b border-gray-100 flex flex-col xl:flex-row xl:justify-between xl:items-center gap-4">
+        <div className="flex items-center gap-2">
+          <Users className="text-gray-500" size={20} />
+          <div className="flex flex-col gap-1">
+            <h2 className="text-xl font-bold text-gray-800">{t('customers.title')}</h2>
+            <span className="text-xs text-gray-500">{t('customers.description')}</span>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleExportCsv}
+            disabled={visibleGroups.length === 0}
+            className="flex items-center justify-center gap-2 bg-white border border-gray-200 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium transition-colors whitespace-nowrap disabled:opacity-50"
+          >
+            <Download size={16} />
+            {t('customers.exportCsv')}
+          </button>
+          <button
+            onClick={handleExportXlsx}
+            disabled={visibleGroups.length === 0}
+            className="flex items-center justify-center gap-2 bg-gray-900 hover:bg-gray-800 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm whitespace-nowrap disabled:opacity-50"
+          >
+            <FileSpreadsheet size={16} />
+            {t('customers.exportXlsx')}
+          </button>
+        </div>
+      </div>
+
+      <div className="px-6 py-3 border-b border-gray-100 bg-gray-50 flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-gray-600">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={includeHistory} onChange={e => setIncludeHistory(e.target.checked)} />
+          {t('customers.includeHistory')}
+        </label>
+        <label className="flex items-center gap-2">
+          {t('customers.windowDays')}
+          <input type="number" min={1} value={options.windowDays} onChange={e => setOption('windowDays', e.target.value)} className={optionInputClass} />
+        </label>
+        <label className="flex items-center gap-2">
+          {t('customers.minStores')}
+          <input type="number" min={1} value={options.minStores} onChange={e => setOption('minStores', e.target.value)} className={optionInputClass} />
+        </label>
+        <label className="flex items-center gap-2">
+          {t('customers.minRepeats')}
+          <input type="number" min={1} value={options.minRepeats} onChange={e => setOption('minRepeats', e.target.value)} className={optionInputClass} />
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={flaggedOnly} onChange={e => setFlaggedOnly(e.target.checked)} />
+          {t('customers.flaggedOnly')}
+        </label>
+        <span className="ml-auto text-xs text-gray-400">{t('customers.analysed', { count: allOrders.length })}</span>
+      </div>
+
+      {isLoading ? (
+        <div className="px-6 py-12 flex items-center justify-center gap-2 text-gray-400">
+          <Loader2 size={16} className="animate-spin" />
+          {t('customers.loadingHistory')}
+        </div>
+      ) : (
+        <>
+        {loadError && <div className="px-6 py-3 text-sm text-red-500 border-b border-gray-100">{loadError}</div>}
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-gray-600">
+            <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+              <tr>
+                <th className="px-4 py-4 w-10">#</th>
+                <th className="px-4 py-4">{t('customers.col.customer')}</th>
+                <th className="px-4 py-4 text-center">{t('customers.col.orders')}</th>
+                <th className="px-4 py-4">{t('customers.col.platforms')}</th>
+                <th className="px-4 py-4">{t('customers.col.restaurants')}</th>
+                <th className="px-4 py-4">{t('customers.col.period')}</th>
+                <th className="px-4 py-4 text-right">{t('customers.col.refund')}</th>
+                <th className="px-4 py-4">{t('customers.col.flags')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {visibleGroups.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="px-6 py-12 text-center text-gray-400">
+                    {groups.length > 0 ? t('customers.emptyFlagged') : t('customers.empty')}
+                  </td>
+                </tr>
+              ) : visibleGroups.map((group, idx) => {
+                const isExpanded = expandedId === group.id;
+                const first = group.orders[0];
+                const last = group.orders[group.orders.length - 1];
+                return (
+                  <React.Fragment key={group.id}>
+                    <tr
+                      onClick={() => setExpandedId(isExpanded ? null : group.id)}
+                      className={`cursor-pointer transition-colors align-top ${group.flags.length > 0 ? 'bg-amber-50/60 hover:bg-amber-50' : 'hover:bg-gray-50'}`}
+                    >
+                      <td className="px-4 py-3 text-gray-400">{idx + 1}</td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center gap-1 font-medium text-gray-900">
+                          {isExpanded ? <ChevronDown size={14} className="text-gray-400" /> : <ChevronRight size={14} className="text-gray-400" />}
+                          {group.name}
+                        </div>
+                        {group.variants.length > 1 && (
+                          <div className="ml-5 text-xs text-gray-400">
+                            {t('customers.variants', { names: group.variants.filter(v => v !== group.name).join(', ') })}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-center">
+                        <span className="inline-block px-3 py-1 bg-brand-50 text-brand-700 font-bold rounded-md">{group.orders.length}</span>
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex flex-wrap gap-1">
+                          {group.platforms.map(p => <PlatformBadge key={p} platform={p} platforms={platforms} />)}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-xs">{group.restaurants.join(', ')}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-xs">
+                        {first.date === last.date ? formatDate(first.date) : `${formatDate(first.date)} – ${formatDate(last.date)}`}
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap font-medium text-red-700">{formatAmount(group.refundAmount)}</td>
+                      <td className="px-4 py-3">
+                        <div className="flex flex-col gap-1">
+                          {group.flags.map((flag, i) => (
+                            <span key={i} className="inline-flex items-center gap-1 text-xs text-amber-700 whitespace-nowrap">
+                              <AlertTriangle size={12} />
+                              {describePatternFlag(flag, i18n)}
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="bg-gray-50">
+                        <td></td>
+                        <td colSpan={7} className="px-4 py-3">
+                          <div className="text-xs font-semibold uppercase text-gray-500 mb-2">{t('customers.timeline', { name: group.name })}</div>
+                          <ol className="relative border-l border-gray-200 ml-1 space-y-2">
+                            {group.orders.map(order => (
+                              <li key={order.key} className="ml-4 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs">
+                                <span className="absolute -left-1 mt-0.5 w-2 h-2 rounded-full bg-gray-300" />
+                                <span className="font-medium text-gray-700 whitespace-nowrap">{formatDate(order.date)} {formatTime(order.time)}</span>
+                                <PlatformBadge platform={order.platform} platforms={platforms} />
+                                <span className="text-gray-900">#{order.orderNumber}</span>
+                                <span>{order.restaurantName}</span>
+                                {order.category && (
+                                  <span className="px-2 py-0.5 rounded-md bg-white border border-gray-200">{t(CATEGORY_LABEL_KEYS[order.category])}</span>
+                                )}
+                                {order.refundAmount !== undefined && <span className="text-red-700">{formatAmount(order.refundAmount)}</span>}
+                                {order.customerName !== group.name && <span className="text-gray-400 italic">{order.customerName}</span>}
+                              </li>
+                            ))}
+                          </ol>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CustomerAnalysis;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { useI18n } from './I18nProvider.tsx';
+
+interface EditableCellProps {
+  value: string;
+  editable: boolean;
+  options?: string[]; // Renders a select instead of a text input
+  optionLabel?: (option: string) => string; // Display text of an option when it is a key
+  onCommit: (value: string) => string | null; // Returns an error message to keep editing
+  children: React.ReactNode;
+}
+
+const EditableCell: React.FC<EditableCellProps> = ({ value, editable, options, optionLabel, onCommit, children }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useI18n();
+
+  if (!editable) return <>{children}</>;
+
+  const cancel = () => {
+    setDraft(null);
+    setError(null);
+  };
+
+  const commit = (next: string) => {
+    if (next.trim() === value) {
+      cancel();
+      return;
+    }
+    const message = onCommit(next.trim());
+    if (message) {
+      setError(message);
+      return;
+    }
+    cancel();
+  };
+
+  if (draft === null) {
+    return (
+      <button
+        onClick={() => setDraft(value)}
+        className="w-full text-left rounded -mx-1 px-1 hover:bg-brand-50 hover:ring-1 hover:ring-brand-200 transition-colors"
+        title={t('editable.hint')}
+      >
+        {children}
+      </button>
+    );
+  }
+
+  const inputClass = `w-full border rounded-md px-2 py-1 text-sm focus:outline-none ${error ? 'border-red-300 focus:border-red-500' : 'border-gray-200 focus:border-brand-500'}`;
+
+  return (
+    <div className="flex flex-col gap-1 min-w-[120px]">
+      {options ? (
+        <select
+          autoFocus
+          value={draft}
+          onChange={e => commit(e.target.value)}
+          onBlur={cancel}
+          onKeyDown={e => e.key === 'Escape' && cancel()}
+          className={`${inputClass} bg-white`}
+        >
+          {options.map(option => <option key={option} value={option}>{optionLabel ? optionLabel(option) : option}</option>)}
+        </select>
+      ) : (
+        <input
+          autoFocus
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onBlur={() => commit(draft)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') commit(draft);
+            if (e.key === 'Escape') cancel();
+          }}
+          className={inputClass}
+        />
+      )}
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </div>
+  );
+};
+
+export default EditableCell;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { ExtractionSettings } from '../types.ts';
+import { MAX_CONCURRENCY, MAX_RETRIES, sanitizeExtractionSettings } from '../services/extractionSettings.ts';
+import { SELECTABLE_ENGINES } from '../services/extractorRegistry.ts';
+import { useI18n } from './I18nProvider.tsx';
+import { Cpu, Database, Gauge, RefreshCw, Trash2 } from 'lucide-react';
+
+interface ExtractionOptionsProps {
+  settings: ExtractionSettings;
+  onChange: (settings: ExtractionSettings) => void;
+  disabled: boolean;
+  cachedCount: number | null; // null while unknown or when IndexedDB is unavailable
+  onClearCache: () => void;
+}
+
+const ExtractionOptions: React.FC<ExtractionOptionsProps> = ({ settings, onChange, disabled, cachedCount, onClearCache }) => {
+  const update = (patch: Partial<ExtractionSettings>) => {
+    onChange(sanitizeExtractionSettings({ ...settings, ...patch }));
+  };
+
+  const { t, tn } = useI18n();
+  const selectedEngine = SELECTABLE_ENGINES.find(engine => engine === settings.engine);
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-6 text-sm text-gray-600">
+      <label className="flex items-center gap-2" title={selectedEngine && t(`engine.${selectedEngine}.description`)}>
+        <Cpu size={16} className="text-gray-400" />
+        <span>{t('options.engine')}</span>
+        <select
+          value={settings.engine}
+          disabled={disabled}
+          onChange={e => update({ engine: e.target.value })}
+          className="border border-gray-200 rounded-lg px-2 py-1 text-sm bg-white focus:outline-none focus:border-brand-500 disabled:opacity-50"
+        >
+          {SELECTABLE_ENGINES.map(engine => (
+            <option key={engine} value={engine}>{t(`engine.${engine}.label`)}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2">
+        <Gauge size={16} className="text-gray-400" />
+        <span>{t('options.concurrency')}</span>
+        <input
+          type="number"
+          min={1}
+          max={MAX_CONCURRENCY}
+          value={settings.concurrency}
+          disabled={disabled}
+          onChange={e => update({ concurrency: Number(e.target.value) })}
+          className="w-16 border border-gray-200 rounded-lg px-2 py-1 text-sm focus:outline-none focus:border-brand-500 disabled:opacity-50"
+        />
+      </label>
+      <label className="flex items-center gap-2">
+        <RefreshCw size={16} className="text-gray-400" />
+        <span>{t('options.retries')}</span>
+        <input
+          type="number"
+          min={0}
+          max={MAX_RETRIES}
+          value={settings.maxRetries}
+          disabled={disabled}
+          onChange={e => update({ maxRetries: Number(e.target.value) })}
+          className="w-16 border border-gray-200 rounded-lg px-2 py-1 text-sm focus:outline-none focus:border-brand-500 disabled:opacity-50"
+        />
+      </label>
+      {cachedCount !== null && (
+        <div
+          className="flex items-center gap-2"
+          title={t('options.cache.hint')}
+        >
+          <Database size={16} className="text-gray-400" />
+          <span>{tn('options.cache.count', cachedCount)}</span>
+          <button
+            onClick={() => {
+              if (window.confirm(t('options.cache.confirmClear'))) onClearCache();
+            }}
+            disabled={disabled || cachedCount === 0}
+            className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium border border-gray-200 bg-white text-gray-600 hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <Trash2 size={12} />
+            {t('options.cache.clear')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExtractionOptions;
@@ -0,0 +1,159 @@
+import React from 'react';
+import { ExtractedFileResult, SourceKind } from '../types.ts';
+import { useI18n } from './I18nProvider.tsx';
+import { CheckCircle2, AlertCircle, Clock, Loader2, RotateCcw, FileText, Image, Globe, Database, RefreshCw } from 'lucide-react';
+
+interface FileStatusListProps {
+  results: ExtractedFileResult[];
+  isProcessing: boolean;
+  onRetry: (ids: string[]) => void;
+  onReextract: (ids: string[]) => void; // Extracts again, ignoring the cache
+  canRetry: (id: string) => boolean;
+}
+
+const KIND_ICONS: Record<SourceKind, typeof FileText> = {
+  pdf: FileText,
+  image: Image,
+  html: Globe,
+  mhtml: Globe,
+};
+
+const FileStatusList: React.FC<FileStatusListProps> = ({ results, isProcessing, onRetry, onReextract, canRetry }) => {
+  const { t, tn } = useI18n();
+  if (results.length === 0) return null;
+
+  const failedIds = results.filter(r => r.status === 'error' && canRetry(r.id)).map(r => r.id);
+  const cachedIds = results.filter(r => r.status === 'success' && r.fromCache && canRetry(r.id)).map(r => r.id);
+  const done = results.filter(r => r.status === 'success' || r.status === 'error').length;
+
+  const renderStatus = (result: ExtractedFileResult) => {
+    switch (result.status) {
+      case 'queued':
+        return (
+          <span className="flex items-center gap-1.5 text-gray-400">
+            <Clock size={14} />
+            {t('files.queued')}
+          </span>
+        );
+      case 'processing':
+        return (
+          <span className="flex items-center gap-1.5 text-brand-600">
+            <Loader2 size={14} className="animate-spin" />
+            {result.attempt && result.attempt > 1 ? t('files.processingAttempt', { attempt: result.attempt }) : t('files.processing')}
+          </span>
+        );
+      case 'success':
+        return (
+          <span className="flex items-center gap-1.5 text-green-600">
+            <CheckCircle2 size={14} />
+            {tn('files.orders', result.orders.length)}
+            {result.pageCount !== undefined && (
+              <span className="text-gray-400">
+                {result.pagesProcessed !== result.pageCount
+                  ? t('files.pagesPartial', { processed: result.pagesProcessed ?? 0, total: result.pageCount })
+                  : tn('files.pages', result.pageCount)}
+              </span>
+            )}
+            {result.engine && (
+              <span className="ml-1 px-1.5 py-0.5 rounded bg-gray-100 text-gray-500 text-[10px] font-medium uppercase tracking-wide">
+                {t(`files.engine.${result.engine}`)}
+              </span>
+            )}
+            {result.fromCache && (
+              <span
+                className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-blue-50 text-brand-700 text-[10px] font-medium uppercase tracking-wide"
+                title={t('files.fromCacheHint')}
+              >
+                <Database size={10} />
+                {t('files.fromCache')}
+              </span>
+            )}
+            {result.rejectedRows && result.rejectedRows.length > 0 && (
+              <span className="ml-1 text-amber-600">
+                {t('files.toReview', { count: result.rejectedRows.length })}
+              </span>
+            )}
+          </span>
+        );
+      case 'error':
+        return (
+          <span className="flex items-center gap-1.5 text-red-600">
+            <AlertCircle size={14} className="shrink-0" />
+            {result.errorCode ? t(`error.${result.errorCode}`) : result.errorMessage || t('files.failed')}
+          </span>
+        );
+    }
+  };
+
+  return (
+    <div className="mt-8 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <FileText className="text-gray-500" size={18} />
+          <h3 className="text-base font-semibold text-gray-800">{t('files.title')}</h3>
+          <span className="text-xs text-gray-500">{t('files.done', { done, total: results.length })}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          {cachedIds.length > 1 && !isProcessing && (
+            <button
+              onClick={() => onReextract(cachedIds)}
+              className="flex items-center gap-1 px-3 py-1 rounded-md text-xs font-medium border border-gray-200 bg-white text-gray-600 hover:bg-gray-50 transition-colors"
+            >
+              <RefreshCw size={12} />
+              {t('files.reextractCached', { count: cachedIds.length })}
+            </button>
+          )}
+          {failedIds.length > 1 && !isProcessing && (
+            <button
+              onClick={() => onRetry(failedIds)}
+              className="flex items-center gap-1 px-3 py-1 rounded-md text-xs font-medium border border-gray-200 bg-white text-gray-600 hover:bg-gray-50 transition-colors"
+            >
+              <RotateCcw size={12} />
+              {t('files.retryFailed', { count: failedIds.length })}
+            </button>
+          )}
+        </div>
+      </div>
+      <ul className="divide-y divide-gray-100 max-h-72 overflow-y-auto">
+        {results.map(result => {
+          const KindIcon = KIND_ICONS[result.sourceKind ?? 'pdf'];
+          return (
+          <li key={result.id} className="px-6 py-3 flex items-center justify-between gap-4 text-sm">
+            <span className="flex items-center gap-2 min-w-0">
+              <KindIcon size={14} className="text-gray-400 shrink-0" />
+              <span className="font-medium text-gray-700 truncate">{result.fileName}</span>
+            </span>
+            <div className="flex items-center gap-3 text-right">
+              {renderStatus(result)}
+              {result.status === 'error' && canRetry(result.id) && (
+                <button
+                  onClick={() => onRetry([result.id])}
+                  disabled={isProcessing}
+                  className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium border border-gray-200 bg-white text-gray-600 hover:bg-gray-50 transition-colors disabled:opacity-50"
+                  title={t('files.retryHint')}
+                >
+                  <RotateCcw size={12} />
+                  {t('files.retry')}
+                </button>
+              )}
+              {result.status === 'success' && canRetry(result.id) && (
+                <button
+                  onClick={() => onReextract([result.id])}
+                  disabled={isProcessing}
+                  className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium border border-gray-200 bg-white text-gray-600 hover:bg-gray-50 transition-colors disabled:opacity-50"
+                  title={t('files.reextractHint')}
+                >
+                  <RefreshCw size={12} />
+                  {t('files.reextract')}
+                </button>
+              )}
+            </div>
+          </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default FileStatusList;
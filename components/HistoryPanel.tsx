@@ -0,0 +1,234 @@
+import React, { useState, useEffect } from 'react';
+import { AuditRun } from '../types.ts';
+import { deleteRun, listRuns, mergeRuns, renameRun } from '../services/historyService.ts';
+import { useI18n } from './I18nProvider.tsx';
+import { History, FolderOpen, Pencil, Trash2, Combine, Layers, Check, X, FileText, Hash, Loader2 } from 'lucide-react';
+
+interface HistoryPanelProps {
+  activeRunIds: string[];
+  onOpenRuns: (runs: AuditRun[]) => void;
+}
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ activeRunIds, onOpenRuns }) => {
+  const [runs, setRuns] = useState<AuditRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const { t, formatDateTime } = useI18n();
+
+  const refresh = async () => {
+    try {
+      setRuns(await listRuns());
+      setLoadError(null);
+    } catch (error) {
+      console.error('Failed to load audit history:', error);
+      setLoadError(t('history.loadError'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+  };
+
+  const startRename = (run: AuditRun) => {
+    setEditingId(run.id);
+    setEditingName(run.name);
+  };
+
+  const confirmRename = async () => {
+    if (!editingId || !editingName.trim()) return;
+    await renameRun(editingId, editingName.trim());
+    setEditingId(null);
+    await refresh();
+  };
+
+  const handleDelete = async (run: AuditRun) => {
+    if (!confirm(t('history.confirmDelete', { name: run.name }))) return;
+    await deleteRun(run.id);
+    setSelectedIds(prev => prev.filter(x => x !== run.id));
+    await refresh();
+  };
+
+  const selectedRuns = runs.filter(r => selectedIds.includes(r.id));
+
+  const handleMerge = async () => {
+    if (selectedRuns.length < 2) return;
+    const ordered = [...selectedRuns].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const merged = await mergeRuns(selectedRuns, t('history.mergedName', { names: ordered.map(r => r.name).join(' + ') }));
+    setSelectedIds([merged.id]);
+    await refresh();
+  };
+
+  const countOrders = (run: AuditRun) => run.results.reduce((sum, r) => sum + r.orders.length, 0);
+  const countFailed = (run: AuditRun) => run.results.filter(r => r.status === 'error').length;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-6 border-b border-gray-100 flex flex-col xl:flex-row xl:justify-between xl:items-center gap-4">
+        <div className="flex items-center gap-2">
+          <History className="text-gray-500" size={20} />
+          <div className="flex flex-col gap-1">
+            <h2 className="text-xl font-bold text-gray-800">{t('history.title')}</h2>
+            <span className="text-xs text-gray-500">
+              {t('history.description')}
+            </span>
+          </div>
+        </div>
+
+        {selectedRuns.length > 0 && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => onOpenRuns(selectedRuns)}
+              className="flex items-center justify-center gap-2 bg-gray-900 hover:bg-gray-800 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm whitespace-nowrap"
+            >
+              <Layers size={16} />
+              {selectedRuns.length > 1 ? t('history.openCombined', { count: selectedRuns.length }) : t('history.open')}
+            </button>
+            {selectedRuns.length > 1 && (
+              <button
+                onClick={handleMerge}
+                className="flex items-center justify-center gap-2 bg-white border border-gray-200 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium transition-colors whitespace-nowrap"
+              >
+                <Combine size={16} />
+                {t('history.merge')}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="px-6 py-12 flex items-center justify-center gap-2 text-gray-400">
+          <Loader2 size={16} className="animate-spin" />
+          {t('history.loading')}
+        </div>
+      ) : loadError ? (
+        <div className="px-6 py-12 text-center text-red-500">{loadError}</div>
+      ) : runs.length === 0 ? (
+        <div className="px-6 py-12 text-center text-gray-400">
+          {t('history.empty')}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-gray-600">
+            <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+              <tr>
+                <th className="px-6 py-4 w-10"></th>
+                <th className="px-6 py-4">{t('history.col.name')}</th>
+                <th className="px-6 py-4">{t('field.date')}</th>
+                <th className="px-6 py-4">{t('files.title')}</th>
+                <th className="px-6 py-4">{t('history.col.orders')}</th>
+                <th className="px-6 py-4 w-32"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {runs.map(run => {
+                const isActive = activeRunIds.includes(run.id);
+                const failed = countFailed(run);
+                return (
+                  <tr key={run.id} className={`transition-colors ${isActive ? 'bg-brand-50' : 'hover:bg-gray-50'}`}>
+                    <td className="px-6 py-4">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(run.id)}
+                        onChange={() => toggleSelected(run.id)}
+                        className="rounded border-gray-300"
+                      />
+                    </td>
+                    <td className="px-6 py-4 font-medium text-gray-900">
+                      {editingId === run.id ? (
+                        <div className="flex items-center gap-1">
+                          <input
+                            type="text"
+                            value={editingName}
+                            autoFocus
+                            onChange={e => setEditingName(e.target.value)}
+                            onKeyDown={e => {
+                              if (e.key === 'Enter') confirmRename();
+                              if (e.key === 'Escape') setEditingId(null);
+                            }}
+                            className="border border-gray-200 rounded-lg px-2 py-1 text-sm focus:outline-none focus:border-brand-500"
+                          />
+                          <button onClick={confirmRename} className="p-1 rounded text-green-600 hover:bg-green-50" title={t('common.save')}>
+                            <Check size={16} />
+                          </button>
+                          <button onClick={() => setEditingId(null)} className="p-1 rounded text-gray-400 hover:bg-gray-100" title={t('common.cancel')}>
+                            <X size={16} />
+                          </button>
+                        </div>
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          {run.name}
+                          {isActive && <span className="text-xs font-normal text-brand-700">{t('history.isOpen')}</span>}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {formatDateTime(run.createdAt)}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center gap-2">
+                        <FileText size={14} className="text-gray-400" />
+                        {run.files.length}
+                        <span className="text-xs text-gray-400">
+                          ({formatSize(run.files.reduce((sum, f) => sum + f.size, 0))})
+                        </span>
+                        {failed > 0 && <span className="text-xs text-red-500">{t('history.failed', { count: failed })}</span>}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center gap-2">
+                        <Hash size={14} className="text-gray-400" />
+                        {countOrders(run)}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center justify-end gap-1">
+                        <button
+                          onClick={() => onOpenRuns([run])}
+                          className="p-1.5 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-600 transition-colors"
+                          title={t('history.open')}
+                        >
+                          <FolderOpen size={16} />
+                        </button>
+                        <button
+                          onClick={() => startRename(run)}
+                          className="p-1.5 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-600 transition-colors"
+                          title={t('history.rename')}
+                        >
+                          <Pencil size={16} />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(run)}
+                          className="p-1.5 rounded-full text-gray-400 hover:bg-red-50 hover:text-red-600 transition-colors"
+                          title={t('common.delete')}
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
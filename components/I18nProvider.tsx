@@ -0,0 +1,30 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { Locale } from '../types.ts';
+import { createTranslator, loadLocale, saveLocale, Translator } from '../services/i18n.ts';
+
+interface I18nContextValue extends Translator {
+  setLocale: (locale: Locale) => void;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error('useI18n must be used inside <I18nProvider>');
+  return context;
+};
+
+const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+
+  useEffect(() => {
+    saveLocale(locale);
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo(() => ({ ...createTranslator(locale), setLocale }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
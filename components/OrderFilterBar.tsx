@@ -0,0 +1,113 @@
+import React from 'react';
+import { OrderFilters } from '../types.ts';
+import { EMPTY_FILTERS, countActiveFilters } from '../utils/orderFilters.ts';
+import { useI18n } from './I18nProvider.tsx';
+import { Search, Filter, X, Calendar, Clock, FileText } from 'lucide-react';
+
+interface OrderFilterBarProps {
+  filters: OrderFilters;
+  onChange: (filters: OrderFilters) => void;
+  restaurants: string[];
+  platforms: string[];
+  sourceFiles: string[];
+}
+
+const toggle = (list: string[], value: string): string[] =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+const chipClass = (isSelected: boolean) => `
+  px-3 py-1.5 rounded-full text-xs font-medium transition-colors border
+  ${isSelected
+    ? 'bg-brand-100 text-brand-700 border-brand-200'
+    : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300 hover:bg-gray-50'}
+`;
+
+const inputClass = 'border border-gray-200 rounded-lg px-2 py-1 text-sm focus:outline-none focus:border-brand-500';
+
+const OrderFilterBar: React.FC<OrderFilterBarProps> = ({ filters, onChange, restaurants, platforms, sourceFiles }) => {
+  const update = (patch: Partial<OrderFilters>) => onChange({ ...filters, ...patch });
+  const activeCount = countActiveFilters(filters);
+  const { t } = useI18n();
+
+  return (
+    <div className="px-6 py-4 border-b border-gray-100 space-y-3 text-sm text-gray-600">
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="relative flex items-center">
+          <Search size={16} className="absolute left-2.5 text-gray-400" />
+          <input
+            value={filters.search}
+            onChange={e => update({ search: e.target.value })}
+            placeholder={t('filters.searchPlaceholder')}
+            className={`${inputClass} pl-8 w-64`}
+          />
+        </label>
+
+        <label className="flex items-center gap-2">
+          <Calendar size={16} className="text-gray-400" />
+          <input type="date" value={filters.dateFrom} onChange={e => update({ dateFrom: e.target.value })} className={inputClass} />
+          <span>{t('filters.dateTo')}</span>
+          <input type="date" value={filters.dateTo} onChange={e => update({ dateTo: e.target.value })} className={inputClass} />
+        </label>
+
+        <label className="flex items-center gap-2">
+          <Clock size={16} className="text-gray-400" />
+          <input type="time" value={filters.timeFrom} onChange={e => update({ timeFrom: e.target.value })} className={inputClass} />
+          <span>{t('filters.timeTo')}</span>
+          <input type="time" value={filters.timeTo} onChange={e => update({ timeTo: e.target.value })} className={inputClass} />
+        </label>
+
+        {sourceFiles.length > 1 && (
+          <label className="flex items-center gap-2">
+            <FileText size={16} className="text-gray-400" />
+            <select
+              value={filters.sourceFile}
+              onChange={e => update({ sourceFile: e.target.value })}
+              className={`${inputClass} bg-white max-w-[220px]`}
+            >
+              <option value="">{t('filters.allFiles')}</option>
+              {sourceFiles.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </label>
+        )}
+
+        {activeCount > 0 && (
+          <button
+            onClick={() => onChange(EMPTY_FILTERS)}
+            className="flex items-center gap-1 px-3 py-1 rounded-md text-xs font-medium text-gray-500 hover:bg-gray-100 hover:text-gray-700 transition-colors"
+          >
+            <X size={14} />
+            {t('filters.clear', { count: activeCount })}
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex items-center gap-2 text-gray-500 mr-2">
+          <Filter size={16} />
+          <span>{t('filters.label')}</span>
+        </div>
+        {platforms.map(platform => (
+          <button
+            key={platform}
+            onClick={() => update({ platforms: toggle(filters.platforms, platform) })}
+            className={chipClass(filters.platforms.includes(platform))}
+          >
+            {platform}
+          </button>
+        ))}
+        {platforms.length > 0 && restaurants.length > 0 && <span className="h-5 w-px bg-gray-200 mx-1" />}
+        {restaurants.map(restaurant => (
+          <button
+            key={restaurant}
+            onClick={() => update({ restaurants: toggle(filters.restaurants, restaurant) })}
+            className={chipClass(filters.restaurants.includes(restaurant))}
+          >
+            {restaurant}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default OrderFilterBar;
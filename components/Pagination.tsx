@@ -0,0 +1,37 @@
+import React from 'react';
+import { useI18n } from './I18nProvider.tsx';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface PaginationProps {
+  page: number; // Zero-based
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+}
+
+const Pagination: React.FC<PaginationProps> = ({ page, pageSize, total, onPageChange }) => {
+  const { t } = useI18n();
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  if (total <= pageSize) return null;
+
+  const first = page * pageSize + 1;
+  const last = Math.min(total, (page + 1) * pageSize);
+  const buttonClass = 'p-1.5 rounded-md border border-gray-200 bg-white text-gray-600 hover:bg-gray-50 transition-colors disabled:opacity-40 disabled:hover:bg-white';
+
+  return (
+    <div className="px-6 py-3 border-t border-gray-100 flex items-center justify-between text-sm text-gray-500">
+      <span>{t('pagination.range', { first, last, total })}</span>
+      <div className="flex items-center gap-2">
+        <button onClick={() => onPageChange(page - 1)} disabled={page === 0} className={buttonClass} title={t('pagination.previous')}>
+          <ChevronLeft size={16} />
+        </button>
+        <span>{t('pagination.page', { page: page + 1, count: pageCount })}</span>
+        <button onClick={() => onPageChange(page + 1)} disabled={page >= pageCount - 1} className={buttonClass} title={t('pagination.next')}>
+          <ChevronRight size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Pagination;
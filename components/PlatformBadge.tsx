@@ -0,0 +1,20 @@
+import React from 'react';
+import { PlatformDefinition } from '../types.ts';
+import { platformColor, platformTextColor } from '../services/platforms.ts';
+
+interface PlatformBadgeProps {
+  platform: string;
+  platforms: PlatformDefinition[];
+}
+
+// Colors come from the registry, so custom platforms get their own badge too
+const PlatformBadge: React.FC<PlatformBadgeProps> = ({ platform, platforms }) => (
+  <span
+    className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium"
+    style={{ backgroundColor: platformColor(platform, platforms), color: platformTextColor(platform, platforms) }}
+  >
+    {platform}
+  </span>
+);
+
+export default PlatformBadge;
@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { PlatformDefinition } from '../types.ts';
+import { BUILT_IN_PLATFORMS, UNKNOWN_PLATFORM, isValidOrderId, isValidPattern, platformNames, sanitizeCustomPlatforms } from '../services/platforms.ts';
+import PlatformBadge from './PlatformBadge.tsx';
+import { useI18n } from './I18nProvider.tsx';
+import { Plus, Trash2, Search, CheckCircle2, XCircle, AlertTriangle } from 'lucide-react';
+
+interface PlatformSettingsProps {
+  custom: PlatformDefinition[]; // Only the user's entries; built-ins are shown read-only
+  platforms: PlatformDefinition[]; // Built-ins and the custom entries in use
+  onChange: (custom: PlatformDefinition[]) => void;
+}
+
+const NEW_PLATFORM: PlatformDefinition = {
+  name: '',
+  color: '#6366f1',
+  hints: [],
+  orderIdPattern: '^[A-Z0-9-]{4,20}$',
+  priority: 100,
+};
+
+const inputClass = 'w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-brand-500';
+
+const PlatformSettings: React.FC<PlatformSettingsProps> = ({ custom, platforms, onChange }) => {
+  const [testPlatform, setTestPlatform] = useState(platforms[0]?.name ?? UNKNOWN_PLATFORM);
+  const [testOrderId, setTestOrderId] = useState('');
+  const { t } = useI18n();
+
+  const updatePlatform = (index: number, patch: Partial<PlatformDefinition>) => {
+    onChange(custom.map((p, i) => (i === index ? { ...p, ...patch } : p)));
+  };
+
+  const addPlatform = () => {
+    onChange([...custom, { ...NEW_PLATFORM }]);
+  };
+
+  const removePlatform = (index: number) => {
+    onChange(custom.filter((_, i) => i !== index));
+  };
+
+  // An entry is in use when sanitizing keeps it: it has a free name and a valid pattern
+  const isInUse = (index: number): boolean =>
+    sanitizeCustomPlatforms(custom.slice(0, index + 1)).length > sanitizeCustomPlatforms(custom.slice(0, index)).length;
+
+  const testResult = testOrderId.trim() ? isValidOrderId(testPlatform, testOrderId, platforms) : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-6 border-b border-gray-100 flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+          <div className="flex flex-col gap-1">
+            <h2 className="text-xl font-bold text-gray-800">{t('platforms.title')}</h2>
+            <span className="text-xs text-gray-500">
+              {t('platforms.description')}
+            </span>
+          </div>
+          <button
+            onClick={addPlatform}
+            className="flex items-center justify-center gap-2 bg-gray-900 hover:bg-gray-800 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm whitespace-nowrap"
+          >
+            <Plus size={16} />
+            {t('platforms.add')}
+          </button>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-gray-600">
+            <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+              <tr>
+                <th className="px-4 py-4">{t('platforms.col.name')}</th>
+                <th className="px-4 py-4 w-20">{t('platforms.col.color')}</th>
+                <th className="px-4 py-4">{t('platforms.col.hints')}</th>
+                <th className="px-4 py-4">{t('platforms.col.orderIdPattern')}</th>
+                <th className="px-4 py-4">{t('platforms.col.example')}</th>
+                <th className="px-4 py-4 w-24">{t('platforms.col.priority')}</th>
+                <th className="px-4 py-4 w-16"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {BUILT_IN_PLATFORMS.map(platform => (
+                <tr key={platform.name} className="bg-gray-50/50">
+                  <td className="px-4 py-3">
+                    <PlatformBadge platform={platform.name} platforms={platforms} />
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className="inline-block w-6 h-6 rounded border border-gray-200" style={{ backgroundColor: platform.color }} />
+                  </td>
+                  <td className="px-4 py-3 text-xs">{platform.hints.join(', ')}</td>
+                  <td className="px-4 py-3 font-mono text-xs">{platform.orderIdPattern}</td>
+                  <td className="px-4 py-3 font-mono text-xs">{platform.orderIdExample ?? '—'}</td>
+                  <td className="px-4 py-3">{platform.priority}</td>
+                  <td className="px-4 py-3 text-right text-xs text-gray-400 whitespace-nowrap">{t('platforms.builtIn')}</td>
+                </tr>
+              ))}
+              {custom.map((platform, idx) => {
+                const patternValid = isValidPattern(platform.orderIdPattern);
+                return (
+                  <tr key={idx} className="hover:bg-gray-50 transition-colors align-top">
+                    <td className="px-4 py-3">
+                      <input
+                        type="text"
+                        value={platform.name}
+                        onChange={e => updatePlatform(idx, { name: e.target.value })}
+                        placeholder={t('platforms.namePlaceholder')}
+                        className={`${inputClass} font-medium text-gray-900`}
+                      />
+                      {!isInUse(idx) && (
+                        <p className="mt-1 flex items-center gap-1 text-xs text-amber-600">
+                          <AlertTriangle size={12} />
+                          {t('platforms.notInUse')}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="color"
+                        value={platform.color}
+                        onChange={e => updatePlatform(idx, { color: e.target.value })}
+                        className="h-9 w-14 border border-gray-200 rounded-lg cursor-pointer"
+                      />
+                    </td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="text"
+                        value={platform.hints.join(',')}
+                        onChange={e => updatePlatform(idx, { hints: e.target.value.split(',') })}
+                        placeholder={t('platforms.hintsPlaceholder')}
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="text"
+                        value={platform.orderIdPattern}
+                        onChange={e => updatePlatform(idx, { orderIdPattern: e.target.value })}
+                        className={`${inputClass} font-mono ${patternValid ? '' : 'border-red-300 text-red-700'}`}
+                      />
+                      {!patternValid && <p className="mt-1 text-xs text-red-600">{t('platforms.invalidPattern')}</p>}
+                    </td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="text"
+                        value={platform.orderIdExample ?? ''}
+                        onChange={e => updatePlatform(idx, { orderIdExample: e.target.value || undefined })}
+                        className={`${inputClass} font-mono`}
+                      />
+                    </td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="number"
+                        value={platform.priority}
+                        onChange={e => updatePlatform(idx, { priority: Number(e.target.value) })}
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        onClick={() => removePlatform(idx)}
+                        className="p-1.5 rounded-full text-gray-400 hover:bg-red-50 hover:text-red-600 transition-colors"
+                        title={t('platforms.remove')}
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        <p className="px-6 py-3 text-xs text-gray-500 border-t border-gray-100">{t('platforms.cacheHint')}</p>
+      </div>
+
+      {/* Order ID tester */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center gap-2 mb-3">
+          <Search className="text-gray-500" size={18} />
+          <h3 className="text-base font-semibold text-gray-800">{t('platforms.test')}</h3>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <select
+            value={testPlatform}
+            onChange={e => setTestPlatform(e.target.value)}
+            className="border border-gray-200 rounded-lg px-3 py-2 text-sm bg-white focus:outline-none focus:border-brand-500"
+          >
+            {platformNames(platforms).map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+          <input
+            type="text"
+            value={testOrderId}
+            onChange={e => setTestOrderId(e.target.value)}
+            placeholder={t('platforms.testPlaceholder')}
+            className={`${inputClass} font-mono`}
+          />
+        </div>
+        {testResult !== null && (
+          <p className={`mt-3 flex items-center gap-1.5 text-sm ${testResult ? 'text-green-700' : 'text-red-600'}`}>
+            {testResult ? <CheckCircle2 size={16} /> : <XCircle size={16} />}
+            {testResult ? t('platforms.testValid') : t('platforms.testInvalid')}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PlatformSettings;
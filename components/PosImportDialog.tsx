@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { PosColumnMapping, PosField, PosImport } from '../types.ts';
+import {
+  DEFAULT_TIME_WINDOW_MINUTES,
+  POS_FIELDS,
+  guessColumnMapping,
+  loadPosMapping,
+  savePosMapping,
+  toPosRecords,
+  validateMapping,
+} from '../services/reconciliationService.ts';
+import { CsvTable, parseCsv } from '../utils/csv.ts';
+import { MessageKey } from '../services/i18n.ts';
+import { useI18n } from './I18nProvider.tsx';
+import { X, Upload, GitCompare, AlertCircle } from 'lucide-react';
+
+interface PosImportDialogProps {
+  onImport: (pos: PosImport) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+/**
+ * Loads a POS/order-management CSV and lets the user say which column holds each
+ * field. The mapping is remembered for the next import of the same export.
+ */
+const PosImportDialog: React.FC<PosImportDialogProps> = ({ onImport, onClose }) => {
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<CsvTable | null>(null);
+  const [mapping, setMapping] = useState<PosColumnMapping>({});
+  const [timeWindow, setTimeWindow] = useState(DEFAULT_TIME_WINDOW_MINUTES);
+  const [errors, setErrors] = useState<MessageKey[]>([]);
+  const { t } = useI18n();
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setErrors([]);
+    try {
+      const parsed = parseCsv(await file.text());
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        setTable(null);
+        setErrors(['pos.readEmpty']);
+        return;
+      }
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(guessColumnMapping(parsed.headers, loadPosMapping()));
+    } catch (error) {
+      console.error('Failed to read POS CSV:', error);
+      setErrors(['pos.readError']);
+    }
+  };
+
+  const setField = (field: PosField, header: string) =>
+    setMapping(prev => ({ ...prev, [field]: header || undefined }));
+
+  const handleImport = () => {
+    if (!table) return;
+    const problems = validateMapping(mapping);
+    if (problems.length > 0) {
+      setErrors(problems);
+      return;
+    }
+    savePosMapping(mapping);
+    onImport({ fileName, records: toPosRecords(table, mapping), timeWindowMinutes: timeWindow });
+  };
+
+  const mappedHeaders = POS_FIELDS.map(f => mapping[f]).filter((h): h is string => !!h);
+  const selectClass = 'w-full border border-gray-200 rounded-lg px-2 py-1.5 text-sm bg-white focus:outline-none focus:border-brand-500';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl border border-gray-200 w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <GitCompare className="text-gray-500" size={20} />
+            <h2 className="text-xl font-bold text-gray-800">{t('pos.title')}</h2>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-600" title={t('common.close')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto text-sm text-gray-600">
+          <label className="flex items-center gap-3 cursor-pointer">
+            <span className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-gray-200 bg-white hover:bg-gray-50 text-gray-700 font-medium">
+              <Upload size={16} />
+              {table ? t('pos.changeFile') : t('pos.chooseFile')}
+            </span>
+            <span className="truncate">{fileName || t('pos.fileHint')}</span>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={e => handleFile(e.target.files?.[0])}
+            />
+          </label>
+
+          {table && (
+            <>
+              <div>
+                <h3 className="text-sm font-semibold text-gray-800 mb-2">{t('pos.columns')}</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {POS_FIELDS.map(field => (
+                    <label key={field} className="flex flex-col gap-1">
+                      <span className="text-xs text-gray-500">{t(`pos.field.${field}`)}</span>
+                      <select value={mapping[field] ?? ''} onChange={e => setField(field, e.target.value)} className={selectClass}>
+                        <option value="">{t('pos.unused')}</option>
+                        {table.headers.map(header => <option key={header} value={header}>{header}</option>)}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2">
+                <span>{t('pos.timeWindow')}</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={180}
+                  value={timeWindow}
+                  onChange={e => setTimeWindow(Math.max(0, Math.min(180, Number(e.target.value) || 0)))}
+                  className="w-20 border border-gray-200 rounded-lg px-2 py-1 text-sm focus:outline-none focus:border-brand-500"
+                />
+                <span>{t('pos.minutes')}</span>
+              </label>
+
+              <div>
+                <h3 className="text-sm font-semibold text-gray-800 mb-2">
+                  {t('pos.preview')} <span className="font-normal text-gray-400">{t('pos.rows', { count: table.rows.length })}</span>
+                </h3>
+                <div className="overflow-x-auto border border-gray-100 rounded-lg">
+                  <table className="w-full text-left text-xs text-gray-600">
+                    <thead className="bg-gray-50 uppercase font-semibold text-gray-500">
+                      <tr>
+                        {table.headers.map(header => (
+                          <th key={header} className={`px-3 py-2 whitespace-nowrap ${mappedHeaders.includes(header) ? 'text-brand-700' : ''}`}>
+                            {header}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {table.rows.slice(0, PREVIEW_ROWS).map((row, idx) => (
+                        <tr key={idx}>
+                          {row.map((cell, col) => <td key={col} className="px-3 py-1.5 whitespace-nowrap">{cell}</td>)}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
+
+          {errors.length > 0 && (
+            <ul className="text-xs text-red-600 space-y-0.5">
+              {errors.map((reason, idx) => (
+                <li key={idx} className="flex items-center gap-1">
+                  <AlertCircle size={12} />
+                  {t(reason)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-100 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-medium border border-gray-200 bg-white text-gray-600 hover:bg-gray-50 transition-colors"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!table}
+            className="flex items-center gap-2 bg-gray-900 hover:bg-gray-800 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+          >
+            <GitCompare size={16} />
+            {t('pos.reconcile')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PosImportDialog;
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { MaskingMode, PrivacySettings, PurgeReport } from '../types.ts';
+import { MASKING_MODES, MAX_RETENTION_DAYS, maskName } from '../services/privacyService.ts';
+import { MessageKey } from '../services/i18n.ts';
+import { useI18n } from './I18nProvider.tsx';
+import { Eye, EyeOff, Loader2, Trash2 } from 'lucide-react';
+
+interface PrivacyPanelProps {
+  settings: PrivacySettings;
+  onChange: (settings: PrivacySettings) => void;
+  revealNames: boolean; // Session only: every reload starts masked again
+  onRevealNamesChange: (reveal: boolean) => void;
+  lastAutoPurge: PurgeReport | null;
+  onPurgeAll: () => Promise<PurgeReport>;
+}
+
+const MODE_LABEL_KEYS: Record<MaskingMode, MessageKey> = {
+  none: 'privacy.mode.none',
+  initials: 'privacy.mode.initials',
+  pseudonym: 'privacy.mode.pseudonym',
+};
+
+const SAMPLE_NAME = 'João Silva';
+
+const DEFAULT_RETENTION_DAYS = 90;
+
+const PrivacyPanel: React.FC<PrivacyPanelProps> = ({
+  settings,
+  onChange,
+  revealNames,
+  onRevealNamesChange,
+  lastAutoPurge,
+  onPurgeAll,
+}) => {
+  const [isPurging, setIsPurging] = useState(false);
+  const [purgeReport, setPurgeReport] = useState<PurgeReport | null>(null);
+  const [purgeError, setPurgeError] = useState<string | null>(null);
+  const { t, tn } = useI18n();
+
+  const update = (patch: Partial<PrivacySettings>) => onChange({ ...settings, ...patch });
+
+  const setRetentionDays = (value: string) => {
+    const days = Math.floor(Number(value));
+    if (Number.isFinite(days) && days >= 1) update({ retentionDays: Math.min(days, MAX_RETENTION_DAYS) });
+  };
+
+  const handleRoleChange = (authorized: boolean) => {
+    if (authorized && !confirm(t('privacy.confirmReveal'))) return;
+    onRevealNamesChange(authorized);
+  };
+
+  const handlePurge = async () => {
+    if (!confirm(t('privacy.confirmPurge'))) return;
+    setIsPurging(true);
+    try {
+      setPurgeReport(await onPurgeAll());
+      setPurgeError(null);
+    } catch (error) {
+      console.error('Failed to purge personal data:', error);
+      setPurgeError(t('privacy.purgeError'));
+    } finally {
+      setIsPurging(false);
+    }
+  };
+
+  const describeReport = (report: PurgeReport) => [
+    tn('privacy.report.runs', report.runIds.length),
+    tn('privacy.report.names', report.customerNames),
+    tn('privacy.report.files', report.files),
+    tn('privacy.report.cache', report.cacheEntries),
+  ].join(' · ');
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-6 border-b border-gray-100 flex flex-col gap-1">
+        <h2 className="text-xl font-bold text-gray-800">{t('privacy.title')}</h2>
+        <span className="text-xs text-gray-500">{t('privacy.description')}</span>
+      </div>
+
+      <div className="p-6 grid grid-cols-1 lg:grid-cols-2 gap-8 text-sm text-gray-600">
+        <div className="space-y-6">
+          <div className="flex flex-col gap-2">
+            <span className="font-medium text-gray-700">{t('privacy.masking')}</span>
+            {MASKING_MODES.map(mode => (
+              <label key={mode} className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="maskingMode"
+                  checked={settings.maskingMode === mode}
+                  onChange={() => update({ maskingMode: mode })}
+                />
+                {t(MODE_LABEL_KEYS[mode])}
+                <span className="font-mono text-xs text-gray-400">{maskName(SAMPLE_NAME, mode, settings.pseudonymSalt)}</span>
+              </label>
+            ))}
+            <span className="text-xs text-gray-400">{t('privacy.maskingHint')}</span>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <span className="font-medium text-gray-700">{t('privacy.role')}</span>
+            <select
+              value={revealNames ? 'authorized' : 'operator'}
+              onChange={e => handleRoleChange(e.target.value === 'authorized')}
+              disabled={settings.maskingMode === 'none'}
+              className="w-64 border border-gray-200 rounded-lg px-3 py-2 bg-white focus:outline-none focus:border-brand-500 disabled:opacity-50"
+            >
+              <option value="operator">{t('privacy.role.operator')}</option>
+              <option value="authorized">{t('privacy.role.authorized')}</option>
+            </select>
+            <span className="flex items-center gap-1 text-xs text-gray-400">
+              {revealNames && settings.maskingMode !== 'none' ? <Eye size={12} /> : <EyeOff size={12} />}
+              {t('privacy.roleHint')}
+            </span>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          <div className="flex flex-col gap-2">
+            <span className="font-medium text-gray-700">{t('privacy.retention')}</span>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={settings.retentionDays !== null}
+                onChange={e => update({ retentionDays: e.target.checked ? DEFAULT_RETENTION_DAYS : null })}
+              />
+              {t('privacy.retentionEnabled')}
+              <input
+                type="number"
+                min={1}
+                max={MAX_RETENTION_DAYS}
+                value={settings.retentionDays ?? DEFAULT_RETENTION_DAYS}
+                disabled={settings.retentionDays === null}
+                onChange={e => setRetentionDays(e.target.value)}
+                className="w-20 border border-gray-200 rounded-md px-2 py-1 text-sm focus:outline-none focus:border-brand-500 disabled:opacity-50"
+              />
+              {t('privacy.retentionDays')}
+            </label>
+            <span className="text-xs text-gray-400">{t('privacy.retentionHint')}</span>
+            {lastAutoPurge && (
+              <span className="text-xs text-gray-500">{t('privacy.lastAutoPurge', { summary: describeReport(lastAutoPurge) })}</span>
+            )}
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <span className="font-medium text-gray-700">{t('privacy.purge')}</span>
+            <span className="text-xs text-gray-400">{t('privacy.purgeHint')}</span>
+            <button
+              onClick={handlePurge}
+              disabled={isPurging}
+              className="self-start flex items-center justify-center gap-2 bg-white border border-red-200 hover:bg-red-50 text-red-600 px-4 py-2 rounded-lg text-sm font-medium transition-colors whitespace-nowrap disabled:opacity-50"
+            >
+              {isPurging ? <Loader2 size={16} className="animate-spin" /> : <Trash2 size={16} />}
+              {t('privacy.purgeAll')}
+            </button>
+            {purgeReport && (
+              <span className="text-xs text-gray-600">{t('privacy.purgeDone', { summary: describeReport(purgeReport) })}</span>
+            )}
+            {purgeError && <span className="text-xs text-red-500">{purgeError}</span>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PrivacyPanel;
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { AuditedOrder, PosImport, PosRecord, ReconciliationBucket, ReconciliationMatch, ReconciliationResult } from '../types.ts';
+import { MessageKey } from '../services/i18n.ts';
+import { useI18n } from './I18nProvider.tsx';
+import { GitCompare, Download, FileSpreadsheet, RotateCcw, X } from 'lucide-react';
+
+interface ReconciliationPanelProps {
+  pos: PosImport;
+  result: ReconciliationResult;
+  onExportCsv: (bucket: ReconciliationBucket) => void;
+  onExportXlsx: () => void;
+  onReimport: () => void;
+  onClear: () => void;
+}
+
+const BUCKETS: ReconciliationBucket[] = ['matched', 'missing', 'ambiguous'];
+
+const BUCKET_STYLES: Record<ReconciliationBucket, string> = {
+  matched: 'bg-green-100 text-green-700 border-green-200',
+  missing: 'bg-red-100 text-red-700 border-red-200',
+  ambiguous: 'bg-amber-100 text-amber-700 border-amber-200',
+};
+
+const bucketKey = (kind: 'bucket' | 'hint', bucket: ReconciliationBucket): MessageKey =>
+  `reconciliation.${kind}.${bucket}`;
+
+const describeRecord = (record: PosRecord): string =>
+  [record.orderNumber && `#${record.orderNumber}`, record.restaurant, record.date, record.time]
+    .filter(Boolean)
+    .join(' · ');
+
+const OrderCells: React.FC<{ order: AuditedOrder }> = ({ order }) => {
+  const { formatDate, formatTime } = useI18n();
+  return (
+    <>
+      <td className="px-4 py-2">{order.platform}</td>
+      <td className="px-4 py-2 font-medium text-gray-900">{order.orderNumber}</td>
+      <td className="px-4 py-2">{order.restaurantName}</td>
+      <td className="px-4 py-2 whitespace-nowrap">{formatDate(order.date)} {formatTime(order.time)}</td>
+    </>
+  );
+};
+
+const ReconciliationPanel: React.FC<ReconciliationPanelProps> = ({
+  pos,
+  result,
+  onExportCsv,
+  onExportXlsx,
+  onReimport,
+  onClear,
+}) => {
+  const [bucket, setBucket] = useState<ReconciliationBucket>('missing');
+  const { t, formatAmount } = useI18n();
+
+  const renderRows = () => {
+    switch (bucket) {
+      case 'matched':
+        return result.matched.map(({ order, record, method }: ReconciliationMatch) => (
+          <tr key={order.key}>
+            <OrderCells order={order} />
+            <td className="px-4 py-2">
+              <span className="text-gray-400">{t('reconciliation.row', { row: record.row })}</span> {describeRecord(record)}
+            </td>
+            <td className="px-4 py-2 whitespace-nowrap">{record.amount !== undefined ? formatAmount(record.amount) : '—'}</td>
+            <td className="px-4 py-2">{record.shift ?? '—'}</td>
+            <td className="px-4 py-2 text-xs text-gray-500">{t(`reconciliation.method.${method}`)}</td>
+          </tr>
+        ));
+      case 'missing':
+        return result.missing.map(order => (
+          <tr key={order.key}>
+            <OrderCells order={order} />
+            <td className="px-4 py-2 text-gray-500">{order.sourceFile}</td>
+          </tr>
+        ));
+      case 'ambiguous':
+        return result.ambiguous.map(({ order, candidates }) => (
+          <tr key={order.key}>
+            <OrderCells order={order} />
+            <td className="px-4 py-2">
+              <ul className="space-y-0.5">
+                {candidates.map(record => (
+                  <li key={record.row}>
+                    <span className="text-gray-400">{t('reconciliation.row', { row: record.row })}</span> {describeRecord(record)}
+                    {record.amount !== undefined && <span className="text-gray-500"> · {formatAmount(record.amount)}</span>}
+                  </li>
+                ))}
+              </ul>
+            </td>
+          </tr>
+        ));
+    }
+  };
+
+  const extraHeaders: Record<ReconciliationBucket, MessageKey[]> = {
+    matched: ['reconciliation.col.posRow', 'pos.field.amount', 'pos.field.shift', 'reconciliation.col.method'],
+    missing: ['field.sourceFile'],
+    ambiguous: ['reconciliation.col.candidates'],
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-6 border-b border-gray-100 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <GitCompare className="text-gray-500" size={20} />
+          <div className="flex flex-col gap-1">
+            <h2 className="text-xl font-bold text-gray-800">{t('reconciliation.title')}</h2>
+            <span className="text-xs text-gray-500">
+              {t('reconciliation.summary', { file: pos.fileName, rows: pos.records.length, minutes: pos.timeWindowMinutes })}
+            </span>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onReimport}
+            className="flex items-center gap-1 px-3 py-1 rounded-md text-xs font-medium border border-gray-200 bg-white text-gray-600 hover:bg-gray-50 transition-colors"
+          >
+            <RotateCcw size={12} />
+            {t('reconciliation.otherFile')}
+          </button>
+          <button
+            onClick={onExportXlsx}
+            className="flex items-center gap-1 px-3 py-1 rounded-md text-xs font-medium border border-gray-200 bg-white text-gray-600 hover:bg-gray-50 transition-colors"
+          >
+            <FileSpreadsheet size={12} />
+            {t('reconciliation.excelAll')}
+          </button>
+          <button onClick={onClear} className="p-1 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-600" title={t('reconciliation.close')}>
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="px-6 py-3 border-b border-gray-100 flex flex-wrap items-center gap-2">
+        {BUCKETS.map(b => (
+          <button
+            key={b}
+            onClick={() => setBucket(b)}
+            className={`px-3 py-1.5 rounded-full text-xs font-medium transition-colors border ${
+              bucket === b ? BUCKET_STYLES[b] : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+            }`}
+          >
+            {t(bucketKey('bucket', b))} ({result[b].length})
+          </button>
+        ))}
+        <button
+          onClick={() => onExportCsv(bucket)}
+          disabled={result[bucket].length === 0}
+          className="ml-auto flex items-center gap-1 px-3 py-1 rounded-md text-xs font-medium border border-gray-200 bg-white text-gray-600 hover:bg-gray-50 transition-colors disabled:opacity-50"
+        >
+          <Download size={12} />
+          CSV — {t(bucketKey('bucket', bucket))}
+        </button>
+      </div>
+
+      <p className="px-6 pt-3 text-xs text-gray-500">{t(bucketKey('hint', bucket))}</p>
+      <div className="overflow-x-auto max-h-96 overflow-y-auto">
+        <table className="w-full text-left text-sm text-gray-600">
+          <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+            <tr>
+              <th className="px-4 py-2">{t('field.platform')}</th>
+              <th className="px-4 py-2">{t('field.orderNumber')}</th>
+              <th className="px-4 py-2">{t('field.restaurantName')}</th>
+              <th className="px-4 py-2">{t('field.date')}</th>
+              {extraHeaders[bucket].map(header => <th key={header} className="px-4 py-2">{t(header)}</th>)}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {result[bucket].length > 0 ? renderRows() : (
+              <tr>
+                <td colSpan={4 + extraHeaders[bucket].length} className="px-6 py-8 text-center text-gray-400">
+                  {t('reconciliation.empty')}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ReconciliationPanel;
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { ReportColumn, ReportTemplate } from '../types.ts';
+import { DEFAULT_REPORT_TEMPLATE, LOGO_MIME_TYPES, MAX_LOGO_BYTES, REPORT_COLUMNS, REPORT_COLUMN_LABEL_KEYS } from '../services/reportTemplate.ts';
+import { useI18n } from './I18nProvider.tsx';
+import { ImagePlus, RotateCcw, Trash2 } from 'lucide-react';
+
+interface ReportTemplateSettingsProps {
+  template: ReportTemplate;
+  onChange: (template: ReportTemplate) => void;
+}
+
+const readDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const ReportTemplateSettings: React.FC<ReportTemplateSettingsProps> = ({ template, onChange }) => {
+  const [logoError, setLogoError] = useState<string | null>(null);
+  const { t } = useI18n();
+  const maxKb = Math.round(MAX_LOGO_BYTES / 1024);
+
+  const update = (patch: Partial<ReportTemplate>) => onChange({ ...template, ...patch });
+
+  const handleLogo = async (file: File | undefined) => {
+    if (!file) return;
+    if (!LOGO_MIME_TYPES.includes(file.type)) {
+      setLogoError(t('template.logoInvalidType'));
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      setLogoError(t('template.logoTooLarge', { maxKb }));
+      return;
+    }
+    try {
+      update({ logoDataUrl: await readDataUrl(file) });
+      setLogoError(null);
+    } catch (error) {
+      console.error('Failed to read the logo:', error);
+      setLogoError(t('template.logoInvalidType'));
+    }
+  };
+
+  // Keeps the canonical column order whatever order they are ticked in
+  const toggleColumn = (column: ReportColumn) => {
+    const columns = template.columns.includes(column)
+      ? template.columns.filter(c => c !== column)
+      : REPORT_COLUMNS.filter(c => c === column || template.columns.includes(c));
+    update({ columns });
+  };
+
+  const reset = () => {
+    if (confirm(t('template.confirmReset'))) {
+      onChange(DEFAULT_REPORT_TEMPLATE);
+      setLogoError(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-6 border-b border-gray-100 flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+        <div className="flex flex-col gap-1">
+          <h2 className="text-xl font-bold text-gray-800">{t('template.title')}</h2>
+          <span className="text-xs text-gray-500">{t('template.description')}</span>
+        </div>
+        <button
+          onClick={reset}
+          className="flex items-center justify-center gap-2 bg-white border border-gray-200 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium transition-colors whitespace-nowrap"
+        >
+          <RotateCcw size={16} />
+          {t('template.reset')}
+        </button>
+      </div>
+
+      <div className="p-6 grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="space-y-5 text-sm text-gray-600">
+          <label className="flex flex-col gap-1">
+            <span className="font-medium text-gray-700">{t('template.companyName')}</span>
+            <input
+              value={template.companyName}
+              onChange={e => update({ companyName: e.target.value })}
+              className="border border-gray-200 rounded-lg px-3 py-2 focus:outline-none focus:border-brand-500"
+            />
+          </label>
+
+          <div className="flex flex-col gap-1">
+            <span className="font-medium text-gray-700">{t('template.logo')}</span>
+            <div className="flex items-center gap-3">
+              <label className="flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-200 bg-white hover:bg-gray-50 cursor-pointer">
+                <ImagePlus size={16} />
+                {t('template.logoUpload')}
+                <input
+                  type="file"
+                  accept={LOGO_MIME_TYPES.join(',')}
+                  className="hidden"
+                  onChange={e => {
+                    handleLogo(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+              {template.logoDataUrl && (
+                <button
+                  onClick={() => update({ logoDataUrl: undefined })}
+                  className="flex items-center gap-1 px-3 py-2 rounded-lg text-gray-500 hover:bg-red-50 hover:text-red-600"
+                >
+                  <Trash2 size={16} />
+                  {t('template.logoRemove')}
+                </button>
+              )}
+            </div>
+            <span className={`text-xs ${logoError ? 'text-red-500' : 'text-gray-400'}`}>
+              {logoError ?? t('template.logoHint', { maxKb })}
+            </span>
+          </div>
+
+          <label className="flex flex-col gap-1">
+            <span className="font-medium text-gray-700">{t('template.accentColor')}</span>
+            <input
+              type="color"
+              value={template.accentColor}
+              onChange={e => update({ accentColor: e.target.value })}
+              className="h-9 w-20 border border-gray-200 rounded-lg cursor-pointer"
+            />
+          </label>
+
+          <label className="flex flex-col gap-1">
+            <span className="font-medium text-gray-700">{t('template.footerNote')}</span>
+            <textarea
+              value={template.footerNote}
+              onChange={e => update({ footerNote: e.target.value })}
+              rows={2}
+              placeholder={t('template.footerPlaceholder')}
+              className="border border-gray-200 rounded-lg px-3 py-2 focus:outline-none focus:border-brand-500"
+            />
+          </label>
+
+          <div className="flex flex-col gap-2">
+            <span className="font-medium text-gray-700">{t('template.columns')}</span>
+            <div className="grid grid-cols-2 gap-2">
+              {REPORT_COLUMNS.map(column => {
+                const checked = template.columns.includes(column);
+                return (
+                  <label key={column} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={checked}
+                      // At least one column has to stay
+                      disabled={checked && template.columns.length === 1}
+                      onChange={() => toggleColumn(column)}
+                      className="rounded border-gray-300"
+                    />
+                    {t(REPORT_COLUMN_LABEL_KEYS[column])}
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+
+        {/* Rough preview of the first page heading */}
+        <div className="flex flex-col gap-2">
+          <span className="text-sm font-medium text-gray-700">{t('template.preview')}</span>
+          <div className="border border-gray-200 rounded-lg p-5 bg-white shadow-inner min-h-[16rem] flex flex-col">
+            <div className="flex justify-between items-start gap-4">
+              <div>
+                {template.companyName.trim() && (
+                  <div className="text-xs font-medium" style={{ color: template.accentColor }}>{template.companyName}</div>
+                )}
+                <div className="text-lg font-bold text-gray-900">{t('results.title')}</div>
+              </div>
+              {template.logoDataUrl && <img src={template.logoDataUrl} alt="" className="max-h-10 max-w-[8rem] object-contain" />}
+            </div>
+            <div className="mt-4 overflow-hidden rounded">
+              <div className="flex text-[10px] font-semibold text-white" style={{ backgroundColor: template.accentColor }}>
+                {template.columns.map(column => (
+                  <div key={column} className="flex-1 px-2 py-1 truncate">{t(REPORT_COLUMN_LABEL_KEYS[column])}</div>
+                ))}
+              </div>
+              {[0, 1, 2].map(row => (
+                <div key={row} className={`flex h-4 ${row % 2 ? 'bg-gray-100' : 'bg-white'}`} />
+              ))}
+            </div>
+            {template.footerNote.trim() && (
+              <div className="mt-auto pt-4 text-[10px] text-gray-400 whitespace-pre-line">{template.footerNote}</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportTemplateSettings;
@@ -1,28 +1,94 @@
-import React, { useState, useMemo } from 'react';
-import { ExtractedFileResult } from '../types.ts';
-import { AlertCircle, CheckCircle2, FileText, Clock, User, Hash, Store, Calendar, Filter, X, Download, BarChart3 } from 'lucide-react';
-import { jsPDF } from "jspdf";
-import autoTable from "jspdf-autotable";
+import React, { useState, useMemo, useEffect } from 'react';
+import { AuditedOrder, EditableOrderField, ErrorCategory, ExtractedFileResult, OrderCorrection, OrderError, OrderFilters, NameMasker, OrderSort, PlatformDefinition, PosImport, ReconciliationBucket, ReportTemplate, RestaurantStats, ThresholdBreach, ThresholdRule } from '../types.ts';
+import { deduplicateResults } from '../services/dedupService.ts';
+import { buildReportPdf, buildRestaurantBundle } from '../services/reportService.ts';
+import { buildOrdersCsv, buildReconciliationCsv, buildReconciliationXlsx, buildSummaryCsv, buildXlsx, CSV_MIME, XLSX_MIME } from '../services/exportService.ts';
+import { reconcile } from '../services/reconciliationService.ts';
+import { MessageKey } from '../services/i18n.ts';
+import { applyCorrections, createCorrection, fieldText, loadReviewerName, saveReviewerName, validateManualOrder } from '../services/correctionService.ts';
+import { platformNames } from '../services/platforms.ts';
+import { maskCorrections, maskOrders } from '../services/privacyService.ts';
+import { CATEGORY_LABEL_KEYS, ERROR_CATEGORIES } from '../services/errorCategories.ts';
+import { downloadBlob } from '../utils/fileHelpers.ts';
+import { buildSummaryStats, sortPlatforms, sumImpact } from '../utils/summaryStats.ts';
+import { describeThresholdBreach, evaluateThresholds } from '../utils/thresholds.ts';
+import { describeRowIssue } from '../utils/rowIssues.ts';
+import { EMPTY_FILTERS, countActiveFilters, describeFilters, filterOrders, sortOrders } from '../utils/orderFilters.ts';
+import ConflictPanel from './ConflictPanel.tsx';
+import ReviewPanel from './ReviewPanel.tsx';
+import EditableCell from './EditableCell.tsx';
+import PlatformBadge from './PlatformBadge.tsx';
+import AddOrderForm from './AddOrderForm.tsx';
+import CorrectionLog from './CorrectionLog.tsx';
+import OrderFilterBar from './OrderFilterBar.tsx';
+import Pagination from './Pagination.tsx';
+import TrendDashboard from './TrendDashboard.tsx';
+import SourcePreview from './SourcePreview.tsx';
+import PosImportDialog from './PosImportDialog.tsx';
+import ReconciliationPanel from './ReconciliationPanel.tsx';
+import { useI18n } from './I18nProvider.tsx';
+import { AlertCircle, AlertTriangle, CheckCircle2, FileText, Clock, User, Hash, Store, Calendar, Download, BarChart3, CopyMinus, FileSpreadsheet, ChevronDown, ChevronUp, ChevronsUpDown, ClipboardEdit, Pencil, Plus, Trash2, Eye, GitCompare, FileArchive, Loader2 } from 'lucide-react';
 
 interface ResultsTableProps {
   results: ExtractedFileResult[];
+  conflictResolutions: Record<string, number>;
+  onResolveConflict: (key: string, variantIndex: number | undefined) => void;
+  corrections: OrderCorrection[];
+  onAddCorrection: (correction: OrderCorrection) => void;
+  onRemoveCorrection: (id: string) => void;
+  getSourceFile: (resultId: string) => File | undefined;
+  reportTemplate: ReportTemplate;
+  platforms: PlatformDefinition[];
+  maskName?: NameMasker; // Set while customer names must not be shown or exported
+  thresholdRules: ThresholdRule[];
 }
 
-interface RestaurantStats {
-  [key: string]: number;
-  total: number;
-}
+// Rows rendered at once; monthly uploads run into thousands of orders
+const PAGE_SIZE = 50;
 
-const ResultsTable: React.FC<ResultsTableProps> = ({ results }) => {
-  const [selectedRestaurants, setSelectedRestaurants] = useState<string[]>([]);
+// Breaches listed under a restaurant in the summary; the PDF lists them all
+const MAX_BREACH_LINES = 3;
 
-  // Memoize allOrders calculation to avoid recalculating on every render unless results change
-  const allOrders = useMemo(() => {
-    if (results.length === 0) return [];
-    return results.flatMap(r => 
-      r.orders.map(o => ({ ...o, sourceFile: r.fileName }))
-    );
-  }, [results]);
+const ResultsTable: React.FC<ResultsTableProps> = ({
+  results,
+  conflictResolutions,
+  onResolveConflict,
+  corrections,
+  onAddCorrection,
+  onRemoveCorrection,
+  getSourceFile,
+  reportTemplate,
+  platforms,
+  maskName,
+  thresholdRules,
+}) => {
+  const [filters, setFilters] = useState<OrderFilters>(EMPTY_FILTERS);
+  const [sort, setSort] = useState<OrderSort | null>(null);
+  const [page, setPage] = useState(0);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [isReviewMode, setIsReviewMode] = useState(false);
+  const [isAddingOrder, setIsAddingOrder] = useState(false);
+  const [reviewerName, setReviewerName] = useState<string>(loadReviewerName);
+  const [includeCorrectionsAppendix, setIncludeCorrectionsAppendix] = useState(true);
+  const [previewKey, setPreviewKey] = useState<string | null>(null);
+  const [pos, setPos] = useState<PosImport | null>(null);
+  const [isPosDialogOpen, setIsPosDialogOpen] = useState(false);
+  const [isBundling, setIsBundling] = useState(false);
+  const i18n = useI18n();
+  const { t, tn, formatDate, formatTime, formatAmount } = i18n;
+
+  // Overlapping exports report the same order more than once; collapse them before counting
+  const dedup = useMemo(
+    () => deduplicateResults(results, conflictResolutions),
+    [results, conflictResolutions]
+  );
+  // Manual corrections sit on top of the extracted data and feed the table, summary and exports
+  const allOrders = useMemo(
+    () => applyCorrections(dedup.orders, corrections),
+    [dedup.orders, corrections]
+  );
+  const analysedCount = results.filter(r => r.status === 'success' || r.status === 'error').length;
+  const failedCount = results.filter(r => r.status === 'error').length;
 
   if (results.length === 0) return null;
 
@@ -32,144 +98,220 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ results }) => {
     return names.sort();
   }, [allOrders]);
 
-  // Apply filters
-  const filteredOrders = useMemo(() => {
-    if (selectedRestaurants.length === 0) return allOrders;
-    return allOrders.filter(o => selectedRestaurants.includes(o.restaurantName));
-  }, [allOrders, selectedRestaurants]);
-
-  // Aggregation Logic for Summary Table
-  const summaryStats = useMemo(() => {
-    const stats: Record<string, RestaurantStats> = {};
-    const detectedPlatforms = new Set<string>();
-
-    // Initialize stats for all visible restaurants to ensure they appear even with 0 orders if filtered differently
-    const restaurantsToTrack = selectedRestaurants.length > 0 ? selectedRestaurants : uniqueRestaurants;
-    
-    // First pass: scan for platforms involved in current view
-    filteredOrders.forEach(o => detectedPlatforms.add(o.platform));
-    
-    // Sort platforms (standardize order: Uber, Glovo, Bolt, others)
-    const priority = ['Uber Eats', 'Glovo', 'Bolt'];
-    const sortedPlatforms = Array.from(detectedPlatforms).sort((a, b) => {
-      const idxA = priority.indexOf(a);
-      const idxB = priority.indexOf(b);
-      if (idxA !== -1 && idxB !== -1) return idxA - idxB;
-      if (idxA !== -1) return -1;
-      if (idxB !== -1) return 1;
-      return a.localeCompare(b);
-    });
+  const uniquePlatforms = useMemo(
+    () => sortPlatforms(new Set(allOrders.map(o => o.platform)), platforms),
+    [allOrders, platforms]
+  );
 
-    // Populate counts
-    filteredOrders.forEach(order => {
-      const rest = order.restaurantName;
-      const plat = order.platform;
+  const sourceFiles = useMemo(
+    () => Array.from(new Set(allOrders.flatMap(o => o.sourceFiles))).sort(),
+    [allOrders]
+  );
 
-      if (!stats[rest]) {
-        stats[rest] = { total: 0 };
-        sortedPlatforms.forEach(p => stats[rest][p] = 0);
-      }
-      
-      if (stats[rest][plat] === undefined) stats[rest][plat] = 0;
-      stats[rest][plat]++;
-      stats[rest].total++;
-    });
+  // Apply filters; the table, summary, PDF and spreadsheets all follow this list
+  const filteredOrders = useMemo(
+    () => sortOrders(filterOrders(allOrders, filters, maskName), sort, maskName),
+    [allOrders, filters, sort, maskName]
+  );
+  const hasActiveFilters = countActiveFilters(filters) > 0;
+
+  // What leaves the table (PDFs, spreadsheets, the reconciliation) carries masked names
+  const exportOrders = useMemo(() => maskOrders(filteredOrders, maskName), [filteredOrders, maskName]);
+  const exportCorrections = useMemo(() => maskCorrections(corrections, maskName), [corrections, maskName]);
+
+  // Reconciles what the table shows, so filters narrow it the same way as the exports
+  const reconciliation = useMemo(
+    () => pos ? reconcile(exportOrders, pos.records, platforms, pos.timeWindowMinutes) : null,
+    [exportOrders, pos, platforms]
+  );
 
-    return { stats, platforms: sortedPlatforms };
-  }, [filteredOrders, uniqueRestaurants, selectedRestaurants]);
+  useEffect(() => {
+    setPage(0);
+  }, [filters, sort]);
 
-  const toggleRestaurant = (name: string) => {
-    setSelectedRestaurants(prev => 
-      prev.includes(name) 
-        ? prev.filter(n => n !== name) 
-        : [...prev, name]
+  // Deleting rows can shrink the list below the current page
+  const pageCount = Math.max(1, Math.ceil(filteredOrders.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pagedOrders = filteredOrders.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const summaryStats = useMemo(() => buildSummaryStats(filteredOrders, platforms), [filteredOrders, platforms]);
+  const summaryTotal = useMemo(() => sumImpact(Object.values(summaryStats.impact)), [summaryStats]);
+
+  // Rules count whole days and weeks, so they run on every order of the selected restaurants
+  // and platforms and are clipped to the period filter. The PDF lists them as exceptions
+  const breaches = useMemo(() => {
+    const scoped = filterOrders(allOrders, { ...EMPTY_FILTERS, restaurants: filters.restaurants, platforms: filters.platforms });
+    return evaluateThresholds(maskOrders(scoped, maskName), thresholdRules, { dateFrom: filters.dateFrom, dateTo: filters.dateTo });
+  }, [allOrders, filters.restaurants, filters.platforms, filters.dateFrom, filters.dateTo, maskName, thresholdRules]);
+  const breachesByRestaurant = useMemo(() => {
+    const map = new Map<string, ThresholdBreach[]>();
+    breaches.forEach(b => map.set(b.restaurant, [...(map.get(b.restaurant) ?? []), b]));
+    return map;
+  }, [breaches]);
+
+  // Cycles ascending → descending → extraction order
+  const toggleSort = (field: EditableOrderField) => {
+    setSort(prev => {
+      if (prev?.field !== field) return { field, direction: 'asc' };
+      return prev.direction === 'asc' ? { field, direction: 'desc' } : null;
+    });
+  };
+
+  const renderSortHeader = (field: EditableOrderField, label: string) => {
+    const Icon = sort?.field !== field ? ChevronsUpDown : sort.direction === 'asc' ? ChevronUp : ChevronDown;
+    return (
+      <th className="px-6 py-4">
+        <button
+          onClick={() => toggleSort(field)}
+          className={`flex items-center gap-1 uppercase font-semibold hover:text-gray-700 ${sort?.field === field ? 'text-gray-700' : ''}`}
+        >
+          {label}
+          <Icon size={12} className={sort?.field === field ? 'text-brand-600' : 'text-gray-300'} />
+        </button>
+      </th>
     );
   };
 
-  const getPlatformStyle = (platform: string) => {
-    const p = platform.toLowerCase();
-    if (p.includes('uber')) return 'bg-black text-white';
-    if (p.includes('glovo')) return 'bg-yellow-100 text-yellow-800';
-    if (p.includes('bolt')) return 'bg-green-500 text-white';
-    return 'bg-gray-100 text-gray-800';
+  // Looked up by key so the panel follows edits; a deleted order closes it
+  const previewOrder = previewKey ? allOrders.find(o => o.key === previewKey) : undefined;
+
+  const reviewer = reviewerName.trim();
+  const canEdit = isReviewMode && reviewer.length > 0;
+
+  const handleReviewerChange = (name: string) => {
+    setReviewerName(name);
+    saveReviewerName(name);
+  };
+
+  const handleEditField = (order: AuditedOrder, field: EditableOrderField, value: string): string | null => {
+    const result = validateManualOrder({ ...order, [field]: value }, platforms);
+    if ('reasons' in result) return result.reasons.map(reason => describeRowIssue(reason, i18n)).join(' ');
+    const newValue = fieldText(result.order, field);
+    if (newValue === fieldText(order, field)) return null;
+    onAddCorrection(createCorrection({
+      action: 'edit',
+      orderKey: order.key,
+      orderNumber: order.orderNumber,
+      platform: order.platform,
+      field,
+      oldValue: fieldText(order, field),
+      newValue,
+      author: reviewer,
+    }));
+    return null;
+  };
+
+  const handleDeleteOrder = (order: AuditedOrder) => {
+    onAddCorrection(createCorrection({
+      action: 'delete',
+      orderKey: order.key,
+      orderNumber: order.orderNumber,
+      platform: order.platform,
+      author: reviewer,
+    }));
+  };
+
+  const handleConfirmOrder = (order: AuditedOrder) => {
+    onAddCorrection(createCorrection({
+      action: 'confirm',
+      orderKey: order.key,
+      orderNumber: order.orderNumber,
+      platform: order.platform,
+      author: reviewer,
+    }));
+  };
+
+  const handleAddOrder = (draft: OrderError): string[] | null => {
+    const result = validateManualOrder(draft, platforms);
+    if ('reasons' in result) return result.reasons.map(reason => describeRowIssue(reason, i18n));
+    onAddCorrection(createCorrection({
+      action: 'add',
+      orderKey: `manual::${crypto.randomUUID()}`,
+      orderNumber: result.order.orderNumber,
+      platform: result.order.platform,
+      order: result.order,
+      author: reviewer,
+    }));
+    return null;
   };
 
   const handleDownloadPDF = () => {
-    const doc = new jsPDF();
-    
-    // Add Title
-    doc.setFontSize(18);
-    doc.text("Relatório de Pedidos Extraídos", 14, 22);
-    
-    doc.setFontSize(11);
-    doc.setTextColor(100);
-    const dateStr = new Date().toLocaleDateString('pt-BR') + ' ' + new Date().toLocaleTimeString('pt-BR');
-    doc.text(`Gerado em: ${dateStr}`, 14, 30);
-    
-    if (selectedRestaurants.length > 0) {
-        doc.text(`Filtro: ${selectedRestaurants.join(", ")}`, 14, 36);
+    const doc = buildReportPdf(exportOrders, summaryStats, reportTemplate, platforms, i18n, {
+      title: t('results.title'),
+      filterLines: describeFilters(filters, i18n),
+      includeTrends: true,
+      corrections: includeCorrectionsAppendix ? exportCorrections : [],
+      breaches,
+    });
+    doc.save(`${t('file.report')}_${new Date().toISOString().slice(0,10)}.pdf`);
+  };
+
+  // One PDF per restaurant in the current view, for sending each store only its own errors
+  const handleDownloadBundle = async () => {
+    setIsBundling(true);
+    try {
+      const zip = await buildRestaurantBundle(exportOrders, reportTemplate, platforms, i18n, describeFilters(filters, i18n));
+      downloadBlob(new Blob([zip], { type: 'application/zip' }), `${t('file.bundle')}_${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (error) {
+      console.error('Failed to build the report bundle:', error);
+    } finally {
+      setIsBundling(false);
     }
+  };
 
-    // Main Table Data
-    const tableBody = filteredOrders.map(order => [
-        order.platform,
-        order.orderNumber,
-        order.restaurantName,
-        order.date,
-        order.time,
-        order.customerName || 'N/A'
-    ]);
-
-    // Generate Main Table
-    autoTable(doc, {
-        head: [['Plataforma', 'Pedido', 'Restaurante', 'Data', 'Horário', 'Cliente']],
-        body: tableBody,
-        startY: 40,
-        styles: { fontSize: 9 },
-        headStyles: { fillColor: [2, 132, 199] }, // brand-600
-        alternateRowStyles: { fillColor: [245, 245, 245] }
-    });
+  // Spreadsheet exports follow the same restaurant filter as the table and PDF
+  const handleDownloadCsv = (dataset: 'orders' | 'summary') => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    const csv = dataset === 'orders' ? buildOrdersCsv(exportOrders, i18n) : buildSummaryCsv(summaryStats, i18n);
+    const name = `${dataset === 'orders' ? t('file.orders') : t('file.summary')}_${stamp}.csv`;
+    downloadBlob(new Blob([csv], { type: CSV_MIME }), name);
+    setIsExportMenuOpen(false);
+  };
 
-    // Summary Table Data
-    const finalY = (doc as any).lastAutoTable.finalY || 40;
-    
-    doc.setFontSize(14);
-    doc.setTextColor(0);
-    doc.text("Resumo por Restaurante", 14, finalY + 15);
-
-    const summaryHead = [['Restaurante', ...summaryStats.platforms, 'Total']];
-    const summaryBody = Object.entries(summaryStats.stats).map(([restName, data]) => {
-        const stats = data as RestaurantStats;
-        const row = [restName];
-        summaryStats.platforms.forEach(p => row.push(String(stats[p] || 0)));
-        row.push(String(stats.total));
-        return row;
-    });
+  const handleDownloadXlsx = () => {
+    const data = buildXlsx(exportOrders, summaryStats, i18n);
+    downloadBlob(new Blob([data], { type: XLSX_MIME }), `${t('file.report')}_${new Date().toISOString().slice(0, 10)}.xlsx`);
+    setIsExportMenuOpen(false);
+  };
 
-    autoTable(doc, {
-        head: summaryHead,
-        body: summaryBody,
-        startY: finalY + 20,
-        styles: { fontSize: 10 },
-        headStyles: { fillColor: [55, 65, 81] }, // gray-700
-        theme: 'grid'
-    });
+  const handleReconciliationCsv = (bucket: ReconciliationBucket) => {
+    if (!reconciliation) return;
+    const names: Record<ReconciliationBucket, MessageKey> = {
+      matched: 'file.reconciliation.matched',
+      missing: 'file.reconciliation.missing',
+      ambiguous: 'file.reconciliation.ambiguous',
+    };
+    downloadBlob(
+      new Blob([buildReconciliationCsv(reconciliation, bucket, i18n)], { type: CSV_MIME }),
+      `${t(names[bucket])}_${new Date().toISOString().slice(0, 10)}.csv`
+    );
+  };
 
-    doc.save(`Relatorio_Pedidos_${new Date().toISOString().slice(0,10)}.pdf`);
+  const handleReconciliationXlsx = () => {
+    if (!reconciliation) return;
+    downloadBlob(
+      new Blob([buildReconciliationXlsx(reconciliation, i18n)], { type: XLSX_MIME }),
+      `${t('file.reconciliation.all')}_${new Date().toISOString().slice(0, 10)}.xlsx`
+    );
   };
 
   return (
     <div className="mt-8 space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
       
       {/* Summary Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
         <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-100 flex items-center space-x-4">
           <div className="p-3 bg-blue-100 text-blue-600 rounded-full">
             <FileText size={24} />
           </div>
           <div>
-            <p className="text-sm text-gray-500">Arquivos Analisados</p>
-            <p className="text-2xl font-bold text-gray-900">{results.length}</p>
+            <p className="text-sm text-gray-500">{t('results.card.files')}</p>
+            <div className="flex items-baseline gap-2">
+               <p className="text-2xl font-bold text-gray-900">{analysedCount}</p>
+               {analysedCount < results.length && (
+                 <span className="text-sm text-gray-400">{t('common.of', { total: results.length })}</span>
+               )}
+            </div>
           </div>
         </div>
         <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-100 flex items-center space-x-4">
@@ -177,183 +319,436 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ results }) => {
             <Hash size={24} />
           </div>
           <div>
-            <p className="text-sm text-gray-500">Total de Pedidos</p>
+            <p className="text-sm text-gray-500">{t('results.card.orders')}</p>
             <div className="flex items-baseline gap-2">
                <p className="text-2xl font-bold text-gray-900">{filteredOrders.length}</p>
-               {selectedRestaurants.length > 0 && (
-                 <span className="text-sm text-gray-400">de {allOrders.length}</span>
+               {hasActiveFilters && (
+                 <span className="text-sm text-gray-400">{t('common.of', { total: allOrders.length })}</span>
                )}
             </div>
           </div>
         </div>
         <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-100 flex items-center space-x-4">
-          <div className="p-3 bg-green-100 text-green-600 rounded-full">
-            <CheckCircle2 size={24} />
+          <div className="p-3 bg-amber-100 text-amber-600 rounded-full">
+            <CopyMinus size={24} />
           </div>
           <div>
-            <p className="text-sm text-gray-500">Status da IA</p>
-            <p className="text-lg font-bold text-gray-900">Operacional</p>
+            <p className="text-sm text-gray-500">{t('results.card.duplicates')}</p>
+            <div className="flex items-baseline gap-2">
+               <p className="text-2xl font-bold text-gray-900">{dedup.duplicatesRemoved}</p>
+               {dedup.conflicts.length > 0 && (
+                 <span className="text-sm text-amber-600">{t('results.card.conflicts', { count: dedup.conflicts.length })}</span>
+               )}
+            </div>
+          </div>
+        </div>
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-100 flex items-center space-x-4">
+          <div className={`p-3 rounded-full ${failedCount > 0 ? 'bg-red-100 text-red-600' : 'bg-green-100 text-green-600'}`}>
+            {failedCount > 0 ? <AlertCircle size={24} /> : <CheckCircle2 size={24} />}
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">{t('results.card.status')}</p>
+            <p className="text-lg font-bold text-gray-900">
+              {failedCount > 0 ? t('results.card.failed', { count: failedCount }) : t('results.card.ok')}
+            </p>
           </div>
         </div>
       </div>
 
+      {/* Cross-file conflicts */}
+      <ConflictPanel
+        conflicts={maskName ? dedup.conflicts.map(c => ({ ...c, variants: maskOrders(c.variants, maskName) })) : dedup.conflicts}
+        onResolve={onResolveConflict}
+      />
+
+      {/* Rows that failed validation */}
+      <ReviewPanel results={results} maskName={maskName} />
+
       {/* Main Table Container */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
         
         {/* Header with Filter and Download */}
         <div className="p-6 border-b border-gray-100 flex flex-col xl:flex-row xl:justify-between xl:items-center gap-4">
           <div className="flex flex-col gap-1">
-            <h2 className="text-xl font-bold text-gray-800">Relatório de Pedidos Extraídos</h2>
+            <h2 className="text-xl font-bold text-gray-800">{t('results.title')}</h2>
             <span className="text-xs text-gray-500">
-              Mostrando campos: ID, Restaurante, Data, Horário, Cliente
+              {t('results.fields')}
             </span>
           </div>
 
           <div className="flex flex-col sm:flex-row gap-4 sm:items-center">
-              {/* Filter UI */}
-              {uniqueRestaurants.length > 0 && (
-                <div className="flex flex-wrap items-center gap-2">
-                    <div className="flex items-center gap-2 text-sm text-gray-500 mr-2">
-                        <Filter size={16} />
-                        <span>Filtro:</span>
-                    </div>
-                    <div className="flex flex-wrap gap-2">
-                        {uniqueRestaurants.map(restaurant => {
-                            const isSelected = selectedRestaurants.includes(restaurant);
-                            return (
-                                <button
-                                    key={restaurant}
-                                    onClick={() => toggleRestaurant(restaurant)}
-                                    className={`
-                                        px-3 py-1.5 rounded-full text-xs font-medium transition-colors border
-                                        ${isSelected 
-                                            ? 'bg-brand-100 text-brand-700 border-brand-200' 
-                                            : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300 hover:bg-gray-50'}
-                                    `}
-                                >
-                                    {restaurant}
-                                </button>
-                            )
-                        })}
-                        {selectedRestaurants.length > 0 && (
-                            <button 
-                                onClick={() => setSelectedRestaurants([])}
-                                className="p-1.5 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-600 transition-colors"
-                                title="Limpar filtros"
-                            >
-                                <X size={16} />
-                            </button>
-                        )}
+              {/* Download Buttons */}
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setIsReviewMode(on => !on)}
+                  className={`flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors border whitespace-nowrap ${isReviewMode
+                    ? 'bg-brand-100 text-brand-700 border-brand-200'
+                    : 'bg-white border-gray-200 hover:bg-gray-50 text-gray-700'}`}
+                >
+                  <ClipboardEdit size={16} />
+                  {t('results.reviewMode')}
+                </button>
+                <button
+                  onClick={() => setIsPosDialogOpen(true)}
+                  className="flex items-center justify-center gap-2 bg-white border border-gray-200 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium transition-colors whitespace-nowrap"
+                >
+                  <GitCompare size={16} />
+                  {t('results.reconcile')}
+                </button>
+                <button 
+                  onClick={handleDownloadPDF}
+                  className="flex items-center justify-center gap-2 bg-gray-900 hover:bg-gray-800 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm whitespace-nowrap"
+                >
+                  <Download size={16} />
+                  {t('results.downloadPdf')}
+                </button>
+                <button
+                  onClick={handleDownloadBundle}
+                  disabled={isBundling || filteredOrders.length === 0}
+                  title={t('results.bundleHint')}
+                  className="flex items-center justify-center gap-2 bg-white border border-gray-200 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium transition-colors whitespace-nowrap disabled:opacity-50"
+                >
+                  {isBundling ? <Loader2 size={16} className="animate-spin" /> : <FileArchive size={16} />}
+                  {t('results.bundle')}
+                </button>
+                <div className="relative">
+                  <button
+                    onClick={() => setIsExportMenuOpen(open => !open)}
+                    className="flex items-center justify-center gap-2 bg-white border border-gray-200 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium transition-colors whitespace-nowrap"
+                  >
+                    <FileSpreadsheet size={16} />
+                    {t('results.spreadsheets')}
+                    <ChevronDown size={14} />
+                  </button>
+                  {isExportMenuOpen && (
+                    <div className="absolute right-0 mt-2 w-56 bg-white border border-gray-200 rounded-lg shadow-lg z-10 py-1 text-sm">
+                      <button onClick={handleDownloadXlsx} className="w-full text-left px-4 py-2 hover:bg-gray-50 text-gray-700">
+                        {t('results.export.xlsx')}
+                      </button>
+                      <button onClick={() => handleDownloadCsv('orders')} className="w-full text-left px-4 py-2 hover:bg-gray-50 text-gray-700">
+                        {t('results.export.ordersCsv')}
+                      </button>
+                      <button onClick={() => handleDownloadCsv('summary')} className="w-full text-left px-4 py-2 hover:bg-gray-50 text-gray-700">
+                        {t('results.export.summaryCsv')}
+                      </button>
                     </div>
+                  )}
                 </div>
-              )}
-
-              {/* Download Button */}
-              <button 
-                onClick={handleDownloadPDF}
-                className="flex items-center justify-center gap-2 bg-gray-900 hover:bg-gray-800 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm whitespace-nowrap"
-              >
-                <Download size={16} />
-                Download PDF
-              </button>
+              </div>
           </div>
         </div>
         
+        <OrderFilterBar
+          filters={filters}
+          onChange={setFilters}
+          restaurants={uniqueRestaurants}
+          platforms={uniquePlatforms}
+          sourceFiles={sourceFiles}
+        />
+
+        {/* Review toolbar */}
+        {isReviewMode && (
+          <div className="px-6 py-4 border-b border-gray-100 bg-brand-50 flex flex-wrap items-center gap-4 text-sm text-gray-600">
+            <label className="flex items-center gap-2">
+              <User size={16} className="text-gray-400" />
+              <span>{t('review.reviewer')}</span>
+              <input
+                value={reviewerName}
+                onChange={e => handleReviewerChange(e.target.value)}
+                placeholder={t('review.yourName')}
+                className="w-44 border border-gray-200 rounded-lg px-2 py-1 text-sm focus:outline-none focus:border-brand-500"
+              />
+            </label>
+            {canEdit ? (
+              <>
+                <span className="text-xs text-gray-500">{t('review.editHint')}</span>
+                <button
+                  onClick={() => setIsAddingOrder(true)}
+                  className="flex items-center gap-1 px-3 py-1 rounded-md text-xs font-medium border border-gray-200 bg-white text-gray-600 hover:bg-gray-50 transition-colors"
+                >
+                  <Plus size={12} />
+                  {t('review.addOrder')}
+                </button>
+              </>
+            ) : (
+              <span className="text-xs text-amber-700">{t('review.nameRequired')}</span>
+            )}
+            <label className="flex items-center gap-2 ml-auto text-xs">
+              <input
+                type="checkbox"
+                checked={includeCorrectionsAppendix}
+                onChange={e => setIncludeCorrectionsAppendix(e.target.checked)}
+              />
+              {t('review.includeAppendix')}
+            </label>
+          </div>
+        )}
+        {canEdit && isAddingOrder && (
+          <AddOrderForm
+            restaurants={uniqueRestaurants}
+            platforms={platformNames(platforms)}
+            onSubmit={handleAddOrder}
+            onClose={() => setIsAddingOrder(false)}
+          />
+        )}
+
         {/* Table */}
         <div className="overflow-x-auto">
           <table className="w-full text-left text-sm text-gray-600">
             <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
               <tr>
-                <th className="px-6 py-4">Plataforma</th>
-                <th className="px-6 py-4">Pedido #</th>
-                <th className="px-6 py-4">Restaurante</th>
-                <th className="px-6 py-4">Data</th>
-                <th className="px-6 py-4">Horário</th>
-                <th className="px-6 py-4">Nome do Cliente</th>
+                {renderSortHeader('platform', t('field.platform'))}
+                {renderSortHeader('orderNumber', t('results.col.orderNumber'))}
+                {renderSortHeader('restaurantName', t('field.restaurantName'))}
+                {renderSortHeader('date', t('field.date'))}
+                {renderSortHeader('time', t('field.time'))}
+                {renderSortHeader('customerName', t('results.col.customerName'))}
+                {renderSortHeader('category', t('field.category'))}
+                {renderSortHeader('orderValue', t('field.orderValue'))}
+                {renderSortHeader('refundAmount', t('field.refundAmount'))}
+                {canEdit && <th className="px-6 py-4"></th>}
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-100">
               {filteredOrders.length > 0 ? (
-                filteredOrders.map((order, idx) => (
-                  <tr key={`${order.orderNumber}-${idx}`} className="hover:bg-gray-50 transition-colors">
+                pagedOrders.map(order => {
+                  const isCorrected = order.isManual || (order.editedFields?.length ?? 0) > 0;
+                  const cellClass = (field: EditableOrderField) =>
+                    order.editedFields?.includes(field) ? 'text-brand-700 font-medium' : '';
+                  const rowClass = order.hasConflict
+                    ? 'bg-amber-50 hover:bg-amber-100'
+                    : isCorrected ? 'bg-brand-50 hover:bg-brand-100' : 'hover:bg-gray-50';
+                  // Outside review mode a click on the row opens its source; in review mode cells are edited instead
+                  return (
+                  <tr
+                    key={order.key}
+                    onClick={canEdit ? undefined : () => setPreviewKey(order.key)}
+                    className={`transition-colors ${rowClass} ${canEdit ? '' : 'cursor-pointer'} ${previewKey === order.key ? 'ring-2 ring-inset ring-brand-500' : ''}`}
+                  >
                      <td className="px-6 py-4">
-                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getPlatformStyle(order.platform)}`}>
-                        {order.platform}
-                      </span>
+                      <EditableCell
+                        value={order.platform}
+                        editable={canEdit}
+                        options={platformNames(platforms)}
+                        onCommit={value => handleEditField(order, 'platform', value)}
+                      >
+                        <PlatformBadge platform={order.platform} platforms={platforms} />
+                      </EditableCell>
                     </td>
-                    <td className="px-6 py-4 font-medium text-gray-900 flex items-center gap-2">
-                      <Hash size={14} className="text-gray-400" />
-                      {order.orderNumber}
+                    <td className="px-6 py-4 font-medium text-gray-900">
+                      <div className="flex items-center gap-2">
+                        {order.hasConflict
+                          ? <span title={t('results.conflictHint')}><AlertTriangle size={14} className="text-amber-500" /></span>
+                          : isCorrected
+                            ? <span title={order.isManual ? t('results.manualAdded') : t('results.manualEdited')}><Pencil size={14} className="text-brand-600" /></span>
+                            : order.confirmedBy
+                              ? <span title={t('results.confirmedBy', { name: order.confirmedBy })}><CheckCircle2 size={14} className="text-green-600" /></span>
+                              : <Hash size={14} className="text-gray-400" />}
+                        <EditableCell
+                          value={order.orderNumber}
+                          editable={canEdit}
+                          onCommit={value => handleEditField(order, 'orderNumber', value)}
+                        >
+                          <span className={cellClass('orderNumber')}>{order.orderNumber}</span>
+                        </EditableCell>
+                        {order.page !== undefined && (
+                          <span className="text-xs font-normal text-gray-400" title={t('results.pageHint', { file: order.sourceFile, page: order.page })}>
+                            {t('results.pageShort', { page: order.page })}
+                          </span>
+                        )}
+                        {canEdit && !order.isManual && (
+                          <button
+                            onClick={() => setPreviewKey(order.key)}
+                            className="p-1 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-600"
+                            title={t('results.viewSource')}
+                          >
+                            <Eye size={14} />
+                          </button>
+                        )}
+                      </div>
                     </td>
                     <td className="px-6 py-4">
                       <div className="flex items-center gap-2">
                         <Store size={14} className="text-gray-400" />
-                        {order.restaurantName}
+                        <EditableCell
+                          value={order.restaurantName}
+                          editable={canEdit}
+                          onCommit={value => handleEditField(order, 'restaurantName', value)}
+                        >
+                          <span className={cellClass('restaurantName')}>{order.restaurantName}</span>
+                        </EditableCell>
                       </div>
                     </td>
                     <td className="px-6 py-4">
                       <div className="flex items-center gap-2">
                         <Calendar size={14} className="text-gray-400" />
-                        {order.date}
+                        <EditableCell
+                          value={order.date}
+                          editable={canEdit}
+                          onCommit={value => handleEditField(order, 'date', value)}
+                        >
+                          <span className={cellClass('date')}>{formatDate(order.date)}</span>
+                        </EditableCell>
                       </div>
                     </td>
                     <td className="px-6 py-4">
                       <div className="flex items-center gap-2">
                         <Clock size={14} className="text-gray-400" />
-                        {order.time}
+                        <EditableCell
+                          value={order.time}
+                          editable={canEdit}
+                          onCommit={value => handleEditField(order, 'time', value)}
+                        >
+                          <span className={cellClass('time')}>{formatTime(order.time)}</span>
+                        </EditableCell>
                       </div>
                     </td>
                     <td className="px-6 py-4">
                       <div className="flex items-center gap-2">
                         <User size={14} className="text-gray-400" />
-                        <span className={!order.customerName || order.customerName === 'N/A' ? 'text-gray-400 italic' : 'text-gray-700 font-medium'}>
-                          {order.customerName || 'N/A'}
-                        </span>
+                        <EditableCell
+                          value={order.customerName || 'N/A'}
+                          editable={canEdit && !maskName}
+                          onCommit={value => handleEditField(order, 'customerName', value)}
+                        >
+                          <span className={!order.customerName || order.customerName === 'N/A' ? 'text-gray-400 italic' : `text-gray-700 font-medium ${cellClass('customerName')}`}>
+                            {maskName ? maskName(order.customerName || 'N/A') : order.customerName || 'N/A'}
+                          </span>
+                        </EditableCell>
                       </div>
                     </td>
+                    <td className="px-6 py-4">
+                      <EditableCell
+                        value={fieldText(order, 'category')}
+                        editable={canEdit}
+                        options={['', ...ERROR_CATEGORIES]}
+                        optionLabel={option => option ? t(CATEGORY_LABEL_KEYS[option as ErrorCategory]) : '—'}
+                        onCommit={value => handleEditField(order, 'category', value)}
+                      >
+                        {order.category
+                          ? <span className={`inline-block px-2 py-0.5 rounded-md bg-gray-100 text-xs whitespace-nowrap ${cellClass('category')}`}>{t(CATEGORY_LABEL_KEYS[order.category])}</span>
+                          : <span className="text-gray-300">—</span>}
+                      </EditableCell>
+                    </td>
+                    {(['orderValue', 'refundAmount'] as const).map(field => (
+                      <td key={field} className="px-6 py-4 whitespace-nowrap">
+                        <EditableCell
+                          value={fieldText(order, field)}
+                          editable={canEdit}
+                          onCommit={value => handleEditField(order, field, value)}
+                        >
+                          {order[field] !== undefined
+                            ? <span className={cellClass(field)}>{formatAmount(order[field]!)}</span>
+                            : <span className="text-gray-300">—</span>}
+                        </EditableCell>
+                      </td>
+                    ))}
+                    {canEdit && (
+                      <td className="px-6 py-4 text-right">
+                        <button
+                          onClick={() => handleDeleteOrder(order)}
+                          className="p-1.5 rounded-full text-gray-400 hover:bg-red-50 hover:text-red-600 transition-colors"
+                          title={t('results.deleteOrder')}
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </td>
+                    )}
                   </tr>
-                ))
+                  );
+                })
               ) : (
                 <tr>
-                  <td colSpan={6} className="px-6 py-12 text-center text-gray-400">
+                  <td colSpan={canEdit ? 10 : 9} className="px-6 py-12 text-center text-gray-400">
                     {allOrders.length > 0 
-                        ? "Nenhum pedido encontrado para os filtros selecionados." 
-                        : "Nenhum pedido encontrado nos documentos analisados."}
+                        ? t('results.emptyFiltered')
+                        : t('results.empty')}
                   </td>
                 </tr>
               )}
             </tbody>
           </table>
         </div>
+        <Pagination
+          page={currentPage}
+          pageSize={PAGE_SIZE}
+          total={filteredOrders.length}
+          onPageChange={setPage}
+        />
       </div>
 
+      {/* Audit trail of review mode */}
+      <CorrectionLog corrections={exportCorrections} onUndo={onRemoveCorrection} />
+
+      {pos && reconciliation && (
+        <ReconciliationPanel
+          pos={pos}
+          result={reconciliation}
+          onExportCsv={handleReconciliationCsv}
+          onExportXlsx={handleReconciliationXlsx}
+          onReimport={() => setIsPosDialogOpen(true)}
+          onClear={() => setPos(null)}
+        />
+      )}
+      {isPosDialogOpen && (
+        <PosImportDialog
+          onImport={imported => {
+            setPos(imported);
+            setIsPosDialogOpen(false);
+          }}
+          onClose={() => setIsPosDialogOpen(false)}
+        />
+      )}
+
       {/* Aggregated Stats Table */}
       {filteredOrders.length > 0 && (
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
-          <div className="p-6 border-b border-gray-100 flex items-center gap-2">
+          <div className="p-6 border-b border-gray-100 flex flex-wrap items-center gap-2">
             <BarChart3 className="text-gray-500" size={20} />
-            <h2 className="text-xl font-bold text-gray-800">Resumo por Restaurante e Plataforma</h2>
+            <h2 className="text-xl font-bold text-gray-800">{t('summary.title')}</h2>
+            {breaches.length > 0 && (
+              <span className="ml-auto flex items-center gap-1 text-sm font-medium text-red-700">
+                <AlertTriangle size={16} />
+                {tn('summary.breaches', breaches.length)}
+              </span>
+            )}
           </div>
           <div className="overflow-x-auto">
             <table className="w-full text-left text-sm text-gray-600">
               <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
                 <tr>
-                  <th className="px-6 py-4">Restaurante</th>
+                  <th className="px-6 py-4">{t('field.restaurantName')}</th>
                   {summaryStats.platforms.map(p => (
                     <th key={p} className="px-6 py-4 text-center">{p}</th>
                   ))}
-                  <th className="px-6 py-4 text-center font-bold text-gray-700">Total</th>
+                  <th className="px-6 py-4 text-center font-bold text-gray-700">{t('common.total')}</th>
+                  <th className="px-6 py-4 text-right">{t('field.orderValue')}</th>
+                  <th className="px-6 py-4 text-right">{t('field.impact')}</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-100">
                 {Object.entries(summaryStats.stats).map(([restaurant, stats]) => {
                   const statsData = stats as RestaurantStats;
+                  const restaurantBreaches = breachesByRestaurant.get(restaurant) ?? [];
                   return (
-                  <tr key={restaurant} className="hover:bg-gray-50 transition-colors">
-                    <td className="px-6 py-4 font-medium text-gray-900">{restaurant}</td>
+                  <tr key={restaurant} className={`align-top transition-colors ${restaurantBreaches.length > 0 ? 'bg-red-50 hover:bg-red-100/60' : 'hover:bg-gray-50'}`}>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center gap-1 font-medium text-gray-900">
+                        {restaurantBreaches.length > 0 && <AlertTriangle size={14} className="text-red-600" />}
+                        {restaurant}
+                      </div>
+                      {restaurantBreaches.slice(0, MAX_BREACH_LINES).map((breach, idx) => (
+                        <div key={idx} className="text-xs text-red-700">
+                          {breach.rule.platform && `${breach.rule.platform}: `}{describeThresholdBreach(breach, i18n)}
+                        </div>
+                      ))}
+                      {restaurantBreaches.length > MAX_BREACH_LINES && (
+                        <div className="text-xs text-red-500">{t('summary.moreBreaches', { count: restaurantBreaches.length - MAX_BREACH_LINES })}</div>
+                      )}
+                    </td>
                     {summaryStats.platforms.map(p => (
                       <td key={p} className="px-6 py-4 text-center">
-                        <span className={`inline-block px-2 py-1 rounded-md ${statsData[p] > 0 ? 'bg-gray-100 font-medium text-gray-900' : 'text-gray-300'}`}>
+                        <span className={`inline-block px-2 py-1 rounded-md ${restaurantBreaches.some(b => b.rule.platform === p) ? 'bg-red-100 font-bold text-red-700' : statsData[p] > 0 ? 'bg-gray-100 font-medium text-gray-900' : 'text-gray-300'}`}>
                           {statsData[p] || 0}
                         </span>
                       </td>
@@ -363,13 +758,100 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ results }) => {
                         {statsData.total}
                       </span>
                     </td>
+                    <td className="px-6 py-4 text-right whitespace-nowrap">{formatAmount(summaryStats.impact[restaurant].orderValue)}</td>
+                    <td className="px-6 py-4 text-right whitespace-nowrap font-medium text-red-700">{formatAmount(summaryStats.impact[restaurant].refundAmount)}</td>
                   </tr>
                 )})}
               </tbody>
+              <tfoot className="bg-gray-50 font-semibold text-gray-700 border-t border-gray-200">
+                <tr>
+                  <td className="px-6 py-4">{t('common.total')}</td>
+                  {summaryStats.platforms.map(p => (
+                    <td key={p} className="px-6 py-4 text-center">
+                      {Object.values(summaryStats.stats).reduce<number>((sum, stats) => sum + ((stats as RestaurantStats)[p] || 0), 0)}
+                    </td>
+                  ))}
+                  <td className="px-6 py-4 text-center">{summaryTotal.count}</td>
+                  <td className="px-6 py-4 text-right whitespace-nowrap">{formatAmount(summaryTotal.orderValue)}</td>
+                  <td className="px-6 py-4 text-right whitespace-nowrap text-red-700">{formatAmount(summaryTotal.refundAmount)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+
+          {/* Restaurant × category: count and € impact per cell */}
+          <div className="p-6 border-t border-b border-gray-100 flex flex-col gap-1">
+            <h3 className="text-base font-semibold text-gray-800">{t('summary.byCategory')}</h3>
+            <span className="text-xs text-gray-500">{t('summary.byCategoryHint')}</span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm text-gray-600">
+              <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+                <tr>
+                  <th className="px-6 py-4">{t('field.restaurantName')}</th>
+                  {summaryStats.categories.map(c => (
+                    <th key={c} className="px-6 py-4 text-center">{t(CATEGORY_LABEL_KEYS[c])}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {Object.entries(summaryStats.byCategory).map(([restaurant, categories]) => (
+                  <tr key={restaurant} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-6 py-4 font-medium text-gray-900">{restaurant}</td>
+                    {summaryStats.categories.map(c => {
+                      const impact = categories[c];
+                      return (
+                        <td key={c} className="px-6 py-4 text-center whitespace-nowrap">
+                          {impact ? (
+                            <div className="flex flex-col">
+                              <span className="font-medium text-gray-900">{impact.count}</span>
+                              <span className={`text-xs ${impact.refundAmount > 0 ? 'text-red-700' : 'text-gray-400'}`}>{formatAmount(impact.refundAmount)}</span>
+                            </div>
+                          ) : <span className="text-gray-300">—</span>}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-gray-50 font-semibold text-gray-700 border-t border-gray-200">
+                <tr>
+                  <td className="px-6 py-4">{t('common.total')}</td>
+                  {summaryStats.categories.map(c => {
+                    const impact = sumImpact(Object.values(summaryStats.byCategory).map(categories => categories[c]));
+                    return (
+                      <td key={c} className="px-6 py-4 text-center whitespace-nowrap">
+                        <div className="flex flex-col">
+                          <span>{impact.count}</span>
+                          <span className="text-xs text-red-700">{formatAmount(impact.refundAmount)}</span>
+                        </div>
+                      </td>
+                    );
+                  })}
+                </tr>
+              </tfoot>
             </table>
           </div>
         </div>
       )}
+
+      {/* Trends over the filtered orders */}
+      <TrendDashboard orders={filteredOrders} platforms={platforms} />
+
+      {previewOrder && (
+        <SourcePreview
+          order={maskName ? maskOrders([previewOrder], maskName)[0] : previewOrder}
+          lockedFields={maskName ? ['customerName'] : []}
+          platformOptions={platformNames(platforms)}
+          file={previewOrder.sourceId ? getSourceFile(previewOrder.sourceId) : undefined}
+          reviewer={reviewerName}
+          onReviewerChange={handleReviewerChange}
+          onEditField={handleEditField}
+          onConfirm={handleConfirmOrder}
+          onDelete={handleDeleteOrder}
+          onClose={() => setPreviewKey(null)}
+        />
+      )}
     </div>
   );
 };
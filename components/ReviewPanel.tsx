@@ -0,0 +1,91 @@
+import React from 'react';
+import { ExtractedFileResult, NameMasker } from '../types.ts';
+import { MessageKey } from '../services/i18n.ts';
+import { describeRowIssue } from '../utils/rowIssues.ts';
+import { useI18n } from './I18nProvider.tsx';
+import { ClipboardList, FileText } from 'lucide-react';
+
+interface ReviewPanelProps {
+  results: ExtractedFileResult[];
+  maskName?: NameMasker;
+}
+
+// Raw fields shown for a rejected row, in table order
+const RAW_FIELDS: { key: string; label: MessageKey }[] = [
+  { key: 'orderNumber', label: 'reviewPanel.col.orderId' },
+  { key: 'rawStoreName', label: 'reviewPanel.col.store' },
+  { key: 'date', label: 'field.date' },
+  { key: 'time', label: 'field.time' },
+  { key: 'customerName', label: 'field.customerName' },
+  { key: 'platform', label: 'field.platform' },
+];
+
+const formatRaw = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+const ReviewPanel: React.FC<ReviewPanelProps> = ({ results, maskName }) => {
+  const i18n = useI18n();
+  const { t, tn } = i18n;
+  const rawValue = (raw: Record<string, unknown>, key: string): unknown => {
+    if (key === 'rawStoreName') return raw.rawStoreName ?? raw.restaurantName;
+    return key === 'customerName' && maskName && typeof raw.customerName === 'string' ? maskName(raw.customerName) : raw[key];
+  };
+  const rows = results.flatMap(result =>
+    (result.rejectedRows ?? []).map((row, idx) => ({ ...row, fileName: result.fileName, key: `${result.id}-${idx}` }))
+  );
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-amber-200 overflow-hidden">
+      <div className="p-6 border-b border-amber-100 bg-amber-50 flex items-center gap-2">
+        <ClipboardList className="text-amber-600" size={20} />
+        <div className="flex flex-col gap-1">
+          <h2 className="text-xl font-bold text-gray-800">{t('reviewPanel.title')}</h2>
+          <span className="text-xs text-gray-600">
+            {tn('reviewPanel.description', rows.length)}
+          </span>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto max-h-96 overflow-y-auto">
+        <table className="w-full text-left text-sm text-gray-600">
+          <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+            <tr>
+              <th className="px-4 py-2">{t('conflicts.file')}</th>
+              {RAW_FIELDS.map(f => (
+                <th key={f.key} className="px-4 py-2">{t(f.label)}</th>
+              ))}
+              <th className="px-4 py-2">{t('reviewPanel.col.reason')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map(row => (
+              <tr key={row.key} className="align-top">
+                <td className="px-4 py-2">
+                  <div className="flex items-center gap-2">
+                    <FileText size={14} className="text-gray-400 shrink-0" />
+                    <span className="truncate max-w-[160px]">{row.fileName}</span>
+                  </div>
+                </td>
+                {RAW_FIELDS.map(f => (
+                  <td key={f.key} className="px-4 py-2 font-mono text-xs">
+                    {formatRaw(rawValue(row.raw, f.key))}
+                  </td>
+                ))}
+                <td className="px-4 py-2">
+                  <ul className="text-xs text-amber-700 space-y-0.5">
+                    {row.reasons.map((reason, idx) => <li key={idx}>{describeRowIssue(reason, i18n)}</li>)}
+                  </ul>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewPanel;
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { NormalizationRule } from '../types.ts';
+import { DEFAULT_NORMALIZATION_RULES, findCanonicalName } from '../services/normalizationService.ts';
+import { useI18n } from './I18nProvider.tsx';
+import { Plus, Trash2, RotateCcw, Store, ArrowUp, ArrowDown, Search } from 'lucide-react';
+
+interface RulesSettingsProps {
+  rules: NormalizationRule[];
+  onChange: (rules: NormalizationRule[]) => void;
+}
+
+const RulesSettings: React.FC<RulesSettingsProps> = ({ rules, onChange }) => {
+  const [sample, setSample] = useState('');
+  const { t } = useI18n();
+
+  const updateRule = (id: string, patch: Partial<NormalizationRule>) => {
+    onChange(rules.map(r => (r.id === id ? { ...r, ...patch } : r)));
+  };
+
+  const addRule = () => {
+    onChange([...rules, { id: crypto.randomUUID(), keywords: [], canonicalName: '' }]);
+  };
+
+  const removeRule = (id: string) => {
+    onChange(rules.filter(r => r.id !== id));
+  };
+
+  // Rules are evaluated top to bottom, so order matters when keywords overlap
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const resetRules = () => {
+    if (confirm(t('rules.confirmReset'))) {
+      onChange(DEFAULT_NORMALIZATION_RULES);
+    }
+  };
+
+  const sampleResult = sample.trim() ? findCanonicalName(sample, rules) : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-6 border-b border-gray-100 flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+          <div className="flex flex-col gap-1">
+            <h2 className="text-xl font-bold text-gray-800">{t('rules.title')}</h2>
+            <span className="text-xs text-gray-500">
+              {t('rules.description')}
+            </span>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={resetRules}
+              className="flex items-center justify-center gap-2 bg-white border border-gray-200 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium transition-colors whitespace-nowrap"
+            >
+              <RotateCcw size={16} />
+              {t('rules.reset')}
+            </button>
+            <button
+              onClick={addRule}
+              className="flex items-center justify-center gap-2 bg-gray-900 hover:bg-gray-800 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm whitespace-nowrap"
+            >
+              <Plus size={16} />
+              {t('rules.add')}
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-gray-600">
+            <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+              <tr>
+                <th className="px-6 py-4 w-20">{t('rules.col.order')}</th>
+                <th className="px-6 py-4">{t('rules.col.keywords')}</th>
+                <th className="px-6 py-4">{t('field.restaurantName')}</th>
+                <th className="px-6 py-4 w-16"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rules.length > 0 ? (
+                rules.map((rule, idx) => (
+                  <tr key={rule.id} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-6 py-3">
+                      <div className="flex items-center gap-1 text-gray-400">
+                        <button onClick={() => moveRule(idx, -1)} disabled={idx === 0} className="p-1 rounded hover:bg-gray-100 disabled:opacity-30" title={t('rules.moveUp')}>
+                          <ArrowUp size={14} />
+                        </button>
+                        <button onClick={() => moveRule(idx, 1)} disabled={idx === rules.length - 1} className="p-1 rounded hover:bg-gray-100 disabled:opacity-30" title={t('rules.moveDown')}>
+                          <ArrowDown size={14} />
+                        </button>
+                      </div>
+                    </td>
+                    <td className="px-6 py-3">
+                      <input
+                        type="text"
+                        value={rule.keywords.join(',')}
+                        onChange={e => updateRule(rule.id, { keywords: e.target.value.split(',') })}
+                        placeholder={t('rules.keywordsPlaceholder')}
+                        className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-brand-500"
+                      />
+                    </td>
+                    <td className="px-6 py-3">
+                      <div className="flex items-center gap-2">
+                        <Store size={14} className="text-gray-400" />
+                        <input
+                          type="text"
+                          value={rule.canonicalName}
+                          onChange={e => updateRule(rule.id, { canonicalName: e.target.value })}
+                          placeholder={t('rules.namePlaceholder')}
+                          className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm font-medium text-gray-900 focus:outline-none focus:border-brand-500"
+                        />
+                      </div>
+                    </td>
+                    <td className="px-6 py-3 text-right">
+                      <button
+                        onClick={() => removeRule(rule.id)}
+                        className="p-1.5 rounded-full text-gray-400 hover:bg-red-50 hover:text-red-600 transition-colors"
+                        title={t('rules.remove')}
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={4} className="px-6 py-12 text-center text-gray-400">
+                    {t('rules.empty')}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Rule tester */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center gap-2 mb-3">
+          <Search className="text-gray-500" size={18} />
+          <h3 className="text-base font-semibold text-gray-800">{t('rules.test')}</h3>
+        </div>
+        <input
+          type="text"
+          value={sample}
+          onChange={e => setSample(e.target.value)}
+          placeholder={t('rules.testPlaceholder')}
+          className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-brand-500"
+        />
+        {sample.trim() && (
+          <p className="mt-3 text-sm text-gray-600">
+            {sampleResult
+              ? <>{t('rules.testResult')} <span className="font-semibold text-brand-700">{sampleResult}</span></>
+              : <span className="text-gray-400 italic">{t('rules.testNoMatch')}</span>}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RulesSettings;
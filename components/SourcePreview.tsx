@@ -0,0 +1,340 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { AuditedOrder, EditableOrderField, ErrorCategory, SourceRegion } from '../types.ts';
+import { EDITABLE_FIELDS, FIELD_LABEL_KEYS, fieldText } from '../services/correctionService.ts';
+import { CATEGORY_LABEL_KEYS, ERROR_CATEGORIES } from '../services/errorCategories.ts';
+import { MessageKey } from '../services/i18n.ts';
+import { detectSourceKind } from '../utils/fileTypes.ts';
+import { readSavedPageText } from '../utils/htmlText.ts';
+import { LocatedRow, locateOrder, openPdf, renderPdfPage } from '../utils/pdfPreview.ts';
+import EditableCell from './EditableCell.tsx';
+import { useI18n } from './I18nProvider.tsx';
+import { X, ChevronLeft, ChevronRight, Loader2, AlertCircle, CheckCircle2, Trash2, User, FileSearch } from 'lucide-react';
+
+interface SourcePreviewProps {
+  order: AuditedOrder;
+  platformOptions: string[];
+  lockedFields?: EditableOrderField[]; // Shown but not editable, e.g. a masked customer name
+  file?: File; // Missing for manual orders and runs whose files were not kept
+  reviewer: string;
+  onReviewerChange: (name: string) => void;
+  onEditField: (order: AuditedOrder, field: EditableOrderField, value: string) => string | null;
+  onConfirm: (order: AuditedOrder) => void;
+  onDelete: (order: AuditedOrder) => void;
+  onClose: () => void;
+}
+
+type PreviewState =
+  | { kind: 'loading' }
+  | { kind: 'unavailable'; message: MessageKey }
+  | { kind: 'pdf'; pdf: PDFDocumentProxy }
+  | { kind: 'image'; url: string }
+  | { kind: 'text'; lines: string[] };
+
+const normalize = (value: string): string => value.replace(/\s+/g, '').toUpperCase();
+
+const regionStyle = (region: SourceRegion) => ({
+  left: `${region.x * 100}%`,
+  top: `${region.y * 100}%`,
+  width: `${region.width * 100}%`,
+  height: `${region.height * 100}%`,
+});
+
+const Highlight: React.FC<{ region: SourceRegion }> = ({ region }) => (
+  <div
+    className="absolute rounded-sm bg-yellow-300/40 ring-2 ring-amber-500 pointer-events-none"
+    style={regionStyle(region)}
+  />
+);
+
+/**
+ * Side panel showing the document an order was read from, at its page, with the
+ * row highlighted. PDFs are rendered with pdf.js, screenshots use the region the
+ * model reported, and saved pages show their text with the matching line marked.
+ */
+const SourcePreview: React.FC<SourcePreviewProps> = ({
+  order,
+  platformOptions,
+  lockedFields = [],
+  file,
+  reviewer,
+  onReviewerChange,
+  onEditField,
+  onConfirm,
+  onDelete,
+  onClose,
+}) => {
+  const [state, setState] = useState<PreviewState>({ kind: 'loading' });
+  const [page, setPage] = useState(order.page ?? 1);
+  const [located, setLocated] = useState<LocatedRow | null | undefined>(undefined); // undefined while searching
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const matchRef = useRef<HTMLLIElement>(null);
+  // pdf.js refuses two renders on one canvas at a time, so page changes queue up
+  const renderingRef = useRef<Promise<void>>(Promise.resolve());
+  const canReview = reviewer.trim().length > 0;
+  const { t, formatDate, formatTime, formatAmount } = useI18n();
+
+  const categoryLabel = (value: string): string =>
+    value ? t(CATEGORY_LABEL_KEYS[value as ErrorCategory]) : '—';
+
+  const displayValue = (field: EditableOrderField): string => {
+    switch (field) {
+      case 'date': return formatDate(order.date);
+      case 'time': return formatTime(order.time);
+      case 'category': return categoryLabel(order.category ?? '');
+      case 'orderValue':
+      case 'refundAmount': return order[field] !== undefined ? formatAmount(order[field]!) : '—';
+      default: return order[field] || 'N/A';
+    }
+  };
+
+  useEffect(() => {
+    if (!file) {
+      setState({ kind: 'unavailable', message: order.isManual ? 'preview.manual' : 'preview.fileMissing' });
+      return;
+    }
+
+    let cancelled = false;
+    let cleanup = () => {};
+    setState({ kind: 'loading' });
+    const kind = detectSourceKind(file);
+
+    const load = async () => {
+      switch (kind) {
+        case 'pdf': {
+          const pdf = await openPdf(await file.arrayBuffer());
+          if (cancelled) {
+            pdf.destroy();
+            return;
+          }
+          cleanup = () => { pdf.destroy(); };
+          setState({ kind: 'pdf', pdf });
+          return;
+        }
+        case 'image': {
+          const url = URL.createObjectURL(file);
+          cleanup = () => URL.revokeObjectURL(url);
+          setState({ kind: 'image', url });
+          return;
+        }
+        case 'html':
+        case 'mhtml': {
+          const text = await readSavedPageText(file, kind);
+          if (!cancelled) setState({ kind: 'text', lines: text.split('\n').filter(line => line.trim()) });
+          return;
+        }
+        default:
+          setState({ kind: 'unavailable', message: 'preview.unsupported' });
+      }
+    };
+
+    load().catch(error => {
+      console.error('Failed to open source preview:', error);
+      if (!cancelled) setState({ kind: 'unavailable', message: 'preview.openError' });
+    });
+    return () => {
+      cancelled = true;
+      cleanup();
+    };
+  }, [file, order.isManual]);
+
+  // Re-locate when another order is opened on the same document
+  useEffect(() => {
+    if (state.kind !== 'pdf') return;
+    let cancelled = false;
+    setLocated(undefined);
+    setPage(order.page ?? 1);
+    locateOrder(state.pdf, order)
+      .then(found => {
+        if (cancelled) return;
+        setLocated(found);
+        if (found) setPage(found.page);
+      })
+      .catch(error => console.error('Failed to locate order in PDF:', error));
+    return () => { cancelled = true; };
+  }, [state, order.key, order.orderNumber, order.page]);
+
+  useEffect(() => {
+    if (state.kind !== 'pdf' || !canvasRef.current || !containerRef.current) return;
+    const canvas = canvasRef.current;
+    const width = containerRef.current.clientWidth;
+    renderingRef.current = renderingRef.current
+      .catch(() => undefined)
+      .then(() => renderPdfPage(state.pdf, page, canvas, width))
+      .catch(error => console.error('Failed to render PDF page:', error));
+  }, [state, page]);
+
+  useEffect(() => {
+    matchRef.current?.scrollIntoView({ block: 'center' });
+  }, [state, order.key]);
+
+  const renderDocument = () => {
+    switch (state.kind) {
+      case 'loading':
+        return (
+          <div className="flex items-center justify-center gap-2 py-24 text-gray-400 text-sm">
+            <Loader2 size={16} className="animate-spin" />
+            {t('preview.opening')}
+          </div>
+        );
+      case 'unavailable':
+        return (
+          <div className="flex items-center justify-center gap-2 py-24 text-gray-400 text-sm">
+            <AlertCircle size={16} />
+            {t(state.message)}
+          </div>
+        );
+      case 'pdf':
+        return (
+          <div ref={containerRef} className="relative w-full bg-white shadow-sm">
+            <canvas ref={canvasRef} className="block" />
+            {located && located.page === page && <Highlight region={located.region} />}
+          </div>
+        );
+      case 'image':
+        return (
+          <div className="relative w-full bg-white shadow-sm">
+            <img src={state.url} alt={order.sourceFile} className="block w-full" />
+            {order.region && <Highlight region={order.region} />}
+          </div>
+        );
+      case 'text': {
+        const target = normalize(order.orderNumber);
+        const matchIdx = state.lines.findIndex(line => normalize(line).includes(target));
+        return (
+          <ul className="bg-white shadow-sm font-mono text-xs text-gray-600 divide-y divide-gray-50">
+            {state.lines.map((line, idx) => (
+              <li
+                key={idx}
+                ref={idx === matchIdx ? matchRef : undefined}
+                className={`px-3 py-1 whitespace-pre-wrap ${idx === matchIdx ? 'bg-yellow-100 ring-2 ring-amber-500' : ''}`}
+              >
+                {line.replace(/\t/g, '   ')}
+              </li>
+            ))}
+          </ul>
+        );
+      }
+    }
+  };
+
+  const pageCount = state.kind === 'pdf' ? state.pdf.numPages : 0;
+  const notFound = state.kind === 'pdf' && located === null
+    || state.kind === 'image' && !order.region
+    || state.kind === 'text' && !state.lines.some(line => normalize(line).includes(normalize(order.orderNumber)));
+
+  return (
+    <div className="fixed inset-y-0 right-0 z-40 w-full md:w-1/2 xl:w-2/5 bg-white border-l border-gray-200 shadow-xl flex flex-col">
+      <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2 min-w-0">
+          <FileSearch className="text-gray-500 shrink-0" size={18} />
+          <div className="flex flex-col min-w-0">
+            <h3 className="text-base font-semibold text-gray-800">
+              {order.platform} #{order.orderNumber}
+            </h3>
+            <span className="text-xs text-gray-500 truncate" title={order.sourceFiles.join(', ')}>
+              {order.sourceFile}
+            </span>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {pageCount > 1 && (
+            <div className="flex items-center gap-1 text-xs text-gray-500">
+              <button
+                onClick={() => setPage(p => Math.max(1, p - 1))}
+                disabled={page <= 1}
+                className="p-1 rounded-md hover:bg-gray-100 disabled:opacity-40"
+                title={t('pagination.previous')}
+              >
+                <ChevronLeft size={16} />
+              </button>
+              <span>{t('pagination.page', { page, count: pageCount })}</span>
+              <button
+                onClick={() => setPage(p => Math.min(pageCount, p + 1))}
+                disabled={page >= pageCount}
+                className="p-1 rounded-md hover:bg-gray-100 disabled:opacity-40"
+                title={t('pagination.next')}
+              >
+                <ChevronRight size={16} />
+              </button>
+            </div>
+          )}
+          <button onClick={onClose} className="p-1.5 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-600" title={t('common.close')}>
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto bg-gray-100 p-4">
+        {renderDocument()}
+      </div>
+
+      <div className="border-t border-gray-100 px-6 py-4 space-y-3 text-sm">
+        {state.kind !== 'loading' && state.kind !== 'unavailable' && notFound && (
+          <p className="text-xs text-amber-700">
+            {order.page ? t('preview.notFoundOnPage', { page: order.page }) : t('preview.notFound')}
+            {order.snippet && <> {t('preview.snippet')} <span className="font-mono">{order.snippet}</span></>}
+          </p>
+        )}
+        <dl className="grid grid-cols-2 sm:grid-cols-3 gap-x-4 gap-y-2">
+          {EDITABLE_FIELDS.map(field => (
+            <div key={field}>
+              <dt className="text-xs text-gray-400">{t(FIELD_LABEL_KEYS[field])}</dt>
+              <dd className={`text-gray-700 ${order.editedFields?.includes(field) ? 'text-brand-700 font-medium' : ''}`}>
+                <EditableCell
+                  value={field === 'customerName' ? order.customerName || 'N/A' : fieldText(order, field)}
+                  editable={canReview && !lockedFields.includes(field)}
+                  options={field === 'platform' ? platformOptions : field === 'category' ? ['', ...ERROR_CATEGORIES] : undefined}
+                  optionLabel={field === 'category' ? categoryLabel : undefined}
+                  onCommit={value => onEditField(order, field, value)}
+                >
+                  {displayValue(field)}
+                </EditableCell>
+              </dd>
+            </div>
+          ))}
+        </dl>
+        <div className="flex flex-wrap items-center gap-3 pt-1">
+          <label className="flex items-center gap-2 text-xs text-gray-500">
+            <User size={14} className="text-gray-400" />
+            <input
+              value={reviewer}
+              onChange={e => onReviewerChange(e.target.value)}
+              placeholder={t('review.yourName')}
+              className="w-36 border border-gray-200 rounded-lg px-2 py-1 text-sm text-gray-700 focus:outline-none focus:border-brand-500"
+            />
+          </label>
+          {order.confirmedBy ? (
+            <span className="flex items-center gap-1 text-xs text-green-700">
+              <CheckCircle2 size={14} />
+              {t('results.confirmedBy', { name: order.confirmedBy })}
+            </span>
+          ) : (
+            <button
+              onClick={() => onConfirm(order)}
+              disabled={!canReview}
+              className="flex items-center gap-2 bg-gray-900 hover:bg-gray-800 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+            >
+              <CheckCircle2 size={16} />
+              {t('preview.confirm')}
+            </button>
+          )}
+          <button
+            onClick={() => onDelete(order)}
+            disabled={!canReview}
+            className="flex items-center gap-1 px-3 py-1 rounded-md text-xs font-medium border border-gray-200 bg-white text-gray-600 hover:bg-red-50 hover:text-red-600 transition-colors disabled:opacity-50"
+          >
+            <Trash2 size={12} />
+            {t('preview.delete')}
+          </button>
+          <span className="text-xs text-gray-400 ml-auto">
+            {canReview ? t('preview.editHint') : t('preview.nameRequired')}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SourcePreview;
@@ -0,0 +1,169 @@
+import React from 'react';
+import { ThresholdKind, ThresholdPeriod, ThresholdRule } from '../types.ts';
+import { DEFAULT_THRESHOLD_RULES, THRESHOLD_KINDS, THRESHOLD_PERIODS } from '../services/thresholdRules.ts';
+import { MessageKey } from '../services/i18n.ts';
+import { describeThresholdRule } from '../utils/thresholds.ts';
+import { useI18n } from './I18nProvider.tsx';
+import { Plus, Trash2, RotateCcw } from 'lucide-react';
+
+interface ThresholdSettingsProps {
+  rules: ThresholdRule[];
+  onChange: (rules: ThresholdRule[]) => void;
+  restaurants: string[]; // Suggested in the restaurant field; any other name still works
+  platforms: string[];
+}
+
+const PERIOD_LABEL_KEYS: Record<ThresholdPeriod, MessageKey> = {
+  day: 'thresholds.period.day',
+  week: 'thresholds.period.week',
+};
+
+const KIND_LABEL_KEYS: Record<ThresholdKind, MessageKey> = {
+  count: 'thresholds.kind.count',
+  change: 'thresholds.kind.change',
+};
+
+const ThresholdSettings: React.FC<ThresholdSettingsProps> = ({ rules, onChange, restaurants, platforms }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+
+  const updateRule = (id: string, patch: Partial<ThresholdRule>) => {
+    onChange(rules.map(r => (r.id === id ? { ...r, ...patch } : r)));
+  };
+
+  const addRule = () => {
+    onChange([...rules, { id: crypto.randomUUID(), restaurant: '', platform: '', period: 'day', kind: 'count', limit: 5 }]);
+  };
+
+  const removeRule = (id: string) => {
+    onChange(rules.filter(r => r.id !== id));
+  };
+
+  const resetRules = () => {
+    if (confirm(t('thresholds.confirmReset'))) {
+      onChange(DEFAULT_THRESHOLD_RULES);
+    }
+  };
+
+  const setLimit = (id: string, value: string) => {
+    const limit = Math.floor(Number(value));
+    if (Number.isFinite(limit) && limit >= 0) updateRule(id, { limit });
+  };
+
+  const fieldClass = 'w-full border border-gray-200 rounded-lg px-3 py-2 text-sm bg-white focus:outline-none focus:border-brand-500';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-6 border-b border-gray-100 flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+        <div className="flex flex-col gap-1">
+          <h2 className="text-xl font-bold text-gray-800">{t('thresholds.title')}</h2>
+          <span className="text-xs text-gray-500">{t('thresholds.description')}</span>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={resetRules}
+            className="flex items-center justify-center gap-2 bg-white border border-gray-200 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium transition-colors whitespace-nowrap"
+          >
+            <RotateCcw size={16} />
+            {t('thresholds.reset')}
+          </button>
+          <button
+            onClick={addRule}
+            className="flex items-center justify-center gap-2 bg-gray-900 hover:bg-gray-800 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm whitespace-nowrap"
+          >
+            <Plus size={16} />
+            {t('thresholds.add')}
+          </button>
+        </div>
+      </div>
+
+      <datalist id="threshold-restaurants">
+        {restaurants.map(name => <option key={name} value={name} />)}
+      </datalist>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm text-gray-600">
+          <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+            <tr>
+              <th className="px-4 py-4">{t('field.restaurantName')}</th>
+              <th className="px-4 py-4">{t('field.platform')}</th>
+              <th className="px-4 py-4">{t('thresholds.col.period')}</th>
+              <th className="px-4 py-4">{t('thresholds.col.kind')}</th>
+              <th className="px-4 py-4 w-28">{t('thresholds.col.limit')}</th>
+              <th className="px-4 py-4 w-16"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rules.length > 0 ? (
+              rules.map(rule => (
+                <React.Fragment key={rule.id}>
+                  <tr className="border-t border-gray-100">
+                    <td className="px-4 pt-3">
+                      <input
+                        type="text"
+                        list="threshold-restaurants"
+                        value={rule.restaurant}
+                        onChange={e => updateRule(rule.id, { restaurant: e.target.value })}
+                        placeholder={t('thresholds.anyRestaurant')}
+                        className={fieldClass}
+                      />
+                    </td>
+                    <td className="px-4 pt-3">
+                      <select value={rule.platform} onChange={e => updateRule(rule.id, { platform: e.target.value })} className={fieldClass}>
+                        <option value="">{t('thresholds.anyPlatform')}</option>
+                        {platforms.map(p => <option key={p} value={p}>{p}</option>)}
+                        {rule.platform && !platforms.includes(rule.platform) && <option value={rule.platform}>{rule.platform}</option>}
+                      </select>
+                    </td>
+                    <td className="px-4 pt-3">
+                      <select value={rule.period} onChange={e => updateRule(rule.id, { period: e.target.value as ThresholdPeriod })} className={fieldClass}>
+                        {THRESHOLD_PERIODS.map(p => <option key={p} value={p}>{t(PERIOD_LABEL_KEYS[p])}</option>)}
+                      </select>
+                    </td>
+                    <td className="px-4 pt-3">
+                      <select value={rule.kind} onChange={e => updateRule(rule.id, { kind: e.target.value as ThresholdKind })} className={fieldClass}>
+                        {THRESHOLD_KINDS.map(k => <option key={k} value={k}>{t(KIND_LABEL_KEYS[k])}</option>)}
+                      </select>
+                    </td>
+                    <td className="px-4 pt-3">
+                      <div className="flex items-center gap-1">
+                        <input
+                          type="number"
+                          min={0}
+                          value={rule.limit}
+                          onChange={e => setLimit(rule.id, e.target.value)}
+                          className={fieldClass}
+                        />
+                        {rule.kind === 'change' && <span className="text-gray-400">%</span>}
+                      </div>
+                    </td>
+                    <td className="px-4 pt-3 text-right">
+                      <button
+                        onClick={() => removeRule(rule.id)}
+                        className="p-1.5 rounded-full text-gray-400 hover:bg-red-50 hover:text-red-600 transition-colors"
+                        title={t('thresholds.remove')}
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </td>
+                  </tr>
+                  <tr>
+                    <td colSpan={6} className="px-4 pt-1 pb-3 text-xs text-gray-400">{describeThresholdRule(rule, i18n)}</td>
+                  </tr>
+                </React.Fragment>
+              ))
+            ) : (
+              <tr>
+                <td colSpan={6} className="px-6 py-12 text-center text-gray-400">
+                  {t('thresholds.empty')}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ThresholdSettings;
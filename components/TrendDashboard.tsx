@@ -0,0 +1,189 @@
+import React, { useMemo, useState } from 'react';
+import { DailySeries, OrderError, PlatformDefinition, TrendDimension } from '../types.ts';
+import { buildDailySeries, buildHourHeatmap, buildWeekOverWeek, formatDelta, seriesColor } from '../utils/trends.ts';
+import { MessageKey } from '../services/i18n.ts';
+import { useI18n } from './I18nProvider.tsx';
+import { LineChart, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+
+interface TrendDashboardProps {
+  orders: OrderError[];
+  platforms: PlatformDefinition[];
+}
+
+const MAX_SERIES = 8;
+
+const DIMENSION_LABELS: Record<TrendDimension, MessageKey> = {
+  restaurantName: 'trends.byRestaurant',
+  platform: 'trends.byPlatform',
+};
+
+const DailyChart: React.FC<{ data: DailySeries; dimension: TrendDimension; platforms: PlatformDefinition[] }> = ({ data, dimension, platforms }) => {
+  const { t, formatDayMonth } = useI18n();
+  const width = 720;
+  const height = 220;
+  const pad = { top: 10, right: 10, bottom: 24, left: 32 };
+  const series = data.series.slice(0, MAX_SERIES);
+  const max = Math.max(1, ...series.flatMap(s => s.values));
+  const innerW = width - pad.left - pad.right;
+  const innerH = height - pad.top - pad.bottom;
+  const x = (idx: number) => pad.left + (data.dates.length > 1 ? (idx / (data.dates.length - 1)) * innerW : innerW / 2);
+  const y = (value: number) => pad.top + innerH - (value / max) * innerH;
+  const labelEvery = Math.max(1, Math.ceil(data.dates.length / 10));
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-56">
+        {[0, 0.5, 1].map(f => (
+          <g key={f}>
+            <line x1={pad.left} x2={width - pad.right} y1={y(max * f)} y2={y(max * f)} stroke="#f3f4f6" />
+            <text x={pad.left - 6} y={y(max * f) + 3} textAnchor="end" fontSize="10" fill="#9ca3af">{Math.round(max * f)}</text>
+          </g>
+        ))}
+        {data.dates.map((date, idx) => idx % labelEvery === 0 && (
+          <text key={date} x={x(idx)} y={height - 6} textAnchor="middle" fontSize="10" fill="#9ca3af">{formatDayMonth(date)}</text>
+        ))}
+        {series.map((s, sIdx) => (
+          <polyline
+            key={s.name}
+            fill="none"
+            stroke={seriesColor(s.name, sIdx, dimension, platforms)}
+            strokeWidth="2"
+            points={s.values.map((v, idx) => `${x(idx)},${y(v)}`).join(' ')}
+          />
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-3 mt-2 text-xs text-gray-600">
+        {series.map((s, sIdx) => (
+          <span key={s.name} className="flex items-center gap-1.5">
+            <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: seriesColor(s.name, sIdx, dimension, platforms) }} />
+            {s.name} ({s.values.reduce((sum, v) => sum + v, 0)})
+          </span>
+        ))}
+        {data.series.length > MAX_SERIES && (
+          <span className="text-gray-400">{t('trends.hidden', { count: data.series.length - MAX_SERIES })}</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const TrendDashboard: React.FC<TrendDashboardProps> = ({ orders, platforms }) => {
+  const [dimension, setDimension] = useState<TrendDimension>('restaurantName');
+  const { t, formatDayMonth, weekdayLabels } = useI18n();
+
+  const daily = useMemo(() => buildDailySeries(orders, dimension), [orders, dimension]);
+  const heatmap = useMemo(() => buildHourHeatmap(orders), [orders]);
+  const weekOverWeek = useMemo(() => buildWeekOverWeek(orders, dimension, t('common.total')), [orders, dimension, t]);
+
+  if (daily.dates.length === 0) return null;
+
+  const renderDelta = (delta: number) => {
+    // More errors is worse, so an increase is shown in red
+    if (delta > 0) return <TrendingUp size={14} className="text-red-600" />;
+    if (delta < 0) return <TrendingDown size={14} className="text-green-600" />;
+    return <Minus size={14} className="text-gray-400" />;
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-6 border-b border-gray-100 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <LineChart className="text-gray-500" size={20} />
+          <h2 className="text-xl font-bold text-gray-800">{t('trends.title')}</h2>
+        </div>
+        <div className="flex gap-2">
+          {(Object.keys(DIMENSION_LABELS) as TrendDimension[]).map(d => (
+            <button
+              key={d}
+              onClick={() => setDimension(d)}
+              className={`px-3 py-1.5 rounded-full text-xs font-medium transition-colors border ${dimension === d
+                ? 'bg-brand-100 text-brand-700 border-brand-200'
+                : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300 hover:bg-gray-50'}`}
+            >
+              {t(DIMENSION_LABELS[d])}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-6 space-y-8">
+        <section>
+          <h3 className="text-sm font-semibold text-gray-700 mb-3">{t('trends.daily')}</h3>
+          <DailyChart data={daily} dimension={dimension} platforms={platforms} />
+        </section>
+
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+          <section>
+            <h3 className="text-sm font-semibold text-gray-700 mb-3">{t('trends.heatmap')}</h3>
+            <div className="overflow-x-auto">
+              <table className="text-[10px] text-gray-500 border-separate" style={{ borderSpacing: 2 }}>
+                <thead>
+                  <tr>
+                    <th></th>
+                    {Array.from({ length: 24 }, (_, h) => (
+                      <th key={h} className="font-normal w-5">{h % 3 === 0 ? h : ''}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {heatmap.cells.map((row, day) => (
+                    <tr key={day}>
+                      <td className="pr-2 text-right">{weekdayLabels[day]}</td>
+                      {row.map((count, hour) => (
+                        <td
+                          key={hour}
+                          title={`${weekdayLabels[day]} ${String(hour).padStart(2, '0')}h: ${count}`}
+                          className="w-5 h-5 rounded-sm"
+                          style={{
+                            backgroundColor: count === 0
+                              ? '#f3f4f6'
+                              : `rgba(2, 132, 199, ${0.15 + 0.85 * (count / Math.max(1, heatmap.max))})`,
+                          }}
+                        />
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          {weekOverWeek && (
+            <section>
+              <h3 className="text-sm font-semibold text-gray-700 mb-3">
+                {t('trends.weekVsPrevious', { date: formatDayMonth(weekOverWeek.weekStart) })}
+              </h3>
+              <table className="w-full text-left text-sm text-gray-600">
+                <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+                  <tr>
+                    <th className="px-4 py-2">{dimension === 'platform' ? t('field.platform') : t('field.restaurantName')}</th>
+                    <th className="px-4 py-2 text-center">{t('trends.previous')}</th>
+                    <th className="px-4 py-2 text-center">{t('trends.current')}</th>
+                    <th className="px-4 py-2 text-right">{t('trends.change')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {[...weekOverWeek.rows, weekOverWeek.total].map(row => (
+                    <tr key={row.name} className={row === weekOverWeek.total ? 'bg-gray-50 font-semibold text-gray-800' : ''}>
+                      <td className="px-4 py-2">{row.name}</td>
+                      <td className="px-4 py-2 text-center">{row.previous}</td>
+                      <td className="px-4 py-2 text-center">{row.current}</td>
+                      <td className="px-4 py-2">
+                        <span className="flex items-center justify-end gap-1">
+                          {renderDelta(row.delta)}
+                          {formatDelta(row)}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrendDashboard;
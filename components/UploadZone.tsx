@@ -1,5 +1,8 @@
 import React, { useState, useRef } from 'react';
-import { UploadCloud, FileText, X } from 'lucide-react';
+import { RejectedFile } from '../types.ts';
+import { ACCEPTED_FILE_TYPES, classifyFiles } from '../utils/fileTypes.ts';
+import { useI18n } from './I18nProvider.tsx';
+import { UploadCloud, FileX, X } from 'lucide-react';
 
 interface UploadZoneProps {
   onFilesSelected: (files: File[]) => void;
@@ -8,7 +11,27 @@ interface UploadZoneProps {
 
 const UploadZone: React.FC<UploadZoneProps> = ({ onFilesSelected, isProcessing }) => {
   const [isDragging, setIsDragging] = useState(false);
+  const [rejectedFiles, setRejectedFiles] = useState<RejectedFile[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { t, tn } = useI18n();
+
+  const describeRejection = (file: RejectedFile): string => {
+    switch (file.reason) {
+      case 'unsupported':
+        return file.type ? t('upload.reason.unsupportedType', { type: file.type }) : t('upload.reason.unsupported');
+      case 'empty':
+        return t('upload.reason.empty');
+      case 'tooLarge':
+        return t('upload.reason.tooLarge', { max: file.maxSizeMb ?? '' });
+    }
+  };
+
+  // Unsupported files are listed with the reason; the rest of the batch still goes through
+  const handleFiles = (files: File[]) => {
+    const { accepted, rejected } = classifyFiles(files);
+    setRejectedFiles(rejected);
+    if (accepted.length > 0) onFilesSelected(accepted);
+  };
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -26,24 +49,16 @@ const UploadZone: React.FC<UploadZoneProps> = ({ onFilesSelected, isProcessing }
     if (isProcessing) return;
 
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      const validFiles = Array.from(e.dataTransfer.files).filter(
-        (file: File) => file.type === 'application/pdf'
-      );
-      if (validFiles.length > 0) {
-        onFilesSelected(validFiles);
-      } else {
-        alert("Por favor, envie apenas arquivos PDF.");
-      }
+      handleFiles(Array.from(e.dataTransfer.files));
     }
   };
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      const validFiles = Array.from(e.target.files).filter(
-        (file: File) => file.type === 'application/pdf'
-      );
-      onFilesSelected(validFiles);
+      handleFiles(Array.from(e.target.files));
     }
+    // Lets the same file be picked again after a rejection
+    e.target.value = '';
   };
 
   const handleClick = () => {
@@ -53,6 +68,7 @@ const UploadZone: React.FC<UploadZoneProps> = ({ onFilesSelected, isProcessing }
   };
 
   return (
+    <div>
     <div
       onClick={handleClick}
       onDragOver={handleDragOver}
@@ -71,7 +87,7 @@ const UploadZone: React.FC<UploadZoneProps> = ({ onFilesSelected, isProcessing }
         ref={fileInputRef}
         onChange={handleFileInput}
         className="hidden"
-        accept="application/pdf"
+        accept={ACCEPTED_FILE_TYPES}
         multiple
         disabled={isProcessing}
       />
@@ -82,14 +98,41 @@ const UploadZone: React.FC<UploadZoneProps> = ({ onFilesSelected, isProcessing }
         </div>
         <div>
           <h3 className="text-lg font-semibold text-gray-700">
-            {isProcessing ? 'Processando arquivos...' : 'Clique ou arraste seus PDFs aqui'}
+            {isProcessing ? t('upload.processing') : t('upload.prompt')}
           </h3>
           <p className="text-sm text-gray-500 mt-1">
-            Suporta múltiplos arquivos PDF (Páginas Web Impressas)
+            {t('upload.formats')}
           </p>
         </div>
       </div>
     </div>
+
+    {rejectedFiles.length > 0 && (
+      <div className="mt-4 bg-red-50 border border-red-100 rounded-lg p-4 text-sm">
+        <div className="flex items-center justify-between mb-2">
+          <span className="flex items-center gap-2 font-medium text-red-700">
+            <FileX size={16} />
+            {tn('upload.rejected', rejectedFiles.length)}
+          </span>
+          <button
+            onClick={() => setRejectedFiles([])}
+            className="p-1 rounded-full text-red-400 hover:bg-red-100 hover:text-red-600 transition-colors"
+            title={t('upload.dismiss')}
+          >
+            <X size={14} />
+          </button>
+        </div>
+        <ul className="space-y-1">
+          {rejectedFiles.map((file, idx) => (
+            <li key={`${file.name}-${idx}`} className="flex flex-wrap gap-x-2 text-red-700">
+              <span className="font-medium">{file.name}</span>
+              <span className="text-red-600">— {describeRejection(file)}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    )}
+    </div>
   );
 };
 
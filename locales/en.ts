@@ -0,0 +1,515 @@
+import { Messages } from "./pt-PT.ts";
+
+const en: Messages = {
+  // App shell
+  'app.nav.audit': 'Audit',
+  'app.nav.history': 'History',
+  'app.nav.rules': 'Restaurant Rules',
+  'app.nav.alerts': 'Alerts',
+  'app.nav.platforms': 'Platforms',
+  'app.nav.report': 'Report Template',
+  'app.nav.customers': 'Customers',
+  'app.nav.privacy': 'Privacy',
+  'app.language': 'Language',
+  'app.import.title': 'Import Reports',
+  'app.import.description': 'Upload web pages printed to PDF, screenshots or saved pages (HTML/MHTML). Orders with errors are identified automatically, with their dates, names and order numbers.',
+  'app.progress.analysing': 'Analysing {count} file(s), up to {concurrency} at a time...',
+  'app.progress.retrying': '{error} Retrying {file} in {seconds}s...',
+  'app.progress.cancelling': 'Cancelling... files already finished are kept.',
+  'app.run.single': 'Run: ',
+  'app.run.combined': 'Combined runs: ',
+  'app.footer': 'Powered by Gemini AI • Secure Processing',
+
+  // Shared
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.save': 'Save',
+  'common.delete': 'Delete',
+  'common.undo': 'Undo',
+  'common.total': 'Total',
+  'common.of': 'of {total}',
+
+  // Order fields
+  'field.platform': 'Platform',
+  'field.orderNumber': 'Order',
+  'field.restaurantName': 'Restaurant',
+  'field.date': 'Date',
+  'field.time': 'Time',
+  'field.customerName': 'Customer',
+  'field.sourceFile': 'Source File',
+  'field.page': 'Page',
+  'field.category': 'Category',
+  'field.orderValue': 'Order value',
+  'field.refundAmount': 'Refund/penalty',
+  'field.impact': '€ impact',
+  'category.cancelled': 'Cancelled',
+  'category.missingItem': 'Missing item',
+  'category.wrongItem': 'Wrong item',
+  'category.late': 'Late',
+  'category.refunded': 'Refunded',
+  'category.quality': 'Quality',
+  'category.other': 'Other',
+  'category.uncategorized': 'Uncategorized',
+
+  // Extraction options
+  'options.engine': 'Extraction engine',
+  'options.concurrency': 'Files in parallel',
+  'options.retries': 'Retries on temporary errors',
+  'options.cache.hint': 'Files whose content was already extracted are read from the cache, without calling the AI again.',
+  'options.cache.count.one': 'Cache: {count} file',
+  'options.cache.count.other': 'Cache: {count} files',
+  'options.cache.confirmClear': 'Clear the extraction cache? Files uploaded next will be read again.',
+  'options.cache.clear': 'Clear cache',
+  'engine.gemini.label': 'Gemini AI',
+  'engine.gemini.description': 'Sends the document to the AI through the app server, which holds the API key.',
+  'engine.local.label': 'Local reader',
+  'engine.local.description': 'Reads PDFs and saved pages in the browser, offline, for known layouts. Does not read images.',
+  'engine.local-first.label': 'Local, AI as fallback',
+  'engine.local-first.description': 'Tries the local reader and only uses the AI when the layout is not recognised.',
+
+  // Upload
+  'upload.processing': 'Processing files...',
+  'upload.prompt': 'Click or drag your files here',
+  'upload.formats': 'PDF (printed web pages), PNG/JPEG/WebP screenshots or saved HTML/MHTML pages',
+  'upload.rejected.one': '{count} file was not accepted',
+  'upload.rejected.other': '{count} files were not accepted',
+  'upload.dismiss': 'Dismiss',
+  'upload.reason.unsupported': 'Unsupported type. Upload PDF, PNG, JPEG, WebP, HTML or MHTML.',
+  'upload.reason.unsupportedType': 'Unsupported type ({type}). Upload PDF, PNG, JPEG, WebP, HTML or MHTML.',
+  'upload.reason.empty': 'Empty file.',
+  'upload.reason.tooLarge': 'File larger than {max} MB.',
+
+  // File list
+  'files.title': 'Files',
+  'files.done': '{done} of {total} done',
+  'files.queued': 'Queued',
+  'files.processing': 'Processing...',
+  'files.processingAttempt': 'Processing (attempt {attempt})',
+  'files.orders.one': '{count} order',
+  'files.orders.other': '{count} orders',
+  'files.pages.one': '· {count} page',
+  'files.pages.other': '· {count} pages',
+  'files.pagesPartial': '· {processed} of {total} pages',
+  'files.toReview': '· {count} to review',
+  'files.engine.gemini': 'AI',
+  'files.engine.local': 'Local',
+  'files.engine.local-first': 'Local',
+  'files.engine.mock': 'Test',
+  'files.fromCache': 'Cached',
+  'files.fromCacheHint': 'Reused from an earlier extraction of the same file',
+  'files.failed': 'Failed to process the file.',
+  'files.retry': 'Retry',
+  'files.retryHint': 'Try again',
+  'files.retryFailed': 'Retry the {count} failed',
+  'files.reextract': 'Re-extract',
+  'files.reextractHint': 'Extract again, ignoring the cache',
+  'files.reextractCached': 'Re-extract the {count} cached',
+
+  // Extraction errors, by ExtractionErrorCode
+  'error.MISSING_API_KEY': 'The Gemini API key is not configured on the server.',
+  'error.INVALID_API_KEY': 'The Gemini API key is invalid or lacks permission.',
+  'error.QUOTA_EXCEEDED': 'API quota exceeded (request limit). Try again later.',
+  'error.SERVER_ERROR': 'The AI service is currently unavailable.',
+  'error.NETWORK_ERROR': 'Network failure while contacting the AI service.',
+  'error.INVALID_JSON': 'The AI response is not valid JSON.',
+  'error.OUTPUT_TRUNCATED': 'The AI response was cut off at its output limit (too many orders in one request).',
+  'error.EMPTY_DOCUMENT': 'The document is empty or has no readable content.',
+  'error.UNSUPPORTED_LAYOUT': 'The document does not look like a supported order report.',
+  'error.FILE_TOO_LARGE': 'The file exceeds the maximum size accepted by the server.',
+  'error.UNSUPPORTED_FILE_TYPE': 'File type not accepted by the server.',
+  'error.RATE_LIMITED': 'Too many requests to the server in a row. Wait a moment.',
+  'error.CANCELLED': 'Extraction cancelled.',
+  'error.UNKNOWN': 'Failed to process the file.',
+
+  // Validation reasons for rejected rows, by RowIssueCode
+  'rowIssue.NOT_AN_OBJECT': 'Row is not an object.',
+  'rowIssue.PLATFORM_MISSING': 'Platform missing.',
+  'rowIssue.PLATFORM_UNKNOWN': 'Platform "{platform}" is not one of the supported ones ({supported}).',
+  'rowIssue.ORDER_ID_MISSING': 'Order number missing.',
+  'rowIssue.ORDER_ID_FORMAT': 'Order number "{orderId}" does not match the format expected for {platform}.',
+  'rowIssue.STORE_MISSING': 'Store missing.',
+  'rowIssue.DATE_MISSING': 'Date missing.',
+  'rowIssue.DATE_INVALID': 'Invalid date "{value}" (expected YYYY-MM-DD or DD/MM/YY).',
+  'rowIssue.TIME_MISSING': 'Time missing.',
+  'rowIssue.TIME_INVALID': 'Invalid time "{value}" (expected HH:MM).',
+  'rowIssue.CUSTOMER_NOT_TEXT': 'Customer name is not text.',
+  'rowIssue.ORDER_VALUE_INVALID': 'Invalid order value "{value}".',
+  'rowIssue.REFUND_INVALID': 'Invalid refund/penalty "{value}".',
+
+  // Results
+  'results.card.files': 'Files Analysed',
+  'results.card.orders': 'Total Orders',
+  'results.card.duplicates': 'Duplicates Removed',
+  'results.card.conflicts': '{count} in conflict',
+  'results.card.status': 'AI Status',
+  'results.card.failed': '{count} file(s) failed',
+  'results.card.ok': 'Operational',
+  'results.title': 'Extracted Orders Report',
+  'results.fields': 'Fields shown: ID, Restaurant, Date, Time, Customer',
+  'results.reviewMode': 'Review mode',
+  'results.reconcile': 'Reconcile with POS',
+  'results.downloadPdf': 'Download PDF',
+  'results.bundle': 'PDF per restaurant',
+  'results.bundleHint': 'One PDF per restaurant with only its own orders, packed in a ZIP file',
+  'results.spreadsheets': 'Spreadsheets',
+  'results.export.xlsx': 'Excel (.xlsx) — Orders and Summary',
+  'results.export.ordersCsv': 'CSV — Orders',
+  'results.export.summaryCsv': 'CSV — Summary by Restaurant',
+  'results.col.orderNumber': 'Order #',
+  'results.col.customerName': 'Customer Name',
+  'results.conflictHint': 'Data differs between files',
+  'results.manualAdded': 'Added manually',
+  'results.manualEdited': 'Corrected manually',
+  'results.confirmedBy': 'Confirmed by {name}',
+  'results.pageHint': '{file}, page {page}',
+  'results.pageShort': 'p. {page}',
+  'results.viewSource': 'Show in the source document',
+  'results.deleteOrder': 'Delete order (false positive)',
+  'results.emptyFiltered': 'No orders match the selected filters.',
+  'results.empty': 'No orders found in the analysed documents.',
+  'summary.title': 'Summary by Restaurant and Platform',
+  'summary.byCategory': 'Impact by Restaurant and Category',
+  'summary.byCategoryHint': 'Orders and amount refunded or charged as penalty; amounts not printed in the reports count as 0.',
+  'summary.breaches.one': '{count} alert breached',
+  'summary.breaches.other': '{count} alerts breached',
+  'summary.moreBreaches': '+{count} more in the PDF',
+
+  // Review mode
+  'review.reviewer': 'Reviewer',
+  'review.yourName': 'Your name',
+  'review.editHint': 'Click a cell to edit it. Changes are logged under your name.',
+  'review.addOrder': 'Add order',
+  'review.nameRequired': 'Enter your name to log corrections.',
+  'review.includeAppendix': 'Include the corrections appendix in the PDF',
+  'editable.hint': 'Click to edit',
+  'addOrder.title': 'Add an order that was not extracted',
+  'addOrder.orderNumber': 'Order number',
+  'addOrder.customerOptional': 'Customer (optional)',
+  'addOrder.categoryOptional': 'Category (optional)',
+  'addOrder.orderValueOptional': 'Value € (optional)',
+  'addOrder.refundOptional': 'Refund € (optional)',
+  'addOrder.submit': 'Add',
+
+  // Corrections
+  'corrections.title': 'Manual Corrections',
+  'corrections.count.one': '{count} change logged in review mode.',
+  'corrections.count.other': '{count} changes logged in review mode.',
+  'corrections.col.when': 'When',
+  'corrections.col.who': 'Who',
+  'corrections.col.action': 'Action',
+  'corrections.col.field': 'Field',
+  'corrections.col.oldValue': 'Previous value',
+  'corrections.col.newValue': 'New value',
+  'correction.action.edit': 'Edit',
+  'correction.action.delete': 'Deletion',
+  'correction.action.add': 'Addition',
+  'correction.action.confirm': 'Confirmation',
+
+  // PDF report
+  'pdf.generatedAt': 'Generated: {date}',
+  'pdf.manualFootnote': '* Order corrected or added manually during review.',
+  'pdf.summaryTitle': 'Summary by Restaurant',
+  'pdf.trends': 'Trends',
+  'pdf.dailyByRestaurant': 'Orders with errors per day — by restaurant',
+  'pdf.dailyByPlatform': 'Orders with errors per day — by platform',
+  'pdf.appendix': 'Appendix — Manual Corrections',
+  'pdf.restaurantTitle': 'Order Report — {name}',
+  'pdf.platformBreakdown': 'Orders by Platform',
+  'pdf.orderCount': 'Orders',
+  'pdf.categoryTitle': 'Impact by Category',
+  'pdf.exceptions': 'Exceptions',
+  'pdf.exceptionsHint': '{count} cases over the alert thresholds, each with the orders behind it.',
+  'pdf.ordersTitle': 'Orders',
+
+  // Exported file names (no accents or spaces)
+  'file.report': 'Orders_Report',
+  'file.orders': 'Orders',
+  'file.summary': 'Restaurant_Summary',
+  'file.bundle': 'Reports_by_Restaurant',
+  'file.reconciliation.matched': 'Reconciliation_Matched',
+  'file.reconciliation.missing': 'Reconciliation_Missing_in_POS',
+  'file.reconciliation.ambiguous': 'Reconciliation_Ambiguous',
+  'file.reconciliation.all': 'POS_Reconciliation',
+  'file.customers': 'Repeat_Customers',
+
+  // Spreadsheet exports
+  'export.sheet.orders': 'Orders',
+  'export.sheet.summary': 'Summary',
+  'export.sheet.categories': 'By category',
+  'export.sheet.customers': 'Customers',
+  'export.sheet.timeline': 'Timeline',
+  'export.col.posRow': 'POS Row',
+  'export.col.posOrderNumber': 'POS Order',
+  'export.col.posRestaurant': 'POS Restaurant',
+  'export.col.posDate': 'POS Date',
+  'export.col.posTime': 'POS Time',
+  'export.col.candidates': 'Candidates',
+  'export.col.posRows': 'POS Rows',
+  'export.col.rank': 'Rank',
+  'export.col.nameVariants': 'Spellings',
+  'export.col.firstOrder': 'First order',
+  'export.col.lastOrder': 'Last order',
+
+  // Filters
+  'filters.searchPlaceholder': 'Search order or customer',
+  'filters.dateTo': 'to',
+  'filters.timeTo': 'to',
+  'filters.allFiles': 'All files',
+  'filters.clear': 'Clear filters ({count})',
+  'filters.label': 'Filter:',
+  'filters.desc.restaurants': 'Restaurants: {list}',
+  'filters.desc.platforms': 'Platforms: {list}',
+  'filters.desc.period': 'Period: {from} to {to}',
+  'filters.desc.time': 'Time: {from} to {to}',
+  'filters.desc.file': 'File: {name}',
+  'filters.desc.search': 'Search: "{text}"',
+  'pagination.range': '{first}–{last} of {total} orders',
+  'pagination.previous': 'Previous page',
+  'pagination.next': 'Next page',
+  'pagination.page': 'Page {page} of {count}',
+
+  // Conflicts
+  'conflicts.title': 'Conflicts Between Files',
+  'conflicts.pending': '{pending} of {total} orders appear with different data in different files. Choose the correct version.',
+  'conflicts.resolved': 'All {total} conflicts have been resolved.',
+  'conflicts.differsIn': 'Differs in: {fields}',
+  'conflicts.file': 'File',
+  'conflicts.selected': 'Selected',
+  'conflicts.useVersion': 'Use this version',
+
+  // Rows that failed validation
+  'reviewPanel.title': 'Needs Review',
+  'reviewPanel.description.one': '{count} extracted row failed validation and was left out of the report. Check it against the original document.',
+  'reviewPanel.description.other': '{count} extracted rows failed validation and were left out of the report. Check them against the original document.',
+  'reviewPanel.col.orderId': 'Order ID',
+  'reviewPanel.col.store': 'Store',
+  'reviewPanel.col.reason': 'Reason',
+
+  // History
+  'history.defaultName': 'Audit {date}',
+  'history.mergedName': 'Merged: {names}',
+  'history.title': 'Audit History',
+  'history.description': 'Runs saved in this browser. Select several to analyse them together or merge them.',
+  'history.loadError': 'Could not load the history stored in this browser.',
+  'history.confirmDelete': 'Delete "{name}" from the history? This cannot be undone.',
+  'history.open': 'Open',
+  'history.openCombined': 'Open combined ({count})',
+  'history.merge': 'Merge into a new run',
+  'history.loading': 'Loading history...',
+  'history.empty': 'No audits saved yet. Future imports will appear here.',
+  'history.col.name': 'Name',
+  'history.col.orders': 'Orders',
+  'history.isOpen': '(open)',
+  'history.failed': '{count} failed',
+  'history.rename': 'Rename',
+
+  // Normalization rules
+  'rules.title': 'Restaurant Normalization Rules',
+  'rules.description': 'If the extracted store/address contains one of the keywords, the order is assigned to that restaurant. The first matching rule wins.',
+  'rules.confirmReset': 'Replace all rules with the default rules?',
+  'rules.reset': 'Restore defaults',
+  'rules.add': 'New rule',
+  'rules.col.order': 'Order',
+  'rules.col.keywords': 'Keywords (comma-separated)',
+  'rules.moveUp': 'Move up',
+  'rules.moveDown': 'Move down',
+  'rules.keywordsPlaceholder': 'e.g. Duarte Pacheco, Amoreiras',
+  'rules.namePlaceholder': 'Restaurant name',
+  'rules.remove': 'Remove rule',
+  'rules.empty': 'No rules defined. Store names are used as they appear in the reports.',
+  'rules.test': 'Test rules',
+  'rules.testPlaceholder': 'Paste a store or address, e.g. Av. Eng. Duarte Pacheco 2037',
+  'rules.testResult': 'Result:',
+  'rules.testNoMatch': 'No rule matches — the original name will be used.',
+  'platforms.title': 'Delivery Platforms',
+  'platforms.description': 'Each platform defines how it is recognised in documents, its order ID format, and its color and position in the summary. Built-in platforms cannot be changed; add other channels below.',
+  'platforms.add': 'New platform',
+  'platforms.col.name': 'Name',
+  'platforms.col.color': 'Color',
+  'platforms.col.hints': 'Document hints (comma-separated)',
+  'platforms.col.orderIdPattern': 'Order ID format (regex)',
+  'platforms.col.example': 'Example',
+  'platforms.col.priority': 'Priority',
+  'platforms.builtIn': 'Built-in',
+  'platforms.namePlaceholder': 'e.g. Direct orders',
+  'platforms.hintsPlaceholder': 'e.g. Online order, Website',
+  'platforms.invalidPattern': 'Use ^, an optional fixed prefix, one character class or \\d with a length, and $, e.g. ^[A-Z0-9]{4,8}$ or ^JE\\d{6,10}$.',
+  'platforms.notInUse': 'Not in use: the name is missing or taken, or the format is invalid.',
+  'platforms.remove': 'Remove platform',
+  'platforms.cacheHint': 'Documents already read are cached: use "Re-extract" to read them again with the current platforms.',
+  'platforms.test': 'Test an order ID',
+  'platforms.testPlaceholder': 'Paste an order ID, e.g. 2E955',
+  'platforms.testValid': 'Valid format for this platform.',
+  'platforms.testInvalid': 'Does not match this platform\'s format.',
+  'template.title': 'Report Template',
+  'template.description': 'Applies to the full PDF and to the per-restaurant PDFs.',
+  'template.reset': 'Restore defaults',
+  'template.confirmReset': 'Restore the default report template?',
+  'template.companyName': 'Company name',
+  'template.logo': 'Logo',
+  'template.logoUpload': 'Choose image',
+  'template.logoRemove': 'Remove',
+  'template.logoHint': 'PNG or JPEG up to {maxKb} KB.',
+  'template.logoInvalidType': 'The logo must be a PNG or JPEG.',
+  'template.logoTooLarge': 'The logo is larger than {maxKb} KB.',
+  'template.accentColor': 'Accent color',
+  'template.footerNote': 'Footer note',
+  'template.footerPlaceholder': 'E.g. Internal document — do not share outside the company.',
+  'template.columns': 'Orders table columns',
+  'template.preview': 'Preview',
+
+  // Source preview
+  'preview.manual': 'Order added manually, with no source document.',
+  'preview.fileMissing': 'The original file is not available in this session.',
+  'preview.unsupported': 'No preview for this file type.',
+  'preview.openError': 'Could not open the document.',
+  'preview.opening': 'Opening document...',
+  'preview.notFound': 'The row could not be located automatically.',
+  'preview.notFoundOnPage': 'The row could not be located automatically (reported on page {page}).',
+  'preview.snippet': 'Extracted text:',
+  'preview.confirm': 'Confirm order',
+  'preview.delete': 'Delete (false positive)',
+  'preview.editHint': 'Click a field to correct it.',
+  'preview.nameRequired': 'Enter your name to confirm or correct.',
+
+  // Trends
+  'trends.title': 'Trends Dashboard',
+  'trends.byRestaurant': 'By restaurant',
+  'trends.byPlatform': 'By platform',
+  'trends.daily': 'Orders with errors per day',
+  'trends.hidden': '+{count} hidden',
+  'trends.heatmap': 'Weekday × hour',
+  'trends.weekVsPrevious': 'Week of {date} vs. previous',
+  'trends.previous': 'Previous',
+  'trends.current': 'Current',
+  'trends.previousWeek': 'Previous week',
+  'trends.weekOf': 'Week of {date}',
+  'trends.change': 'Change',
+
+  // POS reconciliation
+  'pos.title': 'Reconcile with the POS',
+  'pos.readEmpty': 'The file has no header and data rows.',
+  'pos.readError': 'Could not read the CSV file.',
+  'pos.changeFile': 'Change file',
+  'pos.chooseFile': 'Choose POS CSV',
+  'pos.fileHint': 'Order export from the POS or management system (.csv)',
+  'pos.columns': 'Columns',
+  'pos.unused': '— not used —',
+  'pos.timeWindow': 'Time tolerance without an order number:',
+  'pos.minutes': 'minutes',
+  'pos.preview': 'Preview',
+  'pos.rows': '({count} rows)',
+  'pos.reconcile': 'Reconcile',
+  'pos.mappingIncomplete': 'Choose the order number column, or at least the restaurant and date (with time) columns.',
+  'pos.field.orderNumber': 'Platform order number',
+  'pos.field.platform': 'Platform',
+  'pos.field.restaurant': 'Restaurant',
+  'pos.field.date': 'Date',
+  'pos.field.time': 'Time',
+  'pos.field.amount': 'Amount',
+  'pos.field.shift': 'Shift',
+  'reconciliation.title': 'POS Reconciliation',
+  'reconciliation.summary': '{file} · {rows} rows · {minutes} min tolerance without an order number',
+  'reconciliation.otherFile': 'Another file',
+  'reconciliation.excelAll': 'Excel (all)',
+  'reconciliation.close': 'Close reconciliation',
+  'reconciliation.empty': 'No orders in this category.',
+  'reconciliation.row': 'row {row}',
+  'reconciliation.col.posRow': 'POS row',
+  'reconciliation.col.method': 'Match',
+  'reconciliation.col.candidates': 'Possible POS rows',
+  'reconciliation.method.orderNumber': 'Order number',
+  'reconciliation.method.fuzzy': 'Restaurant + date + time',
+  'reconciliation.bucket.matched': 'Matched',
+  'reconciliation.bucket.missing': 'Missing in POS',
+  'reconciliation.bucket.ambiguous': 'Ambiguous',
+  'reconciliation.hint.matched': 'Orders found in the POS.',
+  'reconciliation.hint.missing': 'Orders in the partner report with no matching POS record.',
+  'reconciliation.hint.ambiguous': 'Orders without a matching number and with more than one possible POS row at the same restaurant and time.',
+  'customers.title': 'Repeat customers',
+  'customers.description': 'Customers with more than one order with errors, grouped by name across every platform and store. Similar spellings ("João S.", "Joao Silva") count as the same person.',
+  'customers.includeHistory': 'Include saved history',
+  'customers.loadingHistory': 'Loading history...',
+  'customers.analysed': '{count} orders analysed',
+  'customers.windowDays': 'Window (days)',
+  'customers.minStores': 'Stores in window',
+  'customers.minRepeats': 'Category repeats',
+  'customers.flaggedOnly': 'Flagged only',
+  'customers.col.customer': 'Customer',
+  'customers.col.orders': 'Orders',
+  'customers.col.platforms': 'Platforms',
+  'customers.col.restaurants': 'Stores',
+  'customers.col.period': 'Period',
+  'customers.col.refund': 'Refunds',
+  'customers.col.flags': 'Flags',
+  'customers.variants': 'Also written as: {names}',
+  'customers.timeline': 'Timeline of {name}',
+  'customers.empty': 'No customer has more than one order with errors.',
+  'customers.emptyFlagged': 'No customer is flagged with these limits.',
+  'customers.flag.multiStore': '{count} stores between {from} and {to}',
+  'customers.flag.multiPlatform': '{count} platforms',
+  'customers.flag.repeatCategory': '{count}× {category}',
+  'customers.exportCsv': 'Export CSV',
+  'customers.exportXlsx': 'Export Excel',
+  'privacy.title': 'Privacy',
+  'privacy.description': 'How customer names appear on screen and in exports, and how long they are kept.',
+  'privacy.masking': 'Name masking',
+  'privacy.mode.none': 'Full name',
+  'privacy.mode.initials': 'Initials',
+  'privacy.mode.pseudonym': 'Pseudonym',
+  'privacy.maskingHint': 'Applies to the table, PDFs, spreadsheets and customer analysis. A pseudonym stays the same for the same customer across reports.',
+  'privacy.role': 'Role for this session',
+  'privacy.role.operator': 'Operator (names masked)',
+  'privacy.role.authorized': 'Authorized (full names)',
+  'privacy.roleHint': 'Goes back to Operator when the page is reloaded.',
+  'privacy.confirmReveal': 'Show full customer names on screen and in exports? Confirm you are authorized to handle this data.',
+  'privacy.retention': 'Retention period',
+  'privacy.retentionEnabled': 'Purge personal data from audits older than',
+  'privacy.retentionDays': 'days',
+  'privacy.retentionHint': 'Checked when the app opens. Orders stay in the history, without the customer name or the original document.',
+  'privacy.lastAutoPurge': 'Last automatic purge: {summary}',
+  'privacy.purge': 'Purge personal data',
+  'privacy.purgeHint': 'Removes customer names and original documents from every saved audit, and empties the extraction cache.',
+  'privacy.purgeAll': 'Purge all personal data',
+  'privacy.confirmPurge': 'Purge customer names and original documents from every audit? This cannot be undone.',
+  'privacy.purgeError': 'Could not purge the personal data.',
+  'privacy.purgeDone': 'Removed: {summary}',
+  'privacy.report.runs.one': '{count} audit',
+  'privacy.report.runs.other': '{count} audits',
+  'privacy.report.names.one': '{count} customer name',
+  'privacy.report.names.other': '{count} customer names',
+  'privacy.report.files.one': '{count} document',
+  'privacy.report.files.other': '{count} documents',
+  'privacy.report.cache.one': '{count} cached extraction',
+  'privacy.report.cache.other': '{count} cached extractions',
+  'thresholds.title': 'Restaurant alerts',
+  'thresholds.description': 'Error limits per restaurant and/or platform. Rows over a limit are highlighted in the summary and open the PDF as exceptions.',
+  'thresholds.add': 'Add alert',
+  'thresholds.reset': 'Restore defaults',
+  'thresholds.confirmReset': 'Replace all alerts with the default alerts?',
+  'thresholds.remove': 'Remove alert',
+  'thresholds.empty': 'No alerts. Add one to highlight restaurants over a limit.',
+  'thresholds.col.period': 'Period',
+  'thresholds.col.kind': 'Type',
+  'thresholds.col.limit': 'Limit',
+  'thresholds.anyRestaurant': 'Any restaurant',
+  'thresholds.anyPlatform': 'All platforms',
+  'thresholds.period.day': 'Day',
+  'thresholds.period.week': 'Week',
+  'thresholds.kind.count': 'Error count',
+  'thresholds.kind.change': 'Increase (%)',
+  'thresholds.rule.count.day': 'more than {limit} errors in a day',
+  'thresholds.rule.count.week': 'more than {limit} errors in a week',
+  'thresholds.rule.change.day': 'errors up more than {limit}% on the day before',
+  'thresholds.rule.change.week': 'errors up more than {limit}% on the week before',
+  'thresholds.breach.count.day.one': '{count} error on {date} (limit: {limit} a day)',
+  'thresholds.breach.count.day.other': '{count} errors on {date} (limit: {limit} a day)',
+  'thresholds.breach.count.week.one': '{count} error in the week of {date} (limit: {limit} a week)',
+  'thresholds.breach.count.week.other': '{count} errors in the week of {date} (limit: {limit} a week)',
+  'thresholds.breach.change.day.one': '{count} error on {date}, +{change}% on {previous} the day before (limit: +{limit}%)',
+  'thresholds.breach.change.day.other': '{count} errors on {date}, +{change}% on {previous} the day before (limit: +{limit}%)',
+  'thresholds.breach.change.week.one': '{count} error in the week of {date}, +{change}% on {previous} the week before (limit: +{limit}%)',
+  'thresholds.breach.change.week.other': '{count} errors in the week of {date}, +{change}% on {previous} the week before (limit: +{limit}%)',
+};
+
+export { en };
@@ -0,0 +1,515 @@
+import { Messages } from "./pt-PT.ts";
+
+const ptBR: Messages = {
+  // App shell
+  'app.nav.audit': 'Auditoria',
+  'app.nav.history': 'Histórico',
+  'app.nav.rules': 'Regras de Restaurantes',
+  'app.nav.alerts': 'Alertas',
+  'app.nav.platforms': 'Plataformas',
+  'app.nav.report': 'Modelo de Relatório',
+  'app.nav.customers': 'Clientes',
+  'app.nav.privacy': 'Privacidade',
+  'app.language': 'Idioma',
+  'app.import.title': 'Importar Relatórios',
+  'app.import.description': 'Faça upload das páginas web impressas em PDF, de capturas de tela ou das páginas salvas (HTML/MHTML). O sistema irá identificar automaticamente pedidos com erros, extrair datas, nomes e números de pedido.',
+  'app.progress.analysing': 'Analisando {count} arquivo(s), até {concurrency} em paralelo...',
+  'app.progress.retrying': '{error} Nova tentativa para {file} em {seconds}s...',
+  'app.progress.cancelling': 'Cancelando... os arquivos já concluídos serão mantidos.',
+  'app.run.single': 'Execução: ',
+  'app.run.combined': 'Combinação de execuções: ',
+  'app.footer': 'Powered by Gemini AI • Processamento Seguro',
+
+  // Shared
+  'common.cancel': 'Cancelar',
+  'common.close': 'Fechar',
+  'common.save': 'Salvar',
+  'common.delete': 'Excluir',
+  'common.undo': 'Desfazer',
+  'common.total': 'Total',
+  'common.of': 'de {total}',
+
+  // Order fields
+  'field.platform': 'Plataforma',
+  'field.orderNumber': 'Pedido',
+  'field.restaurantName': 'Restaurante',
+  'field.date': 'Data',
+  'field.time': 'Horário',
+  'field.customerName': 'Cliente',
+  'field.sourceFile': 'Arquivo de Origem',
+  'field.page': 'Página',
+  'field.category': 'Categoria',
+  'field.orderValue': 'Valor do pedido',
+  'field.refundAmount': 'Reembolso/multa',
+  'field.impact': 'Impacto €',
+  'category.cancelled': 'Cancelado',
+  'category.missingItem': 'Item faltando',
+  'category.wrongItem': 'Item errado',
+  'category.late': 'Atraso',
+  'category.refunded': 'Reembolsado',
+  'category.quality': 'Qualidade',
+  'category.other': 'Outro',
+  'category.uncategorized': 'Sem categoria',
+
+  // Extraction options
+  'options.engine': 'Motor de extração',
+  'options.concurrency': 'Arquivos em paralelo',
+  'options.retries': 'Novas tentativas em erros temporários',
+  'options.cache.hint': 'Arquivos com o mesmo conteúdo já extraído são lidos do cache, sem nova chamada à IA.',
+  'options.cache.count.one': 'Cache: {count} arquivo',
+  'options.cache.count.other': 'Cache: {count} arquivos',
+  'options.cache.confirmClear': 'Limpar o cache de extrações? Os próximos uploads serão lidos novamente.',
+  'options.cache.clear': 'Limpar cache',
+  'engine.gemini.label': 'Gemini AI',
+  'engine.gemini.description': 'Envia o documento para a IA pelo servidor da aplicação, que guarda a chave da API.',
+  'engine.local.label': 'Leitor local',
+  'engine.local.description': 'Lê PDFs e páginas salvas no navegador, offline, para layouts conhecidos. Não lê imagens.',
+  'engine.local-first.label': 'Local, com IA de reserva',
+  'engine.local-first.description': 'Tenta o leitor local e usa a IA só quando o layout não é reconhecido.',
+
+  // Upload
+  'upload.processing': 'Processando arquivos...',
+  'upload.prompt': 'Clique ou arraste seus arquivos aqui',
+  'upload.formats': 'PDF (páginas web impressas), capturas de tela PNG/JPEG/WebP ou páginas salvas HTML/MHTML',
+  'upload.rejected.one': '{count} arquivo não foi aceito',
+  'upload.rejected.other': '{count} arquivos não foram aceitos',
+  'upload.dismiss': 'Dispensar',
+  'upload.reason.unsupported': 'Tipo não suportado. Envie PDF, PNG, JPEG, WebP, HTML ou MHTML.',
+  'upload.reason.unsupportedType': 'Tipo não suportado ({type}). Envie PDF, PNG, JPEG, WebP, HTML ou MHTML.',
+  'upload.reason.empty': 'Arquivo vazio.',
+  'upload.reason.tooLarge': 'Arquivo maior que {max} MB.',
+
+  // File list
+  'files.title': 'Arquivos',
+  'files.done': '{done} de {total} concluídos',
+  'files.queued': 'Na fila',
+  'files.processing': 'Processando...',
+  'files.processingAttempt': 'Processando (tentativa {attempt})',
+  'files.orders.one': '{count} pedido',
+  'files.orders.other': '{count} pedidos',
+  'files.pages.one': '· {count} página',
+  'files.pages.other': '· {count} páginas',
+  'files.pagesPartial': '· {processed} de {total} páginas',
+  'files.toReview': '· {count} para revisão',
+  'files.engine.gemini': 'IA',
+  'files.engine.local': 'Local',
+  'files.engine.local-first': 'Local',
+  'files.engine.mock': 'Teste',
+  'files.fromCache': 'Do cache',
+  'files.fromCacheHint': 'Resultado reutilizado de uma extração anterior do mesmo arquivo',
+  'files.failed': 'Falha ao processar o arquivo.',
+  'files.retry': 'Repetir',
+  'files.retryHint': 'Tentar novamente',
+  'files.retryFailed': 'Tentar novamente os {count} com erro',
+  'files.reextract': 'Reextrair',
+  'files.reextractHint': 'Extrair de novo, ignorando o cache',
+  'files.reextractCached': 'Reextrair os {count} do cache',
+
+  // Extraction errors, by ExtractionErrorCode
+  'error.MISSING_API_KEY': 'Chave da API Gemini não configurada no servidor.',
+  'error.INVALID_API_KEY': 'Chave da API Gemini inválida ou sem permissão.',
+  'error.QUOTA_EXCEEDED': 'Cota da API excedida (limite de pedidos). Tente novamente mais tarde.',
+  'error.SERVER_ERROR': 'O serviço de IA está indisponível no momento.',
+  'error.NETWORK_ERROR': 'Falha de rede ao contactar o serviço de IA.',
+  'error.INVALID_JSON': 'A resposta da IA não é um JSON válido.',
+  'error.OUTPUT_TRUNCATED': 'A resposta da IA foi cortada no limite de saída (pedidos demais em uma só solicitação).',
+  'error.EMPTY_DOCUMENT': 'O documento está vazio ou não tem conteúdo legível.',
+  'error.UNSUPPORTED_LAYOUT': 'O documento não parece ser um relatório de pedidos suportado.',
+  'error.FILE_TOO_LARGE': 'O arquivo excede o tamanho máximo aceito pelo servidor.',
+  'error.UNSUPPORTED_FILE_TYPE': 'Tipo de arquivo não aceito pelo servidor.',
+  'error.RATE_LIMITED': 'Muitos pedidos seguidos ao servidor. Aguarde um momento.',
+  'error.CANCELLED': 'Extração cancelada.',
+  'error.UNKNOWN': 'Falha ao processar o arquivo.',
+
+  // Validation reasons for rejected rows, by RowIssueCode
+  'rowIssue.NOT_AN_OBJECT': 'Linha não é um objeto.',
+  'rowIssue.PLATFORM_MISSING': 'Plataforma ausente.',
+  'rowIssue.PLATFORM_UNKNOWN': 'Plataforma "{platform}" não é uma das suportadas ({supported}).',
+  'rowIssue.ORDER_ID_MISSING': 'Número do pedido ausente.',
+  'rowIssue.ORDER_ID_FORMAT': 'Número do pedido "{orderId}" não tem o formato esperado para {platform}.',
+  'rowIssue.STORE_MISSING': 'Loja ausente.',
+  'rowIssue.DATE_MISSING': 'Data ausente.',
+  'rowIssue.DATE_INVALID': 'Data "{value}" inválida (esperado AAAA-MM-DD ou DD/MM/AA).',
+  'rowIssue.TIME_MISSING': 'Horário ausente.',
+  'rowIssue.TIME_INVALID': 'Horário "{value}" inválido (esperado HH:MM).',
+  'rowIssue.CUSTOMER_NOT_TEXT': 'Nome do cliente não é texto.',
+  'rowIssue.ORDER_VALUE_INVALID': 'Valor do pedido "{value}" inválido.',
+  'rowIssue.REFUND_INVALID': 'Reembolso/penalização "{value}" inválido.',
+
+  // Results
+  'results.card.files': 'Arquivos Analisados',
+  'results.card.orders': 'Total de Pedidos',
+  'results.card.duplicates': 'Duplicados Removidos',
+  'results.card.conflicts': '{count} em conflito',
+  'results.card.status': 'Status da IA',
+  'results.card.failed': '{count} arquivo(s) com falha',
+  'results.card.ok': 'Operacional',
+  'results.title': 'Relatório de Pedidos Extraídos',
+  'results.fields': 'Mostrando campos: ID, Restaurante, Data, Horário, Cliente',
+  'results.reviewMode': 'Modo revisão',
+  'results.reconcile': 'Conciliar com POS',
+  'results.downloadPdf': 'Download PDF',
+  'results.bundle': 'PDF por restaurante',
+  'results.bundleHint': 'Um PDF por restaurante, só com os pedidos dele, em um arquivo ZIP',
+  'results.spreadsheets': 'Planilhas',
+  'results.export.xlsx': 'Excel (.xlsx) — Pedidos e Resumo',
+  'results.export.ordersCsv': 'CSV — Pedidos',
+  'results.export.summaryCsv': 'CSV — Resumo por Restaurante',
+  'results.col.orderNumber': 'Pedido #',
+  'results.col.customerName': 'Nome do Cliente',
+  'results.conflictHint': 'Dados divergentes entre arquivos',
+  'results.manualAdded': 'Incluído manualmente',
+  'results.manualEdited': 'Corrigido manualmente',
+  'results.confirmedBy': 'Confirmado por {name}',
+  'results.pageHint': '{file}, página {page}',
+  'results.pageShort': 'p. {page}',
+  'results.viewSource': 'Ver no documento de origem',
+  'results.deleteOrder': 'Excluir pedido (falso positivo)',
+  'results.emptyFiltered': 'Nenhum pedido encontrado para os filtros selecionados.',
+  'results.empty': 'Nenhum pedido encontrado nos documentos analisados.',
+  'summary.title': 'Resumo por Restaurante e Plataforma',
+  'summary.byCategory': 'Impacto por restaurante e categoria',
+  'summary.byCategoryHint': 'Pedidos e valor reembolsado ou cobrado como multa; valores não impressos nos relatórios contam como 0.',
+  'summary.breaches.one': '{count} alerta ultrapassado',
+  'summary.breaches.other': '{count} alertas ultrapassados',
+  'summary.moreBreaches': '+{count} no PDF',
+
+  // Review mode
+  'review.reviewer': 'Revisor',
+  'review.yourName': 'Seu nome',
+  'review.editHint': 'Clique em uma célula para editar. As alterações ficam registradas com seu nome.',
+  'review.addOrder': 'Adicionar pedido',
+  'review.nameRequired': 'Informe seu nome para registrar as correções.',
+  'review.includeAppendix': 'Incluir apêndice de correções no PDF',
+  'editable.hint': 'Clique para editar',
+  'addOrder.title': 'Adicionar pedido não extraído',
+  'addOrder.orderNumber': 'Nº do pedido',
+  'addOrder.customerOptional': 'Cliente (opcional)',
+  'addOrder.categoryOptional': 'Categoria (opcional)',
+  'addOrder.orderValueOptional': 'Valor € (opcional)',
+  'addOrder.refundOptional': 'Reembolso € (opcional)',
+  'addOrder.submit': 'Adicionar',
+
+  // Corrections
+  'corrections.title': 'Correções Manuais',
+  'corrections.count.one': '{count} alteração registrada no modo revisão.',
+  'corrections.count.other': '{count} alterações registradas no modo revisão.',
+  'corrections.col.when': 'Quando',
+  'corrections.col.who': 'Quem',
+  'corrections.col.action': 'Ação',
+  'corrections.col.field': 'Campo',
+  'corrections.col.oldValue': 'Valor anterior',
+  'corrections.col.newValue': 'Novo valor',
+  'correction.action.edit': 'Edição',
+  'correction.action.delete': 'Exclusão',
+  'correction.action.add': 'Inclusão',
+  'correction.action.confirm': 'Confirmação',
+
+  // PDF report
+  'pdf.generatedAt': 'Gerado em: {date}',
+  'pdf.manualFootnote': '* Pedido corrigido ou incluído manualmente na revisão.',
+  'pdf.summaryTitle': 'Resumo por Restaurante',
+  'pdf.trends': 'Tendências',
+  'pdf.dailyByRestaurant': 'Pedidos com erro por dia — por restaurante',
+  'pdf.dailyByPlatform': 'Pedidos com erro por dia — por plataforma',
+  'pdf.appendix': 'Apêndice — Correções Manuais',
+  'pdf.restaurantTitle': 'Relatório de Pedidos — {name}',
+  'pdf.platformBreakdown': 'Pedidos por Plataforma',
+  'pdf.orderCount': 'Pedidos',
+  'pdf.categoryTitle': 'Impacto por categoria',
+  'pdf.exceptions': 'Exceções',
+  'pdf.exceptionsHint': '{count} casos acima dos limites de alerta, cada um com os pedidos que o originaram.',
+  'pdf.ordersTitle': 'Pedidos',
+
+  // Exported file names (no accents or spaces)
+  'file.report': 'Relatorio_Pedidos',
+  'file.orders': 'Pedidos',
+  'file.summary': 'Resumo_Restaurantes',
+  'file.bundle': 'Relatorios_por_Restaurante',
+  'file.reconciliation.matched': 'Conciliacao_Conciliados',
+  'file.reconciliation.missing': 'Conciliacao_Ausentes_no_POS',
+  'file.reconciliation.ambiguous': 'Conciliacao_Ambiguos',
+  'file.reconciliation.all': 'Conciliacao_POS',
+  'file.customers': 'Clientes_Recorrentes',
+
+  // Spreadsheet exports
+  'export.sheet.orders': 'Pedidos',
+  'export.sheet.summary': 'Resumo',
+  'export.sheet.categories': 'Por categoria',
+  'export.sheet.customers': 'Clientes',
+  'export.sheet.timeline': 'Linha do tempo',
+  'export.col.posRow': 'Linha POS',
+  'export.col.posOrderNumber': 'Pedido POS',
+  'export.col.posRestaurant': 'Restaurante POS',
+  'export.col.posDate': 'Data POS',
+  'export.col.posTime': 'Horário POS',
+  'export.col.candidates': 'Candidatos',
+  'export.col.posRows': 'Linhas POS',
+  'export.col.rank': 'Posição',
+  'export.col.nameVariants': 'Grafias',
+  'export.col.firstOrder': 'Primeiro pedido',
+  'export.col.lastOrder': 'Último pedido',
+
+  // Filters
+  'filters.searchPlaceholder': 'Buscar pedido ou cliente',
+  'filters.dateTo': 'a',
+  'filters.timeTo': 'às',
+  'filters.allFiles': 'Todos os arquivos',
+  'filters.clear': 'Limpar filtros ({count})',
+  'filters.label': 'Filtro:',
+  'filters.desc.restaurants': 'Restaurantes: {list}',
+  'filters.desc.platforms': 'Plataformas: {list}',
+  'filters.desc.period': 'Período: {from} a {to}',
+  'filters.desc.time': 'Horário: {from} às {to}',
+  'filters.desc.file': 'Arquivo: {name}',
+  'filters.desc.search': 'Busca: "{text}"',
+  'pagination.range': '{first}–{last} de {total} pedidos',
+  'pagination.previous': 'Página anterior',
+  'pagination.next': 'Próxima página',
+  'pagination.page': 'Página {page} de {count}',
+
+  // Conflicts
+  'conflicts.title': 'Conflitos entre Arquivos',
+  'conflicts.pending': '{pending} de {total} pedidos aparecem com dados diferentes em arquivos distintos. Escolha a versão correta.',
+  'conflicts.resolved': 'Todos os {total} conflitos foram resolvidos.',
+  'conflicts.differsIn': 'Diverge em: {fields}',
+  'conflicts.file': 'Arquivo',
+  'conflicts.selected': 'Selecionada',
+  'conflicts.useVersion': 'Usar esta versão',
+
+  // Rows that failed validation
+  'reviewPanel.title': 'Precisa de Revisão',
+  'reviewPanel.description.one': '{count} linha extraída não passou na validação e ficou fora do relatório. Confira no documento original.',
+  'reviewPanel.description.other': '{count} linhas extraídas não passaram na validação e ficaram fora do relatório. Confira no documento original.',
+  'reviewPanel.col.orderId': 'ID Pedido',
+  'reviewPanel.col.store': 'Loja',
+  'reviewPanel.col.reason': 'Motivo',
+
+  // History
+  'history.defaultName': 'Auditoria {date}',
+  'history.mergedName': 'Mesclado: {names}',
+  'history.title': 'Histórico de Auditorias',
+  'history.description': 'Execuções gravadas neste navegador. Selecione várias para analisá-las em conjunto ou mesclá-las.',
+  'history.loadError': 'Não foi possível carregar o histórico deste navegador.',
+  'history.confirmDelete': 'Excluir "{name}" do histórico? Esta ação não pode ser desfeita.',
+  'history.open': 'Abrir',
+  'history.openCombined': 'Abrir combinação ({count})',
+  'history.merge': 'Mesclar em nova execução',
+  'history.loading': 'Carregando histórico...',
+  'history.empty': 'Nenhuma auditoria gravada ainda. As próximas importações aparecerão aqui.',
+  'history.col.name': 'Nome',
+  'history.col.orders': 'Pedidos',
+  'history.isOpen': '(aberta)',
+  'history.failed': '{count} com erro',
+  'history.rename': 'Renomear',
+
+  // Normalization rules
+  'rules.title': 'Regras de Normalização de Restaurantes',
+  'rules.description': 'Se a loja/endereço extraído contiver uma das palavras-chave, o pedido é atribuído ao restaurante indicado. A primeira regra que coincidir é aplicada.',
+  'rules.confirmReset': 'Substituir todas as regras pelas regras padrão?',
+  'rules.reset': 'Restaurar padrão',
+  'rules.add': 'Nova regra',
+  'rules.col.order': 'Ordem',
+  'rules.col.keywords': 'Palavras-chave (separadas por vírgula)',
+  'rules.moveUp': 'Subir',
+  'rules.moveDown': 'Descer',
+  'rules.keywordsPlaceholder': 'ex.: Duarte Pacheco, Amoreiras',
+  'rules.namePlaceholder': 'Nome do restaurante',
+  'rules.remove': 'Remover regra',
+  'rules.empty': 'Nenhuma regra definida. Os nomes das lojas serão usados como aparecem nos relatórios.',
+  'rules.test': 'Testar regras',
+  'rules.testPlaceholder': 'Cole aqui uma loja ou endereço, ex.: Av. Eng. Duarte Pacheco 2037',
+  'rules.testResult': 'Resultado:',
+  'rules.testNoMatch': 'Nenhuma regra coincide — será usado o nome original.',
+  'platforms.title': 'Plataformas de entrega',
+  'platforms.description': 'Cada plataforma define como é reconhecida nos documentos, o formato do número do pedido e a cor e posição no resumo. As plataformas incluídas não podem ser alteradas; adicione outros canais abaixo.',
+  'platforms.add': 'Nova plataforma',
+  'platforms.col.name': 'Nome',
+  'platforms.col.color': 'Cor',
+  'platforms.col.hints': 'Indícios no documento (separados por vírgula)',
+  'platforms.col.orderIdPattern': 'Formato do nº do pedido (regex)',
+  'platforms.col.example': 'Exemplo',
+  'platforms.col.priority': 'Prioridade',
+  'platforms.builtIn': 'Incluída',
+  'platforms.namePlaceholder': 'ex.: Pedidos diretos',
+  'platforms.hintsPlaceholder': 'ex.: Pedido online, Site',
+  'platforms.invalidPattern': 'Use ^, um prefixo fixo opcional, uma classe de caracteres ou \\d com um tamanho, e $, por exemplo ^[A-Z0-9]{4,8}$ ou ^JE\\d{6,10}$.',
+  'platforms.notInUse': 'Não está em uso: falta o nome, o nome já existe ou o formato é inválido.',
+  'platforms.remove': 'Remover plataforma',
+  'platforms.cacheHint': 'Documentos já lidos ficam em cache: use "Reextrair" para lê-los de novo com as plataformas atuais.',
+  'platforms.test': 'Testar número do pedido',
+  'platforms.testPlaceholder': 'Cole um número de pedido, ex.: 2E955',
+  'platforms.testValid': 'Formato válido para esta plataforma.',
+  'platforms.testInvalid': 'Não corresponde ao formato desta plataforma.',
+  'template.title': 'Modelo de Relatório',
+  'template.description': 'Vale para o PDF completo e para os PDFs por restaurante.',
+  'template.reset': 'Restaurar padrão',
+  'template.confirmReset': 'Restaurar o modelo de relatório padrão?',
+  'template.companyName': 'Nome da empresa',
+  'template.logo': 'Logotipo',
+  'template.logoUpload': 'Escolher imagem',
+  'template.logoRemove': 'Remover',
+  'template.logoHint': 'PNG ou JPEG de até {maxKb} KB.',
+  'template.logoInvalidType': 'O logotipo precisa ser PNG ou JPEG.',
+  'template.logoTooLarge': 'O logotipo passa de {maxKb} KB.',
+  'template.accentColor': 'Cor de destaque',
+  'template.footerNote': 'Nota de rodapé',
+  'template.footerPlaceholder': 'Ex.: Documento interno — não compartilhar fora da empresa.',
+  'template.columns': 'Colunas da tabela de pedidos',
+  'template.preview': 'Pré-visualização',
+
+  // Source preview
+  'preview.manual': 'Pedido incluído manualmente, sem documento de origem.',
+  'preview.fileMissing': 'O arquivo original não está disponível nesta sessão.',
+  'preview.unsupported': 'Tipo de arquivo sem pré-visualização.',
+  'preview.openError': 'Não foi possível abrir o documento.',
+  'preview.opening': 'Abrindo documento...',
+  'preview.notFound': 'A linha não foi localizada automaticamente.',
+  'preview.notFoundOnPage': 'A linha não foi localizada automaticamente (indicada na página {page}).',
+  'preview.snippet': 'Texto extraído:',
+  'preview.confirm': 'Confirmar pedido',
+  'preview.delete': 'Excluir (falso positivo)',
+  'preview.editHint': 'Clique em um campo para corrigir.',
+  'preview.nameRequired': 'Informe seu nome para confirmar ou corrigir.',
+
+  // Trends
+  'trends.title': 'Painel de Tendências',
+  'trends.byRestaurant': 'Por restaurante',
+  'trends.byPlatform': 'Por plataforma',
+  'trends.daily': 'Pedidos com erro por dia',
+  'trends.hidden': '+{count} ocultos',
+  'trends.heatmap': 'Dia da semana × hora',
+  'trends.weekVsPrevious': 'Semana de {date} vs. anterior',
+  'trends.previous': 'Anterior',
+  'trends.current': 'Atual',
+  'trends.previousWeek': 'Semana anterior',
+  'trends.weekOf': 'Semana de {date}',
+  'trends.change': 'Variação',
+
+  // POS reconciliation
+  'pos.title': 'Conciliar com o POS',
+  'pos.readEmpty': 'O arquivo não tem cabeçalho e linhas de dados.',
+  'pos.readError': 'Não foi possível ler o arquivo CSV.',
+  'pos.changeFile': 'Trocar arquivo',
+  'pos.chooseFile': 'Escolher CSV do POS',
+  'pos.fileHint': 'Exportação de pedidos do POS ou do sistema de gestão (.csv)',
+  'pos.columns': 'Colunas',
+  'pos.unused': '— não usar —',
+  'pos.timeWindow': 'Tolerância de horário sem nº do pedido:',
+  'pos.minutes': 'minutos',
+  'pos.preview': 'Pré-visualização',
+  'pos.rows': '({count} linhas)',
+  'pos.reconcile': 'Conciliar',
+  'pos.mappingIncomplete': 'Indique a coluna do número do pedido, ou pelo menos as colunas de restaurante e data (com horário).',
+  'pos.field.orderNumber': 'Nº do pedido na plataforma',
+  'pos.field.platform': 'Plataforma',
+  'pos.field.restaurant': 'Restaurante',
+  'pos.field.date': 'Data',
+  'pos.field.time': 'Horário',
+  'pos.field.amount': 'Valor',
+  'pos.field.shift': 'Turno',
+  'reconciliation.title': 'Conciliação com o POS',
+  'reconciliation.summary': '{file} · {rows} linhas · tolerância de {minutes} min sem nº do pedido',
+  'reconciliation.otherFile': 'Outro arquivo',
+  'reconciliation.excelAll': 'Excel (todas)',
+  'reconciliation.close': 'Fechar conciliação',
+  'reconciliation.empty': 'Nenhum pedido nesta categoria.',
+  'reconciliation.row': 'linha {row}',
+  'reconciliation.col.posRow': 'Linha do POS',
+  'reconciliation.col.method': 'Correspondência',
+  'reconciliation.col.candidates': 'Linhas possíveis do POS',
+  'reconciliation.method.orderNumber': 'Nº do pedido',
+  'reconciliation.method.fuzzy': 'Restaurante + data + horário',
+  'reconciliation.bucket.matched': 'Conciliados',
+  'reconciliation.bucket.missing': 'Ausentes no POS',
+  'reconciliation.bucket.ambiguous': 'Ambíguos',
+  'reconciliation.hint.matched': 'Pedidos encontrados no POS.',
+  'reconciliation.hint.missing': 'Pedidos do relatório do parceiro sem registro correspondente no POS.',
+  'reconciliation.hint.ambiguous': 'Pedidos sem nº correspondente e com mais de uma linha do POS possível no mesmo restaurante e horário.',
+  'customers.title': 'Clientes recorrentes',
+  'customers.description': 'Clientes com mais de um pedido com erro, agrupados pelo nome em todas as plataformas e lojas. Grafias parecidas ("João S.", "Joao Silva") contam como a mesma pessoa.',
+  'customers.includeHistory': 'Incluir o histórico salvo',
+  'customers.loadingHistory': 'Carregando o histórico...',
+  'customers.analysed': '{count} pedidos analisados',
+  'customers.windowDays': 'Janela (dias)',
+  'customers.minStores': 'Lojas na janela',
+  'customers.minRepeats': 'Repetições da categoria',
+  'customers.flaggedOnly': 'Só com alertas',
+  'customers.col.customer': 'Cliente',
+  'customers.col.orders': 'Pedidos',
+  'customers.col.platforms': 'Plataformas',
+  'customers.col.restaurants': 'Lojas',
+  'customers.col.period': 'Período',
+  'customers.col.refund': 'Reembolsos',
+  'customers.col.flags': 'Alertas',
+  'customers.variants': 'Também escrito: {names}',
+  'customers.timeline': 'Linha do tempo de {name}',
+  'customers.empty': 'Nenhum cliente com mais de um pedido com erro.',
+  'customers.emptyFlagged': 'Nenhum cliente com alertas com estes limites.',
+  'customers.flag.multiStore': '{count} lojas entre {from} e {to}',
+  'customers.flag.multiPlatform': '{count} plataformas',
+  'customers.flag.repeatCategory': '{count}× {category}',
+  'customers.exportCsv': 'Exportar CSV',
+  'customers.exportXlsx': 'Exportar Excel',
+  'privacy.title': 'Privacidade',
+  'privacy.description': 'Como os nomes dos clientes aparecem na tela e nas exportações, e por quanto tempo ficam salvos.',
+  'privacy.masking': 'Mascaramento de nomes',
+  'privacy.mode.none': 'Nome completo',
+  'privacy.mode.initials': 'Iniciais',
+  'privacy.mode.pseudonym': 'Pseudônimo',
+  'privacy.maskingHint': 'Vale para a tabela, os PDFs, as planilhas e a análise de clientes. O pseudônimo é o mesmo para o mesmo cliente em todos os relatórios.',
+  'privacy.role': 'Perfil nesta sessão',
+  'privacy.role.operator': 'Operador (nomes mascarados)',
+  'privacy.role.authorized': 'Autorizado (nomes completos)',
+  'privacy.roleHint': 'Volta para Operador ao recarregar a página.',
+  'privacy.confirmReveal': 'Mostrar os nomes completos dos clientes na tela e nas exportações? Confirme que você está autorizado a tratar esses dados.',
+  'privacy.retention': 'Período de retenção',
+  'privacy.retentionEnabled': 'Apagar dados pessoais das auditorias com mais de',
+  'privacy.retentionDays': 'dias',
+  'privacy.retentionHint': 'Verificado ao abrir o aplicativo. Os pedidos continuam no histórico, sem nome do cliente nem documento original.',
+  'privacy.lastAutoPurge': 'Última limpeza automática: {summary}',
+  'privacy.purge': 'Apagar dados pessoais',
+  'privacy.purgeHint': 'Remove os nomes dos clientes e os documentos originais de todas as auditorias salvas, e limpa o cache de extração.',
+  'privacy.purgeAll': 'Apagar todos os dados pessoais',
+  'privacy.confirmPurge': 'Apagar os nomes dos clientes e os documentos originais de todas as auditorias? Essa ação não pode ser desfeita.',
+  'privacy.purgeError': 'Não foi possível apagar os dados pessoais.',
+  'privacy.purgeDone': 'Removido: {summary}',
+  'privacy.report.runs.one': '{count} auditoria',
+  'privacy.report.runs.other': '{count} auditorias',
+  'privacy.report.names.one': '{count} nome de cliente',
+  'privacy.report.names.other': '{count} nomes de clientes',
+  'privacy.report.files.one': '{count} documento',
+  'privacy.report.files.other': '{count} documentos',
+  'privacy.report.cache.one': '{count} extração em cache',
+  'privacy.report.cache.other': '{count} extrações em cache',
+  'thresholds.title': 'Alertas por restaurante',
+  'thresholds.description': 'Limites de erros por restaurante e/ou plataforma. As linhas que passam do limite ficam destacadas no resumo e abrem o PDF como exceções.',
+  'thresholds.add': 'Adicionar alerta',
+  'thresholds.reset': 'Restaurar padrão',
+  'thresholds.confirmReset': 'Substituir todos os alertas pelos alertas padrão?',
+  'thresholds.remove': 'Remover alerta',
+  'thresholds.empty': 'Nenhum alerta. Adicione um para destacar restaurantes acima de um limite.',
+  'thresholds.col.period': 'Período',
+  'thresholds.col.kind': 'Tipo',
+  'thresholds.col.limit': 'Limite',
+  'thresholds.anyRestaurant': 'Qualquer restaurante',
+  'thresholds.anyPlatform': 'Todas as plataformas',
+  'thresholds.period.day': 'Dia',
+  'thresholds.period.week': 'Semana',
+  'thresholds.kind.count': 'Número de erros',
+  'thresholds.kind.change': 'Aumento (%)',
+  'thresholds.rule.count.day': 'mais de {limit} erros em um dia',
+  'thresholds.rule.count.week': 'mais de {limit} erros em uma semana',
+  'thresholds.rule.change.day': 'erros aumentando mais de {limit}% em relação ao dia anterior',
+  'thresholds.rule.change.week': 'erros aumentando mais de {limit}% em relação à semana anterior',
+  'thresholds.breach.count.day.one': '{count} erro em {date} (limite: {limit} por dia)',
+  'thresholds.breach.count.day.other': '{count} erros em {date} (limite: {limit} por dia)',
+  'thresholds.breach.count.week.one': '{count} erro na semana de {date} (limite: {limit} por semana)',
+  'thresholds.breach.count.week.other': '{count} erros na semana de {date} (limite: {limit} por semana)',
+  'thresholds.breach.change.day.one': '{count} erro em {date}, +{change}% em relação aos {previous} do dia anterior (limite: +{limit}%)',
+  'thresholds.breach.change.day.other': '{count} erros em {date}, +{change}% em relação aos {previous} do dia anterior (limite: +{limit}%)',
+  'thresholds.breach.change.week.one': '{count} erro na semana de {date}, +{change}% em relação aos {previous} da semana anterior (limite: +{limit}%)',
+  'thresholds.breach.change.week.other': '{count} erros na semana de {date}, +{change}% em relação aos {previous} da semana anterior (limite: +{limit}%)',
+};
+
+export { ptBR };
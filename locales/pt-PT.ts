@@ -0,0 +1,519 @@
+// Base catalog: the other locales must define every key found here.
+// Keys ending in .one/.other are plural forms, picked by Translator.tn.
+const ptPT = {
+  // App shell
+  'app.nav.audit': 'Auditoria',
+  'app.nav.history': 'Histórico',
+  'app.nav.rules': 'Regras de Restaurantes',
+  'app.nav.alerts': 'Alertas',
+  'app.nav.platforms': 'Plataformas',
+  'app.nav.report': 'Modelo de Relatório',
+  'app.nav.customers': 'Clientes',
+  'app.nav.privacy': 'Privacidade',
+  'app.language': 'Idioma',
+  'app.import.title': 'Importar Relatórios',
+  'app.import.description': 'Carregue as páginas web impressas em PDF, capturas de ecrã ou páginas guardadas (HTML/MHTML). O sistema identifica automaticamente os pedidos com erros e extrai datas, nomes e números de pedido.',
+  'app.progress.analysing': 'A analisar {count} ficheiro(s), até {concurrency} em paralelo...',
+  'app.progress.retrying': '{error} Nova tentativa para {file} em {seconds}s...',
+  'app.progress.cancelling': 'A cancelar... os ficheiros já concluídos serão mantidos.',
+  'app.run.single': 'Execução: ',
+  'app.run.combined': 'Combinação de execuções: ',
+  'app.footer': 'Powered by Gemini AI • Processamento Seguro',
+
+  // Shared
+  'common.cancel': 'Cancelar',
+  'common.close': 'Fechar',
+  'common.save': 'Guardar',
+  'common.delete': 'Eliminar',
+  'common.undo': 'Desfazer',
+  'common.total': 'Total',
+  'common.of': 'de {total}',
+
+  // Order fields
+  'field.platform': 'Plataforma',
+  'field.orderNumber': 'Pedido',
+  'field.restaurantName': 'Restaurante',
+  'field.date': 'Data',
+  'field.time': 'Hora',
+  'field.customerName': 'Cliente',
+  'field.sourceFile': 'Ficheiro de Origem',
+  'field.page': 'Página',
+  'field.category': 'Categoria',
+  'field.orderValue': 'Valor do pedido',
+  'field.refundAmount': 'Reembolso/penalização',
+  'field.impact': 'Impacto €',
+  'category.cancelled': 'Cancelado',
+  'category.missingItem': 'Artigo em falta',
+  'category.wrongItem': 'Artigo errado',
+  'category.late': 'Atraso',
+  'category.refunded': 'Reembolsado',
+  'category.quality': 'Qualidade',
+  'category.other': 'Outro',
+  'category.uncategorized': 'Sem categoria',
+
+  // Extraction options
+  'options.engine': 'Motor de extração',
+  'options.concurrency': 'Ficheiros em paralelo',
+  'options.retries': 'Novas tentativas em erros temporários',
+  'options.cache.hint': 'Ficheiros com o mesmo conteúdo já extraído são lidos da cache, sem nova chamada à IA.',
+  'options.cache.count.one': 'Cache: {count} ficheiro',
+  'options.cache.count.other': 'Cache: {count} ficheiros',
+  'options.cache.confirmClear': 'Limpar a cache de extrações? Os próximos carregamentos serão lidos novamente.',
+  'options.cache.clear': 'Limpar cache',
+  'engine.gemini.label': 'Gemini AI',
+  'engine.gemini.description': 'Envia o documento para a IA através do servidor da aplicação, que guarda a chave da API.',
+  'engine.local.label': 'Leitor local',
+  'engine.local.description': 'Lê PDFs e páginas guardadas no navegador, offline, para layouts conhecidos. Não lê imagens.',
+  'engine.local-first.label': 'Local, com IA de reserva',
+  'engine.local-first.description': 'Tenta o leitor local e usa a IA só quando o layout não é reconhecido.',
+
+  // Upload
+  'upload.processing': 'A processar ficheiros...',
+  'upload.prompt': 'Clique ou arraste os seus ficheiros para aqui',
+  'upload.formats': 'PDF (páginas web impressas), capturas de ecrã PNG/JPEG/WebP ou páginas guardadas HTML/MHTML',
+  'upload.rejected.one': '{count} ficheiro não foi aceite',
+  'upload.rejected.other': '{count} ficheiros não foram aceites',
+  'upload.dismiss': 'Dispensar',
+  'upload.reason.unsupported': 'Tipo não suportado. Envie PDF, PNG, JPEG, WebP, HTML ou MHTML.',
+  'upload.reason.unsupportedType': 'Tipo não suportado ({type}). Envie PDF, PNG, JPEG, WebP, HTML ou MHTML.',
+  'upload.reason.empty': 'Ficheiro vazio.',
+  'upload.reason.tooLarge': 'Ficheiro maior que {max} MB.',
+
+  // File list
+  'files.title': 'Ficheiros',
+  'files.done': '{done} de {total} concluídos',
+  'files.queued': 'Em fila',
+  'files.processing': 'A processar...',
+  'files.processingAttempt': 'A processar (tentativa {attempt})',
+  'files.orders.one': '{count} pedido',
+  'files.orders.other': '{count} pedidos',
+  'files.pages.one': '· {count} página',
+  'files.pages.other': '· {count} páginas',
+  'files.pagesPartial': '· {processed} de {total} páginas',
+  'files.toReview': '· {count} para revisão',
+  'files.engine.gemini': 'IA',
+  'files.engine.local': 'Local',
+  'files.engine.local-first': 'Local',
+  'files.engine.mock': 'Teste',
+  'files.fromCache': 'Da cache',
+  'files.fromCacheHint': 'Resultado reutilizado de uma extração anterior do mesmo ficheiro',
+  'files.failed': 'Falha ao processar o ficheiro.',
+  'files.retry': 'Repetir',
+  'files.retryHint': 'Tentar novamente',
+  'files.retryFailed': 'Tentar novamente os {count} com erro',
+  'files.reextract': 'Reextrair',
+  'files.reextractHint': 'Extrair de novo, ignorando a cache',
+  'files.reextractCached': 'Reextrair os {count} da cache',
+
+  // Extraction errors, by ExtractionErrorCode
+  'error.MISSING_API_KEY': 'Chave da API Gemini não configurada no servidor.',
+  'error.INVALID_API_KEY': 'Chave da API Gemini inválida ou sem permissão.',
+  'error.QUOTA_EXCEEDED': 'Quota da API excedida (limite de pedidos). Tente novamente mais tarde.',
+  'error.SERVER_ERROR': 'O serviço de IA está indisponível de momento.',
+  'error.NETWORK_ERROR': 'Falha de rede ao contactar o serviço de IA.',
+  'error.INVALID_JSON': 'A resposta da IA não é um JSON válido.',
+  'error.OUTPUT_TRUNCATED': 'A resposta da IA foi cortada no limite de saída (demasiados pedidos num só pedido à IA).',
+  'error.EMPTY_DOCUMENT': 'O documento está vazio ou não tem conteúdo legível.',
+  'error.UNSUPPORTED_LAYOUT': 'O documento não parece ser um relatório de pedidos suportado.',
+  'error.FILE_TOO_LARGE': 'O ficheiro excede o tamanho máximo aceite pelo servidor.',
+  'error.UNSUPPORTED_FILE_TYPE': 'Tipo de ficheiro não aceite pelo servidor.',
+  'error.RATE_LIMITED': 'Demasiados pedidos seguidos ao servidor. Aguarde um momento.',
+  'error.CANCELLED': 'Extração cancelada.',
+  'error.UNKNOWN': 'Falha ao processar o ficheiro.',
+
+  // Validation reasons for rejected rows, by RowIssueCode
+  'rowIssue.NOT_AN_OBJECT': 'Linha não é um objeto.',
+  'rowIssue.PLATFORM_MISSING': 'Plataforma ausente.',
+  'rowIssue.PLATFORM_UNKNOWN': 'Plataforma "{platform}" não é uma das suportadas ({supported}).',
+  'rowIssue.ORDER_ID_MISSING': 'Número do pedido ausente.',
+  'rowIssue.ORDER_ID_FORMAT': 'Número do pedido "{orderId}" não tem o formato esperado para {platform}.',
+  'rowIssue.STORE_MISSING': 'Loja ausente.',
+  'rowIssue.DATE_MISSING': 'Data ausente.',
+  'rowIssue.DATE_INVALID': 'Data "{value}" inválida (esperado AAAA-MM-DD ou DD/MM/AA).',
+  'rowIssue.TIME_MISSING': 'Hora ausente.',
+  'rowIssue.TIME_INVALID': 'Hora "{value}" inválida (esperado HH:MM).',
+  'rowIssue.CUSTOMER_NOT_TEXT': 'Nome do cliente não é texto.',
+  'rowIssue.ORDER_VALUE_INVALID': 'Valor do pedido "{value}" inválido.',
+  'rowIssue.REFUND_INVALID': 'Reembolso/penalização "{value}" inválido.',
+
+  // Results
+  'results.card.files': 'Ficheiros Analisados',
+  'results.card.orders': 'Total de Pedidos',
+  'results.card.duplicates': 'Duplicados Removidos',
+  'results.card.conflicts': '{count} em conflito',
+  'results.card.status': 'Estado da IA',
+  'results.card.failed': '{count} ficheiro(s) com falha',
+  'results.card.ok': 'Operacional',
+  'results.title': 'Relatório de Pedidos Extraídos',
+  'results.fields': 'A mostrar campos: ID, Restaurante, Data, Hora, Cliente',
+  'results.reviewMode': 'Modo revisão',
+  'results.reconcile': 'Conciliar com POS',
+  'results.downloadPdf': 'Transferir PDF',
+  'results.bundle': 'PDF por restaurante',
+  'results.bundleHint': 'Um PDF por restaurante, só com os seus pedidos, num ficheiro ZIP',
+  'results.spreadsheets': 'Folhas de cálculo',
+  'results.export.xlsx': 'Excel (.xlsx) — Pedidos e Resumo',
+  'results.export.ordersCsv': 'CSV — Pedidos',
+  'results.export.summaryCsv': 'CSV — Resumo por Restaurante',
+  'results.col.orderNumber': 'Pedido n.º',
+  'results.col.customerName': 'Nome do Cliente',
+  'results.conflictHint': 'Dados divergentes entre ficheiros',
+  'results.manualAdded': 'Incluído manualmente',
+  'results.manualEdited': 'Corrigido manualmente',
+  'results.confirmedBy': 'Confirmado por {name}',
+  'results.pageHint': '{file}, página {page}',
+  'results.pageShort': 'p. {page}',
+  'results.viewSource': 'Ver no documento de origem',
+  'results.deleteOrder': 'Eliminar pedido (falso positivo)',
+  'results.emptyFiltered': 'Nenhum pedido encontrado para os filtros selecionados.',
+  'results.empty': 'Nenhum pedido encontrado nos documentos analisados.',
+  'summary.title': 'Resumo por Restaurante e Plataforma',
+  'summary.byCategory': 'Impacto por restaurante e categoria',
+  'summary.byCategoryHint': 'Pedidos e valor reembolsado ou penalizado; valores não impressos nos relatórios contam como 0.',
+  'summary.breaches.one': '{count} alerta ultrapassado',
+  'summary.breaches.other': '{count} alertas ultrapassados',
+  'summary.moreBreaches': '+{count} no PDF',
+
+  // Review mode
+  'review.reviewer': 'Revisor',
+  'review.yourName': 'O seu nome',
+  'review.editHint': 'Clique numa célula para editar. As alterações ficam registadas com o seu nome.',
+  'review.addOrder': 'Adicionar pedido',
+  'review.nameRequired': 'Indique o seu nome para registar as correções.',
+  'review.includeAppendix': 'Incluir apêndice de correções no PDF',
+  'editable.hint': 'Clique para editar',
+  'addOrder.title': 'Adicionar pedido não extraído',
+  'addOrder.orderNumber': 'N.º do pedido',
+  'addOrder.customerOptional': 'Cliente (opcional)',
+  'addOrder.categoryOptional': 'Categoria (opcional)',
+  'addOrder.orderValueOptional': 'Valor € (opcional)',
+  'addOrder.refundOptional': 'Reembolso € (opcional)',
+  'addOrder.submit': 'Adicionar',
+
+  // Corrections
+  'corrections.title': 'Correções Manuais',
+  'corrections.count.one': '{count} alteração registada no modo revisão.',
+  'corrections.count.other': '{count} alterações registadas no modo revisão.',
+  'corrections.col.when': 'Quando',
+  'corrections.col.who': 'Quem',
+  'corrections.col.action': 'Ação',
+  'corrections.col.field': 'Campo',
+  'corrections.col.oldValue': 'Valor anterior',
+  'corrections.col.newValue': 'Novo valor',
+  'correction.action.edit': 'Edição',
+  'correction.action.delete': 'Eliminação',
+  'correction.action.add': 'Inclusão',
+  'correction.action.confirm': 'Confirmação',
+
+  // PDF report
+  'pdf.generatedAt': 'Gerado em: {date}',
+  'pdf.manualFootnote': '* Pedido corrigido ou incluído manualmente na revisão.',
+  'pdf.summaryTitle': 'Resumo por Restaurante',
+  'pdf.trends': 'Tendências',
+  'pdf.dailyByRestaurant': 'Pedidos com erro por dia — por restaurante',
+  'pdf.dailyByPlatform': 'Pedidos com erro por dia — por plataforma',
+  'pdf.appendix': 'Apêndice — Correções Manuais',
+  'pdf.restaurantTitle': 'Relatório de Pedidos — {name}',
+  'pdf.platformBreakdown': 'Pedidos por Plataforma',
+  'pdf.orderCount': 'Pedidos',
+  'pdf.categoryTitle': 'Impacto por categoria',
+  'pdf.exceptions': 'Exceções',
+  'pdf.exceptionsHint': '{count} casos acima dos limites de alerta, cada um com os pedidos que o originaram.',
+  'pdf.ordersTitle': 'Pedidos',
+
+  // Exported file names (no accents or spaces)
+  'file.report': 'Relatorio_Pedidos',
+  'file.orders': 'Pedidos',
+  'file.summary': 'Resumo_Restaurantes',
+  'file.bundle': 'Relatorios_por_Restaurante',
+  'file.reconciliation.matched': 'Conciliacao_Conciliados',
+  'file.reconciliation.missing': 'Conciliacao_Ausentes_no_POS',
+  'file.reconciliation.ambiguous': 'Conciliacao_Ambiguos',
+  'file.reconciliation.all': 'Conciliacao_POS',
+  'file.customers': 'Clientes_Recorrentes',
+
+  // Spreadsheet exports
+  'export.sheet.orders': 'Pedidos',
+  'export.sheet.summary': 'Resumo',
+  'export.sheet.categories': 'Por categoria',
+  'export.sheet.customers': 'Clientes',
+  'export.sheet.timeline': 'Linha do tempo',
+  'export.col.posRow': 'Linha POS',
+  'export.col.posOrderNumber': 'Pedido POS',
+  'export.col.posRestaurant': 'Restaurante POS',
+  'export.col.posDate': 'Data POS',
+  'export.col.posTime': 'Hora POS',
+  'export.col.candidates': 'Candidatos',
+  'export.col.posRows': 'Linhas POS',
+  'export.col.rank': 'Posição',
+  'export.col.nameVariants': 'Grafias',
+  'export.col.firstOrder': 'Primeiro pedido',
+  'export.col.lastOrder': 'Último pedido',
+
+  // Filters
+  'filters.searchPlaceholder': 'Pesquisar pedido ou cliente',
+  'filters.dateTo': 'a',
+  'filters.timeTo': 'às',
+  'filters.allFiles': 'Todos os ficheiros',
+  'filters.clear': 'Limpar filtros ({count})',
+  'filters.label': 'Filtro:',
+  'filters.desc.restaurants': 'Restaurantes: {list}',
+  'filters.desc.platforms': 'Plataformas: {list}',
+  'filters.desc.period': 'Período: {from} a {to}',
+  'filters.desc.time': 'Hora: {from} às {to}',
+  'filters.desc.file': 'Ficheiro: {name}',
+  'filters.desc.search': 'Pesquisa: "{text}"',
+  'pagination.range': '{first}–{last} de {total} pedidos',
+  'pagination.previous': 'Página anterior',
+  'pagination.next': 'Página seguinte',
+  'pagination.page': 'Página {page} de {count}',
+
+  // Conflicts
+  'conflicts.title': 'Conflitos entre Ficheiros',
+  'conflicts.pending': '{pending} de {total} pedidos aparecem com dados diferentes em ficheiros distintos. Escolha a versão correta.',
+  'conflicts.resolved': 'Todos os {total} conflitos foram resolvidos.',
+  'conflicts.differsIn': 'Diverge em: {fields}',
+  'conflicts.file': 'Ficheiro',
+  'conflicts.selected': 'Selecionada',
+  'conflicts.useVersion': 'Usar esta versão',
+
+  // Rows that failed validation
+  'reviewPanel.title': 'Precisa de Revisão',
+  'reviewPanel.description.one': '{count} linha extraída não passou na validação e ficou fora do relatório. Confirme no documento original.',
+  'reviewPanel.description.other': '{count} linhas extraídas não passaram na validação e ficaram fora do relatório. Confirme no documento original.',
+  'reviewPanel.col.orderId': 'ID Pedido',
+  'reviewPanel.col.store': 'Loja',
+  'reviewPanel.col.reason': 'Motivo',
+
+  // History
+  'history.defaultName': 'Auditoria {date}',
+  'history.mergedName': 'Combinado: {names}',
+  'history.title': 'Histórico de Auditorias',
+  'history.description': 'Execuções guardadas neste navegador. Selecione várias para as analisar em conjunto ou combinar.',
+  'history.loadError': 'Não foi possível carregar o histórico deste navegador.',
+  'history.confirmDelete': 'Eliminar "{name}" do histórico? Esta ação não pode ser desfeita.',
+  'history.open': 'Abrir',
+  'history.openCombined': 'Abrir combinação ({count})',
+  'history.merge': 'Combinar numa nova execução',
+  'history.loading': 'A carregar o histórico...',
+  'history.empty': 'Ainda não há auditorias guardadas. As próximas importações aparecerão aqui.',
+  'history.col.name': 'Nome',
+  'history.col.orders': 'Pedidos',
+  'history.isOpen': '(aberta)',
+  'history.failed': '{count} com erro',
+  'history.rename': 'Mudar o nome',
+
+  // Normalization rules
+  'rules.title': 'Regras de Normalização de Restaurantes',
+  'rules.description': 'Se a loja/morada extraída contiver uma das palavras-chave, o pedido é atribuído ao restaurante indicado. É aplicada a primeira regra que coincidir.',
+  'rules.confirmReset': 'Substituir todas as regras pelas regras predefinidas?',
+  'rules.reset': 'Repor predefinições',
+  'rules.add': 'Nova regra',
+  'rules.col.order': 'Ordem',
+  'rules.col.keywords': 'Palavras-chave (separadas por vírgula)',
+  'rules.moveUp': 'Subir',
+  'rules.moveDown': 'Descer',
+  'rules.keywordsPlaceholder': 'ex.: Duarte Pacheco, Amoreiras',
+  'rules.namePlaceholder': 'Nome do restaurante',
+  'rules.remove': 'Remover regra',
+  'rules.empty': 'Nenhuma regra definida. Os nomes das lojas serão usados tal como aparecem nos relatórios.',
+  'rules.test': 'Testar regras',
+  'rules.testPlaceholder': 'Cole aqui uma loja ou morada, ex.: Av. Eng. Duarte Pacheco 2037',
+  'rules.testResult': 'Resultado:',
+  'rules.testNoMatch': 'Nenhuma regra coincide — será usado o nome original.',
+  'platforms.title': 'Plataformas de entrega',
+  'platforms.description': 'Cada plataforma define como é reconhecida nos documentos, o formato do número de pedido e a cor e posição no resumo. As plataformas incluídas não podem ser alteradas; acrescente outros canais abaixo.',
+  'platforms.add': 'Nova plataforma',
+  'platforms.col.name': 'Nome',
+  'platforms.col.color': 'Cor',
+  'platforms.col.hints': 'Indícios no documento (separados por vírgula)',
+  'platforms.col.orderIdPattern': 'Formato do nº de pedido (regex)',
+  'platforms.col.example': 'Exemplo',
+  'platforms.col.priority': 'Prioridade',
+  'platforms.builtIn': 'Incluída',
+  'platforms.namePlaceholder': 'ex.: Encomendas diretas',
+  'platforms.hintsPlaceholder': 'ex.: Pedido online, Site',
+  'platforms.invalidPattern': 'Use ^, um prefixo fixo opcional, uma classe de caracteres ou \\d com um comprimento, e $, por exemplo ^[A-Z0-9]{4,8}$ ou ^JE\\d{6,10}$.',
+  'platforms.notInUse': 'Não está em uso: falta o nome, o nome já existe ou o formato é inválido.',
+  'platforms.remove': 'Remover plataforma',
+  'platforms.cacheHint': 'Documentos já lidos ficam em cache: use "Reextrair" para os ler de novo com as plataformas atuais.',
+  'platforms.test': 'Testar número de pedido',
+  'platforms.testPlaceholder': 'Cole um número de pedido, ex.: 2E955',
+  'platforms.testValid': 'Formato válido para esta plataforma.',
+  'platforms.testInvalid': 'Não corresponde ao formato desta plataforma.',
+  'template.title': 'Modelo de Relatório',
+  'template.description': 'Aplica-se ao PDF completo e aos PDFs por restaurante.',
+  'template.reset': 'Repor predefinições',
+  'template.confirmReset': 'Repor o modelo de relatório predefinido?',
+  'template.companyName': 'Nome da empresa',
+  'template.logo': 'Logótipo',
+  'template.logoUpload': 'Escolher imagem',
+  'template.logoRemove': 'Remover',
+  'template.logoHint': 'PNG ou JPEG até {maxKb} KB.',
+  'template.logoInvalidType': 'O logótipo tem de ser PNG ou JPEG.',
+  'template.logoTooLarge': 'O logótipo excede {maxKb} KB.',
+  'template.accentColor': 'Cor de destaque',
+  'template.footerNote': 'Nota de rodapé',
+  'template.footerPlaceholder': 'Ex.: Documento interno — não partilhar fora da empresa.',
+  'template.columns': 'Colunas da tabela de pedidos',
+  'template.preview': 'Pré-visualização',
+
+  // Source preview
+  'preview.manual': 'Pedido incluído manualmente, sem documento de origem.',
+  'preview.fileMissing': 'O ficheiro original não está disponível nesta sessão.',
+  'preview.unsupported': 'Tipo de ficheiro sem pré-visualização.',
+  'preview.openError': 'Não foi possível abrir o documento.',
+  'preview.opening': 'A abrir o documento...',
+  'preview.notFound': 'A linha não foi localizada automaticamente.',
+  'preview.notFoundOnPage': 'A linha não foi localizada automaticamente (indicada na página {page}).',
+  'preview.snippet': 'Texto extraído:',
+  'preview.confirm': 'Confirmar pedido',
+  'preview.delete': 'Eliminar (falso positivo)',
+  'preview.editHint': 'Clique num campo para corrigir.',
+  'preview.nameRequired': 'Indique o seu nome para confirmar ou corrigir.',
+
+  // Trends
+  'trends.title': 'Painel de Tendências',
+  'trends.byRestaurant': 'Por restaurante',
+  'trends.byPlatform': 'Por plataforma',
+  'trends.daily': 'Pedidos com erro por dia',
+  'trends.hidden': '+{count} ocultos',
+  'trends.heatmap': 'Dia da semana × hora',
+  'trends.weekVsPrevious': 'Semana de {date} vs. anterior',
+  'trends.previous': 'Anterior',
+  'trends.current': 'Atual',
+  'trends.previousWeek': 'Semana anterior',
+  'trends.weekOf': 'Semana de {date}',
+  'trends.change': 'Variação',
+
+  // POS reconciliation
+  'pos.title': 'Conciliar com o POS',
+  'pos.readEmpty': 'O ficheiro não tem cabeçalho e linhas de dados.',
+  'pos.readError': 'Não foi possível ler o ficheiro CSV.',
+  'pos.changeFile': 'Trocar ficheiro',
+  'pos.chooseFile': 'Escolher CSV do POS',
+  'pos.fileHint': 'Exportação de pedidos do POS ou do sistema de gestão (.csv)',
+  'pos.columns': 'Colunas',
+  'pos.unused': '— não utilizar —',
+  'pos.timeWindow': 'Tolerância de hora sem n.º do pedido:',
+  'pos.minutes': 'minutos',
+  'pos.preview': 'Pré-visualização',
+  'pos.rows': '({count} linhas)',
+  'pos.reconcile': 'Conciliar',
+  'pos.mappingIncomplete': 'Indique a coluna do número do pedido, ou pelo menos as colunas de restaurante e data (com hora).',
+  'pos.field.orderNumber': 'N.º do pedido na plataforma',
+  'pos.field.platform': 'Plataforma',
+  'pos.field.restaurant': 'Restaurante',
+  'pos.field.date': 'Data',
+  'pos.field.time': 'Hora',
+  'pos.field.amount': 'Valor',
+  'pos.field.shift': 'Turno',
+  'reconciliation.title': 'Conciliação com o POS',
+  'reconciliation.summary': '{file} · {rows} linhas · tolerância de {minutes} min sem n.º do pedido',
+  'reconciliation.otherFile': 'Outro ficheiro',
+  'reconciliation.excelAll': 'Excel (todas)',
+  'reconciliation.close': 'Fechar conciliação',
+  'reconciliation.empty': 'Nenhum pedido nesta categoria.',
+  'reconciliation.row': 'linha {row}',
+  'reconciliation.col.posRow': 'Linha do POS',
+  'reconciliation.col.method': 'Correspondência',
+  'reconciliation.col.candidates': 'Linhas possíveis do POS',
+  'reconciliation.method.orderNumber': 'N.º do pedido',
+  'reconciliation.method.fuzzy': 'Restaurante + data + hora',
+  'reconciliation.bucket.matched': 'Conciliados',
+  'reconciliation.bucket.missing': 'Ausentes no POS',
+  'reconciliation.bucket.ambiguous': 'Ambíguos',
+  'reconciliation.hint.matched': 'Pedidos encontrados no POS.',
+  'reconciliation.hint.missing': 'Pedidos do relatório do parceiro sem registo correspondente no POS.',
+  'reconciliation.hint.ambiguous': 'Pedidos sem n.º correspondente e com mais de uma linha do POS possível no mesmo restaurante e hora.',
+  'customers.title': 'Clientes recorrentes',
+  'customers.description': 'Clientes com mais de um pedido com erro, agrupados pelo nome em todas as plataformas e lojas. Grafias parecidas ("João S.", "Joao Silva") contam como a mesma pessoa.',
+  'customers.includeHistory': 'Incluir o histórico guardado',
+  'customers.loadingHistory': 'A carregar o histórico...',
+  'customers.analysed': '{count} pedidos analisados',
+  'customers.windowDays': 'Janela (dias)',
+  'customers.minStores': 'Lojas na janela',
+  'customers.minRepeats': 'Repetições da categoria',
+  'customers.flaggedOnly': 'Só com alertas',
+  'customers.col.customer': 'Cliente',
+  'customers.col.orders': 'Pedidos',
+  'customers.col.platforms': 'Plataformas',
+  'customers.col.restaurants': 'Lojas',
+  'customers.col.period': 'Período',
+  'customers.col.refund': 'Reembolsos',
+  'customers.col.flags': 'Alertas',
+  'customers.variants': 'Também escrito: {names}',
+  'customers.timeline': 'Linha do tempo de {name}',
+  'customers.empty': 'Nenhum cliente com mais de um pedido com erro.',
+  'customers.emptyFlagged': 'Nenhum cliente com alertas com estes limites.',
+  'customers.flag.multiStore': '{count} lojas entre {from} e {to}',
+  'customers.flag.multiPlatform': '{count} plataformas',
+  'customers.flag.repeatCategory': '{count}× {category}',
+  'customers.exportCsv': 'Exportar CSV',
+  'customers.exportXlsx': 'Exportar Excel',
+  'privacy.title': 'Privacidade',
+  'privacy.description': 'Como os nomes dos clientes aparecem no ecrã e nas exportações, e quanto tempo ficam guardados.',
+  'privacy.masking': 'Ocultação de nomes',
+  'privacy.mode.none': 'Nome completo',
+  'privacy.mode.initials': 'Iniciais',
+  'privacy.mode.pseudonym': 'Pseudónimo',
+  'privacy.maskingHint': 'Aplica-se à tabela, aos PDF, às folhas de cálculo e à análise de clientes. O pseudónimo é o mesmo para o mesmo cliente em todos os relatórios.',
+  'privacy.role': 'Perfil nesta sessão',
+  'privacy.role.operator': 'Operador (nomes ocultos)',
+  'privacy.role.authorized': 'Autorizado (nomes completos)',
+  'privacy.roleHint': 'Volta a Operador ao recarregar a página.',
+  'privacy.confirmReveal': 'Mostrar os nomes completos dos clientes no ecrã e nas exportações? Confirme que está autorizado a tratar estes dados.',
+  'privacy.retention': 'Período de retenção',
+  'privacy.retentionEnabled': 'Apagar dados pessoais das auditorias com mais de',
+  'privacy.retentionDays': 'dias',
+  'privacy.retentionHint': 'Verificado ao abrir a aplicação. Os pedidos ficam no histórico, sem nome do cliente nem documento original.',
+  'privacy.lastAutoPurge': 'Última limpeza automática: {summary}',
+  'privacy.purge': 'Apagar dados pessoais',
+  'privacy.purgeHint': 'Remove os nomes dos clientes e os documentos originais de todas as auditorias guardadas, e esvazia a cache de extração.',
+  'privacy.purgeAll': 'Apagar todos os dados pessoais',
+  'privacy.confirmPurge': 'Apagar os nomes dos clientes e os documentos originais de todas as auditorias? Esta ação não pode ser desfeita.',
+  'privacy.purgeError': 'Não foi possível apagar os dados pessoais.',
+  'privacy.purgeDone': 'Removido: {summary}',
+  'privacy.report.runs.one': '{count} auditoria',
+  'privacy.report.runs.other': '{count} auditorias',
+  'privacy.report.names.one': '{count} nome de cliente',
+  'privacy.report.names.other': '{count} nomes de clientes',
+  'privacy.report.files.one': '{count} documento',
+  'privacy.report.files.other': '{count} documentos',
+  'privacy.report.cache.one': '{count} extração em cache',
+  'privacy.report.cache.other': '{count} extrações em cache',
+  'thresholds.title': 'Alertas por restaurante',
+  'thresholds.description': 'Limites de erros por restaurante e/ou plataforma. As linhas que os ultrapassam ficam destacadas no resumo e abrem o PDF como exceções.',
+  'thresholds.add': 'Adicionar alerta',
+  'thresholds.reset': 'Repor predefinições',
+  'thresholds.confirmReset': 'Substituir todos os alertas pelos alertas predefinidos?',
+  'thresholds.remove': 'Remover alerta',
+  'thresholds.empty': 'Sem alertas. Adicione um para destacar restaurantes acima de um limite.',
+  'thresholds.col.period': 'Período',
+  'thresholds.col.kind': 'Tipo',
+  'thresholds.col.limit': 'Limite',
+  'thresholds.anyRestaurant': 'Qualquer restaurante',
+  'thresholds.anyPlatform': 'Todas as plataformas',
+  'thresholds.period.day': 'Dia',
+  'thresholds.period.week': 'Semana',
+  'thresholds.kind.count': 'Número de erros',
+  'thresholds.kind.change': 'Subida (%)',
+  'thresholds.rule.count.day': 'mais de {limit} erros num dia',
+  'thresholds.rule.count.week': 'mais de {limit} erros numa semana',
+  'thresholds.rule.change.day': 'erros a subir mais de {limit}% face ao dia anterior',
+  'thresholds.rule.change.week': 'erros a subir mais de {limit}% face à semana anterior',
+  'thresholds.breach.count.day.one': '{count} erro em {date} (limite: {limit} por dia)',
+  'thresholds.breach.count.day.other': '{count} erros em {date} (limite: {limit} por dia)',
+  'thresholds.breach.count.week.one': '{count} erro na semana de {date} (limite: {limit} por semana)',
+  'thresholds.breach.count.week.other': '{count} erros na semana de {date} (limite: {limit} por semana)',
+  'thresholds.breach.change.day.one': '{count} erro em {date}, +{change}% face aos {previous} do dia anterior (limite: +{limit}%)',
+  'thresholds.breach.change.day.other': '{count} erros em {date}, +{change}% face aos {previous} do dia anterior (limite: +{limit}%)',
+  'thresholds.breach.change.week.one': '{count} erro na semana de {date}, +{change}% face aos {previous} da semana anterior (limite: +{limit}%)',
+  'thresholds.breach.change.week.other': '{count} erros na semana de {date}, +{change}% face aos {previous} da semana anterior (limite: +{limit}%)',
+};
+
+export type MessageKey = keyof typeof ptPT;
+
+export type Messages = Record<MessageKey, string>;
+
+export { ptPT };
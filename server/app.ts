@@ -0,0 +1,190 @@
+import http from "node:http";
+import { GoogleGenAI } from "@google/genai";
+import { ApiErrorBody, ExtractApiResponse, ExtractionErrorCode, PlatformDefinition } from "../types.ts";
+import { ExtractionError, toExtractionError } from "../services/extractionErrors.ts";
+import { extractOrdersFromFile } from "../services/geminiService.ts";
+import { mergePlatforms } from "../services/platforms.ts";
+import { MAX_SIZE_MB, detectSourceKind } from "../utils/fileTypes.ts";
+import { RateLimitOptions, createRateLimiter } from "./rateLimiter.ts";
+
+export interface ApiServerOptions {
+  ai: GoogleGenAI | null; // null when no API key is configured; /api/extract then fails with MISSING_API_KEY
+  rateLimit: RateLimitOptions;
+  trustProxy?: boolean; // Take the client address from X-Forwarded-For (only behind a trusted proxy)
+}
+
+const HTTP_STATUS: Record<ExtractionErrorCode, number> = {
+  MISSING_API_KEY: 503,
+  INVALID_API_KEY: 502,
+  QUOTA_EXCEEDED: 429,
+  SERVER_ERROR: 502,
+  NETWORK_ERROR: 502,
+  INVALID_JSON: 502,
+  OUTPUT_TRUNCATED: 502,
+  EMPTY_DOCUMENT: 422,
+  UNSUPPORTED_LAYOUT: 422,
+  FILE_TOO_LARGE: 413,
+  UNSUPPORTED_FILE_TYPE: 415,
+  RATE_LIMITED: 429,
+  CANCELLED: 499,
+  UNKNOWN: 500,
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// Detail travels separately so the client can rebuild the same ExtractionError
+const sendError = (res: http.ServerResponse, error: ExtractionError, retryAfterSeconds?: number) => {
+  const body: ApiErrorBody = {
+    error: {
+      code: error.code,
+      message: error.message,
+      ...(error.detail ? { detail: error.detail } : {}),
+      ...(retryAfterSeconds ? { retryAfterSeconds } : {}),
+    },
+  };
+  sendJson(res, HTTP_STATUS[error.code], body, retryAfterSeconds ? { 'Retry-After': String(retryAfterSeconds) } : {});
+};
+
+const clientIdOf = (req: http.IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string' && forwarded.trim()) {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+/** Reads the request body, giving up as soon as it passes `maxBytes`. */
+const readBody = (req: http.IncomingMessage, maxBytes: number): Promise<Buffer | null> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        req.removeAllListeners('data');
+        req.resume();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+// Custom platforms sent by the browser in X-Platforms; a malformed header means built-ins only.
+// Sanitizing keeps only order-ID formats of the restricted shape; both that check and matching
+// the kept formats take time linear in their length, which cleanText caps
+const readPlatforms = (req: http.IncomingMessage): PlatformDefinition[] => {
+  const raw = req.headers['x-platforms'];
+  if (typeof raw !== 'string' || !raw) return mergePlatforms([]);
+  try {
+    return mergePlatforms(JSON.parse(decodeURIComponent(raw)));
+  } catch {
+    return mergePlatforms([]);
+  }
+};
+
+const handleExtract = async (
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  options: ApiServerOptions,
+  limiter: ReturnType<typeof createRateLimiter>
+) => {
+  const decision = limiter.take(clientIdOf(req, !!options.trustProxy));
+  if (!decision.allowed) {
+    req.resume();
+    sendError(res, new ExtractionError('RATE_LIMITED'), decision.retryAfterSeconds);
+    return;
+  }
+  if (!options.ai) {
+    req.resume();
+    sendError(res, new ExtractionError('MISSING_API_KEY'));
+    return;
+  }
+
+  const rawName = req.headers['x-file-name'];
+  let name = 'documento';
+  try {
+    name = typeof rawName === 'string' && rawName ? decodeURIComponent(rawName) : name;
+  } catch {
+    // Keep the default for a malformed header
+  }
+  const type = (req.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+  const kind = detectSourceKind({ name, type });
+  if (!kind) {
+    req.resume();
+    sendError(res, new ExtractionError('UNSUPPORTED_FILE_TYPE', type || name));
+    return;
+  }
+
+  const maxBytes = MAX_SIZE_MB[kind] * 1024 * 1024;
+  const declared = Number(req.headers['content-length']);
+  if (Number.isFinite(declared) && declared > maxBytes) {
+    req.resume();
+    sendError(res, new ExtractionError('FILE_TOO_LARGE', `limit is ${MAX_SIZE_MB[kind]} MB`));
+    return;
+  }
+  const body = await readBody(req, maxBytes);
+  if (!body) {
+    sendError(res, new ExtractionError('FILE_TOO_LARGE', `limit is ${MAX_SIZE_MB[kind]} MB`));
+    return;
+  }
+
+  // Stop calling the model when the browser cancels or goes away
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  const file = new File([body], name, { type });
+  try {
+    const { orders, rejectedRows, pageCount, pagesProcessed } =
+      await extractOrdersFromFile(options.ai, file, readPlatforms(req), controller.signal);
+    const response: ExtractApiResponse = { orders, rejectedRows, pageCount, pagesProcessed };
+    sendJson(res, 200, response);
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    sendError(res, toExtractionError(error));
+  }
+};
+
+/**
+ * HTTP server for the browser app. POST /api/extract takes one document as the
+ * raw body (type in Content-Type, name in X-File-Name, custom platforms in
+ * X-Platforms) and answers with the validated orders or an ApiErrorBody;
+ * GET /api/health reports readiness.
+ */
+const createApiServer = (options: ApiServerOptions): http.Server => {
+  const limiter = createRateLimiter(options.rateLimit);
+
+  return http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const started = Date.now();
+    res.on('finish', () => console.info(`${req.method} ${url.pathname} ${res.statusCode} ${Date.now() - started}ms`));
+
+    if (url.pathname === '/api/health' && req.method === 'GET') {
+      sendJson(res, 200, { ok: true, apiKeyConfigured: !!options.ai });
+      return;
+    }
+    if (url.pathname === '/api/extract') {
+      if (req.method !== 'POST') {
+        req.resume();
+        sendJson(res, 405, { error: { code: 'UNKNOWN', message: 'Use POST.' } } satisfies ApiErrorBody, { Allow: 'POST' });
+        return;
+      }
+      handleExtract(req, res, options, limiter).catch(error => {
+        console.error('Unhandled /api/extract error:', error);
+        if (!res.headersSent) sendError(res, toExtractionError(error));
+      });
+      return;
+    }
+    req.resume();
+    sendJson(res, 404, { error: { code: 'UNKNOWN', message: 'Route not found.' } } satisfies ApiErrorBody);
+  });
+};
+
+export { createApiServer };
@@ -0,0 +1,43 @@
+import { existsSync } from "node:fs";
+import { createGeminiClient } from "../services/geminiService.ts";
+import { createApiServer } from "./app.ts";
+import { startMockUpstream } from "./mockUpstream.ts";
+
+/**
+ * Entry point: `npm run server` (real Gemini API, key from GEMINI_API_KEY or
+ * .env.local) or `npm run server:mock` (offline, against the mock upstream).
+ *
+ * Environment: PORT (8787), GEMINI_BASE_URL, RATE_LIMIT_PER_MINUTE (20),
+ * TRUST_PROXY=1 when running behind a reverse proxy, MOCK_UPSTREAM_FAIL=<status>.
+ */
+const main = async () => {
+  if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+  const useMock = process.argv.includes('--mock');
+  const port = Number(process.env.PORT) || 8787;
+  let apiKey = process.env.GEMINI_API_KEY;
+  let baseUrl = process.env.GEMINI_BASE_URL;
+
+  if (useMock) {
+    const mock = await startMockUpstream({ failWithStatus: Number(process.env.MOCK_UPSTREAM_FAIL) || undefined });
+    // The real key is never sent to the mock
+    apiKey = 'mock-key';
+    baseUrl = mock.url;
+    console.info(`Mock Gemini upstream at ${mock.url}`);
+  }
+  if (!apiKey) {
+    console.warn('GEMINI_API_KEY is not set; /api/extract will answer MISSING_API_KEY.');
+  }
+
+  const server = createApiServer({
+    ai: apiKey ? createGeminiClient(apiKey, baseUrl) : null,
+    rateLimit: { limit: Number(process.env.RATE_LIMIT_PER_MINUTE) || 20, windowMs: 60_000 },
+    trustProxy: process.env.TRUST_PROXY === '1',
+  });
+  server.listen(port, () => console.info(`API server listening on http://localhost:${port}`));
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
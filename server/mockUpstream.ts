@@ -0,0 +1,130 @@
+import http from "node:http";
+import { AddressInfo } from "node:net";
+
+export interface MockUpstreamOptions {
+  port?: number; // 0 (default) picks a free port
+  failWithStatus?: number; // Answer every request with this HTTP error, e.g. 429 or 503
+}
+
+export interface MockUpstream {
+  url: string; // Base URL to hand to createGeminiClient
+  close: () => Promise<void>;
+}
+
+// Google API error statuses the SDK and toExtractionError recognise
+const ERROR_STATUSES: Record<number, string> = {
+  400: 'INVALID_ARGUMENT',
+  403: 'PERMISSION_DENIED',
+  429: 'RESOURCE_EXHAUSTED',
+  500: 'INTERNAL',
+  503: 'UNAVAILABLE',
+};
+
+interface MockOrder {
+  orderNumber: string;
+  rawStoreName: string;
+  date: string;
+  time: string;
+  customerName: string;
+  platform: string;
+  page: number;
+  snippet: string;
+}
+
+const STORES = ['Glovo Amoreiras - Av. Eng. Duarte Pacheco', 'Glovo Miraflores - Rua Fernão Lopes'];
+
+// Two orders per page, numbered from the absolute page so chunked requests stay distinct
+const ordersForPages = (firstPage: number, pageCount: number): MockOrder[] =>
+  Array.from({ length: pageCount }, (_, p) => p + 1).flatMap(page =>
+    [0, 1].map(row => {
+      const orderNumber = String(100000000 + (firstPage + page - 1) * 10 + row);
+      const time = `${String(12 + row).padStart(2, '0')}:${String(10 + page).padStart(2, '0')}`;
+      const rawStoreName = STORES[row];
+      return {
+        orderNumber,
+        rawStoreName,
+        date: '2026-01-14',
+        time,
+        customerName: 'N/A',
+        platform: 'Glovo',
+        page,
+        snippet: `${orderNumber} ${rawStoreName} 14/01/26 ${time}`,
+      };
+    })
+  );
+
+const readJson = (req: http.IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+
+// The prompt names the page range of chunked PDFs ("pages 6 to 10 of a 12-page ...")
+const pagesFromPrompt = (body: unknown): { firstPage: number; pageCount: number } => {
+  const text = JSON.stringify(body);
+  const match = text.match(/pages (\d+) to (\d+) of a \d+-page/);
+  if (!match) return { firstPage: 1, pageCount: 1 };
+  return { firstPage: +match[1], pageCount: +match[2] - +match[1] + 1 };
+};
+
+/**
+ * Stand-in for the Gemini REST API (models/*:generateContent) so the server can be
+ * run and tested offline. Every document yields two fixed Glovo orders per page,
+ * in the response format the SDK expects.
+ */
+const startMockUpstream = async ({ port = 0, failWithStatus }: MockUpstreamOptions = {}): Promise<MockUpstream> => {
+  const server = http.createServer((req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method !== 'POST' || !/:generateContent$/.test(req.url ?? '')) {
+      send(404, { error: { code: 404, message: 'Not found', status: 'NOT_FOUND' } });
+      return;
+    }
+    if (!req.headers['x-goog-api-key']) {
+      send(403, { error: { code: 403, message: 'API key not valid.', status: 'PERMISSION_DENIED' } });
+      return;
+    }
+    if (failWithStatus) {
+      req.resume();
+      send(failWithStatus, {
+        error: { code: failWithStatus, message: `Mock upstream failure ${failWithStatus}`, status: ERROR_STATUSES[failWithStatus] ?? 'UNKNOWN' },
+      });
+      return;
+    }
+
+    readJson(req)
+      .then(body => {
+        const { firstPage, pageCount } = pagesFromPrompt(body);
+        const payload = { isOrderReport: true, orders: ordersForPages(firstPage, pageCount) };
+        send(200, {
+          candidates: [{
+            content: { role: 'model', parts: [{ text: JSON.stringify(payload) }] },
+            finishReason: 'STOP',
+            index: 0,
+          }],
+          modelVersion: 'mock',
+        });
+      })
+      .catch(error => send(400, { error: { code: 400, message: String(error), status: 'INVALID_ARGUMENT' } }));
+  });
+
+  await new Promise<void>(resolve => server.listen(port, '127.0.0.1', resolve));
+  const { port: actualPort } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${actualPort}`,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+};
+
+export { startMockUpstream };
@@ -0,0 +1,47 @@
+export interface RateLimitOptions {
+  limit: number; // Requests allowed per client within the window
+  windowMs: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+export interface RateLimiter {
+  take: (clientId: string, now?: number) => RateLimitDecision;
+}
+
+/**
+ * Sliding-window limiter kept in memory: each client may start `limit` requests
+ * in any `windowMs` span. Enough for one server process; it resets on restart.
+ */
+const createRateLimiter = ({ limit, windowMs }: RateLimitOptions): RateLimiter => {
+  const hits = new Map<string, number[]>();
+
+  const prune = (now: number) => {
+    hits.forEach((times, clientId) => {
+      const recent = times.filter(t => now - t < windowMs);
+      if (recent.length === 0) hits.delete(clientId);
+      else hits.set(clientId, recent);
+    });
+  };
+
+  return {
+    take: (clientId, now = Date.now()) => {
+      // Idle clients are dropped now and then so the map does not grow forever
+      if (hits.size > 1000) prune(now);
+
+      const recent = (hits.get(clientId) ?? []).filter(t => now - t < windowMs);
+      if (recent.length >= limit) {
+        hits.set(clientId, recent);
+        return { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil((recent[0] + windowMs - now) / 1000)) };
+      }
+      recent.push(now);
+      hits.set(clientId, recent);
+      return { allowed: true, retryAfterSeconds: 0 };
+    },
+  };
+};
+
+export { createRateLimiter };
@@ -0,0 +1,59 @@
+import { ApiErrorBody, ExtractApiResponse, PlatformDefinition } from "../types.ts";
+import { EXTRACTION_ERROR_MESSAGES, ExtractionError, toExtractionError } from "./extractionErrors.ts";
+import { OrderExtractor } from "./orderExtractor.ts";
+
+const EXTRACT_ENDPOINT = '/api/extract';
+
+const PLATFORMS_HEADER = 'X-Platforms';
+
+// Structured errors keep their code; proxies and crashed servers fall back to the HTTP status
+const readApiError = async (response: Response): Promise<ExtractionError> => {
+  try {
+    const body = await response.json() as Partial<ApiErrorBody>;
+    const code = body.error?.code;
+    if (code && code in EXTRACTION_ERROR_MESSAGES) {
+      return new ExtractionError(code, body.error?.detail, response.status);
+    }
+  } catch {
+    // Not JSON: an HTML error page from a proxy, or an empty body
+  }
+  return toExtractionError(Object.assign(new Error(`HTTP ${response.status}`), { status: response.status }));
+};
+
+/**
+ * Sends the file to the app's own server, which holds the Gemini key and runs the
+ * prompt. The file goes as the raw request body, its name in X-File-Name and the
+ * custom platforms (built-ins are known to the server) in X-Platforms.
+ */
+const extractViaServer = async (file: File, customPlatforms: PlatformDefinition[], signal?: AbortSignal): Promise<ExtractApiResponse> => {
+  try {
+    const response = await fetch(EXTRACT_ENDPOINT, {
+      method: 'POST',
+      body: file,
+      headers: {
+        'Content-Type': file.type || 'application/octet-stream',
+        'X-File-Name': encodeURIComponent(file.name),
+        ...(customPlatforms.length > 0 ? { [PLATFORMS_HEADER]: encodeURIComponent(JSON.stringify(customPlatforms)) } : {}),
+      },
+      signal,
+    });
+    if (!response.ok) throw await readApiError(response);
+    return await response.json() as ExtractApiResponse;
+  } catch (error) {
+    throw toExtractionError(error);
+  }
+};
+
+const createGeminiExtractor = (registry: PlatformDefinition[]): OrderExtractor => {
+  const customPlatforms = registry.filter(p => !p.builtIn);
+  return {
+    engine: 'gemini',
+    label: 'Gemini AI',
+    extract: async (file, signal) => ({
+      ...await extractViaServer(file, customPlatforms, signal),
+      engine: 'gemini',
+    }),
+  };
+};
+
+export { EXTRACT_ENDPOINT, PLATFORMS_HEADER, createGeminiExtractor };
@@ -0,0 +1,97 @@
+import { AuditedOrder, ExtractedFileResult, ExtractionOutput, NormalizationRule, OrderCorrection, PlatformDefinition, SummaryStats } from "../types.ts";
+import { ExtractionError, toExtractionError } from "./extractionErrors.ts";
+import { JobOutcome, runQueue } from "./extractionQueue.ts";
+import { OrderExtractor } from "./orderExtractor.ts";
+import { FileJob } from "./historyService.ts";
+import { normalizeResults } from "./normalizationService.ts";
+import { deduplicateResults } from "./dedupService.ts";
+import { applyCorrections } from "./correctionService.ts";
+import { buildSummaryStats } from "../utils/summaryStats.ts";
+
+export interface ExtractFilesOptions {
+  concurrency: number;
+  maxRetries: number;
+  signal?: AbortSignal;
+  onUpdate?: (id: string, patch: Partial<ExtractedFileResult>) => void; // Every status change, as it happens
+  onRetry?: (job: FileJob, attempt: number, delayMs: number, error: unknown) => void;
+}
+
+export interface AuditSummary {
+  orders: AuditedOrder[];
+  summary: SummaryStats;
+  duplicatesRemoved: number;
+  conflictCount: number;
+}
+
+// Clears what a previous attempt left on a result that is about to be extracted again
+const QUEUED_PATCH: Partial<ExtractedFileResult> = {
+  status: 'queued', orders: [], errorCode: undefined, errorMessage: undefined, attempt: undefined, engine: undefined, rejectedRows: undefined,
+  pageCount: undefined, pagesProcessed: undefined, fromCache: undefined,
+};
+
+const outcomeToPatch = (outcome: JobOutcome<ExtractionOutput>): Partial<ExtractedFileResult> => {
+  if (outcome.status === 'fulfilled') {
+    const { orders, engine, rejectedRows, pageCount, pagesProcessed, fromCache } = outcome.value;
+    return { status: 'success', orders, engine, rejectedRows, pageCount, pagesProcessed, fromCache };
+  }
+  const error = outcome.status === 'cancelled'
+    ? new ExtractionError('CANCELLED')
+    : toExtractionError(outcome.error);
+  return { status: 'error', orders: [], errorCode: error.code, errorMessage: error.message };
+};
+
+/**
+ * Runs `extractor` over the jobs through the retrying queue and resolves with one
+ * patch per job, in job order. Used by the web app and the CLI alike.
+ */
+const extractFiles = async (
+  jobs: FileJob[],
+  extractor: OrderExtractor,
+  options: ExtractFilesOptions
+): Promise<Partial<ExtractedFileResult>[]> => {
+  const { concurrency, maxRetries, signal, onUpdate, onRetry } = options;
+  const patches: Partial<ExtractedFileResult>[] = jobs.map(() => ({ ...QUEUED_PATCH }));
+  jobs.forEach(job => onUpdate?.(job.id, QUEUED_PATCH));
+
+  await runQueue(jobs, (job, jobSignal) => extractor.extract(job.file, jobSignal), {
+    concurrency,
+    maxRetries,
+    signal,
+    onJobStart: (index, attempt) => onUpdate?.(jobs[index].id, { status: 'processing', attempt }),
+    onRetry: (index, attempt, delayMs, error) => {
+      console.warn(`Retrying ${jobs[index].file.name} (attempt ${attempt + 1}):`, error);
+      onRetry?.(jobs[index], attempt, delayMs, error);
+    },
+    onJobSettled: (index, outcome) => {
+      if (outcome.status === 'rejected') {
+        console.error(`Error processing ${jobs[index].file.name}:`, outcome.error);
+      }
+      patches[index] = { ...patches[index], ...outcomeToPatch(outcome) };
+      onUpdate?.(jobs[index].id, patches[index]);
+    },
+  });
+  return patches;
+};
+
+/**
+ * Extraction results to the order list the table and reports show: store names
+ * normalized, cross-file duplicates collapsed, manual corrections applied.
+ */
+const buildAudit = (
+  results: ExtractedFileResult[],
+  rules: NormalizationRule[],
+  registry: PlatformDefinition[],
+  conflictResolutions: Record<string, number> = {},
+  corrections: OrderCorrection[] = []
+): AuditSummary => {
+  const dedup = deduplicateResults(normalizeResults(results, rules), conflictResolutions);
+  const orders = applyCorrections(dedup.orders, corrections);
+  return {
+    orders,
+    summary: buildSummaryStats(orders, registry),
+    duplicatesRemoved: dedup.duplicatesRemoved,
+    conflictCount: dedup.conflicts.length,
+  };
+};
+
+export { extractFiles, buildAudit };
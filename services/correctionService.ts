@@ -0,0 +1,132 @@
+import { AuditedOrder, EditableOrderField, OrderCorrection, OrderError, PlatformDefinition, RowIssue } from "../types.ts";
+import { loadFromStorage, saveToStorage } from "../utils/storage.ts";
+import { validateOrderRow } from "./validationService.ts";
+import { MessageKey, Translator } from "./i18n.ts";
+import { CATEGORY_LABEL_KEYS, isErrorCategory } from "./errorCategories.ts";
+
+const REVIEWER_KEY = 'orderaudit.reviewerName';
+
+const EDITABLE_FIELDS: EditableOrderField[] = ['platform', 'orderNumber', 'restaurantName', 'date', 'time', 'customerName', 'category', 'orderValue', 'refundAmount'];
+
+// Catalog keys for the labels shown in the correction log and appendix
+const FIELD_LABEL_KEYS: Record<EditableOrderField, MessageKey> = {
+  platform: 'field.platform',
+  orderNumber: 'field.orderNumber',
+  restaurantName: 'field.restaurantName',
+  date: 'field.date',
+  time: 'field.time',
+  customerName: 'field.customerName',
+  category: 'field.category',
+  orderValue: 'field.orderValue',
+  refundAmount: 'field.refundAmount',
+};
+
+const ACTION_LABEL_KEYS: Record<OrderCorrection['action'], MessageKey> = {
+  edit: 'correction.action.edit',
+  delete: 'correction.action.delete',
+  add: 'correction.action.add',
+  confirm: 'correction.action.confirm',
+};
+
+const MANUAL_SOURCE = 'Inserido manualmente';
+
+const loadReviewerName = (): string => loadFromStorage<string>(REVIEWER_KEY, '');
+
+const saveReviewerName = (name: string): void => saveToStorage(REVIEWER_KEY, name);
+
+/**
+ * Checks an order built in review mode with the same rules as extracted rows.
+ * The restaurant is taken as typed, since it was chosen by a person.
+ */
+const validateManualOrder = (order: OrderError, registry: PlatformDefinition[]): { order: OrderError } | { reasons: RowIssue[] } =>
+  validateOrderRow({ ...order, rawStoreName: order.restaurantName }, registry);
+
+// Corrections and edit inputs carry text: amounts as "12.50", categories as their key, blank when not shown
+const fieldText = (order: OrderError, field: EditableOrderField): string => {
+  const value = order[field];
+  if (value === undefined) return '';
+  return typeof value === 'number' ? value.toFixed(2) : value;
+};
+
+/** A correction's old or new value as the log and the PDF appendix show it. */
+const correctionValueText = (field: EditableOrderField | undefined, text: string | undefined, { t, formatAmount }: Translator): string => {
+  if (!text) return '—';
+  if (field === 'category' && isErrorCategory(text)) return t(CATEGORY_LABEL_KEYS[text]);
+  if ((field === 'orderValue' || field === 'refundAmount') && Number.isFinite(Number(text))) return formatAmount(Number(text));
+  return text;
+};
+
+const parseFieldText = (field: EditableOrderField, text: string): OrderError[EditableOrderField] => {
+  switch (field) {
+    case 'orderValue':
+    case 'refundAmount':
+      return text ? Number(text) : undefined;
+    case 'category':
+      return (text || undefined) as OrderError['category'];
+    default:
+      return text;
+  }
+};
+
+const createCorrection = (
+  fields: Omit<OrderCorrection, 'id' | 'createdAt'>
+): OrderCorrection => ({
+  ...fields,
+  id: crypto.randomUUID(),
+  createdAt: new Date().toISOString(),
+});
+
+/**
+ * Replays the corrections over the deduplicated orders, in the order they were
+ * made. Corrections are keyed on AuditedOrder.key, so they survive re-extraction
+ * and rule changes; edits to orders that no longer exist are ignored.
+ */
+const applyCorrections = (orders: AuditedOrder[], corrections: OrderCorrection[]): AuditedOrder[] => {
+  let current = [...orders];
+  corrections.forEach(correction => {
+    switch (correction.action) {
+      case 'add':
+        if (correction.order && !current.some(o => o.key === correction.orderKey)) {
+          current.push({
+            ...correction.order,
+            key: correction.orderKey,
+            sourceFile: MANUAL_SOURCE,
+            sourceFiles: [MANUAL_SOURCE],
+            isManual: true,
+          });
+        }
+        break;
+      case 'delete':
+        current = current.filter(o => o.key !== correction.orderKey);
+        break;
+      case 'edit': {
+        const field = correction.field;
+        if (!field || correction.newValue === undefined) break;
+        current = current.map(o => o.key !== correction.orderKey ? o : {
+          ...o,
+          [field]: parseFieldText(field, correction.newValue),
+          editedFields: Array.from(new Set([...(o.editedFields ?? []), field])),
+        });
+        break;
+      }
+      case 'confirm':
+        current = current.map(o => o.key !== correction.orderKey ? o : { ...o, confirmedBy: correction.author });
+        break;
+    }
+  });
+  return current;
+};
+
+export {
+  EDITABLE_FIELDS,
+  FIELD_LABEL_KEYS,
+  ACTION_LABEL_KEYS,
+  MANUAL_SOURCE,
+  loadReviewerName,
+  saveReviewerName,
+  validateManualOrder,
+  fieldText,
+  correctionValueText,
+  createCorrection,
+  applyCorrections,
+};
@@ -0,0 +1,107 @@
+import {
+  AuditedOrder,
+  ComparableOrderField,
+  DeduplicationResult,
+  ExtractedFileResult,
+  OrderConflict,
+  OrderError,
+} from "../types.ts";
+
+const COMPARABLE_FIELDS: ComparableOrderField[] = ['restaurantName', 'date', 'time', 'customerName'];
+
+const getOrderKey = (order: Pick<OrderError, 'platform' | 'orderNumber'>): string => {
+  const number = order.orderNumber.replace(/^#/, '').replace(/\s+/g, '').toUpperCase();
+  return `${order.platform}::${number}`;
+};
+
+const isMissing = (value: string | undefined): boolean =>
+  !value || !value.trim() || value.trim().toUpperCase() === 'N/A';
+
+const sameValue = (a: string | undefined, b: string | undefined): boolean =>
+  (a ?? '').trim().toLowerCase() === (b ?? '').trim().toLowerCase();
+
+// A missing value (e.g. Glovo never shows the customer) never conflicts with a present one
+const differingFields = (a: OrderError, b: OrderError): ComparableOrderField[] =>
+  COMPARABLE_FIELDS.filter(f => !isMissing(a[f]) && !isMissing(b[f]) && !sameValue(a[f], b[f]));
+
+const mergeInto = (target: AuditedOrder, incoming: AuditedOrder): AuditedOrder => {
+  const merged = { ...target };
+  COMPARABLE_FIELDS.forEach(f => {
+    if (isMissing(merged[f]) && !isMissing(incoming[f])) merged[f] = incoming[f];
+  });
+  // Details only some reports print are taken from whichever row has them
+  merged.category ??= incoming.category;
+  merged.orderValue ??= incoming.orderValue;
+  merged.refundAmount ??= incoming.refundAmount;
+  merged.sourceFiles = Array.from(new Set([...target.sourceFiles, ...incoming.sourceFiles]));
+  return merged;
+};
+
+/**
+ * Collapses the same platform order reported by several files (or twice in one file).
+ * Rows that agree are merged; rows that disagree become an OrderConflict. Until a
+ * conflict is resolved (resolutions maps conflict key to variant index) the first
+ * variant is kept and flagged with hasConflict.
+ */
+const deduplicateResults = (
+  results: ExtractedFileResult[],
+  resolutions: Record<string, number> = {}
+): DeduplicationResult => {
+  const groups = new Map<string, AuditedOrder[]>();
+  let totalRows = 0;
+
+  results.forEach(r => {
+    r.orders.forEach(o => {
+      totalRows++;
+      const key = getOrderKey(o);
+      const row: AuditedOrder = { ...o, key, sourceFile: r.fileName, sourceFiles: [r.fileName], sourceId: r.id };
+      const variants = groups.get(key);
+      if (!variants) {
+        groups.set(key, [row]);
+        return;
+      }
+      const matchIdx = variants.findIndex(v => differingFields(v, row).length === 0);
+      if (matchIdx !== -1) {
+        variants[matchIdx] = mergeInto(variants[matchIdx], row);
+      } else {
+        variants.push(row);
+      }
+    });
+  });
+
+  const orders: AuditedOrder[] = [];
+  const conflicts: OrderConflict[] = [];
+
+  groups.forEach((variants, key) => {
+    if (variants.length === 1) {
+      orders.push(variants[0]);
+      return;
+    }
+
+    const fields = COMPARABLE_FIELDS.filter(f =>
+      variants.some((v, i) => variants.slice(i + 1).some(w => differingFields(v, w).includes(f)))
+    );
+    const resolvedIndex = resolutions[key] !== undefined && variants[resolutions[key]]
+      ? resolutions[key]
+      : undefined;
+    const chosen = variants[resolvedIndex ?? 0];
+
+    conflicts.push({
+      key,
+      platform: chosen.platform,
+      orderNumber: chosen.orderNumber,
+      fields,
+      variants,
+      resolvedIndex,
+    });
+    orders.push({
+      ...chosen,
+      sourceFiles: Array.from(new Set(variants.flatMap(v => v.sourceFiles))),
+      hasConflict: resolvedIndex === undefined,
+    });
+  });
+
+  return { orders, duplicatesRemoved: totalRows - orders.length, conflicts };
+};
+
+export { COMPARABLE_FIELDS, getOrderKey, deduplicateResults };
@@ -0,0 +1,48 @@
+import { ErrorCategory, SummaryCategory } from "../types.ts";
+import { MessageKey } from "./i18n.ts";
+
+const ERROR_CATEGORIES: ErrorCategory[] = ['cancelled', 'missing-item', 'wrong-item', 'late', 'refunded', 'quality', 'other'];
+
+const UNCATEGORIZED: SummaryCategory = 'uncategorized';
+
+const CATEGORY_LABEL_KEYS: Record<SummaryCategory, MessageKey> = {
+  'cancelled': 'category.cancelled',
+  'missing-item': 'category.missingItem',
+  'wrong-item': 'category.wrongItem',
+  'late': 'category.late',
+  'refunded': 'category.refunded',
+  'quality': 'category.quality',
+  'other': 'category.other',
+  'uncategorized': 'category.uncategorized',
+};
+
+/**
+ * Words the portals print in their status and reason columns (PT and EN, without
+ * accents), checked in this order: "Reembolso por item em falta" is a missing
+ * item, not a refund.
+ */
+const CATEGORY_MARKERS: [ErrorCategory, RegExp][] = [
+  ['missing-item', /em falta|faltou|faltava|falta de|nao (veio|enviad)|missing|not delivered/i],
+  ['wrong-item', /errad|trocad|incorret|diferente|wrong|incorrect/i],
+  ['late', /atras|demor|tarde|\blate\b|delay/i],
+  ['quality', /qualidade|fri[oa]|derramad|estragad|quality|cold|spill|damaged/i],
+  ['cancelled', /cancel/i],
+  ['refunded', /reembols|estorn|devolu|refund|compensa/i],
+];
+
+const isErrorCategory = (value: unknown): value is ErrorCategory =>
+  typeof value === 'string' && (ERROR_CATEGORIES as string[]).includes(value);
+
+/** Maps a status or reason as printed to a category; text that matches none is 'other'. */
+const categorizeText = (text: string): ErrorCategory => {
+  const folded = text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  return CATEGORY_MARKERS.find(([, pattern]) => pattern.test(folded))?.[0] ?? 'other';
+};
+
+export {
+  ERROR_CATEGORIES,
+  UNCATEGORIZED,
+  CATEGORY_LABEL_KEYS,
+  isErrorCategory,
+  categorizeText,
+};
@@ -0,0 +1,317 @@
+import * as XLSX from "xlsx";
+import { AuditedOrder, CustomerGroup, PosRecord, ReconciliationBucket, ReconciliationResult, RestaurantStats, SummaryStats } from "../types.ts";
+import { formatMinutes, parseOrderDate, parseOrderTime, toIsoDate } from "../utils/dateHelpers.ts";
+import { sumImpact } from "../utils/summaryStats.ts";
+import { describePatternFlag } from "../utils/customerPatterns.ts";
+import { Translator } from "./i18n.ts";
+import { CATEGORY_LABEL_KEYS } from "./errorCategories.ts";
+
+type SheetCell = string | number | Date | XLSX.CellObject | null;
+
+// Headers and sheet names follow the UI language; cell values stay as extracted
+const orderHeaders = ({ t }: Translator): string[] => [
+  t('field.platform'), t('field.orderNumber'), t('field.restaurantName'), t('field.date'),
+  t('field.time'), t('field.customerName'), t('field.sourceFile'), t('field.page'),
+  t('field.category'), t('field.orderValue'), t('field.refundAmount'),
+];
+
+const summaryHeaders = ({ t }: Translator, summary: SummaryStats): string[] =>
+  [t('field.restaurantName'), ...summary.platforms, t('common.total'), t('field.orderValue'), t('field.impact')];
+
+const categoryLabel = (order: AuditedOrder, { t }: Translator): string =>
+  order.category ? t(CATEGORY_LABEL_KEYS[order.category]) : '';
+
+// Sums of cents can drift in floating point; exports carry them rounded
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+const sourceFileLabel = (order: AuditedOrder): string =>
+  (order.sourceFiles?.length ? order.sourceFiles : [order.sourceFile]).join(', ');
+
+const summaryRows = (summary: SummaryStats, { t }: Translator): (string | number)[][] => {
+  const rows = Object.entries(summary.stats).map(([restaurant, data]) => {
+    const stats = data as RestaurantStats;
+    const impact = summary.impact[restaurant];
+    return [restaurant, ...summary.platforms.map(p => stats[p] || 0), stats.total, roundAmount(impact.orderValue), roundAmount(impact.refundAmount)];
+  });
+  // Every column after the name is a count or an amount, so the total row sums them all
+  const totals = rows[0]?.slice(1).map((_, i) =>
+    roundAmount(rows.reduce((sum, row) => sum + (row[i + 1] as number), 0))
+  ) ?? [];
+  return [...rows, [t('common.total'), ...totals]];
+};
+
+/** One row per restaurant and category, ready for a pivot table. */
+const categoryRows = (summary: SummaryStats, i18n: Translator): (string | number)[][] => {
+  const { t } = i18n;
+  const rows = Object.entries(summary.byCategory).flatMap(([restaurant, categories]) =>
+    summary.categories
+      .filter(c => categories[c])
+      .map(c => [restaurant, t(CATEGORY_LABEL_KEYS[c]), categories[c]!.count, roundAmount(categories[c]!.orderValue), roundAmount(categories[c]!.refundAmount)])
+  );
+  const total = sumImpact(Object.values(summary.impact));
+  return [
+    [t('field.restaurantName'), t('field.category'), t('pdf.orderCount'), t('field.orderValue'), t('field.impact')],
+    ...rows,
+    [t('common.total'), '', total.count, roundAmount(total.orderValue), roundAmount(total.refundAmount)],
+  ];
+};
+
+// --- CSV ---------------------------------------------------------------------
+
+// Semicolon-separated with a BOM: what Excel expects under Portuguese regional settings
+const CSV_DELIMITER = ';';
+
+// Spreadsheets run text starting with these as a formula; store and customer names come from the PDFs
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsv = (value: string | number): string => {
+  // Numbers are written as they are, so negative amounts stay numeric
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value ?? '');
+  return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: (string | number)[][]): string =>
+  '\uFEFF' + rows.map(row => row.map(escapeCsv).join(CSV_DELIMITER)).join('\r\n');
+
+const buildOrdersCsv = (orders: AuditedOrder[], i18n: Translator): string => {
+  const rows = orders.map(o => {
+    // Dates and times are written in ISO form so spreadsheet imports detect their type
+    const date = parseOrderDate(o.date);
+    const minutes = parseOrderTime(o.time);
+    return [
+      o.platform,
+      o.orderNumber,
+      o.restaurantName,
+      date ? toIsoDate(date) : o.date,
+      minutes !== null ? formatMinutes(minutes) : o.time,
+      o.customerName || 'N/A',
+      sourceFileLabel(o),
+      o.page ?? '',
+      categoryLabel(o, i18n),
+      o.orderValue ?? '',
+      o.refundAmount ?? '',
+    ];
+  });
+  return toCsv([orderHeaders(i18n), ...rows]);
+};
+
+const buildSummaryCsv = (summary: SummaryStats, i18n: Translator): string =>
+  toCsv([summaryHeaders(i18n, summary), ...summaryRows(summary, i18n)]);
+
+// --- Reconciliation ------------------------------------------------------------
+
+const reconciledOrderHeaders = (i18n: Translator): string[] => orderHeaders(i18n).slice(0, 7);
+
+const reconciledOrderCells = (o: AuditedOrder): (string | number)[] => [
+  o.platform,
+  o.orderNumber,
+  o.restaurantName,
+  o.date,
+  o.time,
+  o.customerName || 'N/A',
+  sourceFileLabel(o),
+];
+
+const describePosRecord = (r: PosRecord, { t }: Translator): string =>
+  [t('reconciliation.row', { row: r.row }), r.orderNumber, r.restaurant, r.date, r.time, r.amount !== undefined ? r.amount.toFixed(2) : undefined]
+    .filter(Boolean)
+    .join(' · ');
+
+/** Rows for one reconciliation bucket, headers first; shared by the CSV and XLSX exports. */
+const reconciliationRows = (
+  result: ReconciliationResult,
+  bucket: ReconciliationBucket,
+  i18n: Translator
+): (string | number)[][] => {
+  const { t } = i18n;
+  switch (bucket) {
+    case 'matched':
+      return [
+        [
+          ...reconciledOrderHeaders(i18n),
+          t('export.col.posRow'),
+          t('export.col.posOrderNumber'),
+          t('export.col.posRestaurant'),
+          t('export.col.posDate'),
+          t('export.col.posTime'),
+          t('pos.field.amount'),
+          t('pos.field.shift'),
+          t('reconciliation.col.method'),
+        ],
+        ...result.matched.map(({ order, record, method }) => [
+          ...reconciledOrderCells(order),
+          record.row,
+          record.orderNumber ?? '',
+          record.restaurant ?? '',
+          record.date ?? '',
+          record.time ?? '',
+          record.amount ?? '',
+          record.shift ?? '',
+          t(`reconciliation.method.${method}`),
+        ]),
+      ];
+    case 'missing':
+      return [reconciledOrderHeaders(i18n), ...result.missing.map(reconciledOrderCells)];
+    case 'ambiguous':
+      return [
+        [...reconciledOrderHeaders(i18n), t('export.col.candidates'), t('export.col.posRows')],
+        ...result.ambiguous.map(({ order, candidates }) => [
+          ...reconciledOrderCells(order),
+          candidates.length,
+          candidates.map(r => describePosRecord(r, i18n)).join(' | '),
+        ]),
+      ];
+  }
+};
+
+const buildReconciliationCsv = (result: ReconciliationResult, bucket: ReconciliationBucket, i18n: Translator): string =>
+  toCsv(reconciliationRows(result, bucket, i18n));
+
+// One sheet per bucket
+const buildReconciliationXlsx = (result: ReconciliationResult, i18n: Translator): ArrayBuffer => {
+  const workbook = XLSX.utils.book_new();
+  (['matched', 'missing', 'ambiguous'] as ReconciliationBucket[]).forEach(bucket => {
+    const sheet = XLSX.utils.aoa_to_sheet(reconciliationRows(result, bucket, i18n));
+    sheet['!autofilter'] = { ref: sheet['!ref'] || 'A1' };
+    XLSX.utils.book_append_sheet(workbook, sheet, i18n.t(`reconciliation.bucket.${bucket}`));
+  });
+  return XLSX.write(workbook, { bookType: 'xlsx', type: 'array' }) as ArrayBuffer;
+};
+
+// --- Repeat customers ---------------------------------------------------------
+
+/** The ranked list for the operations team, one row per customer. */
+const customerRows = (groups: CustomerGroup[], i18n: Translator): (string | number)[][] => {
+  const { t } = i18n;
+  return [
+    [
+      t('export.col.rank'), t('customers.col.customer'), t('export.col.nameVariants'), t('customers.col.orders'),
+      t('customers.col.platforms'), t('customers.col.restaurants'), t('export.col.firstOrder'), t('export.col.lastOrder'),
+      t('customers.col.refund'), t('customers.col.flags'),
+    ],
+    ...groups.map((g, i) => [
+      i + 1,
+      g.name,
+      g.variants.join(', '),
+      g.orders.length,
+      g.platforms.join(', '),
+      g.restaurants.join(', '),
+      g.orders[0].date,
+      g.orders[g.orders.length - 1].date,
+      g.refundAmount,
+      g.flags.map(f => describePatternFlag(f, i18n)).join(' | '),
+    ]),
+  ];
+};
+
+const buildCustomersCsv = (groups: CustomerGroup[], i18n: Translator): string =>
+  toCsv(customerRows(groups, i18n));
+
+// The ranked list, plus every order behind it on a second sheet
+const buildCustomersXlsx = (groups: CustomerGroup[], i18n: Translator): ArrayBuffer => {
+  const { t } = i18n;
+  const listSheet = XLSX.utils.aoa_to_sheet(customerRows(groups, i18n));
+  listSheet['!cols'] = [{ wch: 8 }, { wch: 24 }, { wch: 32 }, { wch: 8 }, { wch: 20 }, { wch: 32 }, { wch: 12 }, { wch: 12 }, { wch: 12 }, { wch: 48 }];
+  listSheet['!autofilter'] = { ref: listSheet['!ref'] || 'A1' };
+
+  const timelineRows: SheetCell[][] = groups.flatMap(g => g.orders.map(o => [
+    g.name,
+    o.platform,
+    o.orderNumber,
+    o.restaurantName,
+    dateCell(o.date),
+    timeCell(o.time),
+    o.customerName,
+    categoryLabel(o, i18n),
+    amountCell(o.refundAmount),
+  ]));
+  const timelineSheet = XLSX.utils.aoa_to_sheet([
+    [
+      t('customers.col.customer'), t('field.platform'), t('field.orderNumber'), t('field.restaurantName'), t('field.date'),
+      t('field.time'), t('field.customerName'), t('field.category'), t('field.refundAmount'),
+    ],
+    ...timelineRows,
+  ]);
+  timelineSheet['!cols'] = [{ wch: 24 }, { wch: 12 }, { wch: 14 }, { wch: 20 }, { wch: 12 }, { wch: 8 }, { wch: 24 }, { wch: 18 }, { wch: 12 }];
+  timelineSheet['!autofilter'] = { ref: timelineSheet['!ref'] || 'A1' };
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, listSheet, t('export.sheet.customers'));
+  XLSX.utils.book_append_sheet(workbook, timelineSheet, t('export.sheet.timeline'));
+  return XLSX.write(workbook, { bookType: 'xlsx', type: 'array' }) as ArrayBuffer;
+};
+
+// --- XLSX --------------------------------------------------------------------
+
+// Serial days since 1899-12-30, computed on the calendar date so time zones can't shift it
+const toExcelSerial = (date: Date): number =>
+  (Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) - Date.UTC(1899, 11, 30)) / 86400000;
+
+const dateCell = (value: string): SheetCell => {
+  const date = parseOrderDate(value);
+  return date ? { t: 'n', v: toExcelSerial(date), z: 'dd/mm/yyyy' } : value;
+};
+
+// Excel stores a time of day as a fraction of a day
+const timeCell = (value: string): SheetCell => {
+  const minutes = parseOrderTime(value);
+  return minutes !== null ? { t: 'n', v: minutes / 1440, z: 'hh:mm' } : value;
+};
+
+const amountCell = (value: number | undefined): SheetCell =>
+  value !== undefined ? { t: 'n', v: value, z: '#,##0.00 "€"' } : null;
+
+const buildWorkbook = (orders: AuditedOrder[], summary: SummaryStats, i18n: Translator): XLSX.WorkBook => {
+  const orderRows: SheetCell[][] = orders.map(o => [
+    o.platform,
+    o.orderNumber,
+    o.restaurantName,
+    dateCell(o.date),
+    timeCell(o.time),
+    o.customerName || 'N/A',
+    sourceFileLabel(o),
+    o.page ?? null,
+    categoryLabel(o, i18n),
+    amountCell(o.orderValue),
+    amountCell(o.refundAmount),
+  ]);
+  const ordersSheet = XLSX.utils.aoa_to_sheet([orderHeaders(i18n), ...orderRows]);
+  ordersSheet['!cols'] = [{ wch: 12 }, { wch: 14 }, { wch: 20 }, { wch: 12 }, { wch: 8 }, { wch: 24 }, { wch: 32 }, { wch: 8 }, { wch: 18 }, { wch: 12 }, { wch: 12 }];
+  ordersSheet['!autofilter'] = { ref: ordersSheet['!ref'] || 'A1' };
+
+  const summarySheet = XLSX.utils.aoa_to_sheet([
+    summaryHeaders(i18n, summary),
+    ...summaryRows(summary, i18n),
+  ]);
+  summarySheet['!cols'] = [{ wch: 20 }, ...summary.platforms.map(() => ({ wch: 12 })), { wch: 10 }, { wch: 12 }, { wch: 12 }];
+
+  const categorySheet = XLSX.utils.aoa_to_sheet(categoryRows(summary, i18n));
+  categorySheet['!cols'] = [{ wch: 20 }, { wch: 18 }, { wch: 10 }, { wch: 12 }, { wch: 12 }];
+  categorySheet['!autofilter'] = { ref: categorySheet['!ref'] || 'A1' };
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, ordersSheet, i18n.t('export.sheet.orders'));
+  XLSX.utils.book_append_sheet(workbook, summarySheet, i18n.t('export.sheet.summary'));
+  XLSX.utils.book_append_sheet(workbook, categorySheet, i18n.t('export.sheet.categories'));
+  return workbook;
+};
+
+const buildXlsx = (orders: AuditedOrder[], summary: SummaryStats, i18n: Translator): ArrayBuffer =>
+  XLSX.write(buildWorkbook(orders, summary, i18n), { bookType: 'xlsx', type: 'array' }) as ArrayBuffer;
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const CSV_MIME = 'text/csv;charset=utf-8';
+
+export {
+  buildOrdersCsv,
+  buildSummaryCsv,
+  buildWorkbook,
+  buildXlsx,
+  buildReconciliationCsv,
+  buildReconciliationXlsx,
+  buildCustomersCsv,
+  buildCustomersXlsx,
+  toCsv,
+  XLSX_MIME,
+  CSV_MIME,
+};
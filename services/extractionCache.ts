@@ -0,0 +1,129 @@
+import { CachedExtraction, ExtractionOutput, ExtractorEngine, PlatformDefinition } from "../types.ts";
+import { EXTRACTION_CACHE_STORE, requestToPromise, withStore } from "../utils/idb.ts";
+import { OrderExtractor } from "./orderExtractor.ts";
+
+/**
+ * Bump whenever the Gemini prompt or response schema, the row validation or the
+ * local layout parsers change, so files are read again instead of served stale.
+ * Normalization rules are not part of it: results keep raw store names. The
+ * platform registry is, through `registryFingerprint`, since users edit it.
+ */
+const EXTRACTION_CACHE_VERSION = 'v4';
+
+// The mock engine answers from fixtures, so there is nothing to save
+const UNCACHED_ENGINES: ExtractorEngine[] = ['mock'];
+
+const hashFileContent = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Hash of what the registry feeds into extraction: platform names, document hints
+ * and order-ID formats go into the prompt, the schema enum and validation. Badge
+ * colors and summary priority do not change what is extracted, so they are left out.
+ */
+const registryFingerprint = async (registry: PlatformDefinition[]): Promise<string> => {
+  const relevant = registry.map(({ color, priority, ...platform }) => platform);
+  return (await hashFileContent(new Blob([JSON.stringify(relevant)]))).slice(0, 16);
+};
+
+const cacheKey = (engine: ExtractorEngine, registryHash: string, contentHash: string): string =>
+  `${EXTRACTION_CACHE_VERSION}:${engine}:${registryHash}:${contentHash}`;
+
+const getCachedExtraction = async (
+  engine: ExtractorEngine,
+  registryHash: string,
+  contentHash: string
+): Promise<CachedExtraction | undefined> =>
+  withStore(EXTRACTION_CACHE_STORE, 'readonly', store =>
+    requestToPromise(store.get(cacheKey(engine, registryHash, contentHash)) as IDBRequest<CachedExtraction | undefined>)
+  );
+
+const putCachedExtraction = async (
+  engine: ExtractorEngine,
+  registryHash: string,
+  contentHash: string,
+  fileName: string,
+  output: ExtractionOutput
+): Promise<void> => {
+  const entry: CachedExtraction = {
+    key: cacheKey(engine, registryHash, contentHash),
+    contentHash,
+    engine,
+    fileName,
+    createdAt: new Date().toISOString(),
+    output,
+  };
+  await withStore(EXTRACTION_CACHE_STORE, 'readwrite', store => requestToPromise(store.put(entry)));
+};
+
+const countCachedExtractions = async (): Promise<number> =>
+  withStore(EXTRACTION_CACHE_STORE, 'readonly', store => requestToPromise(store.count()));
+
+const clearExtractionCache = async (): Promise<void> => {
+  await withStore(EXTRACTION_CACHE_STORE, 'readwrite', store => requestToPromise(store.clear()));
+};
+
+/** Deletes entries cached before `cutoff` (all of them when null); resolves with how many went. */
+const deleteCachedExtractions = async (cutoff: Date | null): Promise<number> =>
+  withStore(EXTRACTION_CACHE_STORE, 'readwrite', async store => {
+    const entries = await requestToPromise(store.getAll() as IDBRequest<CachedExtraction[]>);
+    const expired = entries.filter(e => !cutoff || e.createdAt < cutoff.toISOString());
+    await Promise.all(expired.map(e => requestToPromise(store.delete(e.key))));
+    return expired.length;
+  });
+
+/**
+ * Wraps an extractor so files whose content was already extracted by the same
+ * engine, with the same platform registry, are answered from IndexedDB, marked
+ * `fromCache`. With `forceRefresh`
+ * the cache is skipped but the fresh result still replaces the stored one.
+ * Cache failures never fail the extraction; they only cost a model call.
+ */
+const createCachedExtractor = (
+  extractor: OrderExtractor,
+  registry: PlatformDefinition[],
+  { forceRefresh = false }: { forceRefresh?: boolean } = {}
+): OrderExtractor => {
+  if (UNCACHED_ENGINES.includes(extractor.engine)) return extractor;
+  let registryHash: Promise<string> | null = null;
+
+  return {
+    ...extractor,
+    extract: async (file, signal) => {
+      let contentHash: string | null = null;
+      let registryKey: string | null = null;
+      try {
+        registryKey = await (registryHash ??= registryFingerprint(registry));
+        contentHash = await hashFileContent(file);
+        if (!forceRefresh) {
+          const cached = await getCachedExtraction(extractor.engine, registryKey, contentHash);
+          if (cached) return { ...cached.output, fromCache: true };
+        }
+      } catch (error) {
+        console.warn(`Extraction cache unavailable for ${file.name}:`, error);
+      }
+
+      const output = await extractor.extract(file, signal);
+      if (registryKey && contentHash) {
+        putCachedExtraction(extractor.engine, registryKey, contentHash, file.name, output).catch(error =>
+          console.warn(`Failed to cache extraction of ${file.name}:`, error)
+        );
+      }
+      return output;
+    },
+  };
+};
+
+export {
+  EXTRACTION_CACHE_VERSION,
+  hashFileContent,
+  registryFingerprint,
+  getCachedExtraction,
+  putCachedExtraction,
+  countCachedExtractions,
+  clearExtractionCache,
+  deleteCachedExtractions,
+  createCachedExtractor,
+};
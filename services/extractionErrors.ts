@@ -0,0 +1,75 @@
+import { ExtractionErrorCode } from "../types.ts";
+
+// Developer-facing text for logs, the CLI and API bodies; the UI translates the code (error.<CODE>)
+const EXTRACTION_ERROR_MESSAGES: Record<ExtractionErrorCode, string> = {
+  MISSING_API_KEY: 'The Gemini API key is not configured on the server.',
+  INVALID_API_KEY: 'The Gemini API key is invalid or lacks permission.',
+  QUOTA_EXCEEDED: 'API quota exceeded (request limit). Try again later.',
+  SERVER_ERROR: 'The AI service is currently unavailable.',
+  NETWORK_ERROR: 'Network failure while contacting the AI service.',
+  INVALID_JSON: 'The AI response is not valid JSON.',
+  OUTPUT_TRUNCATED: 'The AI response was cut off at its output limit (too many orders in one request).',
+  EMPTY_DOCUMENT: 'The document is empty or has no readable content.',
+  UNSUPPORTED_LAYOUT: 'The document does not look like a supported order report.',
+  FILE_TOO_LARGE: 'The file exceeds the maximum size accepted by the server.',
+  UNSUPPORTED_FILE_TYPE: 'File type not accepted by the server.',
+  RATE_LIMITED: 'Too many requests to the server in a row. Wait a moment.',
+  CANCELLED: 'Extraction cancelled.',
+  UNKNOWN: 'Failed to process the file.',
+};
+
+// Codes worth retrying automatically: the same request may well succeed later
+const TRANSIENT_CODES: ExtractionErrorCode[] = ['QUOTA_EXCEEDED', 'RATE_LIMITED', 'SERVER_ERROR', 'NETWORK_ERROR'];
+
+class ExtractionError extends Error {
+  code: ExtractionErrorCode;
+  detail?: string;
+  status?: number;
+
+  constructor(code: ExtractionErrorCode, detail?: string, status?: number) {
+    super(detail ? `${EXTRACTION_ERROR_MESSAGES[code]} (${detail})` : EXTRACTION_ERROR_MESSAGES[code]);
+    this.name = 'ExtractionError';
+    this.code = code;
+    this.detail = detail;
+    this.status = status;
+  }
+
+  get isTransient(): boolean {
+    return TRANSIENT_CODES.includes(this.code);
+  }
+}
+
+/**
+ * Maps whatever the SDK or fetch threw onto an ExtractionError, keeping the HTTP
+ * status when there is one. Already-classified errors pass through unchanged.
+ */
+const toExtractionError = (error: unknown): ExtractionError => {
+  if (error instanceof ExtractionError) return error;
+
+  const status = typeof (error as { status?: unknown })?.status === 'number'
+    ? (error as { status: number }).status
+    : undefined;
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new ExtractionError('CANCELLED');
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+    return new ExtractionError('QUOTA_EXCEEDED', undefined, status ?? 429);
+  }
+  if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID|PERMISSION_DENIED/i.test(message)) {
+    return new ExtractionError('INVALID_API_KEY', undefined, status);
+  }
+  if ((status !== undefined && status >= 500) || /UNAVAILABLE|INTERNAL|overloaded/i.test(message)) {
+    return new ExtractionError('SERVER_ERROR', status ? `HTTP ${status}` : undefined, status);
+  }
+  if (error instanceof TypeError && /fetch|network/i.test(message)) {
+    return new ExtractionError('NETWORK_ERROR');
+  }
+  if (error instanceof SyntaxError) {
+    return new ExtractionError('INVALID_JSON', message);
+  }
+  return new ExtractionError('UNKNOWN', message, status);
+};
+
+export { ExtractionError, EXTRACTION_ERROR_MESSAGES, toExtractionError };
@@ -0,0 +1,126 @@
+import { ExtractionError } from "./extractionErrors.ts";
+
+export type JobOutcome<T> =
+  | { status: 'fulfilled'; value: T }
+  | { status: 'rejected'; error: unknown }
+  | { status: 'cancelled' };
+
+export interface QueueOptions<T> {
+  concurrency: number;
+  maxRetries: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  onJobStart?: (index: number, attempt: number) => void;
+  onJobSettled?: (index: number, outcome: JobOutcome<T>) => void;
+  onRetry?: (index: number, attempt: number, delayMs: number, error: unknown) => void;
+}
+
+const isAbortError = (error: unknown): boolean =>
+  (error instanceof ExtractionError && error.code === 'CANCELLED') ||
+  (error instanceof Error && (error.name === 'AbortError' || /aborted/i.test(error.message)));
+
+/**
+ * Rate limits (429) and server errors (5xx) are usually transient; anything else
+ * (bad request, invalid key, unparseable output) will fail the same way again.
+ */
+const isRetryableError = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  if (error instanceof ExtractionError) return error.isTransient;
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return status === 429 || status >= 500;
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (/\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded/i.test(message)) return true;
+  // fetch() rejects with a TypeError when the connection drops
+  return error instanceof TypeError && /fetch|network/i.test(message);
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Exponential backoff with "equal jitter": half fixed, half random, capped
+const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number): number => {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+};
+
+/**
+ * Runs worker over items with at most `concurrency` jobs in flight. Outcomes are
+ * returned in input order. Aborting the signal stops new jobs from starting and
+ * cancels in-flight ones through the signal passed to the worker; jobs that
+ * already finished keep their outcome.
+ */
+const runQueue = async <I, T>(
+  items: I[],
+  worker: (item: I, signal: AbortSignal) => Promise<T>,
+  options: QueueOptions<T>
+): Promise<JobOutcome<T>[]> => {
+  const {
+    concurrency,
+    maxRetries,
+    baseDelayMs = 1000,
+    maxDelayMs = 30000,
+    signal,
+    onJobStart,
+    onJobSettled,
+    onRetry,
+  } = options;
+
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  if (signal?.aborted) abort();
+  signal?.addEventListener('abort', abort, { once: true });
+
+  const outcomes: JobOutcome<T>[] = new Array(items.length);
+  let next = 0;
+
+  const runJob = async (index: number): Promise<JobOutcome<T>> => {
+    for (let attempt = 1; ; attempt++) {
+      if (controller.signal.aborted) return { status: 'cancelled' };
+      onJobStart?.(index, attempt);
+      try {
+        return { status: 'fulfilled', value: await worker(items[index], controller.signal) };
+      } catch (error) {
+        if (controller.signal.aborted || isAbortError(error)) return { status: 'cancelled' };
+        if (attempt > maxRetries || !isRetryableError(error)) return { status: 'rejected', error };
+
+        const delay = backoffDelay(attempt, baseDelayMs, maxDelayMs);
+        onRetry?.(index, attempt, delay, error);
+        try {
+          await sleep(delay, controller.signal);
+        } catch {
+          return { status: 'cancelled' };
+        }
+      }
+    }
+  };
+
+  const lane = async () => {
+    while (next < items.length) {
+      const index = next++;
+      const outcome = await runJob(index);
+      outcomes[index] = outcome;
+      onJobSettled?.(index, outcome);
+    }
+  };
+
+  const lanes = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: lanes }, lane));
+  signal?.removeEventListener('abort', abort);
+  return outcomes;
+};
+
+export { runQueue, isRetryableError, isAbortError };
@@ -0,0 +1,39 @@
+import { ExtractionSettings, ExtractorEngine } from "../types.ts";
+import { loadFromStorage, saveToStorage } from "../utils/storage.ts";
+
+const STORAGE_KEY = 'orderaudit.extractionSettings';
+
+const DEFAULT_EXTRACTION_SETTINGS: ExtractionSettings = {
+  concurrency: 3,
+  maxRetries: 3,
+  engine: 'gemini',
+};
+
+const ENGINES: ExtractorEngine[] = ['gemini', 'local', 'local-first', 'mock'];
+
+const MAX_CONCURRENCY = 8;
+const MAX_RETRIES = 6;
+
+const clamp = (value: number, min: number, max: number, fallback: number): number =>
+  Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : fallback;
+
+const sanitizeExtractionSettings = (settings: Partial<ExtractionSettings>): ExtractionSettings => ({
+  concurrency: clamp(Number(settings.concurrency), 1, MAX_CONCURRENCY, DEFAULT_EXTRACTION_SETTINGS.concurrency),
+  maxRetries: clamp(Number(settings.maxRetries), 0, MAX_RETRIES, DEFAULT_EXTRACTION_SETTINGS.maxRetries),
+  engine: settings.engine && ENGINES.includes(settings.engine) ? settings.engine : DEFAULT_EXTRACTION_SETTINGS.engine,
+});
+
+const loadExtractionSettings = (): ExtractionSettings =>
+  sanitizeExtractionSettings(loadFromStorage<Partial<ExtractionSettings>>(STORAGE_KEY, DEFAULT_EXTRACTION_SETTINGS));
+
+const saveExtractionSettings = (settings: ExtractionSettings): void =>
+  saveToStorage(STORAGE_KEY, settings);
+
+export {
+  DEFAULT_EXTRACTION_SETTINGS,
+  MAX_CONCURRENCY,
+  MAX_RETRIES,
+  sanitizeExtractionSettings,
+  loadExtractionSettings,
+  saveExtractionSettings,
+};
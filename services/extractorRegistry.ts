@@ -0,0 +1,25 @@
+import { ExtractorEngine, PlatformDefinition } from "../types.ts";
+import { OrderExtractor, createFallbackExtractor } from "./orderExtractor.ts";
+import { createGeminiExtractor } from "./apiExtractor.ts";
+import { createLocalExtractor } from "./localExtractor.ts";
+import { createMockExtractor } from "./mockExtractor.ts";
+
+// Engines offered in the UI; 'mock' is for tests and is only reachable programmatically
+// Labels and descriptions are in the locale catalogs under engine.<engine>.*
+const SELECTABLE_ENGINES: Exclude<ExtractorEngine, 'mock'>[] = ['gemini', 'local', 'local-first'];
+
+const getExtractor = (engine: ExtractorEngine, registry: PlatformDefinition[]): OrderExtractor => {
+  switch (engine) {
+    case 'local':
+      return createLocalExtractor(registry);
+    case 'local-first':
+      return createFallbackExtractor(createLocalExtractor(registry), createGeminiExtractor(registry), 'Local, AI as fallback');
+    case 'mock':
+      return createMockExtractor();
+    case 'gemini':
+    default:
+      return createGeminiExtractor(registry);
+  }
+};
+
+export { SELECTABLE_ENGINES, getExtractor };
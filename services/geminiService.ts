@@ -1,98 +1,300 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { OrderError } from "../types.ts";
-import { fileToBase64 } from "../utils/fileHelpers.ts";
+import { FinishReason, GoogleGenAI, Part, Type } from "@google/genai";
+import { OrderError, PlatformDefinition, RejectedRow } from "../types.ts";
+import { bytesToBase64 } from "../utils/fileHelpers.ts";
+import { detectSourceKind, imageMimeType } from "../utils/fileTypes.ts";
+import { readSavedPageText } from "../utils/htmlText.ts";
+import { ExtractionError, toExtractionError } from "./extractionErrors.ts";
+import { ValidationResult, parseModelResponse, validateOrderRows } from "./validationService.ts";
+import { UNKNOWN_PLATFORM, platformNames } from "./platforms.ts";
+import { ERROR_CATEGORIES } from "./errorCategories.ts";
+import { ChunkResult, PageRange, extractPageRange, loadPdf, mergeChunkResults, planChunks, splitRange } from "./pdfChunker.ts";
 
-const extractOrdersFromPdf = async (file: File): Promise<OrderError[]> => {
-  try {
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) {
-      throw new Error("API Key is missing in environment variables.");
-    }
+interface SourcePart {
+  part: Part;
+  intro: string;
+}
+
+// What one file yields once all of its requests are done
+export interface FileExtraction extends ValidationResult {
+  pageCount?: number;
+  pagesProcessed?: number;
+}
 
-    const ai = new GoogleGenAI({ apiKey });
-    const base64Data = await fileToBase64(file);
+// One model request: validated rows and whether the model saw an order report
+interface ModelPass {
+  validation: ValidationResult;
+  isOrderReport?: boolean;
+}
 
-    // Schema definition matches strict requirements
-    const responseSchema = {
+// Schema definition matches strict requirements; the platform enum comes from the registry
+const buildOrderSchema = (registry: PlatformDefinition[]) => ({
+  type: Type.OBJECT,
+  properties: {
+    orderNumber: { type: Type.STRING, description: "The unique order ID." },
+    rawStoreName: {
+      type: Type.STRING,
+      description: "The store name and/or address exactly as printed in the row, without any normalization."
+    },
+    date: { type: Type.STRING, description: "Date of the order as YYYY-MM-DD; source dates are printed day first (DD/MM/YY)." },
+    time: { type: Type.STRING, description: "Time of the order as HH:MM (24h)." },
+    customerName: { type: Type.STRING, description: "Name of the customer. Use 'N/A' if not visible." },
+    platform: {
+      type: Type.STRING,
+      enum: platformNames(registry),
+      description: "The platform name."
+    },
+    category: {
+      type: Type.STRING,
+      enum: ERROR_CATEGORIES,
+      description: "What went wrong with the order, from its status or reason column."
+    },
+    orderValue: { type: Type.NUMBER, description: "Order total in euros as a plain number (e.g. 23.40). Omit if not shown." },
+    refundAmount: { type: Type.NUMBER, description: "Refund or penalty charged to the restaurant in euros, as a positive number. Omit if not shown." },
+    page: { type: Type.INTEGER, description: "1-based page of this document where the row is printed." },
+    snippet: { type: Type.STRING, description: "The full text of the row exactly as printed, on one line." },
+    boundingBox: {
       type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          orderNumber: { type: Type.STRING, description: "The unique order ID." },
-          restaurantName: { 
-            type: Type.STRING, 
-            description: "The normalized restaurant name based on address/branch rules." 
-          },
-          date: { type: Type.STRING, description: "Date of the order." },
-          time: { type: Type.STRING, description: "Time of the order." },
-          customerName: { type: Type.STRING, description: "Name of the customer. Use 'N/A' if not visible." },
-          platform: { 
-            type: Type.STRING, 
-            enum: ["Glovo", "Uber Eats", "Bolt", "Unknown"],
-            description: "The platform name." 
-          }
+      items: { type: Type.INTEGER },
+      description: "Box around the row on its page or image as [ymin, xmin, ymax, xmax], scaled to 0-1000."
+    },
+  },
+  required: ["orderNumber", "rawStoreName", "date", "time", "platform"],
+});
+
+// Wrapped in an object so the model can tell us the document is not an order report
+const buildResponseSchema = (registry: PlatformDefinition[]) => ({
+  type: Type.OBJECT,
+  properties: {
+    isOrderReport: {
+      type: Type.BOOLEAN,
+      description: "False when the document is not a delivery platform order history/report."
+    },
+    orders: { type: Type.ARRAY, items: buildOrderSchema(registry) },
+  },
+  required: ["isOrderReport", "orders"],
+});
+
+// One line per platform: how its documents name it and what its order IDs look like
+const describePlatforms = (registry: PlatformDefinition[]): string =>
+  registry.map(p => {
+    const example = p.orderIdExample ? `; order IDs look like ${p.orderIdExample}` : '';
+    return `    - "${p.name}": printed as ${p.hints.map(h => `"${h}"`).join(', ')}${example}`;
+  }).join('\n');
+
+const buildPrompt = (intro: string, registry: PlatformDefinition[]) => `
+  ${intro}
+  Extract a list of ALL orders visible in the table rows with 100% accuracy.
+
+  Do NOT rename or normalize stores. For 'rawStoreName', copy the store name and/or
+  address (branch, street) exactly as it is printed for each row, so it can be mapped
+  to our restaurant list afterwards.
+
+  Field Extraction Guidelines:
+  - **Order ID**: Extract the exact ID (e.g., 2E955, 10154...).
+  - **Date**: Extract the date and always output it as YYYY-MM-DD. Dates in these documents are printed day first (DD/MM/YY or DD/MM/YYYY): 14/01/26 is 14 January 2026, never read it month first. If the row says "Today"/"Hoje" or "Yesterday"/"Ontem", use the document header date to calculate the actual date.
+  - **Time**: Extract the time exactly as shown.
+  - **Customer Name**: Extract if visible (common in Uber/Bolt). If not present (common in Glovo), use "N/A".
+  - **Platform**: Detect which of these platforms the document is from, and use its exact name:
+${describePlatforms(registry)}
+    If it is none of them, use "${UNKNOWN_PLATFORM}".
+  - **Category**: Classify the row's status or reason: "cancelled", "missing-item" (item missing from the bag), "wrong-item", "late", "refunded" (refunded with no other reason given), "quality" (cold, spilled, damaged) or "other". Omit it when the row shows no status or reason.
+  - **Order Value / Refund Amount**: Copy the order total and the refund or penalty amount when shown, as plain numbers in euros (12,50 € becomes 12.5). A refund printed as negative (-12,50 €) is still 12.5. Omit them when not shown; never guess.
+  - **Page**: The page of this document the row is printed on (first page = 1), when the document has pages.
+  - **Snippet**: Copy the whole row as printed (all cells, in order), so a reviewer can find it in the document.
+  - **Bounding Box**: For PDF pages and screenshots, the box around the whole row as [ymin, xmin, ymax, xmax] on a 0-1000 scale. Omit it for text input.
+
+  If the document is not an order history/report from a delivery platform, set
+  'isOrderReport' to false and return an empty 'orders' list.
+
+  Return the data strictly in JSON format.
+`;
+
+const PDF_INTRO = 'Analyze this PDF document, which is a printed order history report.';
+
+// Runs in the browser and in Node, where FileReader does not exist
+const readBase64 = async (file: File): Promise<string> =>
+  bytesToBase64(new Uint8Array(await file.arrayBuffer()));
+
+const chunkIntro = (range: PageRange, pageCount: number): string =>
+  `Analyze this PDF excerpt: pages ${range.startPage} to ${range.endPage} of a ${pageCount}-page printed ` +
+  `order history report. Number pages from the first page of this excerpt (= 1). ` +
+  `For "Today"/"Yesterday" rows use the date in the page header (browser print headers repeat it ` +
+  `on every page); if no date is visible in this excerpt, leave the date exactly as printed.`;
+
+/**
+ * PDFs and screenshots go to the model as inline data; saved pages are sent as
+ * their visible text, which is smaller and keeps the table structure.
+ */
+const buildSourcePart = async (file: File): Promise<SourcePart> => {
+  const kind = detectSourceKind(file);
+  switch (kind) {
+    case 'image':
+      return {
+        part: { inlineData: { mimeType: imageMimeType(file), data: await readBase64(file) } },
+        intro: 'Analyze this screenshot of a delivery partner portal showing an order history table.',
+      };
+    case 'html':
+    case 'mhtml': {
+      const text = await readSavedPageText(file, kind);
+      if (!text.trim()) throw new ExtractionError('EMPTY_DOCUMENT', 'page has no visible text');
+      return {
+        part: { text: `Saved web page text (table cells separated by tabs):\n\n${text}` },
+        intro: 'Analyze the text of this saved web page, which is an order history report from a delivery partner portal.',
+      };
+    }
+    case 'pdf':
+      return {
+        part: { inlineData: { mimeType: 'application/pdf', data: await readBase64(file) } },
+        intro: PDF_INTRO,
+      };
+    default:
+      throw new ExtractionError('UNSUPPORTED_LAYOUT', `unsupported file type: ${file.type || file.name}`);
+  }
+};
+
+const requestOrders = async (
+  ai: GoogleGenAI,
+  source: SourcePart,
+  registry: PlatformDefinition[],
+  signal?: AbortSignal
+): Promise<ModelPass> => {
+  const response = await ai.models.generateContent({
+    model: "gemini-3-flash-preview",
+    contents: {
+      parts: [
+        source.part,
+        {
+          text: buildPrompt(source.intro, registry),
         },
-        required: ["orderNumber", "restaurantName", "date", "time", "platform"],
-      },
-    };
-
-    const prompt = `
-      Analyze this PDF document, which is a printed order history report.
-      Extract a list of ALL orders visible in the table rows with 100% accuracy.
-
-      CRITICAL: You must NORMALIZE the 'restaurantName' field based on the address or branch name found in each row.
-      Use the following STRICT mapping rules:
-
-      1. IF address/name contains "Infante Santo"  -> Set name to "Inf Santo"
-      2. IF address/name contains "Sérgio Malpique" OR "Almada" -> Set name to "Almada Fórum"
-      3. IF address/name contains "Fernão Lopes" OR "Miraflores" -> Set name to "Miraflores"
-      4. IF address/name contains "Cavaleiros" OR "Alfragide" -> Set name to "Alfragide"
-      5. IF address/name contains "Duarte Pacheco" OR "Amoreiras" -> Set name to "Amoreiras"
-      
-      If none of the above match, use the raw store name visible in the row.
-
-      Field Extraction Guidelines:
-      - **Order ID**: Extract the exact ID (e.g., 2E955, 10154...).
-      - **Date**: Extract the date. If the row says "Today" or "Yesterday", use the document header date (e.g. 14/01/26) to calculate the actual date (YYYY-MM-DD).
-      - **Time**: Extract the time exactly as shown.
-      - **Customer Name**: Extract if visible (common in Uber/Bolt). If not present (common in Glovo), use "N/A".
-      - **Platform**: Detect if the document is from "Glovo", "Uber Eats", or "Bolt".
-
-      Return the data strictly in JSON format.
-    `;
-
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: "application/pdf",
-              data: base64Data,
-            },
-          },
-          {
-            text: prompt,
-          },
-        ],
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-        temperature: 0.1, // Low temperature for higher factuality/precision
-      },
-    });
-
-    const text = response.text;
-    if (!text) return [];
-
-    const data = JSON.parse(text) as OrderError[];
-    return data;
+      ],
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: buildResponseSchema(registry),
+      temperature: 0.1, // Low temperature for higher factuality/precision
+      abortSignal: signal,
+    },
+  });
+
+  // A cut-off order list is worse than a failure, even when what arrived still parses
+  if (response.candidates?.[0]?.finishReason === FinishReason.MAX_TOKENS) {
+    throw new ExtractionError('OUTPUT_TRUNCATED');
+  }
+
+  const text = response.text;
+  if (!text) throw new ExtractionError('EMPTY_DOCUMENT', 'empty model response');
+  const parsed = parseModelResponse(text);
+
+  // The schema is only a hint to the model; every row is checked before it is trusted
+  return { validation: validateOrderRows(parsed.rows, registry), isOrderReport: parsed.isOrderReport };
+};
+
+// Whole-file request for screenshots, saved pages and PDFs that cannot be split
+const extractSingle = async (ai: GoogleGenAI, file: File, registry: PlatformDefinition[], signal?: AbortSignal): Promise<FileExtraction> => {
+  const pass = await requestOrders(ai, await buildSourcePart(file), registry, signal);
+  if (pass.isOrderReport === false && pass.validation.orders.length === 0) {
+    throw new ExtractionError('UNSUPPORTED_LAYOUT');
+  }
+  return pass.validation;
+};
+
+// Pages come back relative to the excerpt; anything outside it is dropped rather than guessed
+const toDocumentPage = (order: OrderError, range: PageRange): OrderError => {
+  const page = order.page;
+  const length = range.endPage - range.startPage + 1;
+  const { page: _relative, ...rest } = order;
+  return page !== undefined && page >= 1 && page <= length
+    ? { ...rest, page: range.startPage + page - 1 }
+    : rest;
+};
+
+/**
+ * Long PDFs are sent in overlapping page ranges so no single response has to hold
+ * the whole month, then merged with mergeChunkResults. Ranges whose output still
+ * hits the token limit are halved until they fit. PDFs pdf-lib cannot open
+ * (e.g. encrypted) go out whole, as before.
+ */
+const extractPdf = async (ai: GoogleGenAI, file: File, registry: PlatformDefinition[], signal?: AbortSignal): Promise<FileExtraction> => {
+  const data = await file.arrayBuffer();
+  let pdf: Awaited<ReturnType<typeof loadPdf>>;
+  try {
+    pdf = await loadPdf(data);
+  } catch (error) {
+    console.warn(`Could not split ${file.name}; sending it in one request.`, error);
+    return extractSingle(ai, file, registry, signal);
+  }
+
+  const pageCount = pdf.getPageCount();
+  if (pageCount === 0) throw new ExtractionError('EMPTY_DOCUMENT');
+
+  const pending = planChunks(pageCount);
+  const chunks: ChunkResult[] = [];
+  const rejectedRows: RejectedRow[] = [];
+  let sawOrderReport = false;
+
+  while (pending.length > 0) {
+    if (signal?.aborted) throw new ExtractionError('CANCELLED');
+    const range = pending.shift()!;
+    const isWhole = range.startPage === 1 && range.endPage === pageCount;
+    const bytes = isWhole ? new Uint8Array(data) : await extractPageRange(pdf, range);
+
+    let pass: ModelPass;
+    try {
+      pass = await requestOrders(ai, {
+        part: { inlineData: { mimeType: 'application/pdf', data: bytesToBase64(bytes) } },
+        intro: isWhole ? PDF_INTRO : chunkIntro(range, pageCount),
+      }, registry, signal);
+    } catch (error) {
+      if (!(error instanceof ExtractionError) || error.code !== 'OUTPUT_TRUNCATED') throw error;
+      // Too many orders for one response: halve the range and ask again, down to a single page
+      if (range.endPage === range.startPage) throw new ExtractionError('OUTPUT_TRUNCATED', `page ${range.startPage}`);
+      pending.unshift(...splitRange(range));
+      continue;
+    }
+
+    if (pass.isOrderReport !== false) sawOrderReport = true;
+    chunks.push({ range, orders: pass.validation.orders.map(order => toDocumentPage(order, range)) });
+    rejectedRows.push(...pass.validation.rejectedRows);
+  }
+
+  const orders = mergeChunkResults(chunks);
+  if (!sawOrderReport && orders.length === 0) throw new ExtractionError('UNSUPPORTED_LAYOUT');
+  return { orders, rejectedRows, pageCount, pagesProcessed: pageCount };
+};
+
+/** Client for the Gemini API; `baseUrl` points it at another host, such as the mock upstream. */
+const createGeminiClient = (apiKey: string, baseUrl?: string): GoogleGenAI =>
+  new GoogleGenAI({ apiKey, ...(baseUrl ? { httpOptions: { baseUrl } } : {}) });
+
+/**
+ * Runs the prompt and response schema over one file, for the platforms in
+ * `registry`. Server-side only: the API key must never reach the browser, which
+ * goes through /api/extract instead.
+ */
+const extractOrdersFromFile = async (
+  ai: GoogleGenAI,
+  file: File,
+  registry: PlatformDefinition[],
+  signal?: AbortSignal
+): Promise<FileExtraction> => {
+  try {
+    if (file.size === 0) {
+      throw new ExtractionError('EMPTY_DOCUMENT');
+    }
+
+    const result = detectSourceKind(file) === 'pdf'
+      ? await extractPdf(ai, file, registry, signal)
+      : await extractSingle(ai, file, registry, signal);
+
+    if (result.rejectedRows.length > 0) {
+      console.warn(`${result.rejectedRows.length} row(s) from ${file.name} need review:`, result.rejectedRows);
+    }
+    return result;
 
   } catch (error) {
     console.error("Gemini Extraction Error:", error);
-    throw error;
+    throw toExtractionError(error);
   }
 };
 
-export { extractOrdersFromPdf };
\ No newline at end of file
+export { createGeminiClient, extractOrdersFromFile };
@@ -0,0 +1,125 @@
+import { AuditRun, ExtractedFileResult, NormalizationRule, OrderCorrection, StoredFile } from "../types.ts";
+import { RUNS_STORE, requestToPromise, withStore } from "../utils/idb.ts";
+
+export interface FileJob {
+  id: string;
+  file: File;
+}
+
+const toStoredFile = ({ id, file }: FileJob): StoredFile => ({
+  id,
+  name: file.name,
+  type: file.type,
+  size: file.size,
+  lastModified: file.lastModified,
+  blob: file,
+});
+
+const listRuns = async (): Promise<AuditRun[]> => {
+  const runs = await withStore(RUNS_STORE, 'readonly', store =>
+    requestToPromise(store.getAll() as IDBRequest<AuditRun[]>)
+  );
+  return runs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+const getRun = async (id: string): Promise<AuditRun | undefined> => {
+  return withStore(RUNS_STORE, 'readonly', store =>
+    requestToPromise(store.get(id) as IDBRequest<AuditRun | undefined>)
+  );
+};
+
+const saveRun = async (run: AuditRun): Promise<AuditRun> => {
+  await withStore(RUNS_STORE, 'readwrite', store => requestToPromise(store.put(run)));
+  return run;
+};
+
+const createRun = async (
+  files: FileJob[],
+  results: ExtractedFileResult[],
+  rules: NormalizationRule[],
+  conflictResolutions: Record<string, number>,
+  corrections: OrderCorrection[],
+  name: string // Translated by the caller (history.defaultName)
+): Promise<AuditRun> => {
+  const now = new Date();
+  return saveRun({
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    createdAt: now.toISOString(),
+    files: files.map(toStoredFile),
+    results,
+    rules,
+    conflictResolutions,
+    corrections,
+  });
+};
+
+const updateRun = async (
+  id: string,
+  patch: Partial<Omit<AuditRun, 'id'>>
+): Promise<AuditRun | undefined> => {
+  return withStore(RUNS_STORE, 'readwrite', async store => {
+    const existing = await requestToPromise(store.get(id) as IDBRequest<AuditRun | undefined>);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...patch };
+    await requestToPromise(store.put(updated));
+    return updated;
+  });
+};
+
+const renameRun = (id: string, name: string): Promise<AuditRun | undefined> =>
+  updateRun(id, { name });
+
+const deleteRun = async (id: string): Promise<void> => {
+  await withStore(RUNS_STORE, 'readwrite', store => requestToPromise(store.delete(id)));
+};
+
+/**
+ * Combines several runs into a new stored run. Files and results are concatenated
+ * (deduplication happens at display time); the rules of the newest run are kept.
+ * Conflict resolutions are dropped: they point at variant positions that change
+ * once the results of other runs are mixed in. Manual corrections are kept.
+ */
+const mergeRuns = async (runs: AuditRun[], name: string): Promise<AuditRun> => {
+  const ordered = [...runs].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const newest = ordered[ordered.length - 1];
+  const now = new Date();
+  return saveRun({
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    createdAt: now.toISOString(),
+    files: ordered.flatMap(r => r.files),
+    results: ordered.flatMap(r => r.results),
+    rules: newest?.rules ?? [],
+    conflictResolutions: {},
+    corrections: ordered
+      .flatMap(r => r.corrections ?? [])
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+  });
+};
+
+/**
+ * Gives back the run's results and the original files keyed by result id, so failed
+ * files can be retried. Runs saved before files carried ids are matched by name.
+ */
+const hydrateRun = (run: AuditRun): { results: ExtractedFileResult[]; files: FileJob[] } => {
+  const results = run.results.map(r => (r.id ? r : { ...r, id: crypto.randomUUID() }));
+  const files = run.files.flatMap(f => {
+    const id = f.id ?? results.find(r => r.fileName === f.name)?.id;
+    if (!id) return [];
+    return [{ id, file: new File([f.blob], f.name, { type: f.type, lastModified: f.lastModified }) }];
+  });
+  return { results, files };
+};
+
+export {
+  listRuns,
+  getRun,
+  saveRun,
+  createRun,
+  updateRun,
+  renameRun,
+  deleteRun,
+  mergeRuns,
+  hydrateRun,
+};
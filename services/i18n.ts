@@ -0,0 +1,125 @@
+import { Locale } from "../types.ts";
+import { MessageKey, Messages, ptPT } from "../locales/pt-PT.ts";
+import { ptBR } from "../locales/pt-BR.ts";
+import { en } from "../locales/en.ts";
+import { parseOrderDate, parseOrderTime, formatMinutes } from "../utils/dateHelpers.ts";
+import { formatAmount } from "../utils/money.ts";
+import { loadFromStorage, saveToStorage } from "../utils/storage.ts";
+
+const STORAGE_KEY = 'orderaudit.locale';
+
+const DEFAULT_LOCALE: Locale = 'pt-PT';
+
+// `intl` is the tag handed to Intl: English uses day-first dates like the reports do
+const LOCALES: { value: Locale; label: string; intl: string }[] = [
+  { value: 'pt-PT', label: 'Português (PT)', intl: 'pt-PT' },
+  { value: 'pt-BR', label: 'Português (BR)', intl: 'pt-BR' },
+  { value: 'en', label: 'English', intl: 'en-GB' },
+];
+
+const CATALOGS: Record<Locale, Messages> = { 'pt-PT': ptPT, 'pt-BR': ptBR, en };
+
+/** Keys that come in `.one` / `.other` pairs, named without the suffix. */
+type PluralKey = MessageKey extends infer K ? (K extends `${infer Base}.one` ? Base : never) : never;
+
+type Params = Record<string, string | number>;
+
+export interface Translator {
+  locale: Locale;
+  intlLocale: string;
+  t: (key: MessageKey, params?: Params) => string;
+  tn: (key: PluralKey, count: number, params?: Params) => string;
+  formatDate: (value: string) => string; // Order dates (YYYY-MM-DD); unreadable values are shown as they are
+  formatTime: (value: string) => string;
+  formatDateTime: (value: Date | string) => string;
+  formatDayMonth: (isoDate: string) => string; // Chart axis labels
+  formatAmount: (value: number) => string;
+  weekdayLabels: string[]; // Monday first
+}
+
+const isLocale = (value: unknown): value is Locale =>
+  LOCALES.some(option => option.value === value);
+
+const detectLocale = (): Locale => {
+  const language = typeof navigator === 'undefined' ? '' : navigator.language || '';
+  if (language === 'pt-BR') return 'pt-BR';
+  if (language.startsWith('pt')) return 'pt-PT';
+  if (language.startsWith('en')) return 'en';
+  return DEFAULT_LOCALE;
+};
+
+const loadLocale = (): Locale => {
+  const stored = loadFromStorage<unknown>(STORAGE_KEY, null);
+  return isLocale(stored) ? stored : detectLocale();
+};
+
+const saveLocale = (locale: Locale): void => saveToStorage(STORAGE_KEY, locale);
+
+const interpolate = (template: string, params?: Params): string =>
+  params ? template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : template;
+
+const createTranslator = (locale: Locale): Translator => {
+  const messages = CATALOGS[locale];
+  const intlLocale = LOCALES.find(option => option.value === locale)?.intl ?? locale;
+  const plurals = new Intl.PluralRules(intlLocale);
+  const dateFormat = new Intl.DateTimeFormat(intlLocale, { day: '2-digit', month: '2-digit', year: 'numeric' });
+  const dateTimeFormat = new Intl.DateTimeFormat(intlLocale, { dateStyle: 'short', timeStyle: 'short' });
+  const dayMonthFormat = new Intl.DateTimeFormat(intlLocale, { day: '2-digit', month: '2-digit' });
+  const timeFormat = new Intl.DateTimeFormat(intlLocale, { hour: '2-digit', minute: '2-digit' });
+
+  const t = (key: MessageKey, params?: Params): string =>
+    interpolate(messages[key] ?? ptPT[key] ?? key, params);
+
+  const tn = (key: PluralKey, count: number, params?: Params): string => {
+    const candidate = `${key}.${plurals.select(count)}`;
+    const pluralKey = (candidate in messages ? candidate : `${key}.other`) as MessageKey;
+    return t(pluralKey, { count, ...params });
+  };
+
+  const formatTime = (value: string): string => {
+    const minutes = parseOrderTime(value);
+    if (minutes === null) return value;
+    const date = new Date(2000, 0, 1, Math.floor(minutes / 60), Math.floor(minutes % 60));
+    // Guards against runtimes whose Intl data falls back to a 12-hour clock
+    const formatted = timeFormat.format(date);
+    return /\d/.test(formatted) ? formatted : formatMinutes(minutes);
+  };
+
+  // 2024-01-01 is a Monday
+  const weekdayFormat = new Intl.DateTimeFormat(intlLocale, { weekday: 'short' });
+  const weekdayLabels = Array.from({ length: 7 }, (_, i) => {
+    const label = weekdayFormat.format(new Date(2024, 0, 1 + i)).replace(/\.$/, '');
+    return label.charAt(0).toUpperCase() + label.slice(1);
+  });
+
+  return {
+    locale,
+    intlLocale,
+    t,
+    tn,
+    formatDate: value => {
+      const date = parseOrderDate(value);
+      return date ? dateFormat.format(date) : value;
+    },
+    formatTime,
+    formatDateTime: value => {
+      const date = value instanceof Date ? value : new Date(value);
+      return Number.isNaN(date.getTime()) ? String(value) : dateTimeFormat.format(date);
+    },
+    formatDayMonth: isoDate => {
+      const date = parseOrderDate(isoDate);
+      return date ? dayMonthFormat.format(date) : isoDate;
+    },
+    formatAmount: value => formatAmount(value, intlLocale),
+    weekdayLabels,
+  };
+};
+
+export {
+  DEFAULT_LOCALE,
+  LOCALES,
+  loadLocale,
+  saveLocale,
+  createTranslator,
+};
+export type { MessageKey, PluralKey };
@@ -0,0 +1,163 @@
+import { PlatformDefinition } from "../types.ts";
+import { TextCell, TextLine } from "../utils/pdfText.ts";
+import { parseLooseDate, parseOrderDate, parseOrderTime, toIsoDate, formatMinutes } from "../utils/dateHelpers.ts";
+import { parseAmount } from "../utils/money.ts";
+import { detectPlatform, isValidOrderId, normalizeOrderId } from "./platforms.ts";
+import { categorizeText } from "./errorCategories.ts";
+
+type ColumnKey = 'orderNumber' | 'store' | 'date' | 'time' | 'dateTime' | 'customer' | 'status' | 'orderValue' | 'refund';
+
+// Header labels used by the partner portals' order history tables (PT and EN portals)
+const HEADER_SYNONYMS: Record<ColumnKey, RegExp> = {
+  orderNumber: /^(n\.?º\s*(do\s*)?pedido|pedido|id\s*(do\s*)?pedido|c[oó]digo|order(\s*(id|#|no\.?|number))?|id)$/i,
+  store: /^(loja|restaurante|store|restaurant|local|estabelecimento|shop|outlet|endere[cç]o|morada|address)$/i,
+  date: /^(data|date|dia|day)$/i,
+  time: /^(hora|hor[aá]rio|time)$/i,
+  dateTime: /^(data\s*(e|\/)\s*hora|date\s*(&|and|\/)?\s*time|criado\s*em|created(\s*at)?|placed(\s*at)?|realizado\s*em)$/i,
+  customer: /^(cliente|customer|nome(\s*do\s*cliente)?|name|eater|utilizador|user)$/i,
+  status: /^(estado|status|motivo|reason|problema|issue|ocorr[eê]ncia|categoria|category)$/i,
+  orderValue: /^(valor(\s*do\s*pedido)?|total(\s*do\s*pedido)?|order\s*(value|total)|subtotal|montante|amount)$/i,
+  refund: /^(reembolso|estorno|penaliza[cç][aã]o|compensa[cç][aã]o|ajuste|refund(\s*amount)?|penalty|adjustment)$/i,
+};
+
+interface ColumnAnchor {
+  key: ColumnKey;
+  x: number;
+}
+
+type RowDraft = Partial<Record<ColumnKey, string>> & { page: number; y: number; text: string };
+
+export interface ParsedTable {
+  platform: string;
+  headerFound: boolean;
+  rows: Record<string, unknown>[]; // In the extractor row shape, still to be validated
+}
+
+const matchHeaderCell = (text: string): ColumnKey | null => {
+  const label = text.replace(/[:#]+$/, '').trim();
+  const key = (Object.keys(HEADER_SYNONYMS) as ColumnKey[]).find(k => HEADER_SYNONYMS[k].test(label));
+  return key ?? null;
+};
+
+/** A header row names at least an order column plus two other known columns. */
+const readHeader = (line: TextLine): ColumnAnchor[] | null => {
+  const anchors: ColumnAnchor[] = [];
+  line.cells.forEach(cell => {
+    const key = matchHeaderCell(cell.text);
+    if (key && !anchors.some(a => a.key === key)) anchors.push({ key, x: cell.x });
+  });
+  const hasOrder = anchors.some(a => a.key === 'orderNumber');
+  return hasOrder && anchors.length >= 3 ? anchors.sort((a, b) => a.x - b.x) : null;
+};
+
+// A cell belongs to the right-most column whose header starts at or before it
+const columnFor = (cell: TextCell, anchors: ColumnAnchor[]): ColumnKey => {
+  const tolerance = Math.max(6, cell.height);
+  let chosen = anchors[0];
+  anchors.forEach(anchor => {
+    if (anchor.x <= cell.x + tolerance) chosen = anchor;
+  });
+  return chosen.key;
+};
+
+// The print header usually carries the date the page was saved (e.g. "14/01/26, 19:30")
+const findDocumentDate = (lines: TextLine[]): Date | null => {
+  for (const line of lines.slice(0, 8)) {
+    const match = line.text.match(/\b(\d{1,2}\/\d{1,2}\/\d{2,4}|\d{4}-\d{2}-\d{2})\b/);
+    const date = match ? parseOrderDate(match[1]) : null;
+    if (date) return date;
+  }
+  return null;
+};
+
+const splitDateTime = (value: string): { date?: string; time?: string } => {
+  const timeMatch = value.match(/\b\d{1,2}[:h]\d{2}(?::\d{2})?(?:\s*[AaPp][Mm])?/);
+  if (!timeMatch) return { date: value };
+  const date = value.replace(timeMatch[0], '').replace(/[,•·|-]\s*$/, '').replace(/\s+(at|às|as)\s*$/i, '').trim();
+  return { date, time: timeMatch[0] };
+};
+
+// Refunds are often printed as deductions (-12,50 €); the impact is the amount either way.
+// Cells without a number ("—") mean the amount is not shown
+const readAmount = (value: string | undefined): number | undefined => {
+  const amount = value ? parseAmount(value) : null;
+  return amount === null ? undefined : Math.abs(amount);
+};
+
+/**
+ * Turns a table row into the row shape the extractors share. Values the parser can
+ * read are cleaned up (portal dates without a year, 12-hour times); an unreadable date
+ * or time is passed on as printed so validation can say what was wrong with it.
+ */
+const toRow = (row: RowDraft, platform: string, referenceDate: Date): Record<string, unknown> => {
+  const combined = row.dateTime ? splitDateTime(row.dateTime) : {};
+  const rawDate = (row.date ?? combined.date ?? '').trim();
+  const rawTime = (row.time ?? combined.time ?? '').trim();
+  const date = parseLooseDate(rawDate, referenceDate);
+  const minutes = parseOrderTime(rawTime);
+  const status = row.status?.trim();
+  return {
+    orderNumber: normalizeOrderId(row.orderNumber ?? ''),
+    rawStoreName: row.store?.trim(),
+    date: date ? toIsoDate(date) : rawDate,
+    time: minutes !== null ? formatMinutes(minutes) : rawTime,
+    customerName: row.customer?.trim() || 'N/A',
+    platform,
+    page: row.page,
+    snippet: row.text,
+    ...(status ? { category: categorizeText(status) } : {}),
+    orderValue: readAmount(row.orderValue),
+    refundAmount: readAmount(row.refund),
+  };
+};
+
+/**
+ * Rule-based reader for the order history tables printed from the partner portals.
+ * Finds the table header on each page, assigns text cells to columns by their x
+ * position, and joins wrapped store/customer/status lines onto the row above. A row
+ * starts at a valid order ID; the rows come back unvalidated, so the caller runs them
+ * through validateOrderRows like any other engine's. headerFound tells an empty table
+ * apart from a document whose layout was not recognised at all.
+ */
+const parseOrderTable = (lines: TextLine[], registry: PlatformDefinition[], referenceDate = new Date()): ParsedTable => {
+  const fullText = lines.map(l => l.text).join('\n');
+  const platform = detectPlatform(fullText, registry);
+  const documentDate = findDocumentDate(lines) ?? referenceDate;
+
+  const rows: RowDraft[] = [];
+  let anchors: ColumnAnchor[] | null = null;
+  let headerFound = false;
+
+  lines.forEach(line => {
+    const header = readHeader(line);
+    // Portals repeat the header on each printed page; when they don't, the last one applies
+    if (header) {
+      anchors = header;
+      headerFound = true;
+      return;
+    }
+    if (!anchors) return;
+
+    const draft: RowDraft = { page: line.page, y: line.y, text: line.text };
+    line.cells.forEach(cell => {
+      const key = columnFor(cell, anchors!);
+      draft[key] = draft[key] ? `${draft[key]} ${cell.text}` : cell.text;
+    });
+
+    const previous = rows[rows.length - 1];
+    const startsRow = draft.orderNumber && isValidOrderId(platform, normalizeOrderId(draft.orderNumber), registry);
+    if (startsRow) {
+      rows.push(draft);
+    } else if (!draft.orderNumber && previous && previous.page === line.page && Math.abs(previous.y - line.y) < 30) {
+      // Continuation line of a wrapped cell
+      (['store', 'customer', 'status'] as ColumnKey[]).forEach(key => {
+        if (draft[key]) previous[key] = previous[key] ? `${previous[key]} ${draft[key]}` : draft[key];
+      });
+      previous.text = `${previous.text} ${line.text}`;
+    }
+  });
+
+  return { platform, headerFound, rows: rows.map(row => toRow(row, platform, documentDate)) };
+};
+
+export { parseOrderTable, findDocumentDate };
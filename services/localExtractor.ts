@@ -0,0 +1,62 @@
+import { PlatformDefinition } from "../types.ts";
+import { OrderExtractor } from "./orderExtractor.ts";
+import { ExtractionError, toExtractionError } from "./extractionErrors.ts";
+import { parseOrderTable } from "./layoutParser.ts";
+import { validateOrderRows } from "./validationService.ts";
+import { extractPdfText, TextLine } from "../utils/pdfText.ts";
+import { readSavedPageText, textToLines } from "../utils/htmlText.ts";
+import { detectSourceKind } from "../utils/fileTypes.ts";
+
+const readLines = async (file: File): Promise<{ lines: TextLine[]; pageCount?: number }> => {
+  const kind = detectSourceKind(file);
+  switch (kind) {
+    case 'pdf':
+      return extractPdfText(await file.arrayBuffer());
+    case 'html':
+    case 'mhtml':
+      return { lines: textToLines(await readSavedPageText(file, kind)) };
+    case 'image':
+      throw new ExtractionError('UNSUPPORTED_LAYOUT', 'images can only be read by the AI');
+    default:
+      throw new ExtractionError('UNSUPPORTED_LAYOUT', 'unsupported file type');
+  }
+};
+
+/**
+ * Offline engine: reads the PDF text layer or the tables of a saved page and
+ * parses the known portal layouts with rules. Scanned PDFs (no text layer),
+ * screenshots and unknown layouts are reported as such so a fallback engine
+ * can take over. The platform is told from the registry's hints; rows that fail
+ * validation are returned for review, as with the AI engine.
+ */
+const createLocalExtractor = (registry: PlatformDefinition[]): OrderExtractor => ({
+  engine: 'local',
+  label: 'Local reader',
+  extract: async (file, signal) => {
+    if (file.size === 0) throw new ExtractionError('EMPTY_DOCUMENT');
+
+    try {
+      const { lines, pageCount } = await readLines(file);
+      if (signal?.aborted) throw new ExtractionError('CANCELLED');
+      if (lines.length === 0) {
+        throw new ExtractionError('EMPTY_DOCUMENT', 'no readable text (scanned PDF?)');
+      }
+
+      const table = parseOrderTable(lines, registry);
+      if (!table.headerFound) {
+        throw new ExtractionError('UNSUPPORTED_LAYOUT', 'order table not recognized');
+      }
+      const { orders, rejectedRows } = validateOrderRows(table.rows, registry);
+      return { orders, rejectedRows, engine: 'local', pageCount, pagesProcessed: pageCount };
+    } catch (error) {
+      if (error instanceof ExtractionError) throw error;
+      // pdf.js throws InvalidPDFException and friends for damaged or non-PDF input
+      if (error instanceof Error && /PDF/i.test(error.name)) {
+        throw new ExtractionError('UNSUPPORTED_LAYOUT', error.message);
+      }
+      throw toExtractionError(error);
+    }
+  },
+});
+
+export { createLocalExtractor };
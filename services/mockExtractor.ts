@@ -0,0 +1,64 @@
+import { ExtractionErrorCode, OrderError } from "../types.ts";
+import { OrderExtractor } from "./orderExtractor.ts";
+import { ExtractionError } from "./extractionErrors.ts";
+
+export interface MockFixture {
+  match: string | RegExp; // Exact file name or pattern
+  orders?: OrderError[];
+  errorCode?: ExtractionErrorCode;
+  delayMs?: number;
+}
+
+const DEFAULT_MOCK_FIXTURES: MockFixture[] = [
+  {
+    match: /glovo/i,
+    orders: [
+      { orderNumber: '101548765', rawStoreName: 'Av. Eng. Duarte Pacheco', restaurantName: 'Av. Eng. Duarte Pacheco', date: '2026-01-14', time: '12:41', customerName: 'N/A', platform: 'Glovo', category: 'missing-item', orderValue: 18.9, refundAmount: 6.5 },
+      { orderNumber: '101549120', rawStoreName: 'Rua Sérgio Malpique, Almada', restaurantName: 'Rua Sérgio Malpique, Almada', date: '2026-01-14', time: '20:03', customerName: 'N/A', platform: 'Glovo', category: 'cancelled', orderValue: 24.4, refundAmount: 24.4 },
+    ],
+  },
+  {
+    match: /uber/i,
+    orders: [
+      { orderNumber: '2E955', rawStoreName: 'Poke House Infante Santo', restaurantName: 'Poke House Infante Santo', date: '2026-01-13', time: '19:22', customerName: 'João S.', platform: 'Uber Eats', category: 'wrong-item', orderValue: 15.5, refundAmount: 4.75 },
+    ],
+  },
+  {
+    match: /bolt/i,
+    orders: [
+      { orderNumber: '58210344', rawStoreName: 'Poke House Alfragide', restaurantName: 'Poke House Alfragide', date: '2026-01-12', time: '13:15', customerName: 'Maria Costa', platform: 'Bolt', category: 'late', orderValue: 21 },
+    ],
+  },
+];
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new ExtractionError('CANCELLED'));
+    }, { once: true });
+  });
+
+/**
+ * Deterministic engine for tests and demos: answers from fixtures matched on the
+ * file name, without reading the file or touching the network. Files that match
+ * no fixture fail with UNSUPPORTED_LAYOUT.
+ */
+const createMockExtractor = (fixtures: MockFixture[] = DEFAULT_MOCK_FIXTURES): OrderExtractor => ({
+  engine: 'mock',
+  label: 'Test data',
+  extract: async (file, signal) => {
+    const fixture = fixtures.find(f =>
+      typeof f.match === 'string' ? f.match === file.name : f.match.test(file.name)
+    );
+    if (fixture?.delayMs) await wait(fixture.delayMs, signal);
+    if (signal?.aborted) throw new ExtractionError('CANCELLED');
+
+    if (!fixture) throw new ExtractionError('UNSUPPORTED_LAYOUT', `no fixture for ${file.name}`);
+    if (fixture.errorCode) throw new ExtractionError(fixture.errorCode);
+    return { orders: (fixture.orders ?? []).map(o => ({ ...o })), engine: 'mock' };
+  },
+});
+
+export { DEFAULT_MOCK_FIXTURES, createMockExtractor };
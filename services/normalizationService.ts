@@ -0,0 +1,67 @@
+import { ExtractedFileResult, NormalizationRule, OrderError } from "../types.ts";
+import { loadFromStorage, saveToStorage } from "../utils/storage.ts";
+
+const STORAGE_KEY = 'orderaudit.normalizationRules';
+
+// Branch mapping used before rules became editable. Seeded on first load.
+const DEFAULT_NORMALIZATION_RULES: NormalizationRule[] = [
+  { id: 'inf-santo', keywords: ['Infante Santo'], canonicalName: 'Inf Santo' },
+  { id: 'almada-forum', keywords: ['Sérgio Malpique', 'Almada'], canonicalName: 'Almada Fórum' },
+  { id: 'miraflores', keywords: ['Fernão Lopes', 'Miraflores'], canonicalName: 'Miraflores' },
+  { id: 'alfragide', keywords: ['Cavaleiros', 'Alfragide'], canonicalName: 'Alfragide' },
+  { id: 'amoreiras', keywords: ['Duarte Pacheco', 'Amoreiras'], canonicalName: 'Amoreiras' },
+];
+
+// Case and accent insensitive, so "Sergio Malpique" still hits "Sérgio Malpique"
+const simplify = (value: string): string =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+const loadNormalizationRules = (): NormalizationRule[] =>
+  loadFromStorage<NormalizationRule[]>(STORAGE_KEY, DEFAULT_NORMALIZATION_RULES);
+
+const saveNormalizationRules = (rules: NormalizationRule[]): void =>
+  saveToStorage(STORAGE_KEY, rules);
+
+/**
+ * Returns the canonical name of the first rule with a keyword contained in the raw
+ * store name/address, or null when no rule matches. Rules are evaluated in order.
+ */
+const findCanonicalName = (rawName: string, rules: NormalizationRule[]): string | null => {
+  const haystack = simplify(rawName);
+  if (!haystack) return null;
+
+  for (const rule of rules) {
+    const matches = rule.keywords
+      .map(simplify)
+      .some(keyword => keyword.length > 0 && haystack.includes(keyword));
+    if (matches && rule.canonicalName.trim()) return rule.canonicalName.trim();
+  }
+  return null;
+};
+
+const normalizeOrder = (order: OrderError, rules: NormalizationRule[]): OrderError => {
+  // Results saved before rawStoreName existed only carry restaurantName
+  const rawName = order.rawStoreName ?? order.restaurantName;
+  return {
+    ...order,
+    restaurantName: findCanonicalName(rawName, rules) ?? rawName,
+  };
+};
+
+const normalizeResults = (
+  results: ExtractedFileResult[],
+  rules: NormalizationRule[]
+): ExtractedFileResult[] =>
+  results.map(r => ({
+    ...r,
+    orders: r.orders.map(o => normalizeOrder(o, rules)),
+  }));
+
+export {
+  DEFAULT_NORMALIZATION_RULES,
+  loadNormalizationRules,
+  saveNormalizationRules,
+  findCanonicalName,
+  normalizeOrder,
+  normalizeResults,
+};
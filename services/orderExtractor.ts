@@ -0,0 +1,37 @@
+import { ExtractionOutput, ExtractorEngine } from "../types.ts";
+import { ExtractionError, toExtractionError } from "./extractionErrors.ts";
+
+export interface OrderExtractor {
+  engine: ExtractorEngine;
+  label: string; // Used in logs; the UI shows engine.<engine>.label from the catalogs
+  extract: (file: File, signal?: AbortSignal) => Promise<ExtractionOutput>;
+}
+
+// Failures that mean "this engine can't read the document", not "the document is broken"
+const FALLBACK_CODES = ['UNSUPPORTED_LAYOUT', 'EMPTY_DOCUMENT'];
+
+/**
+ * Tries `primary` first and only calls `fallback` when the primary engine cannot
+ * parse the document. Cancellation and other errors are not retried elsewhere.
+ */
+const createFallbackExtractor = (
+  primary: OrderExtractor,
+  fallback: OrderExtractor,
+  label: string
+): OrderExtractor => ({
+  engine: 'local-first',
+  label,
+  extract: async (file, signal) => {
+    try {
+      return await primary.extract(file, signal);
+    } catch (error) {
+      const extractionError = toExtractionError(error);
+      if (!FALLBACK_CODES.includes(extractionError.code)) throw extractionError;
+      console.info(`${primary.label} could not parse ${file.name}; using ${fallback.label}.`, error);
+    }
+    if (signal?.aborted) throw new ExtractionError('CANCELLED');
+    return fallback.extract(file, signal);
+  },
+});
+
+export { createFallbackExtractor };
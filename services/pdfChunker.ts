@@ -0,0 +1,82 @@
+import { PDFDocument } from "pdf-lib";
+import { OrderError } from "../types.ts";
+import { getOrderKey } from "./dedupService.ts";
+
+export interface PageRange {
+  startPage: number; // 1-based, inclusive
+  endPage: number;
+}
+
+export interface ChunkResult {
+  range: PageRange;
+  orders: OrderError[]; // Pages already mapped to the full document
+}
+
+// Up to this many pages the file goes out in a single request
+const SINGLE_REQUEST_MAX_PAGES = 6;
+const PAGES_PER_CHUNK = 5;
+// Each chunk repeats the last page of the previous one, so rows split across a page break are seen whole
+const CHUNK_OVERLAP = 1;
+
+const planChunks = (
+  pageCount: number,
+  pagesPerChunk = PAGES_PER_CHUNK,
+  overlap = CHUNK_OVERLAP
+): PageRange[] => {
+  if (pageCount <= SINGLE_REQUEST_MAX_PAGES) return [{ startPage: 1, endPage: Math.max(1, pageCount) }];
+
+  const ranges: PageRange[] = [];
+  const step = Math.max(1, pagesPerChunk - overlap);
+  for (let start = 1; start <= pageCount; start += step) {
+    const end = Math.min(pageCount, start + pagesPerChunk - 1);
+    ranges.push({ startPage: start, endPage: end });
+    if (end === pageCount) break;
+  }
+  return ranges;
+};
+
+/** Halves a range; used when the model's output was cut off for the whole range. */
+const splitRange = ({ startPage, endPage }: PageRange): PageRange[] => {
+  const middle = Math.floor((startPage + endPage) / 2);
+  return [{ startPage, endPage: middle }, { startPage: middle + 1, endPage }];
+};
+
+const loadPdf = (data: ArrayBuffer): Promise<PDFDocument> =>
+  PDFDocument.load(data, { ignoreEncryption: true, updateMetadata: false });
+
+/** Copies a page range into a standalone PDF. */
+const extractPageRange = async (source: PDFDocument, range: PageRange): Promise<Uint8Array> => {
+  const chunk = await PDFDocument.create();
+  const indices = Array.from({ length: range.endPage - range.startPage + 1 }, (_, i) => range.startPage - 1 + i);
+  const pages = await chunk.copyPages(source, indices);
+  pages.forEach(page => chunk.addPage(page));
+  return chunk.save();
+};
+
+/**
+ * Joins chunk results in page order. A row read on a page shared by two chunks is
+ * kept once: later chunks drop orders already found on the same overlapping page.
+ * Orders without a page, or repeated on different pages, are left for the
+ * cross-file deduplication to report.
+ */
+const mergeChunkResults = (chunks: ChunkResult[]): OrderError[] => {
+  const seenOnPage = new Set<string>();
+  const merged: OrderError[] = [];
+  [...chunks]
+    .sort((a, b) => a.range.startPage - b.range.startPage)
+    .forEach((chunk, idx, sorted) => {
+      const previous = sorted[idx - 1];
+      chunk.orders.forEach(order => {
+        const pageKey = `${order.page}::${getOrderKey(order)}`;
+        const inOverlap = previous && order.page !== undefined && order.page <= previous.range.endPage;
+        if (inOverlap && seenOnPage.has(pageKey)) return;
+        merged.push(order);
+      });
+      chunk.orders.forEach(order => {
+        if (order.page !== undefined) seenOnPage.add(`${order.page}::${getOrderKey(order)}`);
+      });
+    });
+  return merged;
+};
+
+export { planChunks, splitRange, loadPdf, extractPageRange, mergeChunkResults };
@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BUILT_IN_PLATFORMS, isValidPattern, mergePlatforms } from './platforms.ts';
+
+test('accepts the built-in order-ID formats and plain custom ones', () => {
+  BUILT_IN_PLATFORMS.forEach(p => assert.ok(isValidPattern(p.orderIdPattern), p.orderIdPattern));
+  ['^[A-Z0-9-]{3,20}$', '^JE\\d{6,10}$', '^[a-f0-9_]{8}$', '^[A-Za-z-]{4,12}$'].forEach(pattern =>
+    assert.ok(isValidPattern(pattern), pattern)
+  );
+});
+
+test('rejects formats outside the safe shape', () => {
+  ['^(a+)+$', '^[A-Z]+$', '[0-9]{4}', '^[A-Z-0]{4}$', '^[a-a-]{2}'].forEach(pattern =>
+    assert.ok(!isValidPattern(pattern), pattern)
+  );
+});
+
+test('checks a backtracking-prone header entry in linear time', () => {
+  const hostile = `^[${'a-a-'.repeat(19)}!`;
+  const entries = Array.from({ length: 20 }, (_, i) => ({ name: `Custom ${i}`, color: '#336699', hints: [`Custom ${i}`], orderIdPattern: hostile, priority: 50 }));
+  const started = performance.now();
+  const registry = mergePlatforms(entries);
+  assert.ok(performance.now() - started < 200);
+  assert.ok(registry.filter(p => !p.builtIn).every(p => p.orderIdPattern !== hostile));
+});
@@ -0,0 +1,168 @@
+import { PlatformDefinition } from "../types.ts";
+import { loadFromStorage, saveToStorage } from "../utils/storage.ts";
+
+const STORAGE_KEY = 'orderaudit.customPlatforms';
+
+// Rows whose platform could not be told; not a registry entry, always accepted
+const UNKNOWN_PLATFORM = 'Unknown';
+
+const UNKNOWN_ORDER_ID_PATTERN = '^[A-Z0-9][A-Z0-9-]{2,19}$';
+
+// For custom entries saved without a format; must pass `isValidPattern`
+const DEFAULT_CUSTOM_ORDER_ID_PATTERN = '^[A-Z0-9-]{3,20}$';
+
+const UNKNOWN_COLOR = '#9ca3af'; // gray-400
+
+/**
+ * Partners known out of the box. Order ID formats are as shown in each portal's
+ * order history: Uber Eats uses short alphanumeric display codes (e.g. 2E955),
+ * Glovo and Bolt use numeric IDs.
+ */
+const BUILT_IN_PLATFORMS: PlatformDefinition[] = [
+  { name: 'Uber Eats', color: '#111827', hints: ['Uber Eats', 'UberEats'], orderIdPattern: '^[A-Z0-9]{4,8}$', orderIdExample: '2E955', priority: 10, builtIn: true },
+  { name: 'Glovo', color: '#eab308', hints: ['Glovo', 'Glovoapp'], orderIdPattern: '^\\d{6,12}$', orderIdExample: '101548765', priority: 20, builtIn: true },
+  { name: 'Bolt', color: '#22c55e', hints: ['Bolt Food', 'Bolt'], orderIdPattern: '^\\d{5,12}$', orderIdExample: '58210344', priority: 30, builtIn: true },
+  { name: 'Just Eat', color: '#f97316', hints: ['Just Eat', 'JustEat', 'Takeaway.com'], orderIdPattern: '^[A-Z0-9-]{6,20}$', priority: 40, builtIn: true },
+];
+
+// Custom entries travel in a request header to the server, so keep them few and short
+const MAX_CUSTOM_PLATFORMS = 20;
+const MAX_HINTS = 10;
+const MAX_TEXT_LENGTH = 80;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Order-ID formats are regular expressions, but custom ones reach the API server
+ * in a header, so only one safe shape is accepted: `^`, an optional fixed prefix,
+ * a single `\d` or character class with a length, and `$` (e.g. `^[A-Z0-9]{4,8}$`,
+ * `^JE\d{6,10}$`). With one repeated atom and no groups the match is linear, so a
+ * client cannot stall the server with a catastrophic-backtracking pattern. The check
+ * itself must stay linear too: each class item (a character, a range, `\d`, `_`) can
+ * be read only one way, and a literal `-` is only allowed last.
+ */
+const SAFE_ORDER_ID_PATTERN = /^\^[A-Za-z0-9-]{0,10}(?:\\d|\[(?:[A-Za-z0-9](?:-[A-Za-z0-9])?|\\d|_)+-?\])\{\d{1,2}(?:,\d{1,2})?\}\$$/;
+
+const isValidPattern = (pattern: string): boolean => {
+  if (!SAFE_ORDER_ID_PATTERN.test(pattern)) return false;
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const cleanText = (value: unknown): string =>
+  typeof value === 'string' ? value.trim().slice(0, MAX_TEXT_LENGTH) : '';
+
+/**
+ * Keeps the well-formed custom entries of an untrusted list (localStorage, the
+ * X-Platforms header). Names already taken by a built-in or an earlier entry are dropped.
+ */
+const sanitizeCustomPlatforms = (value: unknown): PlatformDefinition[] => {
+  if (!Array.isArray(value)) return [];
+  const taken = new Set([UNKNOWN_PLATFORM, ...BUILT_IN_PLATFORMS.map(p => p.name)].map(n => n.toLowerCase()));
+  const platforms: PlatformDefinition[] = [];
+  value.forEach(entry => {
+    if (platforms.length >= MAX_CUSTOM_PLATFORMS || typeof entry !== 'object' || entry === null) return;
+    const raw = entry as Partial<PlatformDefinition>;
+    const name = cleanText(raw.name);
+    const orderIdPattern = cleanText(raw.orderIdPattern) || DEFAULT_CUSTOM_ORDER_ID_PATTERN;
+    if (!name || taken.has(name.toLowerCase()) || !isValidPattern(orderIdPattern)) return;
+    taken.add(name.toLowerCase());
+    const hints = (Array.isArray(raw.hints) ? raw.hints : []).map(cleanText).filter(Boolean).slice(0, MAX_HINTS);
+    platforms.push({
+      name,
+      color: typeof raw.color === 'string' && HEX_COLOR.test(raw.color) ? raw.color.toLowerCase() : UNKNOWN_COLOR,
+      hints: hints.length > 0 ? hints : [name],
+      orderIdPattern,
+      ...(cleanText(raw.orderIdExample) ? { orderIdExample: cleanText(raw.orderIdExample) } : {}),
+      priority: Number.isFinite(raw.priority) ? Number(raw.priority) : 100,
+    });
+  });
+  return platforms;
+};
+
+/** Built-ins plus the well-formed custom entries, in summary order. */
+const mergePlatforms = (custom: PlatformDefinition[]): PlatformDefinition[] =>
+  [...BUILT_IN_PLATFORMS, ...sanitizeCustomPlatforms(custom)]
+    .sort((a, b) => a.priority - b.priority || a.name.localeCompare(b.name));
+
+const loadCustomPlatforms = (): PlatformDefinition[] =>
+  sanitizeCustomPlatforms(loadFromStorage<unknown>(STORAGE_KEY, []));
+
+const saveCustomPlatforms = (platforms: PlatformDefinition[]): void =>
+  saveToStorage(STORAGE_KEY, platforms);
+
+/** Every value a row's platform may take, Unknown last. */
+const platformNames = (registry: PlatformDefinition[]): string[] =>
+  [...registry.map(p => p.name), UNKNOWN_PLATFORM];
+
+const findPlatform = (name: string, registry: PlatformDefinition[]): PlatformDefinition | undefined =>
+  registry.find(p => p.name === name);
+
+const isPlatform = (value: unknown, registry: PlatformDefinition[]): value is string =>
+  typeof value === 'string' && (value === UNKNOWN_PLATFORM || registry.some(p => p.name === value));
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words only, and "Bolt Food" also matches "BoltFood"; longer hints first so "Bolt Food" is not counted as "Bolt" too
+const hintMatcher = (hints: string[]): RegExp => {
+  const alternatives = [...hints]
+    .sort((a, b) => b.length - a.length)
+    .map(hint => escapeRegExp(hint.trim()).replace(/\s+/g, '\\s*'));
+  return new RegExp(`(?<![A-Z0-9])(?:${alternatives.join('|')})(?![A-Z0-9])`, 'gi');
+};
+
+/** Picks the platform whose hints appear most often in the text. */
+const detectPlatform = (text: string, registry: PlatformDefinition[]): string => {
+  let best = UNKNOWN_PLATFORM;
+  let bestCount = 0;
+  registry.forEach(platform => {
+    if (platform.hints.length === 0) return;
+    const count = text.match(hintMatcher(platform.hints))?.length ?? 0;
+    if (count > bestCount) {
+      best = platform.name;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+const normalizeOrderId = (value: string): string =>
+  value.trim().replace(/^#/, '').replace(/\s+/g, '');
+
+const isValidOrderId = (platform: string, value: string, registry: PlatformDefinition[]): boolean => {
+  const pattern = findPlatform(platform, registry)?.orderIdPattern ?? UNKNOWN_ORDER_ID_PATTERN;
+  return new RegExp(pattern, 'i').test(normalizeOrderId(value));
+};
+
+const platformColor = (name: string, registry: PlatformDefinition[]): string =>
+  findPlatform(name, registry)?.color ?? UNKNOWN_COLOR;
+
+// Black or white, whichever reads better on the badge color
+const platformTextColor = (name: string, registry: PlatformDefinition[]): string => {
+  const hex = platformColor(name, registry);
+  const [r, g, b] = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+  return (r * 299 + g * 587 + b * 114) / 1000 > 150 ? '#111827' : '#ffffff';
+};
+
+export {
+  UNKNOWN_PLATFORM,
+  UNKNOWN_ORDER_ID_PATTERN,
+  BUILT_IN_PLATFORMS,
+  isValidPattern,
+  sanitizeCustomPlatforms,
+  mergePlatforms,
+  loadCustomPlatforms,
+  saveCustomPlatforms,
+  platformNames,
+  findPlatform,
+  isPlatform,
+  detectPlatform,
+  normalizeOrderId,
+  isValidOrderId,
+  platformColor,
+  platformTextColor,
+};
@@ -0,0 +1,21 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { OrderError } from '../types.ts';
+import { maskOrders, maskRejectedRows } from './privacyService.ts';
+
+const mask = (name: string) => name === 'N/A' ? name : 'C-000000';
+
+test('masking drops the snippet, whatever spelling of the name it holds', () => {
+  const order: OrderError = {
+    orderNumber: '101548765', restaurantName: 'Amoreiras', date: '2026-01-14', time: '12:41',
+    customerName: 'João Silva', platform: 'Glovo', snippet: '101548765 Amoreiras JOAO  SILVA 12:41',
+  };
+  const [masked] = maskOrders([order], mask);
+  assert.equal(masked.customerName, 'C-000000');
+  assert.equal(masked.snippet, undefined);
+});
+
+test('masking covers the raw name and snippet of rejected rows', () => {
+  const [row] = maskRejectedRows([{ raw: { customerName: 'João Silva', snippet: 'Silva', date: 'x' }, reasons: [] }], mask);
+  assert.deepEqual(row.raw, { customerName: 'C-000000', date: 'x' });
+});
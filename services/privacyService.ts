@@ -0,0 +1,182 @@
+import { ExtractedFileResult, MaskingMode, NameMasker, OrderCorrection, OrderError, PrivacySettings, PurgeReport, RejectedRow } from "../types.ts";
+import { loadFromStorage, saveToStorage } from "../utils/storage.ts";
+import { listRuns, saveRun } from "./historyService.ts";
+import { deleteCachedExtractions } from "./extractionCache.ts";
+
+const STORAGE_KEY = 'orderaudit.privacy';
+
+// Masked unless someone chooses otherwise: names reach every PDF that leaves the app
+const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  maskingMode: 'initials',
+  retentionDays: null,
+  pseudonymSalt: '',
+};
+
+const MASKING_MODES: MaskingMode[] = ['none', 'initials', 'pseudonym'];
+
+const MAX_RETENTION_DAYS = 3650;
+
+// What the extractors write when no name is printed; never masked or counted
+const NO_CUSTOMER = 'N/A';
+
+const DAY_MS = 86400000;
+
+const sanitizePrivacySettings = (settings: Partial<PrivacySettings>): PrivacySettings => {
+  const days = Math.round(Number(settings.retentionDays));
+  return {
+    maskingMode: settings.maskingMode && MASKING_MODES.includes(settings.maskingMode) ? settings.maskingMode : DEFAULT_PRIVACY_SETTINGS.maskingMode,
+    retentionDays: settings.retentionDays !== null && Number.isFinite(days) && days >= 1 ? Math.min(days, MAX_RETENTION_DAYS) : null,
+    pseudonymSalt: typeof settings.pseudonymSalt === 'string' && settings.pseudonymSalt ? settings.pseudonymSalt : crypto.randomUUID(),
+  };
+};
+
+const loadPrivacySettings = (): PrivacySettings =>
+  sanitizePrivacySettings(loadFromStorage<Partial<PrivacySettings>>(STORAGE_KEY, DEFAULT_PRIVACY_SETTINGS));
+
+const savePrivacySettings = (settings: PrivacySettings): void =>
+  saveToStorage(STORAGE_KEY, settings);
+
+const hasCustomerName = (name: string | undefined): name is string =>
+  !!name && name.trim() !== '' && name.trim() !== NO_CUSTOMER;
+
+// FNV-1a, 32 bits: stable across sessions and synchronous, unlike crypto.subtle
+const fnv1a = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * "João Silva" becomes "J*** S****" (initials) or "C-3FA9D2" (pseudonym). The
+ * pseudonym ignores case and accents, so the same person keeps it across reports.
+ */
+const maskName = (name: string, mode: MaskingMode, salt: string): string => {
+  if (mode === 'none' || !hasCustomerName(name)) return name;
+  if (mode === 'initials') {
+    return name.trim().split(/\s+/).map(word => {
+      const [first, ...rest] = Array.from(word);
+      return first + '*'.repeat(rest.length);
+    }).join(' ');
+  }
+  const folded = name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+  return `C-${fnv1a(`${salt}:${folded}`).toString(16).toUpperCase().padStart(8, '0').slice(0, 6)}`;
+};
+
+const createNameMasker = (settings: PrivacySettings): NameMasker | undefined =>
+  settings.maskingMode === 'none' ? undefined : name => maskName(name, settings.maskingMode, settings.pseudonymSalt);
+
+/**
+ * Masks the customer name of each order. The snippet is the printed row, where the
+ * name may be spelled differently (or be all that was read), so it is dropped.
+ */
+const maskOrders = <T extends OrderError>(orders: T[], mask: NameMasker | undefined): T[] => {
+  if (!mask) return orders;
+  return orders.map(order => {
+    const { snippet, ...rest } = order;
+    return { ...rest, customerName: mask(order.customerName) } as T;
+  });
+};
+
+// Rejected rows are kept as received, so the raw name and snippet are handled the same way
+const maskRejectedRows = (rows: RejectedRow[], mask: NameMasker | undefined): RejectedRow[] => {
+  if (!mask) return rows;
+  return rows.map(row => {
+    const { customerName, snippet, ...raw } = row.raw;
+    return { ...row, raw: { ...raw, ...(typeof customerName === 'string' ? { customerName: mask(customerName) } : {}) } };
+  });
+};
+
+// Only name edits carry a name in the trail; added orders print from their own fields
+const maskCorrections = (corrections: OrderCorrection[], mask: NameMasker | undefined): OrderCorrection[] => {
+  if (!mask) return corrections;
+  return corrections.map(c => c.field === 'customerName'
+    ? { ...c, oldValue: c.oldValue && mask(c.oldValue), newValue: c.newValue && mask(c.newValue) }
+    : c);
+};
+
+// The snippet is the printed row, name included, so it goes too
+const purgeOrder = <T extends OrderError>(order: T): T => {
+  const { snippet, ...rest } = order;
+  return { ...rest, customerName: NO_CUSTOMER } as T;
+};
+
+/** Clears customer names from extraction results; `names` counts the ones removed. */
+const purgeResults = (results: ExtractedFileResult[]): { results: ExtractedFileResult[]; names: number } => {
+  let names = 0;
+  const purged = results.map(result => ({
+    ...result,
+    orders: result.orders.map(order => {
+      if (hasCustomerName(order.customerName)) names++;
+      return purgeOrder(order);
+    }),
+    ...(result.rejectedRows ? {
+      rejectedRows: result.rejectedRows.map(row => {
+        const { customerName, snippet, ...raw } = row.raw;
+        if (typeof customerName === 'string' && hasCustomerName(customerName)) names++;
+        return { ...row, raw };
+      }),
+    } : {}),
+  }));
+  return { results: purged, names };
+};
+
+// Edits of the customer name keep their place in the audit trail, without the values
+const purgeCorrections = (corrections: OrderCorrection[]): OrderCorrection[] =>
+  corrections.map(c => {
+    if (c.order) return { ...c, order: purgeOrder(c.order) };
+    if (c.field === 'customerName') return { ...c, oldValue: NO_CUSTOMER, newValue: NO_CUSTOMER };
+    return c;
+  });
+
+/**
+ * Removes customer data from saved runs created before `cutoff` (every run when
+ * null): names, row snippets and the original documents, which print the names
+ * too. Cached extractions from the same period are deleted.
+ */
+const purgeStoredData = async (cutoff: Date | null): Promise<PurgeReport> => {
+  const report: PurgeReport = { runIds: [], customerNames: 0, files: 0, cacheEntries: 0 };
+  const runs = await listRuns();
+  for (const run of runs) {
+    if (cutoff && run.createdAt >= cutoff.toISOString()) continue;
+    const { results, names } = purgeResults(run.results);
+    const hasCorrectionData = (run.corrections ?? []).some(c =>
+      hasCustomerName(c.order?.customerName) || (c.field === 'customerName' && (hasCustomerName(c.oldValue) || hasCustomerName(c.newValue)))
+    );
+    if (names === 0 && run.files.length === 0 && !hasCorrectionData) continue;
+    await saveRun({ ...run, results, files: [], corrections: purgeCorrections(run.corrections ?? []) });
+    report.runIds.push(run.id);
+    report.customerNames += names;
+    report.files += run.files.length;
+  }
+  report.cacheEntries = await deleteCachedExtractions(cutoff);
+  return report;
+};
+
+/** Runs the retention period, if one is set; resolves with what it removed. */
+const applyRetention = (settings: PrivacySettings, now = new Date()): Promise<PurgeReport> | null =>
+  settings.retentionDays ? purgeStoredData(new Date(now.getTime() - settings.retentionDays * DAY_MS)) : null;
+
+const isEmptyReport = (report: PurgeReport): boolean =>
+  report.runIds.length === 0 && report.cacheEntries === 0;
+
+export {
+  DEFAULT_PRIVACY_SETTINGS,
+  MASKING_MODES,
+  MAX_RETENTION_DAYS,
+  sanitizePrivacySettings,
+  loadPrivacySettings,
+  savePrivacySettings,
+  maskName,
+  createNameMasker,
+  maskOrders,
+  maskRejectedRows,
+  maskCorrections,
+  purgeResults,
+  purgeCorrections,
+  purgeStoredData,
+  applyRetention,
+  isEmptyReport,
+};
@@ -0,0 +1,208 @@
+import {
+  AmbiguousMatch,
+  AuditedOrder,
+  PlatformDefinition,
+  PosColumnMapping,
+  PosField,
+  PosRecord,
+  ReconciliationMatch,
+  ReconciliationResult,
+} from "../types.ts";
+import { CsvTable } from "../utils/csv.ts";
+import { formatMinutes, parseOrderDate, parseOrderTime, toIsoDate } from "../utils/dateHelpers.ts";
+import { parseAmount } from "../utils/money.ts";
+import { loadFromStorage, saveToStorage } from "../utils/storage.ts";
+import { UNKNOWN_PLATFORM, detectPlatform, normalizeOrderId } from "./platforms.ts";
+import { MessageKey } from "./i18n.ts";
+
+const MAPPING_KEY = 'orderaudit.posColumnMapping';
+
+const POS_FIELDS: PosField[] = ['orderNumber', 'platform', 'restaurant', 'date', 'time', 'amount', 'shift'];
+
+// Header names seen in POS exports (PT and EN), used to pre-fill the mapping dialog
+const HEADER_HINTS: Record<PosField, RegExp> = {
+  orderNumber: /(pedido|order).*(plataforma|platform|externo|external|parceiro|partner|id|n[ºo.])|^(id|n[ºo.])\s*(do\s*)?pedido|^order\s*(id|#|no)/i,
+  platform: /plataforma|platform|canal|channel|agregador|aggregator/i,
+  restaurant: /loja|restaurante|store|restaurant|unidade|estabelecimento|site|location/i,
+  date: /^(data|date|dia|day)\b/i,
+  time: /^(hora|hor[aá]rio|time)\b/i,
+  amount: /valor|total|amount|montante|pre[cç]o|price/i,
+  shift: /turno|shift|equipa|equipe|team/i,
+};
+
+const DEFAULT_TIME_WINDOW_MINUTES = 15;
+
+const loadPosMapping = (): PosColumnMapping => loadFromStorage<PosColumnMapping>(MAPPING_KEY, {});
+
+const savePosMapping = (mapping: PosColumnMapping): void => saveToStorage(MAPPING_KEY, mapping);
+
+/**
+ * Pre-fills the mapping: the last mapping used where its headers still exist,
+ * otherwise the first unused header matching each field's hint.
+ */
+const guessColumnMapping = (headers: string[], previous: PosColumnMapping = {}): PosColumnMapping => {
+  const mapping: PosColumnMapping = {};
+  const used = new Set<string>();
+  POS_FIELDS.forEach(field => {
+    const remembered = previous[field];
+    if (remembered && headers.includes(remembered)) {
+      mapping[field] = remembered;
+      used.add(remembered);
+    }
+  });
+  POS_FIELDS.forEach(field => {
+    if (mapping[field]) return;
+    const header = headers.find(h => !used.has(h) && HEADER_HINTS[field].test(h.trim()));
+    if (header) {
+      mapping[field] = header;
+      used.add(header);
+    }
+  });
+  return mapping;
+};
+
+/** Catalog keys of the reasons the mapping cannot be used; orders need either a number or restaurant + date + time. */
+const validateMapping = (mapping: PosColumnMapping): MessageKey[] => {
+  const byNumber = !!mapping.orderNumber;
+  const byWindow = !!mapping.restaurant && !!mapping.date;
+  if (byNumber || byWindow) return [];
+  return ['pos.mappingIncomplete'];
+};
+
+// POS exports often keep date and time in one column ("14/01/2026 12:31")
+const splitDateTime = (value: string): { date: string; time?: string } => {
+  const match = value.match(/\b\d{1,2}:\d{2}(?::\d{2})?\b/);
+  if (!match) return { date: value.trim() };
+  return { date: value.replace(match[0], '').replace(/[T,\s]+$/, '').trim(), time: match[0] };
+};
+
+const toPosRecords = (table: CsvTable, mapping: PosColumnMapping): PosRecord[] =>
+  table.rows.map((row, idx) => {
+    const raw: Record<string, string> = {};
+    table.headers.forEach((header, col) => { raw[header] = row[col] ?? ''; });
+    const read = (field: PosField): string => (mapping[field] ? raw[mapping[field]!] ?? '' : '').trim();
+
+    const combined = splitDateTime(read('date'));
+    const date = parseOrderDate(combined.date);
+    const minutes = parseOrderTime(read('time') || combined.time || '');
+    const amount = read('amount') ? parseAmount(read('amount')) : null;
+
+    return {
+      row: idx + 1,
+      orderNumber: read('orderNumber') ? normalizeOrderId(read('orderNumber')).toUpperCase() : undefined,
+      platform: read('platform') || undefined,
+      restaurant: read('restaurant') || undefined,
+      date: date ? toIsoDate(date) : undefined,
+      time: minutes !== null ? formatMinutes(minutes) : undefined,
+      amount: amount ?? undefined,
+      shift: read('shift') || undefined,
+      raw,
+    };
+  });
+
+const simplify = (value: string): string =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Restaurant names differ between the POS and the portals ("Amoreiras" vs
+ * "Amoreiras Shopping Center"): one containing the other, or sharing at least half
+ * of the shorter name's words, counts as the same store.
+ */
+const sameRestaurant = (a: string, b: string): boolean => {
+  const x = simplify(a);
+  const y = simplify(b);
+  if (!x || !y) return false;
+  if (x.includes(y) || y.includes(x)) return true;
+  const wordsX = new Set(x.split(' ').filter(w => w.length > 2));
+  const wordsY = y.split(' ').filter(w => w.length > 2);
+  const shared = wordsY.filter(w => wordsX.has(w)).length;
+  return shared > 0 && shared >= Math.min(wordsX.size, wordsY.length) / 2;
+};
+
+// A POS row without a recognisable platform fits any platform
+const samePlatform = (order: AuditedOrder, record: PosRecord, registry: PlatformDefinition[]): boolean => {
+  if (!record.platform) return true;
+  const platform = detectPlatform(record.platform, registry);
+  return platform === UNKNOWN_PLATFORM || platform === order.platform;
+};
+
+const minutesApart = (a: string, b: string): number => {
+  const x = parseOrderTime(a);
+  const y = parseOrderTime(b);
+  return x === null || y === null ? Infinity : Math.abs(x - y);
+};
+
+/**
+ * Matches extracted orders to POS rows. The platform order number is tried
+ * first; orders without a number match fall back to POS rows of the same
+ * restaurant and date within the time window. A fallback with exactly one
+ * candidate is a match, with several it is ambiguous. Each POS row is used once.
+ */
+const reconcile = (
+  orders: AuditedOrder[],
+  records: PosRecord[],
+  registry: PlatformDefinition[],
+  timeWindowMinutes = DEFAULT_TIME_WINDOW_MINUTES
+): ReconciliationResult => {
+  const byNumber = new Map<string, PosRecord[]>();
+  records.forEach(record => {
+    if (!record.orderNumber) return;
+    byNumber.set(record.orderNumber, [...(byNumber.get(record.orderNumber) ?? []), record]);
+  });
+
+  const used = new Set<PosRecord>();
+  const matched: ReconciliationMatch[] = [];
+  const unmatched: AuditedOrder[] = [];
+
+  orders.forEach(order => {
+    const number = normalizeOrderId(order.orderNumber).toUpperCase();
+    // POS exports with one line per item repeat the order number; the first line stands for the order
+    const record = (byNumber.get(number) ?? []).find(r => !used.has(r) && samePlatform(order, r, registry));
+    if (record) {
+      byNumber.get(number)!.forEach(r => used.add(r));
+      matched.push({ order, record, method: 'orderNumber' });
+    } else {
+      unmatched.push(order);
+    }
+  });
+
+  const missing: AuditedOrder[] = [];
+  const ambiguous: AmbiguousMatch[] = [];
+  const candidatesFor = (order: AuditedOrder) => records.filter(r =>
+    !used.has(r)
+    && r.date === order.date
+    && !!r.restaurant && sameRestaurant(r.restaurant, order.restaurantName)
+    && samePlatform(order, r, registry)
+    && (!r.time || minutesApart(r.time, order.time) <= timeWindowMinutes)
+  );
+
+  // Orders with a single candidate claim it first, so they are not made ambiguous by the others
+  unmatched
+    .map(order => ({ order, count: candidatesFor(order).length }))
+    .sort((a, b) => a.count - b.count)
+    .forEach(({ order }) => {
+      const candidates = candidatesFor(order)
+        .sort((a, b) => minutesApart(a.time ?? '', order.time) - minutesApart(b.time ?? '', order.time));
+      if (candidates.length === 0) {
+        missing.push(order);
+      } else if (candidates.length === 1) {
+        used.add(candidates[0]);
+        matched.push({ order, record: candidates[0], method: 'fuzzy' });
+      } else {
+        ambiguous.push({ order, candidates });
+      }
+    });
+
+  return { matched, missing, ambiguous };
+};
+
+export {
+  POS_FIELDS,
+  DEFAULT_TIME_WINDOW_MINUTES,
+  loadPosMapping,
+  savePosMapping,
+  guessColumnMapping,
+  validateMapping,
+  toPosRecords,
+  reconcile,
+};
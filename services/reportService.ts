@@ -0,0 +1,468 @@
+import { jsPDF } from "jspdf";
+import autoTableExport from "jspdf-autotable";
+import type { CellHookData } from "jspdf-autotable";
+import JSZip from "jszip";
+import { AuditedOrder, ImpactStats, OrderCorrection, PlatformDefinition, ReportColumn, ReportTemplate, RestaurantStats, SummaryStats, ThresholdBreach } from "../types.ts";
+import { ACTION_LABEL_KEYS, FIELD_LABEL_KEYS, correctionValueText } from "./correctionService.ts";
+import { CATEGORY_LABEL_KEYS } from "./errorCategories.ts";
+import { Translator } from "./i18n.ts";
+import { REPORT_COLUMN_LABEL_KEYS, hexToRgb } from "./reportTemplate.ts";
+import { buildSummaryStats, sumImpact } from "../utils/summaryStats.ts";
+import { buildDailySeries, buildHourHeatmap, buildWeekOverWeek, formatDelta } from "../utils/trends.ts";
+import { drawDailyChart, drawHourHeatmap } from "../utils/pdfCharts.ts";
+import { describeThresholdBreach } from "../utils/thresholds.ts";
+
+interface ReportOptions {
+  title: string;
+  filterLines?: string[]; // Active filters, printed under the heading
+  includeTrends?: boolean;
+  corrections?: OrderCorrection[]; // Printed as an appendix when not empty
+  breaches?: ThresholdBreach[]; // Printed first, as the exceptions section, when not empty
+}
+
+// Node loads the CommonJS build, where the function sits one level down; browsers get it directly
+const autoTable = (autoTableExport as typeof autoTableExport & { default?: typeof autoTableExport }).default ?? autoTableExport;
+
+const GRAY_700: [number, number, number] = [55, 65, 81];
+const RED_700: [number, number, number] = [185, 28, 28];
+
+// The exceptions list is read before the full orders table, so it only carries what identifies each order
+const EXCEPTION_COLUMNS: ReportColumn[] = ['platform', 'orderNumber', 'date', 'time', 'category', 'refundAmount'];
+
+const LOGO_HEIGHT = 14;
+const LOGO_MAX_WIDTH = 48;
+
+const isManuallyChanged = (order: AuditedOrder): boolean =>
+  Boolean(order.isManual || order.editedFields?.length);
+
+const amountText = (value: number | undefined, { formatAmount }: Translator): string =>
+  value !== undefined ? formatAmount(value) : '—';
+
+const columnValue = (order: AuditedOrder, column: ReportColumn, i18n: Translator): string => {
+  const { t, formatDate, formatTime } = i18n;
+  switch (column) {
+    case 'orderNumber':
+      // Manually corrected rows are flagged with an asterisk, explained under the table
+      return isManuallyChanged(order) ? `${order.orderNumber} *` : order.orderNumber;
+    case 'date':
+      return formatDate(order.date);
+    case 'time':
+      return formatTime(order.time);
+    case 'customerName':
+      return order.customerName || 'N/A';
+    case 'page':
+      return order.page !== undefined ? String(order.page) : '—';
+    case 'category':
+      return order.category ? t(CATEGORY_LABEL_KEYS[order.category]) : '—';
+    case 'orderValue':
+    case 'refundAmount':
+      return amountText(order[column], i18n);
+    default:
+      return order[column];
+  }
+};
+
+/** Logo in the top-right corner, company name and title on the left. Returns the y below the heading. */
+const drawHeader = (doc: jsPDF, template: ReportTemplate, title: string, lines: string[], i18n: Translator): number => {
+  if (template.logoDataUrl) {
+    try {
+      const { width, height } = doc.getImageProperties(template.logoDataUrl);
+      const logoWidth = Math.min(LOGO_MAX_WIDTH, (width / height) * LOGO_HEIGHT);
+      const logoHeight = logoWidth / (width / height);
+      const pageWidth = doc.internal.pageSize.getWidth();
+      doc.addImage(template.logoDataUrl, pageWidth - 14 - logoWidth, 10, logoWidth, logoHeight);
+    } catch (error) {
+      // A broken logo should not cost the whole report
+      console.error('Failed to draw the report logo:', error);
+    }
+  }
+
+  if (template.companyName.trim()) {
+    doc.setFontSize(10);
+    doc.setTextColor(...hexToRgb(template.accentColor));
+    doc.text(template.companyName.trim(), 14, 14);
+  }
+
+  doc.setFontSize(18);
+  doc.setTextColor(0);
+  doc.text(title, 14, 22);
+
+  doc.setFontSize(11);
+  doc.setTextColor(100);
+  doc.text(i18n.t('pdf.generatedAt', { date: i18n.formatDateTime(new Date()) }), 14, 30);
+  lines.forEach((line, idx) => doc.text(line, 14, 36 + idx * 6));
+  return 40 + Math.max(0, lines.length - 1) * 6;
+};
+
+// Drawn last, once the page count is known
+const drawFooters = (doc: jsPDF, template: ReportTemplate): void => {
+  const note = template.footerNote.trim();
+  if (!note) return;
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const lines: string[] = doc.splitTextToSize(note, pageWidth - 28);
+  for (let page = 1; page <= doc.getNumberOfPages(); page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(120);
+    doc.text(lines, 14, pageHeight - 6 - (lines.length - 1) * 3.5);
+  }
+};
+
+const drawOrdersTable = (doc: jsPDF, orders: AuditedOrder[], template: ReportTemplate, startY: number, i18n: Translator): number => {
+  autoTable(doc, {
+    head: [template.columns.map(column => i18n.t(REPORT_COLUMN_LABEL_KEYS[column]))],
+    body: orders.map(order => template.columns.map(column => columnValue(order, column, i18n))),
+    startY,
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: hexToRgb(template.accentColor) },
+    alternateRowStyles: { fillColor: [245, 245, 245] }
+  });
+
+  let finalY = (doc as any).lastAutoTable.finalY || startY;
+  if (template.columns.includes('orderNumber') && orders.some(isManuallyChanged)) {
+    doc.setFontSize(9);
+    doc.setTextColor(100);
+    doc.text(i18n.t('pdf.manualFootnote'), 14, finalY + 6);
+    finalY += 4;
+  }
+  return finalY;
+};
+
+const drawSummaryTable = (doc: jsPDF, summary: SummaryStats, startY: number, i18n: Translator): number => {
+  const { t, formatAmount } = i18n;
+  doc.setFontSize(14);
+  doc.setTextColor(0);
+  doc.text(t('pdf.summaryTitle'), 14, startY + 15);
+
+  const restaurants = Object.keys(summary.stats);
+  const total = sumImpact(restaurants.map(r => summary.impact[r]));
+  autoTable(doc, {
+    head: [[t('field.restaurantName'), ...summary.platforms, t('common.total'), t('field.orderValue'), t('field.impact')]],
+    body: restaurants.map(restName => {
+      const stats = summary.stats[restName] as RestaurantStats;
+      const impact = summary.impact[restName];
+      return [
+        restName,
+        ...summary.platforms.map(p => String(stats[p] || 0)),
+        String(stats.total),
+        formatAmount(impact.orderValue),
+        formatAmount(impact.refundAmount),
+      ];
+    }),
+    foot: [[
+      t('common.total'),
+      ...summary.platforms.map(p => String(restaurants.reduce((sum, r) => sum + (summary.stats[r][p] || 0), 0))),
+      String(total.count),
+      formatAmount(total.orderValue),
+      formatAmount(total.refundAmount),
+    ]],
+    startY: startY + 20,
+    styles: { fontSize: 10 },
+    headStyles: { fillColor: GRAY_700 },
+    footStyles: { fillColor: [243, 244, 246], textColor: 0 },
+    theme: 'grid'
+  });
+  return (doc as any).lastAutoTable.finalY;
+};
+
+// Section titles are drawn by hand, so start a new page when the title and a few rows would not fit
+const ensureRoom = (doc: jsPDF, startY: number): number => {
+  if (startY + 50 <= doc.internal.pageSize.getHeight()) return startY;
+  doc.addPage();
+  return 10;
+};
+
+/** Each restaurant and period over an alert threshold, with its orders. Returns the y below the section. */
+const drawExceptions = (doc: jsPDF, breaches: ThresholdBreach[], startY: number, i18n: Translator): number => {
+  const { t } = i18n;
+  doc.setFontSize(14);
+  doc.setTextColor(...RED_700);
+  doc.text(t('pdf.exceptions'), 14, startY + 8);
+  doc.setFontSize(9);
+  doc.setTextColor(100);
+  doc.text(t('pdf.exceptionsHint', { count: breaches.length }), 14, startY + 14);
+
+  let y = startY + 16;
+  breaches.forEach(breach => {
+    y = ensureRoom(doc, y);
+    doc.setFontSize(10);
+    doc.setTextColor(0);
+    doc.text(`${breach.restaurant} · ${breach.rule.platform || t('thresholds.anyPlatform')}`, 14, y + 7);
+    doc.setFontSize(9);
+    doc.setTextColor(...RED_700);
+    doc.text(describeThresholdBreach(breach, i18n), 14, y + 12);
+    autoTable(doc, {
+      head: [EXCEPTION_COLUMNS.map(column => t(REPORT_COLUMN_LABEL_KEYS[column]))],
+      body: breach.orders.map(order => EXCEPTION_COLUMNS.map(column => columnValue(order, column, i18n))),
+      startY: y + 15,
+      styles: { fontSize: 8 },
+      headStyles: { fillColor: RED_700 },
+      theme: 'grid'
+    });
+    y = (doc as any).lastAutoTable.finalY;
+  });
+
+  doc.setFontSize(14);
+  doc.setTextColor(0);
+  y = ensureRoom(doc, y);
+  doc.text(t('pdf.ordersTitle'), 14, y + 12);
+  return y + 16;
+};
+
+const impactCell = (impact: ImpactStats | undefined, { formatAmount }: Translator): string =>
+  impact ? `${impact.count} · ${formatAmount(impact.refundAmount)}` : '—';
+
+// Restaurant × category: how many orders went wrong in each way and what it cost
+const drawCategoryTable = (doc: jsPDF, summary: SummaryStats, startY: number, i18n: Translator): void => {
+  const { t } = i18n;
+  const restaurants = Object.keys(summary.byCategory);
+  if (restaurants.length === 0) return;
+  startY = ensureRoom(doc, startY);
+  doc.setFontSize(14);
+  doc.setTextColor(0);
+  doc.text(t('summary.byCategory'), 14, startY + 15);
+  doc.setFontSize(9);
+  doc.setTextColor(100);
+  doc.text(t('summary.byCategoryHint'), 14, startY + 21);
+
+  autoTable(doc, {
+    head: [[t('field.restaurantName'), ...summary.categories.map(c => t(CATEGORY_LABEL_KEYS[c])), t('common.total')]],
+    body: restaurants.map(restName => [
+      restName,
+      ...summary.categories.map(c => impactCell(summary.byCategory[restName][c], i18n)),
+      impactCell(summary.impact[restName], i18n),
+    ]),
+    foot: [[
+      t('common.total'),
+      ...summary.categories.map(c => impactCell(sumImpact(restaurants.map(r => summary.byCategory[r][c])), i18n)),
+      impactCell(sumImpact(restaurants.map(r => summary.impact[r])), i18n),
+    ]],
+    startY: startY + 25,
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: GRAY_700 },
+    footStyles: { fillColor: [243, 244, 246], textColor: 0 },
+    theme: 'grid'
+  });
+};
+
+// A single store's counts read better as one row per platform
+const drawPlatformBreakdown = (doc: jsPDF, stats: RestaurantStats, platforms: string[], startY: number, { t }: Translator): void => {
+  doc.setFontSize(14);
+  doc.setTextColor(0);
+  doc.text(t('pdf.platformBreakdown'), 14, startY + 15);
+
+  autoTable(doc, {
+    head: [[t('field.platform'), t('pdf.orderCount')]],
+    body: platforms.map(p => [p, String(stats[p] || 0)]),
+    foot: [[t('common.total'), String(stats.total)]],
+    startY: startY + 20,
+    styles: { fontSize: 10 },
+    headStyles: { fillColor: GRAY_700 },
+    footStyles: { fillColor: [243, 244, 246], textColor: 0 },
+    tableWidth: 100,
+    theme: 'grid'
+  });
+};
+
+// One store's errors as one row per category, with what each cost
+const drawCategoryBreakdown = (doc: jsPDF, summary: SummaryStats, restaurantName: string, startY: number, i18n: Translator): void => {
+  const { t, formatAmount } = i18n;
+  const byCategory = summary.byCategory[restaurantName] ?? {};
+  const total = summary.impact[restaurantName] ?? sumImpact([]);
+  startY = ensureRoom(doc, startY);
+  doc.setFontSize(14);
+  doc.setTextColor(0);
+  doc.text(t('pdf.categoryTitle'), 14, startY + 15);
+
+  autoTable(doc, {
+    head: [[t('field.category'), t('pdf.orderCount'), t('field.orderValue'), t('field.impact')]],
+    body: summary.categories.filter(c => byCategory[c]).map(c => [
+      t(CATEGORY_LABEL_KEYS[c]),
+      String(byCategory[c]!.count),
+      formatAmount(byCategory[c]!.orderValue),
+      formatAmount(byCategory[c]!.refundAmount),
+    ]),
+    foot: [[t('common.total'), String(total.count), formatAmount(total.orderValue), formatAmount(total.refundAmount)]],
+    startY: startY + 20,
+    styles: { fontSize: 10 },
+    headStyles: { fillColor: GRAY_700 },
+    footStyles: { fillColor: [243, 244, 246], textColor: 0 },
+    tableWidth: 140,
+    theme: 'grid'
+  });
+};
+
+// Same charts as the dashboard, drawn with jsPDF primitives on their own page
+const addTrendsPage = (doc: jsPDF, orders: AuditedOrder[], registry: PlatformDefinition[], i18n: Translator): void => {
+  const { t, formatDate, formatDayMonth } = i18n;
+  doc.addPage();
+  doc.setFontSize(14);
+  doc.setTextColor(0);
+  doc.text(t('pdf.trends'), 14, 22);
+
+  doc.setFontSize(11);
+  doc.setTextColor(60);
+  doc.text(t('pdf.dailyByRestaurant'), 14, 32);
+  let y = drawDailyChart(doc, buildDailySeries(orders, 'restaurantName'), 'restaurantName', registry, { x: 14, y: 36, width: 182, height: 48 }, formatDayMonth);
+
+  doc.setFontSize(11);
+  doc.setTextColor(60);
+  doc.text(t('pdf.dailyByPlatform'), 14, y + 6);
+  y = drawDailyChart(doc, buildDailySeries(orders, 'platform'), 'platform', registry, { x: 14, y: y + 10, width: 182, height: 40 }, formatDayMonth);
+
+  doc.setFontSize(11);
+  doc.setTextColor(60);
+  doc.text(t('trends.heatmap'), 14, y + 6);
+  y = drawHourHeatmap(doc, buildHourHeatmap(orders), 14, y + 12, i18n.weekdayLabels);
+
+  (['restaurantName', 'platform'] as const).forEach(dimension => {
+    const wow = buildWeekOverWeek(orders, dimension, t('common.total'));
+    if (!wow) return;
+    autoTable(doc, {
+      head: [[
+        dimension === 'platform' ? t('field.platform') : t('field.restaurantName'),
+        t('trends.previousWeek'),
+        t('trends.weekOf', { date: formatDate(wow.weekStart) }),
+        t('trends.change')
+      ]],
+      body: [...wow.rows, wow.total].map(row => [row.name, String(row.previous), String(row.current), formatDelta(row)]),
+      startY: y + 8,
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: GRAY_700 },
+      theme: 'grid',
+      didParseCell: (data: CellHookData) => {
+        if (data.section !== 'body' || data.column.index !== 3) return;
+        const delta = [...wow.rows, wow.total][data.row.index].delta;
+        // More errors is worse: increases in red, decreases in green
+        if (delta > 0) data.cell.styles.textColor = [220, 38, 38];
+        if (delta < 0) data.cell.styles.textColor = [22, 163, 74];
+      }
+    });
+    y = (doc as any).lastAutoTable.finalY;
+  });
+};
+
+const addCorrectionsAppendix = (doc: jsPDF, corrections: OrderCorrection[], i18n: Translator): void => {
+  const { t, formatDateTime } = i18n;
+  doc.addPage();
+  doc.setFontSize(14);
+  doc.setTextColor(0);
+  doc.text(t('pdf.appendix'), 14, 22);
+
+  autoTable(doc, {
+    head: [[
+      t('corrections.col.when'),
+      t('corrections.col.who'),
+      t('corrections.col.action'),
+      t('field.orderNumber'),
+      t('corrections.col.field'),
+      t('corrections.col.oldValue'),
+      t('corrections.col.newValue'),
+    ]],
+    body: corrections.map(c => [
+      formatDateTime(c.createdAt),
+      c.author,
+      t(ACTION_LABEL_KEYS[c.action]),
+      `${c.platform} #${c.orderNumber}`,
+      c.field ? t(FIELD_LABEL_KEYS[c.field]) : '—',
+      correctionValueText(c.field, c.oldValue, i18n),
+      correctionValueText(c.field, c.newValue, i18n),
+    ]),
+    startY: 28,
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: GRAY_700 },
+    theme: 'grid'
+  });
+};
+
+/** The combined report: exceptions, orders, restaurant × platform summary, and optionally trends and corrections. */
+const buildReportPdf = (
+  orders: AuditedOrder[],
+  summary: SummaryStats,
+  template: ReportTemplate,
+  registry: PlatformDefinition[],
+  i18n: Translator,
+  options: ReportOptions
+): jsPDF => {
+  const doc = new jsPDF();
+  const headerY = drawHeader(doc, template, options.title, options.filterLines ?? [], i18n);
+  const tableStartY = options.breaches?.length ? drawExceptions(doc, options.breaches, headerY, i18n) : headerY;
+  const finalY = drawOrdersTable(doc, orders, template, tableStartY, i18n);
+  const summaryY = drawSummaryTable(doc, summary, finalY, i18n);
+  drawCategoryTable(doc, summary, summaryY, i18n);
+
+  if (options.includeTrends && orders.length > 0) {
+    addTrendsPage(doc, orders, registry, i18n);
+  }
+  if (options.corrections?.length) {
+    addCorrectionsAppendix(doc, options.corrections, i18n);
+  }
+
+  drawFooters(doc, template);
+  return doc;
+};
+
+/** One store's report: only its orders and how they split across platforms. */
+const buildRestaurantReportPdf = (
+  restaurantName: string,
+  orders: AuditedOrder[],
+  template: ReportTemplate,
+  registry: PlatformDefinition[],
+  i18n: Translator,
+  filterLines: string[] = []
+): jsPDF => {
+  const doc = new jsPDF();
+  const summary = buildSummaryStats(orders, registry);
+  const tableStartY = drawHeader(doc, template, i18n.t('pdf.restaurantTitle', { name: restaurantName }), filterLines, i18n);
+  const finalY = drawOrdersTable(doc, orders, template, tableStartY, i18n);
+  drawPlatformBreakdown(doc, summary.stats[restaurantName] ?? { total: 0 }, summary.platforms, finalY, i18n);
+  drawCategoryBreakdown(doc, summary, restaurantName, (doc as any).lastAutoTable.finalY, i18n);
+  drawFooters(doc, template);
+  return doc;
+};
+
+// Keeps names valid on Windows, macOS and Linux alike
+const safeFileName = (name: string): string =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '') || 'restaurante';
+
+/**
+ * One PDF per restaurant, zipped. Names that collapse to the same file name
+ * (e.g. differing only in accents) get a numeric suffix instead of overwriting.
+ */
+const buildRestaurantBundle = async (
+  orders: AuditedOrder[],
+  template: ReportTemplate,
+  registry: PlatformDefinition[],
+  i18n: Translator,
+  filterLines: string[] = []
+): Promise<Uint8Array> => {
+  const zip = new JSZip();
+  const stamp = new Date().toISOString().slice(0, 10);
+  const used = new Set<string>();
+  const byRestaurant = new Map<string, AuditedOrder[]>();
+  orders.forEach(order => {
+    const list = byRestaurant.get(order.restaurantName) ?? [];
+    list.push(order);
+    byRestaurant.set(order.restaurantName, list);
+  });
+
+  Array.from(byRestaurant.keys())
+    .sort((a, b) => a.localeCompare(b))
+    .forEach(restaurantName => {
+      const base = `${i18n.t('file.report')}_${safeFileName(restaurantName)}_${stamp}`;
+      let fileName = `${base}.pdf`;
+      for (let n = 2; used.has(fileName); n++) fileName = `${base}_${n}.pdf`;
+      used.add(fileName);
+      const doc = buildRestaurantReportPdf(restaurantName, byRestaurant.get(restaurantName)!, template, registry, i18n, filterLines);
+      zip.file(fileName, doc.output('arraybuffer'));
+    });
+
+  return zip.generateAsync({ type: 'uint8array' });
+};
+
+export {
+  buildReportPdf,
+  buildRestaurantReportPdf,
+  buildRestaurantBundle,
+};
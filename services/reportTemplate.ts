@@ -0,0 +1,79 @@
+import { ReportColumn, ReportTemplate } from "../types.ts";
+import { MessageKey } from "./i18n.ts";
+import { loadFromStorage, saveToStorage } from "../utils/storage.ts";
+
+const STORAGE_KEY = 'orderaudit.reportTemplate';
+
+const REPORT_COLUMNS: ReportColumn[] = [
+  'platform', 'orderNumber', 'restaurantName', 'date', 'time', 'customerName', 'category', 'orderValue', 'refundAmount', 'sourceFile', 'page',
+];
+
+const REPORT_COLUMN_LABEL_KEYS: Record<ReportColumn, MessageKey> = {
+  platform: 'field.platform',
+  orderNumber: 'field.orderNumber',
+  restaurantName: 'field.restaurantName',
+  date: 'field.date',
+  time: 'field.time',
+  customerName: 'field.customerName',
+  category: 'field.category',
+  orderValue: 'field.orderValue',
+  refundAmount: 'field.refundAmount',
+  sourceFile: 'field.sourceFile',
+  page: 'field.page',
+};
+
+const DEFAULT_REPORT_TEMPLATE: ReportTemplate = {
+  companyName: '',
+  accentColor: '#0284c7', // brand-600
+  footerNote: '',
+  columns: ['platform', 'orderNumber', 'restaurantName', 'date', 'time', 'customerName', 'category', 'refundAmount'],
+};
+
+// The logo travels inside localStorage, so it has to stay well under its quota
+const MAX_LOGO_BYTES = 300 * 1024;
+
+const LOGO_MIME_TYPES = ['image/png', 'image/jpeg'];
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const sanitizeReportTemplate = (template: Partial<ReportTemplate>): ReportTemplate => {
+  const columns = Array.isArray(template.columns)
+    ? REPORT_COLUMNS.filter(column => template.columns!.includes(column))
+    : DEFAULT_REPORT_TEMPLATE.columns;
+  const logo = typeof template.logoDataUrl === 'string' && /^data:image\/(png|jpeg);base64,/.test(template.logoDataUrl)
+    ? template.logoDataUrl
+    : undefined;
+  return {
+    companyName: typeof template.companyName === 'string' ? template.companyName : '',
+    logoDataUrl: logo,
+    accentColor: typeof template.accentColor === 'string' && HEX_COLOR.test(template.accentColor)
+      ? template.accentColor.toLowerCase()
+      : DEFAULT_REPORT_TEMPLATE.accentColor,
+    footerNote: typeof template.footerNote === 'string' ? template.footerNote : '',
+    // A table without columns is useless; fall back instead of printing empty rows
+    columns: columns.length > 0 ? columns : DEFAULT_REPORT_TEMPLATE.columns,
+  };
+};
+
+const loadReportTemplate = (): ReportTemplate =>
+  sanitizeReportTemplate(loadFromStorage<Partial<ReportTemplate>>(STORAGE_KEY, DEFAULT_REPORT_TEMPLATE));
+
+const saveReportTemplate = (template: ReportTemplate): void =>
+  saveToStorage(STORAGE_KEY, template);
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+export {
+  REPORT_COLUMNS,
+  REPORT_COLUMN_LABEL_KEYS,
+  DEFAULT_REPORT_TEMPLATE,
+  MAX_LOGO_BYTES,
+  LOGO_MIME_TYPES,
+  sanitizeReportTemplate,
+  loadReportTemplate,
+  saveReportTemplate,
+  hexToRgb,
+};
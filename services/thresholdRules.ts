@@ -0,0 +1,55 @@
+import { ThresholdKind, ThresholdPeriod, ThresholdRule } from "../types.ts";
+import { loadFromStorage, saveToStorage } from "../utils/storage.ts";
+
+const STORAGE_KEY = 'orderaudit.thresholdRules';
+
+// The two limits the stores asked for first; seeded on first load
+const DEFAULT_THRESHOLD_RULES: ThresholdRule[] = [
+  { id: 'daily-errors', restaurant: '', platform: '', period: 'day', kind: 'count', limit: 5 },
+  { id: 'bolt-weekly-change', restaurant: '', platform: 'Bolt', period: 'week', kind: 'change', limit: 100 },
+];
+
+const THRESHOLD_PERIODS: ThresholdPeriod[] = ['day', 'week'];
+
+const THRESHOLD_KINDS: ThresholdKind[] = ['count', 'change'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Keeps the well-formed rules of a stored or imported list (the CLI reads them
+ * from JSON); a rule with an unknown period or kind, or no usable limit, is dropped.
+ */
+const sanitizeThresholdRules = (value: unknown): ThresholdRule[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(item => {
+    if (!isRecord(item)) return [];
+    const limit = Number(item.limit);
+    const period = THRESHOLD_PERIODS.find(p => p === item.period);
+    const kind = THRESHOLD_KINDS.find(k => k === item.kind);
+    if (!period || !kind || !Number.isFinite(limit) || limit < 0) return [];
+    return [{
+      id: typeof item.id === 'string' && item.id ? item.id : crypto.randomUUID(),
+      restaurant: typeof item.restaurant === 'string' ? item.restaurant.trim() : '',
+      platform: typeof item.platform === 'string' ? item.platform.trim() : '',
+      period,
+      kind,
+      limit,
+    }];
+  });
+};
+
+const loadThresholdRules = (): ThresholdRule[] =>
+  sanitizeThresholdRules(loadFromStorage<unknown>(STORAGE_KEY, DEFAULT_THRESHOLD_RULES));
+
+const saveThresholdRules = (rules: ThresholdRule[]): void =>
+  saveToStorage(STORAGE_KEY, rules);
+
+export {
+  DEFAULT_THRESHOLD_RULES,
+  THRESHOLD_PERIODS,
+  THRESHOLD_KINDS,
+  sanitizeThresholdRules,
+  loadThresholdRules,
+  saveThresholdRules,
+};
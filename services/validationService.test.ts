@@ -0,0 +1,20 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BUILT_IN_PLATFORMS } from './platforms.ts';
+import { validateOrderRow } from './validationService.ts';
+
+const row = {
+  platform: 'Glovo', orderNumber: '101548765', rawStoreName: 'Amoreiras', date: '2026-01-14', time: '12:41',
+};
+
+test('keeps a row whose refund is printed as a deduction', () => {
+  const result = validateOrderRow({ ...row, refundAmount: -12.5, orderValue: '-18,90 €' }, BUILT_IN_PLATFORMS);
+  assert.ok('order' in result);
+  assert.equal(result.order.refundAmount, 12.5);
+  assert.equal(result.order.orderValue, 18.9);
+});
+
+test('still rejects an amount that is not a number', () => {
+  const result = validateOrderRow({ ...row, refundAmount: 'n/a' }, BUILT_IN_PLATFORMS);
+  assert.deepEqual('reasons' in result && result.reasons, [{ code: 'REFUND_INVALID', params: { value: 'n/a' } }]);
+});
@@ -0,0 +1,174 @@
+import { OrderError, PlatformDefinition, RejectedRow, RowIssue, SourceRegion } from "../types.ts";
+import { formatMinutes, parseOrderDate, parseOrderTime, toIsoDate } from "../utils/dateHelpers.ts";
+import { parseAmount } from "../utils/money.ts";
+import { isPlatform, isValidOrderId, normalizeOrderId, platformNames } from "./platforms.ts";
+import { ExtractionError } from "./extractionErrors.ts";
+import { categorizeText, isErrorCategory } from "./errorCategories.ts";
+
+export interface ValidationResult {
+  orders: OrderError[];
+  rejectedRows: RejectedRow[];
+}
+
+export interface ModelResponse {
+  isOrderReport?: boolean;
+  rows: unknown[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readString = (row: Record<string, unknown>, field: string): string | null => {
+  const value = row[field];
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+};
+
+// Long enough for a wrapped row; anything longer is not a single row
+const MAX_SNIPPET_LENGTH = 300;
+
+const isFraction = (value: unknown): value is number =>
+  typeof value === 'number' && value >= 0 && value <= 1;
+
+/**
+ * Model boxes follow the Gemini convention, [ymin, xmin, ymax, xmax] scaled to
+ * 0-1000; stored orders already carry a SourceRegion. Anything else is dropped.
+ */
+const readRegion = (value: unknown): SourceRegion | undefined => {
+  if (isRecord(value)) {
+    const { x, y, width, height } = value;
+    return [x, y, width, height].every(isFraction) ? { x, y, width, height } as SourceRegion : undefined;
+  }
+  if (!Array.isArray(value) || value.length !== 4) return undefined;
+  if (!value.every(v => typeof v === 'number' && v >= 0 && v <= 1000)) return undefined;
+  const [ymin, xmin, ymax, xmax] = value as number[];
+  if (ymax <= ymin || xmax <= xmin) return undefined;
+  return { x: xmin / 1000, y: ymin / 1000, width: (xmax - xmin) / 1000, height: (ymax - ymin) / 1000 };
+};
+
+// Amounts arrive as numbers from the model and as typed text from review mode; blank means not shown.
+// Refunds are often printed as deductions (-12,50 €); the impact is the amount either way
+const readAmount = (row: Record<string, unknown>, field: string): number | undefined | null => {
+  const value = row[field];
+  if (value === undefined || value === null || (typeof value === 'string' && !value.trim())) return undefined;
+  const amount = typeof value === 'number' ? value : typeof value === 'string' ? parseAmount(value) : null;
+  return amount !== null && Number.isFinite(amount) ? Math.round(Math.abs(amount) * 100) / 100 : null;
+};
+
+/**
+ * Parses the raw model text. Accepts the `{ isOrderReport, orders }` envelope and a
+ * bare array (older prompts); anything else is a file-level INVALID_JSON error.
+ */
+const parseModelResponse = (text: string): ModelResponse => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (parseError) {
+    throw new ExtractionError('INVALID_JSON', (parseError as Error).message);
+  }
+
+  if (Array.isArray(parsed)) return { rows: parsed };
+  if (!isRecord(parsed)) {
+    throw new ExtractionError('INVALID_JSON', 'expected an object with the order list');
+  }
+  const orders = parsed.orders ?? [];
+  if (!Array.isArray(orders)) {
+    throw new ExtractionError('INVALID_JSON', '"orders" is not a list');
+  }
+  return {
+    isOrderReport: typeof parsed.isOrderReport === 'boolean' ? parsed.isOrderReport : undefined,
+    rows: orders,
+  };
+};
+
+/** Checks one row; returns the cleaned order or every reason it was rejected. */
+const validateOrderRow = (value: unknown, registry: PlatformDefinition[]): { order: OrderError } | { reasons: RowIssue[] } => {
+  if (!isRecord(value)) return { reasons: [{ code: 'NOT_AN_OBJECT' }] };
+
+  const reasons: RowIssue[] = [];
+  const platform = value.platform;
+  if (!isPlatform(platform, registry)) {
+    reasons.push(platform === undefined || platform === null || platform === ''
+      ? { code: 'PLATFORM_MISSING' }
+      : { code: 'PLATFORM_UNKNOWN', params: { platform: String(platform), supported: platformNames(registry).join(', ') } });
+  }
+
+  const rawOrderNumber = readString(value, 'orderNumber');
+  const orderNumber = rawOrderNumber ? normalizeOrderId(rawOrderNumber) : '';
+  if (!rawOrderNumber) {
+    reasons.push({ code: 'ORDER_ID_MISSING' });
+  } else if (isPlatform(platform, registry) && !isValidOrderId(platform, orderNumber, registry)) {
+    reasons.push({ code: 'ORDER_ID_FORMAT', params: { orderId: rawOrderNumber, platform } });
+  }
+
+  const store = readString(value, 'rawStoreName') ?? readString(value, 'restaurantName');
+  if (!store) reasons.push({ code: 'STORE_MISSING' });
+
+  const rawDate = readString(value, 'date');
+  const date = rawDate ? parseOrderDate(rawDate) : null;
+  if (!rawDate) reasons.push({ code: 'DATE_MISSING' });
+  else if (!date) reasons.push({ code: 'DATE_INVALID', params: { value: rawDate } });
+
+  const rawTime = readString(value, 'time');
+  const minutes = rawTime ? parseOrderTime(rawTime) : null;
+  if (!rawTime) reasons.push({ code: 'TIME_MISSING' });
+  else if (minutes === null) reasons.push({ code: 'TIME_INVALID', params: { value: rawTime } });
+
+  const customer = value.customerName;
+  if (customer !== undefined && customer !== null && typeof customer !== 'string') {
+    reasons.push({ code: 'CUSTOMER_NOT_TEXT' });
+  }
+
+  const orderValue = readAmount(value, 'orderValue');
+  if (orderValue === null) reasons.push({ code: 'ORDER_VALUE_INVALID', params: { value: String(value.orderValue) } });
+  const refundAmount = readAmount(value, 'refundAmount');
+  if (refundAmount === null) reasons.push({ code: 'REFUND_INVALID', params: { value: String(value.refundAmount) } });
+
+  if (reasons.length > 0) return { reasons };
+
+  // Location is provenance, not data: a missing or odd value is dropped, never a rejection
+  const page = typeof value.page === 'number' && Number.isInteger(value.page) && value.page >= 1
+    ? value.page
+    : undefined;
+  const snippet = readString(value, 'snippet')?.replace(/\s+/g, ' ').slice(0, MAX_SNIPPET_LENGTH);
+  const region = readRegion(value.region ?? value.boundingBox);
+  // A status the schema did not anticipate is still an error, just an unclassified one
+  const rawCategory = readString(value, 'category');
+  const category = rawCategory ? (isErrorCategory(rawCategory) ? rawCategory : categorizeText(rawCategory)) : undefined;
+
+  // restaurantName starts as the raw store; normalization rules are applied by the caller
+  return {
+    order: {
+      orderNumber,
+      rawStoreName: store!,
+      restaurantName: store!,
+      date: toIsoDate(date!),
+      time: formatMinutes(minutes!),
+      customerName: (typeof customer === 'string' && customer.trim()) || 'N/A',
+      platform: platform as string,
+      ...(page !== undefined ? { page } : {}),
+      ...(snippet ? { snippet } : {}),
+      ...(region ? { region } : {}),
+      ...(category ? { category } : {}),
+      ...(typeof orderValue === 'number' ? { orderValue } : {}),
+      ...(typeof refundAmount === 'number' ? { refundAmount } : {}),
+    },
+  };
+};
+
+/**
+ * Splits extractor rows into valid orders (dates as YYYY-MM-DD, times as HH:MM)
+ * and rejected rows carrying the specific reasons, for the "needs review" list.
+ */
+const validateOrderRows = (rows: unknown[], registry: PlatformDefinition[]): ValidationResult => {
+  const orders: OrderError[] = [];
+  const rejectedRows: RejectedRow[] = [];
+  rows.forEach(row => {
+    const result = validateOrderRow(row, registry);
+    if ('order' in result) orders.push(result.order);
+    else rejectedRows.push({ raw: isRecord(row) ? row : { value: row }, reasons: result.reasons });
+  });
+  return { orders, rejectedRows };
+};
+
+export { parseModelResponse, validateOrderRow, validateOrderRows };
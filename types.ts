@@ -1,19 +1,433 @@
 export interface OrderError {
   orderNumber: string;
   restaurantName: string;
+  rawStoreName?: string; // Store name/address exactly as printed, before normalization
   date: string;
   time: string;
   customerName: string;
-  platform: 'Glovo' | 'Uber Eats' | 'Bolt' | 'Unknown';
+  platform: string; // PlatformDefinition.name, or UNKNOWN_PLATFORM
+  page?: number; // 1-based page of the source document the row was read from
+  snippet?: string; // Row text as printed, used to find the row again in the source preview
+  region?: SourceRegion; // Where the row sits on its page, when the extractor reports it
+  category?: ErrorCategory; // What went wrong, when the report says
+  orderValue?: number; // Order total in €, when printed
+  refundAmount?: number; // Refund or penalty charged to the restaurant in €, when printed
+}
+
+// What went wrong with an order, as the partner reports classify it
+export type ErrorCategory = 'cancelled' | 'missing-item' | 'wrong-item' | 'late' | 'refunded' | 'quality' | 'other';
+
+// A delivery partner the extractors, validation, summaries and badges know about
+export interface PlatformDefinition {
+  name: string;
+  color: string; // Hex; badge background and chart line
+  hints: string[]; // Words that identify its documents, e.g. "Uber Eats"; told to the model and matched by the local reader
+  orderIdPattern: string; // Regular expression source for a whole order ID, matched case-insensitively; custom ones limited to a safe shape
+  orderIdExample?: string; // Shown to the model and in the settings, e.g. "2E955"
+  priority: number; // Column order in summaries; lower comes first
+  builtIn?: boolean; // Shipped with the app; custom platforms are kept in localStorage
+}
+
+// A box on a page or image as fractions of its width and height, from the top-left corner
+export interface SourceRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type ExtractionErrorCode =
+  | 'MISSING_API_KEY'
+  | 'INVALID_API_KEY'
+  | 'QUOTA_EXCEEDED'
+  | 'SERVER_ERROR'
+  | 'NETWORK_ERROR'
+  | 'INVALID_JSON'
+  | 'OUTPUT_TRUNCATED'
+  | 'EMPTY_DOCUMENT'
+  | 'UNSUPPORTED_LAYOUT'
+  | 'FILE_TOO_LARGE'
+  | 'UNSUPPORTED_FILE_TYPE'
+  | 'RATE_LIMITED'
+  | 'CANCELLED'
+  | 'UNKNOWN';
+
+// How an uploaded file is read: printed PDF, screenshot, or a saved web page
+export type SourceKind = 'pdf' | 'image' | 'html' | 'mhtml';
+
+// A file refused at upload time, listed with the reason instead of processed
+export type RejectionReason = 'unsupported' | 'empty' | 'tooLarge';
+
+export interface RejectedFile {
+  name: string;
+  size: number;
+  reason: RejectionReason;
+  type?: string; // Reported MIME type, with 'unsupported'
+  maxSizeMb?: number; // Limit for the file's kind, with 'tooLarge'
 }
 
 export interface ExtractedFileResult {
+  id: string;
   fileName: string;
-  status: 'processing' | 'success' | 'error';
+  sourceKind?: SourceKind;
+  status: 'queued' | 'processing' | 'success' | 'error';
   orders: OrderError[];
   errorMessage?: string;
+  errorCode?: ExtractionErrorCode;
+  attempt?: number;
+  engine?: ExtractorEngine; // Engine that actually produced the orders
+  rejectedRows?: RejectedRow[]; // Rows that failed validation and need manual review
+  pageCount?: number;
+  pagesProcessed?: number;
+  fromCache?: boolean; // Orders came from the local extraction cache, no extractor was called
+}
+
+// Why a row failed validation; the UI turns code + params into a message
+export type RowIssueCode =
+  | 'NOT_AN_OBJECT'
+  | 'PLATFORM_MISSING'
+  | 'PLATFORM_UNKNOWN'
+  | 'ORDER_ID_MISSING'
+  | 'ORDER_ID_FORMAT'
+  | 'STORE_MISSING'
+  | 'DATE_MISSING'
+  | 'DATE_INVALID'
+  | 'TIME_MISSING'
+  | 'TIME_INVALID'
+  | 'CUSTOMER_NOT_TEXT'
+  | 'ORDER_VALUE_INVALID'
+  | 'REFUND_INVALID';
+
+export interface RowIssue {
+  code: RowIssueCode;
+  params?: Record<string, string>;
+}
+
+// A row returned by an extractor that failed validation, kept as received
+export interface RejectedRow {
+  raw: Record<string, unknown>;
+  reasons: (RowIssue | string)[]; // Plain text in runs saved before reasons had codes
+}
+
+// An order after cross-file deduplication, keyed on platform + order number
+export interface AuditedOrder extends OrderError {
+  key: string;
+  sourceFile: string;
+  sourceFiles: string[];
+  sourceId?: string; // ExtractedFileResult.id of sourceFile, to open the original in the preview
+  hasConflict?: boolean;
+  editedFields?: EditableOrderField[]; // Fields changed in review mode
+  isManual?: boolean; // Added by hand in review mode
+  confirmedBy?: string; // Reviewer who checked the row against the source document
+}
+
+export type EditableOrderField = 'orderNumber' | 'restaurantName' | 'date' | 'time' | 'customerName' | 'platform' | 'category' | 'orderValue' | 'refundAmount';
+
+// One manual change made in review mode, kept as an audit trail
+export interface OrderCorrection {
+  id: string;
+  action: 'edit' | 'delete' | 'add' | 'confirm';
+  orderKey: string; // AuditedOrder.key the change applies to
+  orderNumber: string;
+  platform: OrderError['platform'];
+  field?: EditableOrderField;
+  oldValue?: string;
+  newValue?: string;
+  order?: OrderError; // The full order, for 'add'
+  author: string;
+  createdAt: string;
+}
+
+export type ComparableOrderField = 'restaurantName' | 'date' | 'time' | 'customerName';
+
+export interface OrderConflict {
+  key: string;
+  platform: OrderError['platform'];
+  orderNumber: string;
+  fields: ComparableOrderField[];
+  variants: AuditedOrder[];
+  resolvedIndex?: number;
+}
+
+export interface DeduplicationResult {
+  orders: AuditedOrder[];
+  duplicatesRemoved: number;
+  conflicts: OrderConflict[];
+}
+
+// Combined table filters; empty strings and lists mean "no restriction"
+export interface OrderFilters {
+  search: string; // Matches order number or customer name
+  restaurants: string[];
+  platforms: string[];
+  sourceFile: string;
+  dateFrom: string; // YYYY-MM-DD
+  dateTo: string;
+  timeFrom: string; // HH:MM
+  timeTo: string;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface OrderSort {
+  field: EditableOrderField;
+  direction: SortDirection;
+}
+
+// Columns of a POS/order-management export the reconciliation understands
+export type PosField = 'orderNumber' | 'platform' | 'restaurant' | 'date' | 'time' | 'amount' | 'shift';
+
+// CSV header chosen for each field; unmapped fields are left out
+export type PosColumnMapping = Partial<Record<PosField, string>>;
+
+// One row of the POS export after column mapping
+export interface PosRecord {
+  row: number; // 1-based data row in the CSV, for pointing back to the file
+  orderNumber?: string;
+  platform?: string;
+  restaurant?: string;
+  date?: string; // YYYY-MM-DD
+  time?: string; // HH:MM
+  amount?: number;
+  shift?: string;
+  raw: Record<string, string>;
+}
+
+// A POS export loaded for reconciliation
+export interface PosImport {
+  fileName: string;
+  records: PosRecord[];
+  timeWindowMinutes: number; // Tolerance of the restaurant + date + time fallback
+}
+
+export type ReconciliationMethod = 'orderNumber' | 'fuzzy';
+
+export interface ReconciliationMatch {
+  order: AuditedOrder;
+  record: PosRecord;
+  method: ReconciliationMethod;
+}
+
+// An order with several POS rows that fit equally well
+export interface AmbiguousMatch {
+  order: AuditedOrder;
+  candidates: PosRecord[];
+}
+
+export interface ReconciliationResult {
+  matched: ReconciliationMatch[];
+  missing: AuditedOrder[]; // In the partner report but not in the POS
+  ambiguous: AmbiguousMatch[];
+}
+
+export type ReconciliationBucket = keyof ReconciliationResult;
+
+export interface RestaurantStats {
+  [key: string]: number;
+  total: number;
+}
+
+// Orders without a category are summed apart rather than guessed into one
+export type SummaryCategory = ErrorCategory | 'uncategorized';
+
+// Order count and € totals of a group of orders; amounts missing from the reports count as 0
+export interface ImpactStats {
+  count: number;
+  orderValue: number;
+  refundAmount: number; // The € impact: refunds and penalties charged to the restaurant
 }
 
+// Restaurant × platform order counts, plus € impact per restaurant and category, shown in the summary table and reports
+export interface SummaryStats {
+  stats: Record<string, RestaurantStats>;
+  platforms: string[];
+  impact: Record<string, ImpactStats>; // By restaurant, all categories
+  categories: SummaryCategory[]; // Present in the orders, in ERROR_CATEGORIES order
+  byCategory: Record<string, Partial<Record<SummaryCategory, ImpactStats>>>; // Restaurant → category
+}
+
+export type TrendDimension = 'restaurantName' | 'platform';
+
+// Orders per day for each restaurant or platform, over a continuous date range
+export interface DailySeries {
+  dates: string[]; // YYYY-MM-DD
+  series: { name: string; values: number[] }[];
+}
+
+// Orders per weekday (Monday first) × hour of day
+export interface HourHeatmap {
+  cells: number[][]; // [weekday][hour]
+  max: number;
+}
+
+export interface WeekOverWeekRow {
+  name: string;
+  current: number;
+  previous: number;
+  delta: number;
+  deltaPct: number | null; // null when the previous week had no orders
+}
+
+export interface WeekOverWeek {
+  weekStart: string; // Monday of the latest week with data
+  rows: WeekOverWeekRow[];
+  total: WeekOverWeekRow;
+}
+
+export type PatternKind = 'multi-store' | 'multi-platform' | 'repeat-category';
+
+// Something unusual in one customer's errors
+export interface PatternFlag {
+  kind: PatternKind;
+  count: number; // Stores, platforms or orders involved
+  from?: string; // YYYY-MM-DD, for multi-store: the window where it happened
+  to?: string;
+  category?: ErrorCategory; // For repeat-category
+}
+
+// The orders of one person, matched by name across platforms and restaurants
+export interface CustomerGroup {
+  id: string;
+  name: string; // Most frequent spelling
+  variants: string[]; // Every spelling merged into the group
+  orders: AuditedOrder[]; // Oldest first
+  platforms: string[];
+  restaurants: string[];
+  refundAmount: number;
+  flags: PatternFlag[];
+}
+
+export interface PatternOptions {
+  windowDays: number; // Length of the multi-store window
+  minStores: number; // Distinct stores within the window to flag it
+  minRepeats: number; // Orders with the same category to flag it
+}
+
+export type MaskingMode = 'none' | 'initials' | 'pseudonym';
+
+export interface PrivacySettings {
+  maskingMode: MaskingMode; // How customer names appear in the table, PDFs and exports
+  retentionDays: number | null; // Customer data in saved runs and the cache is purged after this; null keeps it
+  pseudonymSalt: string; // Random per browser, so pseudonyms can't be checked against a list of names
+}
+
+// Turns a customer name into what may be shown; absent when full names are visible
+export type NameMasker = (name: string) => string;
+
+// What a purge removed, reported back to the user
+export interface PurgeReport {
+  runIds: string[]; // Saved runs that held customer data
+  customerNames: number; // Orders and rejected rows whose customer name was cleared
+  files: number; // Original documents deleted, since they print the names too
+  cacheEntries: number;
+}
+
+// Columns the PDF orders table can show, in this order
+export type ReportColumn = EditableOrderField | 'sourceFile' | 'page';
+
+// Branding and layout applied to every generated PDF report
+export interface ReportTemplate {
+  companyName: string;
+  logoDataUrl?: string; // PNG or JPEG as a data URL
+  accentColor: string; // Hex, e.g. #0284c7; used for the orders table header
+  footerNote: string; // Printed at the bottom of every page
+  columns: ReportColumn[];
+}
+
+export interface NormalizationRule {
+  id: string;
+  keywords: string[];
+  canonicalName: string;
+}
+
+export type ThresholdPeriod = 'day' | 'week';
+
+// 'count': more errors than `limit` in one period; 'change': a rise of more than `limit` % on the period before
+export type ThresholdKind = 'count' | 'change';
+
+export interface ThresholdRule {
+  id: string;
+  restaurant: string; // Empty checks every restaurant, each on its own
+  platform: string; // Empty counts errors from every platform
+  period: ThresholdPeriod;
+  kind: ThresholdKind;
+  limit: number;
+}
+
+export interface ThresholdBreach {
+  rule: ThresholdRule;
+  restaurant: string;
+  periodStart: string; // YYYY-MM-DD; the Monday for weekly rules
+  count: number;
+  previous?: number; // Errors in the period before, for 'change' rules
+  orders: AuditedOrder[]; // The errors counted, oldest first
+}
+
+export interface StoredFile {
+  id: string; // Same id as the ExtractedFileResult it produced
+  name: string;
+  type: string;
+  size: number;
+  lastModified: number;
+  blob: Blob;
+}
+
+// One upload session as persisted in IndexedDB
+export interface AuditRun {
+  id: string;
+  name: string;
+  createdAt: string;
+  files: StoredFile[];
+  results: ExtractedFileResult[];
+  rules: NormalizationRule[];
+  conflictResolutions: Record<string, number>;
+  corrections?: OrderCorrection[]; // Missing on runs saved before review mode
+}
+
+export type ExtractorEngine = 'gemini' | 'local' | 'local-first' | 'mock';
+
+// What an extractor hands back for one file
+export interface ExtractionOutput {
+  orders: OrderError[];
+  engine: ExtractorEngine;
+  rejectedRows?: RejectedRow[];
+  pageCount?: number;
+  pagesProcessed?: number;
+  fromCache?: boolean;
+}
+
+// An extraction kept in IndexedDB, reused when the same file content is uploaded again
+export interface CachedExtraction {
+  key: string; // Cache version + engine + content hash
+  contentHash: string; // SHA-256 of the file bytes, hex
+  engine: ExtractorEngine; // Engine that was asked to extract, not necessarily the one that answered
+  fileName: string; // Name at the time it was cached, for display only
+  createdAt: string;
+  output: ExtractionOutput;
+}
+
+// Body of a successful POST /api/extract
+export type ExtractApiResponse = Omit<ExtractionOutput, 'engine'>;
+
+// Body of a failed /api/* request
+export interface ApiErrorBody {
+  error: {
+    code: ExtractionErrorCode;
+    message: string;
+    detail?: string;
+    retryAfterSeconds?: number; // Set with RATE_LIMITED and QUOTA_EXCEEDED
+  };
+}
+
+export interface ExtractionSettings {
+  concurrency: number;
+  maxRetries: number;
+  engine: ExtractorEngine;
+}
+
+// UI language; also used for dates, amounts and exported file names
+export type Locale = 'pt-PT' | 'pt-BR' | 'en';
+
 export enum ProcessingStatus {
   IDLE = 'IDLE',
   PROCESSING = 'PROCESSING',
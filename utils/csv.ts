@@ -0,0 +1,74 @@
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+const DELIMITERS = [';', ',', '\t'];
+
+// The delimiter seen most often on the header line, outside quotes
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  let best = DELIMITERS[0];
+  let bestCount = -1;
+  DELIMITERS.forEach(delimiter => {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+/**
+ * Parses CSV as written by Excel and most POS back offices: optional BOM, comma,
+ * semicolon or tab delimiters, quoted fields with doubled quotes and line breaks.
+ * Blank lines are skipped; short rows are padded to the header width.
+ */
+export const parseCsv = (input: string): CsvTable => {
+  const text = input.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(text);
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+  };
+  const endRecord = () => {
+    endField();
+    if (record.some(value => value.trim())) records.push(record);
+    record = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) endRecord();
+
+  const [headerRow = [], ...body] = records;
+  const headers = headerRow.map(h => h.trim());
+  const rows = body.map(row => headers.map((_, idx) => (row[idx] ?? '').trim()));
+  return { headers, rows };
+};
@@ -0,0 +1,168 @@
+import { AuditedOrder, CustomerGroup, ErrorCategory, PatternFlag, PatternOptions } from '../types.ts';
+import { Translator } from '../services/i18n.ts';
+import { CATEGORY_LABEL_KEYS } from '../services/errorCategories.ts';
+import { parseOrderDate, parseOrderTime } from './dateHelpers.ts';
+
+export const DEFAULT_PATTERN_OPTIONS: PatternOptions = { windowDays: 7, minStores: 3, minRepeats: 3 };
+
+// What the extractors write when no name is printed (Glovo never shows one)
+const NO_NAME = /^(n\/?a|-+|—|sem nome|unknown|desconhecido)?$/i;
+
+const DAY_MS = 86400000;
+
+const nameTokens = (name: string): string[] =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+// One insertion, deletion or substitution apart: catches "Jaoa"/"Joao" and "Silva"/"Silvia"
+const withinOneEdit = (a: string, b: string): boolean => {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  if (a.length === b.length) return a.slice(i + 1) === b.slice(i + 1);
+  return a.length > b.length ? a.slice(i + 1) === b.slice(i) : a.slice(i) === b.slice(i + 1);
+};
+
+// An initial matches any word it starts; longer words may differ by one typo
+const tokensMatch = (a: string, b: string): boolean =>
+  a === b
+  || (a.length === 1 && b.startsWith(a))
+  || (b.length === 1 && a.startsWith(b))
+  || (Math.min(a.length, b.length) >= 4 && withinOneEdit(a, b));
+
+/**
+ * "João Silva", "Joao Silva", "João S." and "João Pedro Silva" are the same person;
+ * a first name alone is too common to match anyone but itself. First names must
+ * agree, and every other word of the shorter name must match a later word of the
+ * longer one, in order.
+ */
+const namesMatch = (a: string[], b: string[]): boolean => {
+  if (a.length < 2 || b.length < 2) return a.join(' ') === b.join(' ');
+  if (a[0].length === 1 || b[0].length === 1 || !tokensMatch(a[0], b[0])) return false;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  let j = 1;
+  return shorter.slice(1).every(token => {
+    while (j < longer.length && !tokensMatch(token, longer[j])) j++;
+    return j++ < longer.length;
+  });
+};
+
+// Full words before initials, so "João S." meets the complete names it could belong to
+const specificity = (tokens: string[]): number =>
+  tokens.filter(t => t.length > 1).length * 100 + tokens.join('').length;
+
+/**
+ * Assigns each spelling to a group. A spelling that matches more than one group
+ * ("João S." with both João Silva and João Santos) stays on its own rather than
+ * chaining two people together.
+ */
+const groupNames = (names: string[]): Map<string, number> => {
+  const entries = Array.from(new Set(names))
+    .map(name => ({ name, tokens: nameTokens(name) }))
+    .sort((a, b) => specificity(b.tokens) - specificity(a.tokens) || a.name.localeCompare(b.name));
+  const groups: string[][][] = [];
+  const assignment = new Map<string, number>();
+  entries.forEach(({ name, tokens }) => {
+    const candidates = groups
+      .map((members, index) => ({ members, index }))
+      .filter(({ members }) => members.some(member => namesMatch(member, tokens)));
+    if (candidates.length === 1) {
+      candidates[0].members.push(tokens);
+      assignment.set(name, candidates[0].index);
+    } else {
+      assignment.set(name, groups.push([tokens]) - 1);
+    }
+  });
+  return assignment;
+};
+
+const dayOf = (order: AuditedOrder): number | null => {
+  const date = parseOrderDate(order.date);
+  return date ? Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS) : null;
+};
+
+const chronological = (a: AuditedOrder, b: AuditedOrder): number =>
+  a.date.localeCompare(b.date) || (parseOrderTime(a.time) ?? 0) - (parseOrderTime(b.time) ?? 0);
+
+// Ties go to the fuller spelling, then to the latest one ("Maria Costa" over "Maria C.")
+const displayName = (spellings: string[]): string => {
+  const counts = new Map<string, number>();
+  spellings.forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1));
+  return Array.from(counts.keys()).sort((a, b) =>
+    counts.get(b)! - counts.get(a)! || b.length - a.length || spellings.lastIndexOf(b) - spellings.lastIndexOf(a)
+  )[0];
+};
+
+// The window of `windowDays` calendar days with the most distinct stores
+const busiestWindow = (orders: AuditedOrder[], windowDays: number): PatternFlag | null => {
+  const dated = orders.flatMap(order => {
+    const day = dayOf(order);
+    return day !== null ? [{ order, day }] : [];
+  });
+  let best: PatternFlag | null = null;
+  dated.forEach((start, i) => {
+    const inWindow = dated.slice(i).filter(d => d.day - start.day < windowDays);
+    const stores = new Set(inWindow.map(d => d.order.restaurantName)).size;
+    if (!best || stores > best.count) {
+      best = { kind: 'multi-store', count: stores, from: start.order.date, to: inWindow[inWindow.length - 1].order.date };
+    }
+  });
+  return best;
+};
+
+const detectFlags = (orders: AuditedOrder[], platforms: string[], options: PatternOptions): PatternFlag[] => {
+  const flags: PatternFlag[] = [];
+  const window = busiestWindow(orders, options.windowDays);
+  if (window && window.count >= options.minStores) flags.push(window);
+  if (platforms.length >= 2) flags.push({ kind: 'multi-platform', count: platforms.length });
+  const byCategory = new Map<ErrorCategory, number>();
+  orders.forEach(o => o.category && byCategory.set(o.category, (byCategory.get(o.category) ?? 0) + 1));
+  byCategory.forEach((count, category) => {
+    if (count >= options.minRepeats) flags.push({ kind: 'repeat-category', count, category });
+  });
+  return flags;
+};
+
+/**
+ * Groups orders by customer across platforms and restaurants and keeps the people
+ * with more than one error, most orders first (then most refunded). Orders without
+ * a customer name are left out.
+ */
+export const analyzeCustomers = (orders: AuditedOrder[], options: PatternOptions = DEFAULT_PATTERN_OPTIONS): CustomerGroup[] => {
+  const named = orders.filter(o => !NO_NAME.test(o.customerName.trim()));
+  const assignment = groupNames(named.map(o => o.customerName.trim()));
+  const byGroup = new Map<number, AuditedOrder[]>();
+  named.forEach(order => {
+    const index = assignment.get(order.customerName.trim())!;
+    byGroup.set(index, [...(byGroup.get(index) ?? []), order]);
+  });
+
+  return Array.from(byGroup)
+    .filter(([, group]) => group.length > 1)
+    .map(([index, group]) => {
+      const sorted = [...group].sort(chronological);
+      const spellings = sorted.map(o => o.customerName.trim());
+      const platforms = Array.from(new Set(sorted.map(o => o.platform))).sort();
+      return {
+        id: `${index}-${nameTokens(spellings[0]).join('-')}`,
+        name: displayName(spellings),
+        variants: Array.from(new Set(spellings)).sort(),
+        orders: sorted,
+        platforms,
+        restaurants: Array.from(new Set(sorted.map(o => o.restaurantName))).sort(),
+        refundAmount: Math.round(sorted.reduce((sum, o) => sum + (o.refundAmount ?? 0), 0) * 100) / 100,
+        flags: detectFlags(sorted, platforms, options),
+      };
+    })
+    .sort((a, b) => b.orders.length - a.orders.length || b.refundAmount - a.refundAmount || a.name.localeCompare(b.name));
+};
+
+export const describePatternFlag = (flag: PatternFlag, { t, formatDate }: Translator): string => {
+  switch (flag.kind) {
+    case 'multi-store':
+      return t('customers.flag.multiStore', { count: flag.count, from: formatDate(flag.from ?? ''), to: formatDate(flag.to ?? '') });
+    case 'multi-platform':
+      return t('customers.flag.multiPlatform', { count: flag.count });
+    case 'repeat-category':
+      return t('customers.flag.repeatCategory', { count: flag.count, category: flag.category ? t(CATEGORY_LABEL_KEYS[flag.category]) : '' });
+  }
+};
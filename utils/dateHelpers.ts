@@ -0,0 +1,90 @@
+const buildDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(year, month - 1, day);
+  // Rejects overflow such as 31/02, which Date would roll into March
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+};
+
+// Order dates are requested as YYYY-MM-DD, but reports also print 14/01/26 or 14/01/2026
+export const parseOrderDate = (value: string): Date | null => {
+  const text = (value || '').trim();
+
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) return buildDate(+match[1], +match[2], +match[3]);
+
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (match) {
+    const year = match[3].length === 2 ? 2000 + +match[3] : +match[3];
+    return buildDate(year, +match[2], +match[1]);
+  }
+  return null;
+};
+
+export const toIsoDate = (date: Date): string => {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+};
+
+export const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Monday = 0 … Sunday = 6
+export const weekdayIndex = (date: Date): number => (date.getDay() + 6) % 7;
+
+/** Parses "12:05", "12:05:30" or "7:05 PM" into minutes after midnight. */
+export const parseOrderTime = (value: string): number | null => {
+  const match = (value || '').trim().match(/^(\d{1,2})[:h](\d{2})(?::(\d{2}))?\s*([AaPp][Mm])?$/);
+  if (!match) return null;
+
+  let hours = +match[1];
+  const minutes = +match[2];
+  const seconds = match[3] ? +match[3] : 0;
+  const meridiem = match[4]?.toUpperCase();
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    if (meridiem === 'PM' && hours !== 12) hours += 12;
+    if (meridiem === 'AM' && hours === 12) hours = 0;
+  }
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+  return hours * 60 + minutes + seconds / 60;
+};
+
+export const formatMinutes = (minutes: number): string => {
+  const h = Math.floor(minutes / 60);
+  const m = Math.floor(minutes % 60);
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 1, fev: 2, feb: 2, mar: 3, abr: 4, apr: 4, mai: 5, may: 5, jun: 6, jul: 7,
+  ago: 8, aug: 8, set: 9, sep: 9, out: 10, oct: 10, nov: 11, dez: 12, dec: 12,
+};
+
+/**
+ * Like parseOrderDate, but also understands what portals print in their tables:
+ * "Today"/"Hoje", "Yesterday"/"Ontem" and "14 Jan" / "14 jan. 2026". Relative and
+ * year-less dates are resolved against the document date.
+ */
+export const parseLooseDate = (value: string, referenceDate: Date): Date | null => {
+  const text = (value || '').trim().toLowerCase();
+  const strict = parseOrderDate(text);
+  if (strict) return strict;
+
+  const ref = new Date(referenceDate.getFullYear(), referenceDate.getMonth(), referenceDate.getDate());
+  if (/^(today|hoje)\b/.test(text)) return ref;
+  if (/^(yesterday|ontem)\b/.test(text)) {
+    return new Date(ref.getFullYear(), ref.getMonth(), ref.getDate() - 1);
+  }
+
+  const match = text.match(/^(\d{1,2})(?:\s+de)?\s+([a-zç]{3})[a-zç]*\.?(?:\s+(?:de\s+)?(\d{2,4}))?/);
+  if (match && MONTHS[match[2]]) {
+    const year = match[3] ? (match[3].length === 2 ? 2000 + +match[3] : +match[3]) : ref.getFullYear();
+    return buildDate(year, MONTHS[match[2]], +match[1]);
+  }
+  return null;
+};
@@ -0,0 +1,75 @@
+import { RejectedFile, RejectionReason, SourceKind } from '../types.ts';
+
+const MIME_KINDS: Record<string, SourceKind> = {
+  'application/pdf': 'pdf',
+  'image/png': 'image',
+  'image/jpeg': 'image',
+  'image/webp': 'image',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'multipart/related': 'mhtml',
+  'message/rfc822': 'mhtml',
+  'application/x-mimearchive': 'mhtml',
+};
+
+const EXTENSION_KINDS: Record<string, SourceKind> = {
+  pdf: 'pdf',
+  png: 'image',
+  jpg: 'image',
+  jpeg: 'image',
+  webp: 'image',
+  html: 'html',
+  htm: 'html',
+  mhtml: 'mhtml',
+  mht: 'mhtml',
+};
+
+const IMAGE_MIME_BY_EXTENSION: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+// PDFs and images go to the model inline, which caps requests at ~20 MB; pages are sent as text
+export const MAX_SIZE_MB: Record<SourceKind, number> = {
+  pdf: 20,
+  image: 20,
+  html: 50,
+  mhtml: 50,
+};
+
+// Value for the file input's accept attribute
+export const ACCEPTED_FILE_TYPES = [
+  ...Object.keys(MIME_KINDS).filter(mime => !mime.startsWith('multipart') && !mime.startsWith('message')),
+  ...Object.keys(EXTENSION_KINDS).map(ext => `.${ext}`),
+].join(',');
+
+const extensionOf = (name: string): string => name.split('.').pop()?.toLowerCase() ?? '';
+
+/** Browsers often report an empty or generic type for saved pages, so the extension decides then. */
+export const detectSourceKind = (file: { name: string; type: string }): SourceKind | null =>
+  MIME_KINDS[file.type] ?? EXTENSION_KINDS[extensionOf(file.name)] ?? null;
+
+export const imageMimeType = (file: { name: string; type: string }): string =>
+  file.type.startsWith('image/') ? file.type : IMAGE_MIME_BY_EXTENSION[extensionOf(file.name)] ?? 'image/png';
+
+export const classifyFiles = (files: File[]): { accepted: File[]; rejected: RejectedFile[] } => {
+  const accepted: File[] = [];
+  const rejected: RejectedFile[] = [];
+  files.forEach(file => {
+    const kind = detectSourceKind(file);
+    const reject = (reason: RejectionReason, details: Partial<RejectedFile> = {}) =>
+      rejected.push({ name: file.name, size: file.size, reason, ...details });
+    if (!kind) {
+      reject('unsupported', { type: file.type || undefined });
+    } else if (file.size === 0) {
+      reject('empty');
+    } else if (file.size > MAX_SIZE_MB[kind] * 1024 * 1024) {
+      reject('tooLarge', { maxSizeMb: MAX_SIZE_MB[kind] });
+    } else {
+      accepted.push(file);
+    }
+  });
+  return { accepted, rejected };
+};
@@ -0,0 +1,113 @@
+import { TextLine } from './pdfText.ts';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  aacute: 'á', agrave: 'à', acirc: 'â', atilde: 'ã', eacute: 'é', ecirc: 'ê',
+  iacute: 'í', oacute: 'ó', ocirc: 'ô', otilde: 'õ', uacute: 'ú', ccedil: 'ç',
+  Aacute: 'Á', Eacute: 'É', Oacute: 'Ó', Ccedil: 'Ç', ordm: 'º', ordf: 'ª', euro: '€', ndash: '–', mdash: '—', hellip: '…',
+};
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+
+const decodeBytes = (bytes: Uint8Array, charset = 'utf-8'): string => {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+};
+
+const decodeQuotedPrintable = (body: string, charset?: string): string => {
+  const joined = body.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < joined.length; i++) {
+    const hex = joined[i] === '=' ? joined.slice(i + 1, i + 3) : '';
+    if (/^[0-9A-F]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(joined.charCodeAt(i) & 0xff);
+    }
+  }
+  return decodeBytes(new Uint8Array(bytes), charset);
+};
+
+const decodeBase64 = (body: string, charset?: string): string => {
+  const binary = atob(body.replace(/\s+/g, ''));
+  return decodeBytes(Uint8Array.from(binary, c => c.charCodeAt(0)), charset);
+};
+
+/**
+ * Pulls the main HTML document out of an MHTML archive ("Save page as… single
+ * file"). Resources such as images and stylesheets are ignored.
+ */
+export const extractHtmlFromMhtml = (raw: string): string => {
+  const boundary = raw.match(/boundary="?([^";\r\n]+)"?/i)?.[1];
+  const parts = boundary ? raw.split(`--${boundary}`) : [raw];
+
+  for (const part of parts) {
+    const split = part.search(/\r?\n\r?\n/);
+    if (split === -1) continue;
+    const headers = part.slice(0, split);
+    if (!/content-type:\s*text\/html/i.test(headers)) continue;
+
+    const body = part.slice(split).replace(/^\s+/, '');
+    const charset = headers.match(/charset="?([\w-]+)"?/i)?.[1];
+    const encoding = headers.match(/content-transfer-encoding:\s*([\w-]+)/i)?.[1]?.toLowerCase();
+    if (encoding === 'quoted-printable') return decodeQuotedPrintable(body, charset);
+    if (encoding === 'base64') return decodeBase64(body, charset);
+    return body;
+  }
+  return '';
+};
+
+/**
+ * Visible text of an HTML page, one line per table row/paragraph and cells
+ * separated by tabs. Regex-based so it runs the same in the browser and in Node.
+ */
+export const htmlToText = (html: string): string => {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/\s+/g, ' ') // Source line breaks are not significant in HTML
+    .replace(/<(script|style|noscript|svg|template|head)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<\/(td|th)>/gi, '\t')
+    .replace(/<(br|hr)\b[^>]*>/gi, '\n')
+    .replace(/<\/(tr|p|div|li|h[1-6]|section|article|header|footer|table|thead|tbody)>/gi, '\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map(line => {
+      // Empty cells are kept so columns stay aligned; the one after the last </td> is not a cell
+      const cells = line.split('\t').map(cell => cell.replace(/\s+/g, ' ').trim());
+      if (/\t\s*$/.test(line)) cells.pop();
+      return cells.some(Boolean) ? cells.join('\t') : '';
+    })
+    .filter(Boolean)
+    .join('\n');
+};
+
+// Pseudo-columns for table cells, so the PDF layout parser can read HTML tables too
+const COLUMN_WIDTH = 100;
+
+/** Turns tab-separated text into positioned lines: each cell sits at its column index. */
+export const textToLines = (text: string): TextLine[] =>
+  text.split('\n').map((line, idx) => {
+    const cells = line.split('\t')
+      .map((cellText, col) => ({ text: cellText, x: col * COLUMN_WIDTH, y: -idx, width: COLUMN_WIDTH / 2, height: 10 }))
+      .filter(cell => cell.text.length > 0);
+    return { page: 1, y: -idx, cells, text: cells.map(c => c.text).join(' ') };
+  });
+
+/** Visible text of a saved page (.html or single-file .mhtml). */
+export const readSavedPageText = async (file: File, kind: 'html' | 'mhtml'): Promise<string> => {
+  const raw = await file.text();
+  return htmlToText(kind === 'mhtml' ? extractHtmlFromMhtml(raw) : raw);
+};
@@ -0,0 +1,19 @@
+/**
+ * Reads amounts as POS and partner exports print them: "12,50 €", "€12.50",
+ * "1.234,56" or "1,234.56". The last separator is taken as the decimal one when
+ * it is followed by one or two digits.
+ */
+export const parseAmount = (value: string): number | null => {
+  const text = (value || '').replace(/[^\d,.-]/g, '');
+  if (!/\d/.test(text)) return null;
+
+  const lastSeparator = Math.max(text.lastIndexOf(','), text.lastIndexOf('.'));
+  const decimals = lastSeparator === -1 ? '' : text.slice(lastSeparator + 1);
+  const isDecimal = lastSeparator !== -1 && decimals.length > 0 && decimals.length <= 2;
+  const integerPart = (isDecimal ? text.slice(0, lastSeparator) : text).replace(/[,.]/g, '');
+  const amount = Number(isDecimal ? `${integerPart}.${decimals}` : integerPart);
+  return Number.isFinite(amount) ? amount : null;
+};
+
+export const formatAmount = (value: number, locale = 'pt-PT'): string =>
+  value.toLocaleString(locale, { style: 'currency', currency: 'EUR' });
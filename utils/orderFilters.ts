@@ -0,0 +1,119 @@
+import { AuditedOrder, NameMasker, OrderFilters, OrderSort } from '../types.ts';
+import { parseOrderDate, parseOrderTime, toIsoDate } from './dateHelpers.ts';
+import type { Translator } from '../services/i18n.ts';
+
+export const EMPTY_FILTERS: OrderFilters = {
+  search: '',
+  restaurants: [],
+  platforms: [],
+  sourceFile: '',
+  dateFrom: '',
+  dateTo: '',
+  timeFrom: '',
+  timeTo: '',
+};
+
+const fold = (value: string): string =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// While names are masked, search and sort go by the masked name the table shows
+const customerOf = (order: AuditedOrder, maskName?: NameMasker): string => {
+  const name = order.customerName ?? '';
+  return maskName && name ? maskName(name) : name;
+};
+
+const isoDateOf = (order: AuditedOrder): string | null => {
+  const date = parseOrderDate(order.date);
+  return date ? toIsoDate(date) : null;
+};
+
+/** A from/to pair where from > to wraps past midnight, e.g. 22:00–02:00. */
+const inTimeRange = (minutes: number, from: number | null, to: number | null): boolean => {
+  if (from === null && to === null) return true;
+  if (from !== null && to !== null && from > to) return minutes >= from || minutes <= to;
+  return (from === null || minutes >= from) && (to === null || minutes <= to);
+};
+
+export const countActiveFilters = (filters: OrderFilters): number =>
+  [
+    filters.search.trim(),
+    filters.restaurants.length,
+    filters.platforms.length,
+    filters.sourceFile,
+    filters.dateFrom || filters.dateTo,
+    filters.timeFrom || filters.timeTo,
+  ].filter(Boolean).length;
+
+export const filterOrders = (orders: AuditedOrder[], filters: OrderFilters, maskName?: NameMasker): AuditedOrder[] => {
+  const search = fold(filters.search.trim());
+  const timeFrom = filters.timeFrom ? parseOrderTime(filters.timeFrom) : null;
+  const timeTo = filters.timeTo ? parseOrderTime(filters.timeTo) : null;
+
+  return orders.filter(order => {
+    if (filters.restaurants.length > 0 && !filters.restaurants.includes(order.restaurantName)) return false;
+    if (filters.platforms.length > 0 && !filters.platforms.includes(order.platform)) return false;
+    if (filters.sourceFile && !order.sourceFiles.includes(filters.sourceFile)) return false;
+
+    if (search) {
+      const haystack = fold(`${order.orderNumber} ${customerOf(order, maskName)}`);
+      if (!haystack.includes(search)) return false;
+    }
+
+    if (filters.dateFrom || filters.dateTo) {
+      const date = isoDateOf(order);
+      if (!date) return false;
+      if (filters.dateFrom && date < filters.dateFrom) return false;
+      if (filters.dateTo && date > filters.dateTo) return false;
+    }
+
+    if (timeFrom !== null || timeTo !== null) {
+      const minutes = parseOrderTime(order.time);
+      if (minutes === null || !inTimeRange(minutes, timeFrom, timeTo)) return false;
+    }
+    return true;
+  });
+};
+
+// Dates and times sort chronologically; rows with unreadable values go last
+const sortKey = (order: AuditedOrder, field: OrderSort['field'], maskName?: NameMasker): string | number | null => {
+  switch (field) {
+    case 'date': return isoDateOf(order);
+    case 'time': return parseOrderTime(order.time);
+    case 'orderValue':
+    case 'refundAmount': return order[field] ?? null;
+    case 'customerName': return fold(customerOf(order, maskName));
+    default: return fold(String(order[field] ?? ''));
+  }
+};
+
+export const sortOrders = (orders: AuditedOrder[], sort: OrderSort | null, maskName?: NameMasker): AuditedOrder[] => {
+  if (!sort) return orders;
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  return orders
+    .map(order => ({ order, key: sortKey(order, sort.field, maskName) }))
+    .sort((a, b) => {
+      if (a.key === null || b.key === null) return a.key === b.key ? 0 : a.key === null ? 1 : -1;
+      if (typeof a.key === 'number' && typeof b.key === 'number') return (a.key - b.key) * factor;
+      return String(a.key).localeCompare(String(b.key), 'pt-BR', { numeric: true }) * factor;
+    })
+    .map(entry => entry.order);
+};
+
+/** Human-readable lines for the report header, one per active filter. */
+export const describeFilters = (filters: OrderFilters, { t, formatDate, formatTime }: Translator): string[] => {
+  const lines: string[] = [];
+  if (filters.restaurants.length) lines.push(t('filters.desc.restaurants', { list: filters.restaurants.join(', ') }));
+  if (filters.platforms.length) lines.push(t('filters.desc.platforms', { list: filters.platforms.join(', ') }));
+  if (filters.dateFrom || filters.dateTo) {
+    lines.push(t('filters.desc.period', {
+      from: filters.dateFrom ? formatDate(filters.dateFrom) : '…',
+      to: filters.dateTo ? formatDate(filters.dateTo) : '…',
+    }));
+  }
+  if (filters.timeFrom || filters.timeTo) {
+    lines.push(t('filters.desc.time', { from: formatTime(filters.timeFrom || '00:00'), to: formatTime(filters.timeTo || '23:59') }));
+  }
+  if (filters.sourceFile) lines.push(t('filters.desc.file', { name: filters.sourceFile }));
+  if (filters.search.trim()) lines.push(t('filters.desc.search', { text: filters.search.trim() }));
+  return lines;
+};
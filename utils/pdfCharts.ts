@@ -0,0 +1,113 @@
+import { jsPDF } from 'jspdf';
+import { DailySeries, HourHeatmap, PlatformDefinition, TrendDimension } from '../types.ts';
+import { seriesColor } from './trends.ts';
+
+export interface ChartBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const MAX_SERIES = 8;
+
+const formatDayMonth = (isoDate: string): string => `${isoDate.slice(8, 10)}/${isoDate.slice(5, 7)}`;
+
+/** Draws the daily series as a line chart with a legend below; returns the y after the legend. */
+export const drawDailyChart = (
+  doc: jsPDF,
+  data: DailySeries,
+  dimension: TrendDimension,
+  registry: PlatformDefinition[],
+  box: ChartBox,
+  formatDay: (isoDate: string) => string = formatDayMonth
+): number => {
+  const series = data.series.slice(0, MAX_SERIES);
+  const max = Math.max(1, ...series.flatMap(s => s.values));
+  const left = box.x + 8;
+  const bottom = box.y + box.height - 6;
+  const innerW = box.width - 8;
+  const innerH = box.height - 6;
+  const x = (idx: number) => left + (data.dates.length > 1 ? (idx / (data.dates.length - 1)) * innerW : innerW / 2);
+  const y = (value: number) => bottom - (value / max) * innerH;
+
+  doc.setFontSize(7);
+  doc.setTextColor(150);
+  doc.setLineWidth(0.1);
+  [0, 0.5, 1].forEach(f => {
+    doc.setDrawColor(229, 231, 235);
+    doc.line(left, y(max * f), left + innerW, y(max * f));
+    doc.text(String(Math.round(max * f)), left - 2, y(max * f) + 1, { align: 'right' });
+  });
+  const labelEvery = Math.max(1, Math.ceil(data.dates.length / 10));
+  data.dates.forEach((date, idx) => {
+    if (idx % labelEvery === 0) doc.text(formatDay(date), x(idx), bottom + 4, { align: 'center' });
+  });
+
+  doc.setLineWidth(0.5);
+  series.forEach((s, sIdx) => {
+    doc.setDrawColor(...hexToRgb(seriesColor(s.name, sIdx, dimension, registry)));
+    for (let idx = 1; idx < s.values.length; idx++) {
+      doc.line(x(idx - 1), y(s.values[idx - 1]), x(idx), y(s.values[idx]));
+    }
+  });
+
+  // Legend, wrapping across the chart width
+  let legendX = box.x;
+  let legendY = box.y + box.height + 6;
+  doc.setFontSize(8);
+  doc.setTextColor(80);
+  series.forEach((s, sIdx) => {
+    const label = `${s.name} (${s.values.reduce((sum, v) => sum + v, 0)})`;
+    const labelWidth = doc.getTextWidth(label) + 8;
+    if (legendX + labelWidth > box.x + box.width) {
+      legendX = box.x;
+      legendY += 5;
+    }
+    doc.setFillColor(...hexToRgb(seriesColor(s.name, sIdx, dimension, registry)));
+    doc.rect(legendX, legendY - 2.5, 3, 3, 'F');
+    doc.text(label, legendX + 4, legendY);
+    legendX += labelWidth;
+  });
+  doc.setLineWidth(0.2);
+  return legendY + 4;
+};
+
+/** Weekday × hour grid shaded from white to brand blue; returns the y below the grid. */
+export const drawHourHeatmap = (
+  doc: jsPDF,
+  heatmap: HourHeatmap,
+  x: number,
+  y: number,
+  weekdayLabels: string[], // Monday first
+  cellSize = 6.5
+): number => {
+  const labelWidth = 10;
+  doc.setFontSize(7);
+  doc.setTextColor(120);
+  for (let hour = 0; hour < 24; hour += 3) {
+    doc.text(String(hour), x + labelWidth + hour * cellSize + cellSize / 2, y, { align: 'center' });
+  }
+  heatmap.cells.forEach((row, day) => {
+    const rowY = y + 2 + day * cellSize;
+    doc.setTextColor(120);
+    doc.text(weekdayLabels[day], x, rowY + cellSize / 2 + 1);
+    row.forEach((count, hour) => {
+      const intensity = count === 0 ? 0 : 0.15 + 0.85 * (count / Math.max(1, heatmap.max));
+      // Blend brand-600 (2, 132, 199) over a light grey background
+      const blend = (target: number, base: number) => Math.round(base + (target - base) * intensity);
+      doc.setFillColor(blend(2, 243), blend(132, 244), blend(199, 246));
+      doc.rect(x + labelWidth + hour * cellSize, rowY, cellSize - 0.6, cellSize - 0.6, 'F');
+      if (count > 0) {
+        doc.setTextColor(intensity > 0.5 ? 255 : 60);
+        doc.text(String(count), x + labelWidth + hour * cellSize + (cellSize - 0.6) / 2, rowY + cellSize / 2 + 0.8, { align: 'center' });
+      }
+    });
+  });
+  return y + 2 + heatmap.cells.length * cellSize;
+};
@@ -0,0 +1,103 @@
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import type { PDFDocumentProxy, PDFPageProxy } from "pdfjs-dist/legacy/build/pdf.mjs";
+import { OrderError, SourceRegion } from "../types.ts";
+
+export interface LocatedRow {
+  page: number;
+  region: SourceRegion;
+}
+
+interface PageItem {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const normalize = (value: string): string => value.replace(/\s+/g, '').toUpperCase();
+
+export const openPdf = (data: ArrayBuffer): Promise<PDFDocumentProxy> =>
+  getDocument({ data: new Uint8Array(data), isEvalSupported: false }).promise;
+
+const readItems = async (page: PDFPageProxy): Promise<PageItem[]> => {
+  const content = await page.getTextContent();
+  const items: PageItem[] = [];
+  content.items.forEach(item => {
+    if (!('str' in item) || !item.str.trim()) return;
+    items.push({
+      str: item.str,
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width,
+      height: item.height || Math.abs(item.transform[3]),
+    });
+  });
+  return items;
+};
+
+/**
+ * Finds the text line holding the order number on one page and returns its box
+ * across the page width, so the whole row is highlighted rather than one cell.
+ */
+const locateOnPage = async (pdf: PDFDocumentProxy, pageNumber: number, orderNumber: string): Promise<SourceRegion | null> => {
+  const page = await pdf.getPage(pageNumber);
+  const items = await readItems(page);
+  const target = normalize(orderNumber);
+  const hit = items.find(item => normalize(item.str).replace(/^#/, '').includes(target));
+  if (!hit) return null;
+
+  const tolerance = Math.max(2, hit.height * 0.5);
+  const line = items.filter(item => Math.abs(item.y - hit.y) <= tolerance);
+  const bottom = Math.min(...line.map(i => i.y)) - hit.height * 0.3;
+  const top = Math.max(...line.map(i => i.y + i.height)) + hit.height * 0.3;
+
+  const viewport = page.getViewport({ scale: 1 });
+  const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([
+    Math.min(...line.map(i => i.x)) - 2,
+    bottom,
+    Math.max(...line.map(i => i.x + i.width)) + 2,
+    top,
+  ]);
+  return {
+    x: Math.min(x1, x2) / viewport.width,
+    y: Math.min(y1, y2) / viewport.height,
+    width: Math.abs(x2 - x1) / viewport.width,
+    height: Math.abs(y2 - y1) / viewport.height,
+  };
+};
+
+/**
+ * Where an order sits in its PDF: a region reported by the extractor wins,
+ * otherwise the order number is searched on its page, then on every page (the
+ * page may be missing or off by one on chunk boundaries).
+ */
+export const locateOrder = async (pdf: PDFDocumentProxy, order: OrderError): Promise<LocatedRow | null> => {
+  if (order.page && order.region && order.page <= pdf.numPages) {
+    return { page: order.page, region: order.region };
+  }
+  const pages = Array.from({ length: pdf.numPages }, (_, i) => i + 1);
+  const ordered = order.page ? [order.page, ...pages.filter(p => p !== order.page)] : pages;
+  for (const pageNumber of ordered) {
+    if (pageNumber > pdf.numPages) continue;
+    const region = await locateOnPage(pdf, pageNumber, order.orderNumber);
+    if (region) return { page: pageNumber, region };
+  }
+  return null;
+};
+
+/** Draws one page into the canvas at the given CSS width. */
+export const renderPdfPage = async (pdf: PDFDocumentProxy, pageNumber: number, canvas: HTMLCanvasElement, width: number): Promise<void> => {
+  const page = await pdf.getPage(pageNumber);
+  const base = page.getViewport({ scale: 1 });
+  const ratio = window.devicePixelRatio || 1;
+  const viewport = page.getViewport({ scale: (width / base.width) * ratio });
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  canvas.style.width = `${width}px`;
+  canvas.style.height = `${viewport.height / ratio}px`;
+  await page.render({ canvasContext: context, viewport }).promise;
+};
@@ -0,0 +1,93 @@
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+
+export interface TextCell {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// One visual line of a page: text items sharing a baseline, merged into cells
+export interface TextLine {
+  page: number;
+  y: number;
+  cells: TextCell[];
+  text: string;
+}
+
+export interface PdfText {
+  pageCount: number;
+  lines: TextLine[];
+}
+
+interface RawItem {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Items closer than roughly one character height belong to the same cell; table
+ * columns are separated by much wider gaps.
+ */
+const groupIntoLines = (items: RawItem[], page: number): TextLine[] => {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: RawItem[][] = [];
+
+  sorted.forEach(item => {
+    const row = rows[rows.length - 1];
+    const tolerance = Math.max(2, item.height * 0.5);
+    if (row && Math.abs(row[0].y - item.y) <= tolerance) row.push(item);
+    else rows.push([item]);
+  });
+
+  return rows.map(row => {
+    const ordered = row.sort((a, b) => a.x - b.x);
+    const cells: TextCell[] = [];
+    ordered.forEach(item => {
+      const last = cells[cells.length - 1];
+      const gap = last ? item.x - (last.x + last.width) : Infinity;
+      if (last && gap < Math.max(4, item.height)) {
+        last.text += gap > item.height * 0.15 && !last.text.endsWith(' ') ? ` ${item.str}` : item.str;
+        last.width = item.x + item.width - last.x;
+        last.height = Math.max(last.height, item.height);
+      } else {
+        cells.push({ text: item.str, x: item.x, y: item.y, width: item.width, height: item.height });
+      }
+    });
+    const trimmed = cells
+      .map(c => ({ ...c, text: c.text.replace(/\s+/g, ' ').trim() }))
+      .filter(c => c.text.length > 0);
+    return { page, y: row[0].y, cells: trimmed, text: trimmed.map(c => c.text).join(' ') };
+  }).filter(line => line.cells.length > 0);
+};
+
+/** Reads the text layer of a PDF as positioned lines, top to bottom, page by page. */
+export const extractPdfText = async (data: ArrayBuffer): Promise<PdfText> => {
+  const pdf = await getDocument({ data: new Uint8Array(data), isEvalSupported: false }).promise;
+  try {
+    const lines: TextLine[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items: RawItem[] = [];
+      content.items.forEach(item => {
+        if (!('str' in item) || !item.str.trim()) return;
+        items.push({
+          str: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width,
+          height: item.height || Math.abs(item.transform[3]),
+        });
+      });
+      lines.push(...groupIntoLines(items, pageNumber));
+    }
+    return { pageCount: pdf.numPages, lines };
+  } finally {
+    await pdf.destroy();
+  }
+};
@@ -0,0 +1,6 @@
+import { GlobalWorkerOptions } from "pdfjs-dist/legacy/build/pdf.mjs";
+import workerUrl from "pdfjs-dist/legacy/build/pdf.worker.min.mjs?url";
+
+// Browser entry only: pdf.js parses documents in a web worker served by Vite.
+// Node (tests, scripts) runs pdf.js without a worker and never imports this file.
+GlobalWorkerOptions.workerSrc = workerUrl;
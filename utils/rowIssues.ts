@@ -0,0 +1,22 @@
+import { RowIssue, RowIssueCode } from '../types.ts';
+import { MessageKey, Translator } from '../services/i18n.ts';
+
+const ISSUE_KEYS: Record<RowIssueCode, MessageKey> = {
+  NOT_AN_OBJECT: 'rowIssue.NOT_AN_OBJECT',
+  PLATFORM_MISSING: 'rowIssue.PLATFORM_MISSING',
+  PLATFORM_UNKNOWN: 'rowIssue.PLATFORM_UNKNOWN',
+  ORDER_ID_MISSING: 'rowIssue.ORDER_ID_MISSING',
+  ORDER_ID_FORMAT: 'rowIssue.ORDER_ID_FORMAT',
+  STORE_MISSING: 'rowIssue.STORE_MISSING',
+  DATE_MISSING: 'rowIssue.DATE_MISSING',
+  DATE_INVALID: 'rowIssue.DATE_INVALID',
+  TIME_MISSING: 'rowIssue.TIME_MISSING',
+  TIME_INVALID: 'rowIssue.TIME_INVALID',
+  CUSTOMER_NOT_TEXT: 'rowIssue.CUSTOMER_NOT_TEXT',
+  ORDER_VALUE_INVALID: 'rowIssue.ORDER_VALUE_INVALID',
+  REFUND_INVALID: 'rowIssue.REFUND_INVALID',
+};
+
+/** Message for a validation reason; runs saved before reasons had codes hold the text itself. */
+export const describeRowIssue = (issue: RowIssue | string, { t }: Translator): string =>
+  typeof issue === 'string' ? issue : t(ISSUE_KEYS[issue.code], issue.params);
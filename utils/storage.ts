@@ -0,0 +1,18 @@
+export const loadFromStorage = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    if (raw === null) return fallback;
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    console.error(`Failed to read "${key}" from localStorage:`, error);
+    return fallback;
+  }
+};
+
+export const saveToStorage = <T>(key: string, value: T): void => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Failed to write "${key}" to localStorage:`, error);
+  }
+};
@@ -0,0 +1,60 @@
+import { ImpactStats, OrderError, PlatformDefinition, RestaurantStats, SummaryCategory, SummaryStats } from '../types.ts';
+import { findPlatform } from '../services/platforms.ts';
+import { ERROR_CATEGORIES, UNCATEGORIZED } from '../services/errorCategories.ts';
+
+// Standard column order in tables and reports: by registry priority, then the rest alphabetically
+export const sortPlatforms = (platforms: Iterable<string>, registry: PlatformDefinition[]): string[] => {
+  const priority = (name: string) => findPlatform(name, registry)?.priority ?? Number.POSITIVE_INFINITY;
+  return Array.from(platforms).sort((a, b) => {
+    const pa = priority(a);
+    const pb = priority(b);
+    if (pa !== pb) return pa < pb ? -1 : 1;
+    return a.localeCompare(b);
+  });
+};
+
+const emptyImpact = (): ImpactStats => ({ count: 0, orderValue: 0, refundAmount: 0 });
+
+const addToImpact = (impact: ImpactStats, order: OrderError): void => {
+  impact.count++;
+  impact.orderValue += order.orderValue ?? 0;
+  impact.refundAmount += order.refundAmount ?? 0;
+};
+
+/** Sums a list of impacts, e.g. a column of the category table. */
+export const sumImpact = (impacts: (ImpactStats | undefined)[]): ImpactStats =>
+  impacts.reduce<ImpactStats>((sum, impact) => impact
+    ? { count: sum.count + impact.count, orderValue: sum.orderValue + impact.orderValue, refundAmount: sum.refundAmount + impact.refundAmount }
+    : sum, emptyImpact());
+
+/**
+ * Restaurant × platform order counts, with a column for every platform present in
+ * `orders`, and the € impact of each restaurant overall and per error category.
+ */
+export const buildSummaryStats = (orders: OrderError[], registry: PlatformDefinition[]): SummaryStats => {
+  const stats: Record<string, RestaurantStats> = {};
+  const impact: Record<string, ImpactStats> = {};
+  const byCategory: SummaryStats['byCategory'] = {};
+  const platforms = sortPlatforms(new Set(orders.map(o => o.platform)), registry);
+  const present = new Set<SummaryCategory>(orders.map(o => o.category ?? UNCATEGORIZED));
+  const categories = [...ERROR_CATEGORIES, UNCATEGORIZED].filter(c => present.has(c));
+
+  orders.forEach(order => {
+    const rest = order.restaurantName;
+    const plat = order.platform;
+
+    if (!stats[rest]) {
+      stats[rest] = { total: 0 };
+      platforms.forEach(p => stats[rest][p] = 0);
+    }
+
+    stats[rest][plat]++;
+    stats[rest].total++;
+
+    addToImpact(impact[rest] ??= emptyImpact(), order);
+    const restCategories = byCategory[rest] ??= {};
+    addToImpact(restCategories[order.category ?? UNCATEGORIZED] ??= emptyImpact(), order);
+  });
+
+  return { stats, platforms, impact, categories, byCategory };
+};
@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AuditedOrder, ThresholdRule } from '../types.ts';
+import { evaluateThresholds } from './thresholds.ts';
+
+const order = (date: string, n: number): AuditedOrder => ({
+  key: `Glovo::${n}`, orderNumber: String(101548700 + n), restaurantName: 'Amoreiras', date, time: '12:00',
+  customerName: 'N/A', platform: 'Glovo', sourceFile: 'a.pdf', sourceFiles: ['a.pdf'],
+});
+
+const weekly: ThresholdRule = { id: 'w', restaurant: '', platform: '', period: 'week', kind: 'count', limit: 2 };
+
+// Week of Monday 12 January 2026; the range starts on the Wednesday
+const orders = [order('2026-01-06', 1), order('2026-01-13', 2), order('2026-01-14', 3), order('2026-01-15', 4), order('2026-01-16', 5)];
+
+test('a week overlapping the start of the range is clipped to it', () => {
+  const [breach, ...rest] = evaluateThresholds(orders, [weekly], { dateFrom: '2026-01-14', dateTo: '2026-01-31' });
+  assert.equal(rest.length, 0);
+  assert.equal(breach.periodStart, '2026-01-12');
+  assert.equal(breach.count, 3);
+  assert.deepEqual(breach.orders.map(o => o.date), ['2026-01-14', '2026-01-15', '2026-01-16']);
+});
+
+test('a week overlapping the end of the range counts only the days inside it', () => {
+  assert.deepEqual(evaluateThresholds(orders, [weekly], { dateFrom: '2026-01-01', dateTo: '2026-01-14' }), []);
+  const [breach] = evaluateThresholds(orders, [weekly], { dateFrom: '2026-01-01', dateTo: '2026-01-15' });
+  assert.equal(breach.count, 3);
+});
+
+test('without a range every whole week is checked', () => {
+  const breaches = evaluateThresholds(orders, [weekly]);
+  assert.deepEqual(breaches.map(b => [b.periodStart, b.count]), [['2026-01-12', 4]]);
+});
@@ -0,0 +1,102 @@
+import { AuditedOrder, OrderFilters, ThresholdBreach, ThresholdKind, ThresholdPeriod, ThresholdRule } from '../types.ts';
+import { MessageKey, PluralKey, Translator } from '../services/i18n.ts';
+import { addDays, parseOrderDate, toIsoDate, weekdayIndex } from './dateHelpers.ts';
+
+const BREACH_KEYS: Record<ThresholdKind, Record<ThresholdPeriod, PluralKey>> = {
+  count: { day: 'thresholds.breach.count.day', week: 'thresholds.breach.count.week' },
+  change: { day: 'thresholds.breach.change.day', week: 'thresholds.breach.change.week' },
+};
+
+const RULE_KEYS: Record<ThresholdKind, Record<ThresholdPeriod, MessageKey>> = {
+  count: { day: 'thresholds.rule.count.day', week: 'thresholds.rule.count.week' },
+  change: { day: 'thresholds.rule.change.day', week: 'thresholds.rule.change.week' },
+};
+
+const sameName = (a: string, b: string): boolean =>
+  a.trim().localeCompare(b.trim(), undefined, { sensitivity: 'accent' }) === 0;
+
+const periodStart = (date: Date, period: ThresholdPeriod): Date =>
+  period === 'day' ? date : addDays(date, -weekdayIndex(date));
+
+const periodBefore = (start: string, period: ThresholdPeriod): string =>
+  toIsoDate(addDays(parseOrderDate(start)!, period === 'day' ? -1 : -7));
+
+const periodEnd = (start: string, period: ThresholdPeriod): string =>
+  period === 'day' ? start : toIsoDate(addDays(parseOrderDate(start)!, 6));
+
+type DateRange = Pick<OrderFilters, 'dateFrom' | 'dateTo'>;
+
+// Empty ends leave the range open, as in the table's period filter
+const inRange = (date: string, { dateFrom, dateTo }: DateRange): boolean =>
+  (!dateFrom || date >= dateFrom) && (!dateTo || date <= dateTo);
+
+const changePct = (count: number, previous: number): number =>
+  Math.round(((count - previous) / previous) * 100);
+
+/** Restaurant → period start → the rule's orders, oldest first. */
+const bucketOrders = (orders: AuditedOrder[], rule: ThresholdRule): Map<string, Map<string, AuditedOrder[]>> => {
+  const buckets = new Map<string, Map<string, AuditedOrder[]>>();
+  orders.forEach(order => {
+    if (rule.restaurant && !sameName(order.restaurantName, rule.restaurant)) return;
+    if (rule.platform && !sameName(order.platform, rule.platform)) return;
+    const date = parseOrderDate(order.date);
+    if (!date) return;
+    const byPeriod = buckets.get(order.restaurantName) ?? new Map<string, AuditedOrder[]>();
+    const key = toIsoDate(periodStart(date, rule.period));
+    byPeriod.set(key, [...(byPeriod.get(key) ?? []), order]);
+    buckets.set(order.restaurantName, byPeriod);
+  });
+  buckets.forEach(byPeriod => byPeriod.forEach(list =>
+    list.sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time))
+  ));
+  return buckets;
+};
+
+/**
+ * Every restaurant and period that crosses a rule, latest period first. A change
+ * rule needs errors in the period before to compare with, so a first bad day
+ * after a clean one is left to the count rules.
+ *
+ * Periods are whole days and weeks over all of `orders`; with a date range, a week
+ * that only overlaps it is clipped to it: just its errors inside the range count,
+ * while the week before is still compared whole.
+ */
+export const evaluateThresholds = (
+  orders: AuditedOrder[],
+  rules: ThresholdRule[],
+  range: DateRange = { dateFrom: '', dateTo: '' }
+): ThresholdBreach[] => {
+  const breaches: ThresholdBreach[] = [];
+  rules.forEach(rule => {
+    bucketOrders(orders, rule).forEach((byPeriod, restaurant) => {
+      byPeriod.forEach((allInPeriod, start) => {
+        if ((range.dateFrom && periodEnd(start, rule.period) < range.dateFrom) || (range.dateTo && start > range.dateTo)) return;
+        const periodOrders = allInPeriod.filter(order => inRange(toIsoDate(parseOrderDate(order.date)!), range));
+        const count = periodOrders.length;
+        if (rule.kind === 'count') {
+          if (count > rule.limit) breaches.push({ rule, restaurant, periodStart: start, count, orders: periodOrders });
+          return;
+        }
+        const previous = byPeriod.get(periodBefore(start, rule.period))?.length ?? 0;
+        if (previous > 0 && changePct(count, previous) > rule.limit) {
+          breaches.push({ rule, restaurant, periodStart: start, count, previous, orders: periodOrders });
+        }
+      });
+    });
+  });
+  return breaches.sort((a, b) => b.periodStart.localeCompare(a.periodStart) || a.restaurant.localeCompare(b.restaurant));
+};
+
+/** "Any restaurant · Bolt: errors up more than 100% on the week before", as listed in the settings. */
+export const describeThresholdRule = (rule: ThresholdRule, { t }: Translator): string => {
+  const scope = `${rule.restaurant || t('thresholds.anyRestaurant')} · ${rule.platform || t('thresholds.anyPlatform')}`;
+  return `${scope}: ${t(RULE_KEYS[rule.kind][rule.period], { limit: rule.limit })}`;
+};
+
+export const describeThresholdBreach = (breach: ThresholdBreach, { tn, formatDate }: Translator): string =>
+  tn(BREACH_KEYS[breach.rule.kind][breach.rule.period], breach.count, {
+    date: formatDate(breach.periodStart),
+    previous: breach.previous ?? 0,
+    change: breach.previous ? changePct(breach.count, breach.previous) : 0,
+    limit: breach.rule.limit,
+  });
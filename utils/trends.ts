@@ -0,0 +1,99 @@
+import { DailySeries, HourHeatmap, OrderError, PlatformDefinition, TrendDimension, WeekOverWeek, WeekOverWeekRow } from '../types.ts';
+import { findPlatform } from '../services/platforms.ts';
+import { addDays, parseOrderDate, parseOrderTime, toIsoDate, weekdayIndex } from './dateHelpers.ts';
+
+// Line colors for restaurants; platforms use their badge colors
+export const SERIES_COLORS = ['#0284c7', '#f59e0b', '#10b981', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#6b7280'];
+
+export const seriesColor = (name: string, index: number, dimension: TrendDimension, registry: PlatformDefinition[]): string =>
+  (dimension === 'platform' && findPlatform(name, registry)?.color) || SERIES_COLORS[index % SERIES_COLORS.length];
+
+const datedOrders = <T extends OrderError>(orders: T[]): { order: T; date: Date }[] =>
+  orders.flatMap(order => {
+    const date = parseOrderDate(order.date);
+    return date ? [{ order, date }] : [];
+  });
+
+/** One series per restaurant or platform, with zero-filled days between the first and last order. */
+export const buildDailySeries = (orders: OrderError[], dimension: TrendDimension): DailySeries => {
+  const dated = datedOrders(orders);
+  if (dated.length === 0) return { dates: [], series: [] };
+
+  const times = dated.map(d => d.date.getTime());
+  const first = new Date(Math.min(...times));
+  const last = new Date(Math.max(...times));
+  const dates: string[] = [];
+  for (let day = first; day <= last; day = addDays(day, 1)) dates.push(toIsoDate(day));
+  const indexOf = new Map(dates.map((d, idx) => [d, idx]));
+
+  const byName = new Map<string, number[]>();
+  dated.forEach(({ order, date }) => {
+    const name = order[dimension];
+    if (!byName.has(name)) byName.set(name, new Array(dates.length).fill(0));
+    byName.get(name)![indexOf.get(toIsoDate(date))!]++;
+  });
+
+  const series = Array.from(byName, ([name, values]) => ({ name, values }))
+    .sort((a, b) => b.values.reduce((s, v) => s + v, 0) - a.values.reduce((s, v) => s + v, 0));
+  return { dates, series };
+};
+
+export const buildHourHeatmap = (orders: OrderError[]): HourHeatmap => {
+  const cells = Array.from({ length: 7 }, () => new Array(24).fill(0));
+  datedOrders(orders).forEach(({ order, date }) => {
+    const minutes = parseOrderTime(order.time);
+    if (minutes === null) return;
+    cells[weekdayIndex(date)][Math.floor(minutes / 60)]++;
+  });
+  return { cells, max: Math.max(0, ...cells.flat()) };
+};
+
+const toRow = (name: string, current: number, previous: number): WeekOverWeekRow => ({
+  name,
+  current,
+  previous,
+  delta: current - previous,
+  deltaPct: previous > 0 ? (current - previous) / previous : null,
+});
+
+/**
+ * Compares the latest week with data (Monday to Sunday) against the week before,
+ * per restaurant or platform, plus a row named `totalName`. Returns null when
+ * there are no dated orders.
+ */
+export const buildWeekOverWeek = (orders: OrderError[], dimension: TrendDimension, totalName: string): WeekOverWeek | null => {
+  const dated = datedOrders(orders);
+  if (dated.length === 0) return null;
+
+  const latest = new Date(Math.max(...dated.map(d => d.date.getTime())));
+  const weekStart = addDays(latest, -weekdayIndex(latest));
+  const previousStart = addDays(weekStart, -7);
+  const weekEnd = addDays(weekStart, 7);
+
+  const counts = new Map<string, { current: number; previous: number }>();
+  dated.forEach(({ order, date }) => {
+    const bucket = date >= weekStart && date < weekEnd ? 'current'
+      : date >= previousStart && date < weekStart ? 'previous'
+      : null;
+    if (!bucket) return;
+    const name = order[dimension];
+    const entry = counts.get(name) ?? { current: 0, previous: 0 };
+    entry[bucket]++;
+    counts.set(name, entry);
+  });
+
+  const rows = Array.from(counts, ([name, c]) => toRow(name, c.current, c.previous))
+    .sort((a, b) => b.current - a.current || b.previous - a.previous);
+  const total = toRow(
+    totalName,
+    rows.reduce((sum, r) => sum + r.current, 0),
+    rows.reduce((sum, r) => sum + r.previous, 0)
+  );
+  return { weekStart: toIsoDate(weekStart), rows, total };
+};
+
+export const formatDelta = (row: WeekOverWeekRow): string => {
+  const sign = row.delta > 0 ? '+' : '';
+  const pct = row.deltaPct === null ? '' : ` (${sign}${Math.round(row.deltaPct * 100)}%)`;
+  return `${sign}${row.delta}${pct}`;
+};
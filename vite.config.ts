@@ -4,16 +4,20 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The Gemini key stays with the API server (server/index.ts); the browser only sees /api
+    const proxy = {
+      '/api': env.API_SERVER_URL || 'http://localhost:8787',
+    };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy,
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      preview: {
+        proxy,
       },
+      plugins: [react()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),